@@ -0,0 +1,105 @@
+import { cosmosInstrumentations } from "./cosmosFetch.ts";
+
+/**
+ * Describes an attempt to send a request to Cosmos.
+ */
+export interface CosmosRequestEvent {
+  /**
+   * The name of the operation making the request, e.g. createDocument.
+   */
+  operation: string;
+
+  /**
+   * The link of the resource that the request is made to,
+   * e.g. dbs/mydb/colls/mycol/docs.
+   */
+  resourceLink: string;
+
+  /**
+   * The attempt number, starting at 1 and increasing each time
+   * the request is retried.
+   */
+  attempt: number;
+
+  /**
+   * The Http method of the request.
+   */
+  method: string;
+
+  /**
+   * The url of the request.
+   */
+  url: string;
+
+  /**
+   * The headers of the request, with the value of the
+   * Authorization header redacted.
+   */
+  headers: Record<string, string>;
+}
+
+/**
+ * Describes the outcome of an attempt to send a request to Cosmos.
+ */
+export interface CosmosResponseEvent extends CosmosRequestEvent {
+  /**
+   * The Http status code of the response, or null if no response
+   * was received.
+   */
+  status: number | null;
+
+  /**
+   * The number of milliseconds between sending the request and
+   * receiving the response headers, or the error.
+   */
+  latencyMilliseconds: number;
+
+  /**
+   * The request units consumed by the request.
+   */
+  requestCharge: number;
+
+  /**
+   * The x-ms-activity-id header of the response, or null if not supplied.
+   */
+  activityId: string | null;
+
+  /**
+   * The error raised by fetch if no response was received,
+   * e.g. because the connection failed.
+   */
+  error?: unknown;
+}
+
+/**
+ * Hooks that observe the requests sent to Cosmos.  Errors raised
+ * by the hooks are ignored so they cannot affect the requests.
+ */
+export interface CosmosInstrumentation {
+  /**
+   * Called before each attempt to send a request, including retries.
+   */
+  onRequest?: (event: CosmosRequestEvent) => void;
+
+  /**
+   * Called after each attempt receives a response or fails.
+   */
+  onResponse?: (event: CosmosResponseEvent) => void;
+}
+
+/**
+ * Registers hooks that observe every request sent to Cosmos by this
+ * library, such as for logging slow requests, counting throttled
+ * requests or attributing request charges.  Returns a function that
+ * removes the hooks again.
+ * @param instrumentation The hooks to register.
+ */
+export function addCosmosInstrumentation(
+  instrumentation: CosmosInstrumentation,
+): () => void {
+  cosmosInstrumentations.add(instrumentation);
+
+  return () => {
+    cosmosInstrumentations.delete(instrumentation);
+  };
+}
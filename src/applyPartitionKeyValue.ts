@@ -0,0 +1,82 @@
+import {
+  CosmosPartitionKeyComponent,
+  CosmosPartitionKeyValue,
+} from "./formatPartitionKeyValue.ts";
+
+/**
+ * The partition key paths used when none are specified.
+ */
+export const DEFAULT_PARTITION_KEY_PATHS = ["/partitionKey"];
+
+/**
+ * Writes the given partition key value into the document at the
+ * partition key paths of the collection, so that the document always
+ * agrees with the partition key header.  A hierarchical key must have
+ * one component for each path.  An undefined component removes the
+ * property from the document.
+ * @param document A document, which is modified in place.
+ * @param partition A partition key value.
+ * @param partitionKeyPaths The partition key paths of the collection,
+ * e.g. ["/tenantId", "/userId"].  Defaults to ["/partitionKey"].
+ */
+export function applyPartitionKeyValue(
+  document: Record<string, unknown>,
+  partition: CosmosPartitionKeyValue,
+  partitionKeyPaths = DEFAULT_PARTITION_KEY_PATHS,
+): void {
+  const components = Array.isArray(partition) ? partition : [partition];
+
+  if (components.length !== partitionKeyPaths.length) {
+    throw new Error(
+      `Partition key value has ${components.length} component(s) but the collection has ${partitionKeyPaths.length} partition key path(s).`,
+    );
+  }
+
+  partitionKeyPaths.forEach((path, index) => {
+    const segments = path.split("/").filter((s) => s.length > 0);
+    let target = document;
+
+    for (const segment of segments.slice(0, -1)) {
+      if (target[segment] === null || typeof target[segment] !== "object") {
+        target[segment] = {};
+      }
+
+      target = target[segment] as Record<string, unknown>;
+    }
+
+    const lastSegment = segments[segments.length - 1];
+
+    if (components[index] === undefined) {
+      delete target[lastSegment];
+    } else if (target[lastSegment] !== components[index]) {
+      target[lastSegment] = components[index];
+    }
+  });
+}
+
+/**
+ * Returns the partition key value held by a document, based on the
+ * partition key paths of the collection.  A single component is
+ * returned for a single path, otherwise an array of components.
+ * @param document A document.
+ * @param partitionKeyPaths The partition key paths of the collection.
+ * Defaults to ["/partitionKey"].
+ */
+export function readPartitionKeyValue(
+  document: Record<string, unknown>,
+  partitionKeyPaths = DEFAULT_PARTITION_KEY_PATHS,
+): CosmosPartitionKeyValue {
+  const components = partitionKeyPaths.map((path) => {
+    let value: unknown = document;
+
+    for (const segment of path.split("/").filter((s) => s.length > 0)) {
+      value = value !== null && typeof value === "object"
+        ? (value as Record<string, unknown>)[segment]
+        : undefined;
+    }
+
+    return value as CosmosPartitionKeyComponent;
+  });
+
+  return components.length === 1 ? components[0] : components;
+}
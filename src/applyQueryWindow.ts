@@ -0,0 +1,173 @@
+import { joinQueryClauses, QueryClauses } from "./splitQueryClauses.ts";
+
+/**
+ * The rows that a query selects from the combined results.
+ */
+export interface QueryWindow {
+  /**
+   * True if duplicate values must be removed.
+   */
+  distinct: boolean;
+
+  /**
+   * The number of values to skip, taken from OFFSET.
+   */
+  skip: number;
+
+  /**
+   * The maximum number of values to return, taken from TOP or
+   * LIMIT, or null if the number of values is not limited.
+   */
+  take: number | null;
+}
+
+/**
+ * A parameter that is substituted into a Cosmos query.
+ */
+interface CosmosQueryParameter {
+  /**
+   * The name of a parameter, e.g. @city.
+   */
+  name: string;
+
+  /**
+   * The value of a parameter, e.g. "Bournemouth".
+   */
+  value: unknown;
+}
+
+/**
+ * Returns the window described by the DISTINCT, TOP and OFFSET LIMIT
+ * clauses of a query.  The values of TOP, OFFSET and LIMIT can be
+ * numbers or parameters.
+ * @param clauses The clauses of a query.
+ * @param parameters The parameters substituted into the query.
+ */
+export function getQueryWindow(
+  clauses: QueryClauses,
+  parameters: CosmosQueryParameter[],
+): QueryWindow {
+  const resolveNumber = (expression: string | null) => {
+    if (expression === null) {
+      return null;
+    }
+
+    const value = expression.startsWith("@")
+      ? parameters.find((p) => p.name === expression)?.value
+      : expression;
+
+    const num = Number(value);
+
+    if (!Number.isInteger(num) || num < 0) {
+      throw new Error(
+        `Unable to resolve ${expression} to a non-negative integer.`,
+      );
+    }
+
+    return num;
+  };
+
+  return {
+    distinct: clauses.distinct,
+    skip: resolveNumber(clauses.offset) || 0,
+    take: clauses.top !== null
+      ? resolveNumber(clauses.top)
+      : resolveNumber(clauses.limit),
+  };
+}
+
+/**
+ * Returns a version of the query that can be executed against each
+ * partition key range.  An OFFSET x LIMIT y clause is rewritten as
+ * OFFSET 0 LIMIT x+y, because the skipped values can only be determined
+ * once the results of all the partition key ranges are combined.
+ * TOP is left in place since no partition key range needs to return
+ * more values than the final result.
+ * @param clauses The clauses of a query.
+ * @param window The window of the query.
+ */
+export function createWindowPushdownQuery(
+  clauses: QueryClauses,
+  window: QueryWindow,
+): string {
+  return joinQueryClauses({
+    ...clauses,
+    offset: clauses.offset !== null ? "0" : null,
+    limit: clauses.limit !== null
+      ? (window.skip + (window.take as number)).toString()
+      : null,
+  });
+}
+
+/**
+ * Applies the window to the combined values.  Duplicates are
+ * determined by deep equality, so objects with the same properties
+ * and values are considered equal regardless of property order.
+ * @param values The combined results from all partition key ranges.
+ * @param window The window of the query.
+ */
+export function applyQueryWindow(
+  values: unknown[],
+  window: QueryWindow,
+): unknown[] {
+  let result = values;
+
+  if (window.distinct) {
+    const seen = new Set<string>();
+
+    result = result.filter((value) => {
+      const key = createCanonicalJson(value);
+
+      if (seen.has(key)) {
+        return false;
+      }
+
+      seen.add(key);
+      return true;
+    });
+  }
+
+  return result.slice(
+    window.skip,
+    window.take === null ? undefined : window.skip + window.take,
+  );
+}
+
+/**
+ * Returns true if the given values already fill the window,
+ * which means there is no need to retrieve any further values.
+ * @param values The values retrieved so far.
+ * @param window The window of the query.
+ */
+export function isQueryWindowFilled(
+  values: unknown[],
+  window: QueryWindow,
+): boolean {
+  return window.take !== null &&
+    applyQueryWindow(values, { ...window, skip: 0, take: null }).length >=
+      window.skip + window.take;
+}
+
+/**
+ * Returns a JSON representation of the value where the properties
+ * of objects are sorted by name.
+ * @param value A value.
+ */
+function createCanonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(createCanonicalJson).join(",")}]`;
+  }
+
+  if (value !== null && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+
+    return `{${
+      Object.keys(record).sort().filter((key) => record[key] !== undefined)
+        .map((key) =>
+          `${JSON.stringify(key)}:${createCanonicalJson(record[key])}`
+        ).join(",")
+    }}`;
+  }
+
+  return value === undefined ? "undefined" : JSON.stringify(value);
+}
@@ -0,0 +1,466 @@
+import { delay } from "../deps.ts";
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import {
+  cosmosFetch,
+  CosmosOperationTrace,
+  traceCosmosOperation,
+} from "./cosmosFetch.ts";
+import { CosmosError, createCosmosError } from "./createCosmosError.ts";
+import { formatPartitionKeyValue } from "./formatPartitionKeyValue.ts";
+import { readPartitionKeyValue } from "./applyPartitionKeyValue.ts";
+import { mergeSessionTokens } from "./mergeSessionTokens.ts";
+
+/**
+ * The operation to apply to each document in a bulk write.
+ * - create: Creates a new document, which must not already exist.
+ * - upsert: Creates a document or replaces an existing one.
+ * - delete: Deletes a document based on its id and partition key
+ * properties.  Documents that do not exist are ignored.
+ */
+type BulkWriteOperation = "create" | "upsert" | "delete";
+
+/**
+ * The options for a bulk write.
+ */
+interface BulkWriteDocumentsOptions {
+  /**
+   * The maximum number of requests that will be in-flight at
+   * any one time.  Defaults to 10.  The number of requests will
+   * be reduced automatically if Cosmos starts throttling.
+   */
+  maxConcurrency?: number;
+
+  /**
+   * The number of times a single document will be retried after
+   * being throttled before it is reported as a failure.  Defaults to 10.
+   */
+  maxThrottleRetries?: number;
+
+  /**
+   * The partition key paths of the collection, e.g. ["/tenantId", "/userId"].
+   * The partition of each document is read from these paths.
+   * Defaults to ["/partitionKey"].
+   */
+  partitionKeyPaths?: string[];
+
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * A document that could not be written during a bulk write.
+ */
+interface BulkWriteFailure {
+  /**
+   * The position of the document in the source sequence.
+   */
+  index: number;
+
+  /**
+   * The id of the document.
+   */
+  id: unknown;
+
+  /**
+   * The Http status code returned by Cosmos.
+   */
+  statusCode: number;
+
+  /**
+   * A description of the failure.
+   */
+  message: string;
+
+  /**
+   * The error that describes the rejected request, including its
+   * substatus and activity id, if a response was received.
+   */
+  error?: CosmosError;
+}
+
+/**
+ * The result of a bulk write.
+ */
+interface BulkWriteDocumentsResult {
+  /**
+   * The number of documents that were written successfully.
+   */
+  succeededCount: number;
+
+  /**
+   * The documents that could not be written.
+   */
+  failures: BulkWriteFailure[];
+
+  /**
+   * The number of requests that were throttled by Cosmos.
+   */
+  throttledCount: number;
+
+  /**
+   * The total number of RUs consumed by the requests.
+   */
+  requestCharge: number;
+
+  /**
+   * The number of milliseconds taken to complete the bulk write.
+   */
+  elapsedMilliseconds: number;
+
+  /**
+   * A session token that reflects all of the documents that were
+   * written successfully, or an empty string if none were written.
+   */
+  sessionToken: string;
+}
+
+/**
+ * A document waiting to be written.
+ */
+interface BulkWriteItem {
+  /**
+   * The position of the document in the source sequence.
+   */
+  index: number;
+
+  /**
+   * The document.
+   */
+  document: Record<string, unknown>;
+
+  /**
+   * The number of times the document has been throttled.
+   */
+  throttleCount: number;
+}
+
+/**
+ * The outcome of a single request made during a bulk write.
+ */
+type BulkWriteAttempt =
+  | { outcome: "succeeded"; requestCharge: number; sessionToken: string }
+  | { outcome: "throttled"; retryAfterMilliseconds: number }
+  | {
+    outcome: "failed";
+    statusCode: number;
+    message: string;
+    requestCharge: number;
+    error?: CosmosError;
+  };
+
+/**
+ * Applies the given operation to each document of the given sequence,
+ * running up to maxConcurrency requests at once.  When Cosmos throttles
+ * a request, the concurrency is halved, all requests are paused for the
+ * period suggested by Cosmos and the document is queued to be retried.
+ * The concurrency then grows again as requests succeed.  A document that
+ * cannot be written is reported on the result rather than aborting
+ * the remainder of the job.  The partition of each document is taken
+ * from its partition key properties.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param operation The operation to apply to each document.
+ * @param documents A sequence of documents.
+ * @param options A property bag of options.
+ */
+export async function bulkWriteDocuments(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  operation: BulkWriteOperation,
+  documents:
+    | AsyncIterable<Record<string, unknown>>
+    | Iterable<Record<string, unknown>>,
+  options: BulkWriteDocumentsOptions,
+): Promise<BulkWriteDocumentsResult> {
+  return await traceCosmosOperation(
+    "bulkWriteDocuments",
+    databaseName,
+    collectionName,
+    async (trace) => {
+      const started = performance.now();
+      const maxConcurrency = Math.max(1, options.maxConcurrency || 10);
+      const maxThrottleRetries = typeof options.maxThrottleRetries === "number"
+        ? options.maxThrottleRetries
+        : 10;
+
+      const result: BulkWriteDocumentsResult = {
+        succeededCount: 0,
+        failures: [],
+        throttledCount: 0,
+        requestCharge: 0,
+        elapsedMilliseconds: 0,
+        sessionToken: "",
+      };
+
+      const iterator = Symbol.asyncIterator in documents
+        ? documents[Symbol.asyncIterator]()
+        : documents[Symbol.iterator]();
+
+      const retryQueue: BulkWriteItem[] = [];
+      const inFlight = new Set<Promise<void>>();
+
+      let concurrency = maxConcurrency;
+      let successesSinceThrottle = 0;
+      let pausedUntil = 0;
+      let nextIndex = 0;
+      let isSourceExhausted = false;
+
+      const processItem = async (item: BulkWriteItem) => {
+        let attempt: BulkWriteAttempt;
+
+        try {
+          attempt = await writeBulkDocument(
+            authorization,
+            cosmosUrl,
+            databaseName,
+            collectionName,
+            operation,
+            item.document,
+            options.partitionKeyPaths,
+            options.retryPolicy,
+            trace,
+          );
+        } catch (err) {
+          // A transient failure that has exhausted its retries is reported
+          // along with the other failures rather than aborting the job.
+          attempt = {
+            outcome: "failed",
+            statusCode: err instanceof CosmosError ? err.status : 0,
+            message: (err as Error).message,
+            requestCharge: 0,
+            error: err instanceof CosmosError ? err : undefined,
+          };
+        }
+
+        if (attempt.outcome === "throttled") {
+          result.throttledCount++;
+          successesSinceThrottle = 0;
+          concurrency = Math.max(1, Math.floor(concurrency / 2));
+          pausedUntil = Math.max(
+            pausedUntil,
+            Date.now() + attempt.retryAfterMilliseconds,
+          );
+
+          if (item.throttleCount < maxThrottleRetries) {
+            retryQueue.push({ ...item, throttleCount: item.throttleCount + 1 });
+          } else {
+            result.failures.push({
+              index: item.index,
+              id: item.document.id,
+              statusCode: 429,
+              message: "Request was throttled too many times.",
+            });
+          }
+
+          return;
+        }
+
+        result.requestCharge += attempt.requestCharge;
+
+        if (attempt.outcome === "failed") {
+          result.failures.push({
+            index: item.index,
+            id: item.document.id,
+            statusCode: attempt.statusCode,
+            message: attempt.message,
+            error: attempt.error,
+          });
+        } else {
+          result.succeededCount++;
+
+          if (attempt.sessionToken) {
+            result.sessionToken = mergeSessionTokens(
+              result.sessionToken || undefined,
+              attempt.sessionToken,
+            );
+          }
+        }
+
+        // Grow the concurrency again once a run of requests (equal to
+        // the current concurrency) have completed without throttling.
+        successesSinceThrottle++;
+
+        if (
+          successesSinceThrottle >= concurrency && concurrency < maxConcurrency
+        ) {
+          concurrency++;
+          successesSinceThrottle = 0;
+        }
+      };
+
+      while (true) {
+        while (
+          inFlight.size < concurrency &&
+          (retryQueue.length > 0 || !isSourceExhausted)
+        ) {
+          let item = retryQueue.shift();
+
+          if (!item) {
+            const next = await iterator.next();
+
+            if (next.done) {
+              isSourceExhausted = true;
+              break;
+            }
+
+            item = {
+              index: nextIndex++,
+              document: next.value,
+              throttleCount: 0,
+            };
+          }
+
+          const pause = pausedUntil - Date.now();
+
+          if (pause > 0) {
+            await delay(pause);
+          }
+
+          const promise: Promise<void> = processItem(item).finally(() =>
+            inFlight.delete(promise)
+          );
+
+          inFlight.add(promise);
+        }
+
+        if (inFlight.size === 0) {
+          if (isSourceExhausted && retryQueue.length === 0) {
+            break;
+          }
+        } else {
+          await Promise.race(inFlight);
+        }
+      }
+
+      result.elapsedMilliseconds = performance.now() - started;
+
+      return result;
+    },
+  );
+}
+
+/**
+ * Makes a single attempt to write a document as part of a bulk write.
+ * Throttled requests are reported rather than retried so that the
+ * caller can adjust the rate of requests.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param operation The operation to apply to the document.
+ * @param document A document.
+ * @param partitionKeyPaths The partition key paths of the collection.
+ * @param retryPolicy The policy for retrying transient failures.
+ * @param trace The trace of the bulk write.
+ */
+function writeBulkDocument(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  operation: BulkWriteOperation,
+  document: Record<string, unknown>,
+  partitionKeyPaths: string[] | undefined,
+  retryPolicy: CosmosRetryPolicy | undefined,
+  trace: CosmosOperationTrace,
+): Promise<BulkWriteAttempt> {
+  const isDelete = operation === "delete";
+  const collectionLink = `dbs/${databaseName}/colls/${collectionName}`;
+  const resourceLink = isDelete
+    ? `${collectionLink}/docs/${document.id}`
+    : collectionLink;
+
+  return cosmosRetryable(async (attempt) => {
+    const reqHeaders = await generateCosmosReqHeaders({
+      key: authorization,
+      method: isDelete ? "DELETE" : "POST",
+      resourceType: "docs",
+      resourceLink,
+    });
+
+    const optionalHeaders: Record<string, string> = {};
+
+    if (operation === "upsert") {
+      optionalHeaders["x-ms-documentdb-is-upsert"] = "True";
+    }
+
+    const response = await cosmosFetch(
+      isDelete
+        ? `${cosmosUrl}/${resourceLink}`
+        : `${cosmosUrl}/${resourceLink}/docs`,
+      {
+        method: isDelete ? "DELETE" : "POST",
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json",
+          "x-ms-version": reqHeaders.xMsVersion,
+          "x-ms-documentdb-partitionkey": formatPartitionKeyValue(
+            readPartitionKeyValue(document, partitionKeyPaths),
+          ),
+          ...optionalHeaders,
+        },
+        body: isDelete ? undefined : JSON.stringify(document),
+      },
+      "bulkWriteDocuments",
+      attempt,
+    );
+
+    if (response.status === 429) {
+      await response.body?.cancel();
+
+      return {
+        outcome: "throttled",
+        retryAfterMilliseconds: parseFloat(
+          response.headers.get("x-ms-retry-after-ms") || "100",
+        ),
+      };
+    }
+
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "bulkWriteDocuments",
+    );
+
+    const requestCharge = parseFloat(
+      response.headers.get("x-ms-request-charge") || "0",
+    );
+
+    if (!response.ok && !(isDelete && response.status === 404)) {
+      const error = await createCosmosError(
+        response,
+        "bulkWriteDocuments",
+        `Unable to ${operation} document ${document.id} in ${databaseName}/${collectionName}.`,
+      );
+
+      return {
+        outcome: "failed",
+        statusCode: response.status,
+        message: error.message,
+        requestCharge,
+        error,
+      };
+    }
+
+    await response.body?.cancel();
+
+    return {
+      outcome: "succeeded",
+      requestCharge,
+      sessionToken: response.headers.get("x-ms-session-token") || "",
+    };
+  }, { retryPolicy, isIdempotent: operation !== "create", trace });
+}
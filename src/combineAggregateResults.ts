@@ -0,0 +1,122 @@
+import { compareCosmosValues } from "./compareCosmosValues.ts";
+
+/**
+ * An aggregate function that can be combined across partition key ranges.
+ */
+export type CosmosAggregate = "avg" | "count" | "max" | "min" | "sum";
+
+/**
+ * Combines the partial results of an aggregate function, retrieved
+ * from each partition key range, into a single value.  Partition
+ * key ranges without any matching documents may return null or
+ * no value at all, and these are ignored.
+ * - avg: Each value must be a { sum, count } object produced by
+ * createAvgQuery.  Returns undefined if there are no values.
+ * - count, sum: Returns the total, or zero if there are no values.
+ * - max, min: Values are compared using the Cosmos type ordering.
+ * Returns undefined if there are no values.
+ * @param aggregate An aggregate function.
+ * @param values The partial results of the aggregate function.
+ */
+export function combineAggregateResults(
+  aggregate: CosmosAggregate,
+  values: unknown[],
+): unknown {
+  const definedValues = values.filter((value) =>
+    value !== undefined && value !== null
+  );
+
+  switch (aggregate) {
+    case "avg": {
+      let sum = 0;
+      let count = 0;
+
+      for (const value of definedValues) {
+        const partial = value as { sum?: number; count?: number };
+
+        if (typeof partial.sum === "number" && partial.count) {
+          sum += partial.sum;
+          count += partial.count;
+        }
+      }
+
+      return count > 0 ? sum / count : undefined;
+    }
+    case "count":
+    case "sum":
+      return definedValues.reduce(
+        (agg: number, cur) => typeof cur === "number" ? agg + cur : agg,
+        0,
+      );
+    case "max":
+    case "min":
+      return definedValues.reduce<unknown>(
+        (agg, cur) =>
+          agg === undefined ||
+            (aggregate === "max"
+              ? compareCosmosValues(cur, agg) > 0
+              : compareCosmosValues(cur, agg) < 0)
+            ? cur
+            : agg,
+        undefined,
+      );
+  }
+}
+
+/**
+ * Returns the aggregate function and its argument if the given
+ * expression is a single call to an aggregate function,
+ * e.g. SUM(d.total), otherwise null.
+ * @param expression The text of an expression.
+ */
+export function parseAggregateCall(
+  expression: string,
+): { aggregate: CosmosAggregate; argument: string } | null {
+  const callMatch = /^(AVG|COUNT|MAX|MIN|SUM)\s*\(/i.exec(expression.trim());
+
+  if (!callMatch) {
+    return null;
+  }
+
+  const text = expression.trim();
+  let depth = 0;
+  let quote: string | null = null;
+
+  // Ensure the bracket that opens the call is the one that closes
+  // the expression, which excludes expressions like SUM(a) + SUM(b).
+  for (let i = callMatch[0].length - 1; i < text.length; i++) {
+    const ch = text[i];
+
+    if (quote) {
+      if (ch === "\\") {
+        i++;
+      } else if (ch === quote) {
+        quote = null;
+      }
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+    } else if (ch === "(") {
+      depth++;
+    } else if (ch === ")") {
+      depth--;
+
+      if (depth === 0 && i < text.length - 1) {
+        return null;
+      }
+    }
+  }
+
+  return {
+    aggregate: callMatch[1].toLowerCase() as CosmosAggregate,
+    argument: text.slice(callMatch[0].length, -1).trim(),
+  };
+}
+
+/**
+ * Returns true if the given expression contains a call to
+ * an aggregate function.
+ * @param expression The text of an expression.
+ */
+export function containsAggregateCall(expression: string): boolean {
+  return /\b(AVG|COUNT|MAX|MIN|SUM)\s*\(/i.test(expression);
+}
@@ -0,0 +1,51 @@
+/**
+ * Compares two values using the ordering that Cosmos applies when
+ * sorting values of mixed types.  Values are ordered first by type,
+ * undefined < null < boolean < number < string, and then by value.
+ * Arrays and objects are placed after strings but are not compared.
+ * Returns a negative number if a comes before b, a positive number
+ * if a comes after b, otherwise zero.
+ * @param a A value.
+ * @param b Another value.
+ */
+export function compareCosmosValues(a: unknown, b: unknown): number {
+  const rankA = getCosmosTypeRank(a);
+  const rankB = getCosmosTypeRank(b);
+
+  if (rankA !== rankB) {
+    return rankA - rankB;
+  }
+
+  if (typeof a === "boolean" || typeof a === "number") {
+    return Number(a) - Number(b);
+  }
+
+  if (typeof a === "string") {
+    return a < (b as string) ? -1 : a > (b as string) ? 1 : 0;
+  }
+
+  return 0;
+}
+
+/**
+ * Returns the position of the type of the given value
+ * in the Cosmos sort order.
+ * @param value A value.
+ */
+function getCosmosTypeRank(value: unknown) {
+  if (typeof value === "undefined") {
+    return 0;
+  } else if (value === null) {
+    return 1;
+  } else if (typeof value === "boolean") {
+    return 2;
+  } else if (typeof value === "number") {
+    return 3;
+  } else if (typeof value === "string") {
+    return 4;
+  } else if (Array.isArray(value)) {
+    return 5;
+  } else {
+    return 6;
+  }
+}
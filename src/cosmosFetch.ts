@@ -0,0 +1,433 @@
+import {
+  CosmosInstrumentation,
+  CosmosRequestEvent,
+} from "./addCosmosInstrumentation.ts";
+import { CosmosSpan, CosmosTraceApi, CosmosTracer } from "./setCosmosTracer.ts";
+
+/**
+ * The value that replaces the Authorization header in the
+ * events passed to instrumentation hooks.
+ */
+const REDACTED = "[REDACTED]";
+
+/**
+ * The kind of span, in OpenTelemetry terms, of every span
+ * started by this library.
+ */
+const SPAN_KIND_CLIENT = 2;
+
+/**
+ * The status code of a span, in OpenTelemetry terms, that
+ * records an error.
+ */
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * The instrumentation hooks registered using addCosmosInstrumentation.
+ */
+export const cosmosInstrumentations = new Set<CosmosInstrumentation>();
+
+/**
+ * The tracer and OpenTelemetry API set using setCosmosTracer.
+ */
+export const cosmosTracing: {
+  tracer: CosmosTracer | null;
+  api: CosmosTraceApi | null;
+} = {
+  tracer: null,
+  api: null,
+};
+
+/**
+ * The trace of an operation, which is shared by each attempt
+ * to send the request of the operation.
+ */
+export interface CosmosOperationTrace {
+  /**
+   * The name of the operation, e.g. readChangeFeed, or null to name
+   * the operation after the first request that it makes.
+   */
+  operation: string | null;
+
+  /**
+   * The name of the database targeted by the operation, or null to
+   * take it from the first request that the operation makes.
+   */
+  databaseName: string | null;
+
+  /**
+   * The name of the collection targeted by the operation, if any.
+   */
+  collectionName: string | null;
+
+  /**
+   * The context that was active when the operation started, which
+   * holds the parent of the span of the operation, or null if the
+   * operation is not being traced.
+   */
+  context: unknown;
+
+  /**
+   * The span of the operation, which is started by the first
+   * attempt, or null if the operation is not being traced.
+   */
+  span: CosmosSpan | null;
+
+  /**
+   * The request units consumed by all the attempts so far.
+   */
+  requestCharge: number;
+}
+
+/**
+ * An attempt to send the request of an operation.
+ */
+export interface CosmosAttempt {
+  /**
+   * The attempt number, starting at 1.
+   */
+  number: number;
+
+  /**
+   * The trace of the operation.
+   */
+  trace: CosmosOperationTrace;
+}
+
+/**
+ * Returns a new trace for an operation.  An operation that sends
+ * several requests, such as a query that reads several pages, shares
+ * a single trace between those requests, so that they are traced as
+ * children of one span that is named after the operation.
+ * @param operation The name of the operation, or null to name the
+ * operation after the first request that it makes.
+ * @param databaseName The name of the database targeted by the operation.
+ * @param collectionName The name of the collection targeted by the
+ * operation, if any.
+ */
+export function createOperationTrace(
+  operation: string | null,
+  databaseName: string | null = null,
+  collectionName: string | null = null,
+): CosmosOperationTrace {
+  return {
+    operation,
+    databaseName,
+    collectionName,
+    context: cosmosTracing.api ? cosmosTracing.api.context.active() : null,
+    span: null,
+    requestCharge: 0,
+  };
+}
+
+/**
+ * Executes an operation that may send several requests to Cosmos,
+ * passing it a trace that is shared by all of those requests.  The
+ * span of the operation is ended once the operation completes.
+ * @param operation The name of the operation, e.g. readChangeFeed.
+ * @param databaseName The name of the database targeted by the operation.
+ * @param collectionName The name of the collection targeted by the
+ * operation, if any.
+ * @param run A function that executes the operation.
+ */
+export async function traceCosmosOperation<T>(
+  operation: string,
+  databaseName: string,
+  collectionName: string | null,
+  run: (trace: CosmosOperationTrace) => Promise<T>,
+): Promise<T> {
+  const trace = createOperationTrace(operation, databaseName, collectionName);
+
+  try {
+    const result = await run(trace);
+    endOperationSpan(trace);
+    return result;
+  } catch (err) {
+    endOperationSpan(trace, err);
+    throw err;
+  }
+}
+
+/**
+ * Executes an operation that yields pages as it sends requests to
+ * Cosmos, passing it a trace that is shared by all of those requests.
+ * The span of the operation is ended once the last page has been
+ * yielded, the operation fails, or the consumer stops asking for pages.
+ * @param operation The name of the operation, e.g. queryDocumentsGatewayPages.
+ * @param databaseName The name of the database targeted by the operation.
+ * @param collectionName The name of the collection targeted by the
+ * operation, if any.
+ * @param run A function that returns the pages of the operation.
+ */
+export async function* traceCosmosOperationPages<T>(
+  operation: string,
+  databaseName: string,
+  collectionName: string | null,
+  run: (trace: CosmosOperationTrace) => AsyncGenerator<T>,
+): AsyncGenerator<T> {
+  const trace = createOperationTrace(operation, databaseName, collectionName);
+  let error: unknown;
+
+  try {
+    yield* run(trace);
+  } catch (err) {
+    error = err;
+    throw err;
+  } finally {
+    endOperationSpan(trace, error);
+  }
+}
+
+/**
+ * Sends a request to Cosmos using fetch, notifying any registered
+ * instrumentation hooks before the request is sent and after the
+ * response is received or the request fails.  If a tracer has been
+ * set, the span of the operation is started by the first attempt and
+ * each attempt is traced as a child span.
+ * @param url The url of the request.
+ * @param init The method, headers and body of the request.
+ * @param operation The name of the operation making the request, which
+ * is superseded by the name of the traced operation, if it has one.
+ * @param attempt The attempt to send the request.
+ */
+export async function cosmosFetch(
+  url: string,
+  init: RequestInit,
+  operation: string,
+  attempt: CosmosAttempt,
+): Promise<Response> {
+  const { tracer, api } = cosmosTracing;
+
+  if (cosmosInstrumentations.size === 0 && tracer === null) {
+    return await fetch(url, init);
+  }
+
+  const headers: Record<string, string> = {};
+
+  new Headers(init.headers).forEach((value, name) => {
+    headers[name] = name === "authorization" ? REDACTED : value;
+  });
+
+  const request: CosmosRequestEvent = {
+    operation: attempt.trace.operation ?? operation,
+    resourceLink: getResourceLink(url),
+    attempt: attempt.number,
+    method: init.method || "GET",
+    url,
+    headers,
+  };
+
+  const span = tracer && api
+    ? startAttemptSpan(tracer, api, request, attempt)
+    : null;
+
+  notify((i) => i.onRequest?.(request));
+
+  const start = performance.now();
+
+  try {
+    const response = await fetch(url, init);
+
+    const requestCharge = parseFloat(
+      response.headers.get("x-ms-request-charge") || "0",
+    );
+
+    if (span) {
+      attempt.trace.requestCharge += requestCharge;
+      endAttemptSpan(span, response, requestCharge, attempt.trace);
+    }
+
+    notify((i) =>
+      i.onResponse?.({
+        ...request,
+        status: response.status,
+        latencyMilliseconds: performance.now() - start,
+        requestCharge,
+        activityId: response.headers.get("x-ms-activity-id"),
+      })
+    );
+
+    return response;
+  } catch (err) {
+    if (span) {
+      recordSpanError(span, err);
+      span.end();
+    }
+
+    notify((i) =>
+      i.onResponse?.({
+        ...request,
+        status: null,
+        latencyMilliseconds: performance.now() - start,
+        requestCharge: 0,
+        activityId: null,
+        error: err,
+      })
+    );
+
+    throw err;
+  }
+}
+
+/**
+ * Ends the span of an operation, if it was started, recording
+ * the error that caused the operation to fail, if any.
+ * @param trace The trace of an operation.
+ * @param err The error that caused the operation to fail.
+ */
+export function endOperationSpan(trace: CosmosOperationTrace, err?: unknown) {
+  if (!trace.span) {
+    return;
+  }
+
+  if (err !== undefined) {
+    recordSpanError(trace.span, err);
+  }
+
+  trace.span.end();
+}
+
+/**
+ * Returns the resource link of a request, which is the path of the
+ * request url without the leading slash, e.g. dbs/mydb/colls/mycol.
+ * @param url The url of a request.
+ */
+export function getResourceLink(url: string) {
+  try {
+    return decodeURIComponent(new URL(url).pathname).replace(/^\//, "");
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Starts the span of an attempt, starting the span of the operation
+ * first if this is the first attempt to be traced.  The span of the
+ * operation follows the semantic conventions for databases, and the
+ * span of the attempt follows those for Http clients.
+ * The span of the operation is a child of the context that was active
+ * when the operation started.
+ * @param tracer A tracer.
+ * @param api The OpenTelemetry API.
+ * @param request The request being sent.
+ * @param attempt The attempt to send the request.
+ */
+function startAttemptSpan(
+  tracer: CosmosTracer,
+  api: CosmosTraceApi,
+  request: CosmosRequestEvent,
+  attempt: CosmosAttempt,
+) {
+  if (!attempt.trace.span) {
+    const segments = request.resourceLink.split("/");
+    const databaseName = attempt.trace.databaseName ??
+      (segments[0] === "dbs" ? segments[1] : null);
+    const collectionName = attempt.trace.databaseName
+      ? attempt.trace.collectionName
+      : (segments[2] === "colls" ? segments[3] : null);
+
+    const attributes: Record<string, string> = {
+      "db.system": "cosmosdb",
+      "db.operation.name": request.operation,
+    };
+
+    if (databaseName) {
+      attributes["db.namespace"] = databaseName;
+    }
+
+    if (collectionName) {
+      attributes["db.collection.name"] = collectionName;
+    }
+
+    const target = collectionName || databaseName;
+
+    attempt.trace.span = tracer.startSpan(
+      target ? `${request.operation} ${target}` : request.operation,
+      { kind: SPAN_KIND_CLIENT, attributes },
+      attempt.trace.context ?? api.context.active(),
+    );
+  }
+
+  const attributes: Record<string, string | number> = {
+    "http.request.method": request.method,
+    "url.full": request.url,
+  };
+
+  if (attempt.number > 1) {
+    attributes["http.request.resend_count"] = attempt.number - 1;
+  }
+
+  return tracer.startSpan(
+    request.method,
+    { kind: SPAN_KIND_CLIENT, attributes },
+    api.trace.setSpan(
+      attempt.trace.context ?? api.context.active(),
+      attempt.trace.span,
+    ),
+  );
+}
+
+/**
+ * Records the response to an attempt on its span and on the span of
+ * the operation, and ends the span of the attempt.
+ * @param span The span of an attempt.
+ * @param response The response to the attempt.
+ * @param requestCharge The request units consumed by the attempt.
+ * @param trace The trace of the operation.
+ */
+function endAttemptSpan(
+  span: CosmosSpan,
+  response: Response,
+  requestCharge: number,
+  trace: CosmosOperationTrace,
+) {
+  const substatus = response.headers.get("x-ms-substatus");
+
+  span.setAttribute("http.response.status_code", response.status);
+  span.setAttribute("db.cosmosdb.request_charge", requestCharge);
+
+  if (substatus) {
+    span.setAttribute("db.cosmosdb.sub_status_code", parseInt(substatus));
+  }
+
+  if (response.status >= 400) {
+    span.setStatus({
+      code: SPAN_STATUS_ERROR,
+      message: `Cosmos responded with status ${response.status}.`,
+    });
+  }
+
+  span.end();
+
+  if (trace.span) {
+    trace.span.setAttribute("db.response.status_code", `${response.status}`);
+    trace.span.setAttribute("db.cosmosdb.request_charge", trace.requestCharge);
+  }
+}
+
+/**
+ * Records an error on a span and marks the span as failed.
+ * @param span A span.
+ * @param err An error.
+ */
+function recordSpanError(span: CosmosSpan, err: unknown) {
+  const error = err instanceof Error ? err : new Error(String(err));
+
+  span.recordException(error);
+  span.setStatus({ code: SPAN_STATUS_ERROR, message: error.message });
+}
+
+/**
+ * Invokes the given callback for each registered instrumentation,
+ * ignoring any errors that the hooks raise.
+ * @param callback A function that invokes a hook.
+ */
+function notify(callback: (instrumentation: CosmosInstrumentation) => void) {
+  for (const instrumentation of cosmosInstrumentations) {
+    try {
+      callback(instrumentation);
+    } catch {
+      // Instrumentation must not affect the outcome of a request.
+    }
+  }
+}
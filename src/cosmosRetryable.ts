@@ -1,4 +1,11 @@
-import { retryable } from "../deps.ts";
+import { delay, OperationTransitoryError } from "../deps.ts";
+import {
+  CosmosAttempt,
+  CosmosOperationTrace,
+  createOperationTrace,
+  endOperationSpan,
+} from "./cosmosFetch.ts";
+import { CosmosAuthError, CosmosTransitoryError } from "./createCosmosError.ts";
 
 /**
  * The default retry strategy for cosmos operations
@@ -17,16 +24,170 @@ export const CosmosDefaultRetryStrategy: number[] = [
   5000,
 ];
 
+/**
+ * The default maximum number of milliseconds spent waiting
+ * between the attempts of an operation.
+ */
+const DEFAULT_MAX_TOTAL_WAIT_MILLISECONDS = 30000;
+
+/**
+ * A policy for retrying the transient failures of an operation.
+ */
+export interface CosmosRetryPolicy {
+  /**
+   * The maximum number of attempts, including the first.
+   * Defaults to one more than the number of intervals.
+   */
+  maxAttempts?: number;
+
+  /**
+   * The maximum number of milliseconds spent waiting between attempts.
+   * If the next wait would exceed this, the last error is raised instead.
+   * Defaults to 30000.
+   */
+  maxTotalWaitMilliseconds?: number;
+
+  /**
+   * The number of milliseconds to wait before each retry, used when
+   * Cosmos does not supply a retry-after hint.  The last interval is
+   * repeated if more attempts are allowed.
+   * Defaults to CosmosDefaultRetryStrategy.
+   */
+  retryIntervalsInMilliseconds?: number[];
+
+  /**
+   * The fraction, between 0 and 1, by which each wait is randomly
+   * lengthened or shortened, so that concurrent clients do not retry
+   * in step.  Defaults to 0.
+   */
+  jitter?: number;
+
+  /**
+   * True if a non-idempotent request, such as creating a document,
+   * should be retried after a failure where the request may have been
+   * applied, such as a timeout.  Such a retry can fail with a conflict
+   * or apply a change twice.  Failures where Cosmos did not apply the
+   * request, such as throttling, are always retried.  Defaults to false.
+   */
+  retryNonIdempotentRequests?: boolean;
+}
+
+/**
+ * Options for executing an operation using cosmosRetryable.
+ */
+interface CosmosRetryableOptions {
+  /**
+   * The retry policy.  If not supplied, the default policy is used.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+
+  /**
+   * False if repeating the request may have a different effect to
+   * making it once, e.g. a POST that creates a resource.
+   * Defaults to true.
+   */
+  isIdempotent?: boolean;
+
+  /**
+   * The trace of the operation that the request belongs to, if the
+   * operation sends several requests.  The operation is responsible
+   * for ending its span.  If not supplied, the request is traced as
+   * an operation in its own right.
+   */
+  trace?: CosmosOperationTrace;
+}
+
 /**
  * Executes the given operation using the cosmos retry strategy.
+ * Transient failures are retried, waiting for the period requested by
+ * Cosmos if a retry-after hint was supplied, and otherwise for the next
+ * interval of the retry policy.
+ * If a tracer has been set, the operation and each attempt are traced.
+ * @param operation An asynchronous operation that queries a
+ * Cosmos database, which is passed the current attempt.
+ * @param options A property bag of options.
+ */
+export async function cosmosRetryable<T>(
+  operation: (attempt: CosmosAttempt) => Promise<T>,
+  options: CosmosRetryableOptions = {},
+): Promise<T> {
+  if (options.trace) {
+    return await retryOperation(operation, options, options.trace);
+  }
+
+  const trace = createOperationTrace(null);
+
+  try {
+    const result = await retryOperation(operation, options, trace);
+    endOperationSpan(trace);
+    return result;
+  } catch (err) {
+    endOperationSpan(trace, err);
+    throw err;
+  }
+}
+
+/**
+ * Executes the given operation, retrying transient failures
+ * according to the retry policy.
  * @param operation An asynchronous operation that queries a
- * Cosmos database.
+ * Cosmos database, which is passed the current attempt.
+ * @param options A property bag of options.
+ * @param trace The trace of the operation.
  */
-export function cosmosRetryable<T>(operation: () => Promise<T>): Promise<T> {
-  return retryable(operation, {
-    retryIntervalsInMilliseconds: CosmosDefaultRetryStrategy,
-    isErrorTransient: isCosmosTransientError,
-  });
+async function retryOperation<T>(
+  operation: (attempt: CosmosAttempt) => Promise<T>,
+  options: CosmosRetryableOptions,
+  trace: CosmosOperationTrace,
+): Promise<T> {
+  const policy = options.retryPolicy || {};
+  const intervals = policy.retryIntervalsInMilliseconds ||
+    CosmosDefaultRetryStrategy;
+  const maxAttempts = policy.maxAttempts ?? intervals.length + 1;
+  const maxTotalWait = policy.maxTotalWaitMilliseconds ??
+    DEFAULT_MAX_TOTAL_WAIT_MILLISECONDS;
+  const jitter = Math.min(Math.max(policy.jitter || 0, 0), 1);
+  let totalWait = 0;
+
+  for (let attempt = 1;; attempt++) {
+    try {
+      return await operation({ number: attempt, trace });
+    } catch (err) {
+      if (
+        !(err instanceof OperationTransitoryError ||
+          err instanceof CosmosTransitoryError ||
+          (err instanceof Error && isCosmosTransientError(err))) ||
+        attempt >= maxAttempts || intervals.length === 0
+      ) {
+        throw err;
+      }
+
+      if (
+        err instanceof CosmosTransitoryError && err.mayHaveBeenApplied &&
+        options.isIdempotent === false && !policy.retryNonIdempotentRequests
+      ) {
+        throw err;
+      }
+
+      const hint = err instanceof CosmosTransitoryError
+        ? err.retryAfterMilliseconds
+        : null;
+
+      const interval = hint ??
+        intervals[Math.min(attempt - 1, intervals.length - 1)];
+
+      const wait = Math.round(
+        interval * (1 + jitter * (Math.random() * 2 - 1)),
+      );
+
+      if (totalWait + wait > maxTotalWait) {
+        throw err;
+      }
+
+      totalWait += wait;
+      await delay(wait);
+    }
+  }
 }
 
 /**
@@ -38,7 +199,8 @@ export function cosmosRetryable<T>(operation: () => Promise<T>): Promise<T> {
 export function isCosmosTransientError(err: Error) {
   // Indicates the headers produced by generateCosmosReqHeaders
   // have expired and need to be generated again.
-  return err.message.includes(
-    "authorization token is not valid at the current time",
-  );
+  return err instanceof CosmosAuthError &&
+    (err.cosmosMessage || "").includes(
+      "authorization token is not valid at the current time",
+    );
 }
@@ -0,0 +1,130 @@
+import { CosmosAuthorizationProvider } from "./generateCosmosReqHeaders.ts";
+
+/**
+ * The version of the aad authorization scheme.
+ */
+const COSMOS_AAD_VERSION = "1.0";
+
+/**
+ * The default number of milliseconds before a token expires
+ * at which a new token is acquired.
+ */
+const DEFAULT_REFRESH_MARGIN_MILLISECONDS = 5 * 60 * 1000;
+
+/**
+ * An access token issued by Microsoft Entra ID (formerly Azure AD).
+ * This has the same shape as the AccessToken returned by the
+ * credentials of the Azure identity library.
+ */
+export interface CosmosAadToken {
+  /**
+   * The bearer token.
+   */
+  token: string;
+
+  /**
+   * The time at which the token expires, in milliseconds
+   * since the unix epoch.
+   */
+  expiresOnTimestamp: number;
+}
+
+/**
+ * Acquires an access token for the Cosmos account, typically for the
+ * scope https://<account>.documents.azure.com/.default.
+ */
+export type CosmosAadTokenProvider = () => Promise<CosmosAadToken>;
+
+/**
+ * Options for creating an aad authorization provider.
+ */
+interface CreateAadAuthorizationOptions {
+  /**
+   * The number of milliseconds before a token expires at which a new
+   * token is acquired.  Defaults to 5 minutes.
+   */
+  refreshMarginMilliseconds?: number;
+}
+
+/**
+ * Returns an authorization provider that uses Microsoft Entra ID
+ * (aad) bearer tokens in place of the master key.  Tokens are cached
+ * and a new token is acquired shortly before the cached token expires.
+ * If a request is rejected with a 401 (Unauthorized) response then the
+ * token is acquired again and the request is retried, but only once,
+ * so a token that is rejected before it has been accepted by any request
+ * causes the request to fail.
+ * @param getToken A function that acquires a new access token.
+ * @param options A property bag of options.
+ */
+export function createAadAuthorization(
+  getToken: CosmosAadTokenProvider,
+  options: CreateAadAuthorizationOptions = {},
+): CosmosAuthorizationProvider {
+  const refreshMargin = options.refreshMarginMilliseconds ??
+    DEFAULT_REFRESH_MARGIN_MILLISECONDS;
+
+  let cached: CosmosAadToken | null = null;
+  let pending: Promise<CosmosAadToken> | null = null;
+  let isReacquiring = false;
+  let reacquiredToken: string | null = null;
+
+  // Concurrent requests share a single acquisition of a new token.
+  const acquire = () => {
+    if (!pending) {
+      pending = getToken().then((token) => {
+        cached = token;
+
+        if (isReacquiring) {
+          reacquiredToken = token.token;
+          isReacquiring = false;
+        }
+
+        return token;
+      }).finally(() => {
+        pending = null;
+      });
+    }
+
+    return pending;
+  };
+
+  const formatHeader = (token: string) =>
+    encodeURIComponent(`type=aad&ver=${COSMOS_AAD_VERSION}&sig=${token}`);
+
+  return {
+    getAuthorizationHeader: async () => {
+      const isFresh = cached !== null &&
+        cached.expiresOnTimestamp - refreshMargin > Date.now();
+
+      const token = isFresh && cached ? cached : await acquire();
+
+      return formatHeader(token.token);
+    },
+    handleResponse: (authorizationHeader, status) => {
+      const isReacquiredToken = reacquiredToken !== null &&
+        authorizationHeader === formatHeader(reacquiredToken);
+
+      if (status !== 401) {
+        // The token has been accepted, so it can be re-acquired
+        // again if it is later rejected.
+        if (isReacquiredToken) {
+          reacquiredToken = null;
+        }
+
+        return false;
+      }
+
+      if (isReacquiredToken) {
+        return false;
+      }
+
+      if (cached && authorizationHeader === formatHeader(cached.token)) {
+        cached = null;
+        isReacquiring = true;
+      }
+
+      return true;
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import { parseAggregateCall } from "./combineAggregateResults.ts";
+import { joinQueryClauses, splitQueryClauses } from "./splitQueryClauses.ts";
+
+/**
+ * Rewrites a query of the form SELECT VALUE AVG(expr) so that each
+ * partition key range returns the sum and count of the numeric values,
+ * in the form { sum, count }.  Averaging the averages of each
+ * partition key range would give an incorrect result, whereas the
+ * sums and counts can be combined to produce the true average.
+ * @param query A Cosmos SQL query that selects a single AVG value.
+ */
+export function createAvgQuery(query: string): string {
+  const clauses = splitQueryClauses(query);
+  const call = clauses.value !== null
+    ? parseAggregateCall(clauses.value)
+    : null;
+
+  if (!call || call.aggregate !== "avg") {
+    throw new Error(
+      `Query must be of the form SELECT VALUE AVG(...) to use the avg transform.\n${query}`,
+    );
+  }
+
+  return joinQueryClauses({
+    ...clauses,
+    value: createAvgExpression(call.argument),
+  });
+}
+
+/**
+ * Returns an expression that produces the sum and count of the
+ * numeric values of the given expression, in the form { sum, count }.
+ * Values of other types are excluded from both, so that they cannot
+ * inflate the count without contributing to the sum.
+ * @param argument The expression passed to AVG.
+ */
+export function createAvgExpression(argument: string): string {
+  const numeric = `IS_NUMBER(${argument})`;
+
+  return `{"sum": SUM(${numeric} ? ${argument} : 0), "count": COUNT(${numeric} ? 1 : undefined)}`;
+}
@@ -1,54 +1,159 @@
-import { generateCosmosReqHeaders } from "./generateCosmosReqHeaders.ts";
-import { cosmosRetryable } from "./cosmosRetryable.ts";
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
 import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+import { DEFAULT_PARTITION_KEY_PATHS } from "./applyPartitionKeyValue.ts";
+import {
+  CosmosCollection,
+  CosmosIndexingPolicy,
+  CosmosUniqueKeyPolicy,
+} from "./getCollection.ts";
+
+/**
+ * Options for creating a collection.
+ */
+interface CreateCollectionOptions {
+  /**
+   * The partition key paths of the collection.  Defaults to
+   * ["/partitionKey"].  Supplying more than one path, up to a maximum
+   * of three, creates a hierarchical (MultiHash) partition key.
+   */
+  partitionKeyPaths?: string[];
+
+  /**
+   * The indexing policy of the collection, including any composite
+   * and spatial indexes.  If not supplied, every path is indexed.
+   */
+  indexingPolicy?: CosmosIndexingPolicy;
+
+  /**
+   * The unique key constraints of the collection.  These cannot
+   * be changed once the collection has been created.
+   */
+  uniqueKeyPolicy?: CosmosUniqueKeyPolicy;
+
+  /**
+   * The number of seconds after which documents expire.  Use -1 so
+   * that documents only expire when they have their own ttl property.
+   * If not supplied, documents do not expire.
+   */
+  defaultTtl?: number;
+
+  /**
+   * The manual throughput, in RU/s, to provision for the collection.
+   * If neither throughput nor maxAutoscaleThroughput are supplied then
+   * the collection shares the throughput of the database.
+   */
+  throughput?: number;
+
+  /**
+   * The maximum throughput, in RU/s, to provision for the collection
+   * using autoscale.  Cosmos scales between 10% of this value and
+   * the value itself.  Cannot be combined with throughput.
+   */
+  maxAutoscaleThroughput?: number;
+
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
 
 /**
  * Creates a new collection.
- * @param cryptoKey A crypto key.
+ * @param authorization A crypto key, or a provider of authorization headers.
  * @param cosmosUrl The url to the database.
  * @param databaseName The name of a database.
  * @param collectionName The name for the new collection
+ * @param options A property bag of options.
  */
 export async function createCollection(
-  cryptoKey: CryptoKey,
+  authorization: CosmosAuthorization,
   cosmosUrl: string,
   databaseName: string,
   collectionName: string,
-) {
-  await cosmosRetryable(async () => {
+  options: CreateCollectionOptions = {},
+): Promise<CosmosCollection> {
+  if (
+    options.throughput !== undefined &&
+    options.maxAutoscaleThroughput !== undefined
+  ) {
+    throw new Error(
+      `Unable to create collection ${databaseName}/${collectionName}.\nThroughput and maxAutoscaleThroughput cannot both be supplied.`,
+    );
+  }
+
+  const partitionKeyPaths = options.partitionKeyPaths ||
+    DEFAULT_PARTITION_KEY_PATHS;
+
+  const collection = await cosmosRetryable(async (attempt) => {
     const reqHeaders = await generateCosmosReqHeaders({
-      key: cryptoKey,
+      key: authorization,
       method: "POST",
       resourceType: "colls",
       resourceLink: `dbs/${databaseName}`,
     });
 
-    const response = await fetch(`${cosmosUrl}/dbs/${databaseName}/colls`, {
-      method: "POST",
-      headers: {
-        Authorization: reqHeaders.authorizationHeader,
-        "x-ms-date": reqHeaders.xMsDateHeader,
-        "content-type": "application/json",
-        "x-ms-version": reqHeaders.xMsVersion,
-      },
-      body: JSON.stringify({
-        id: collectionName,
-        partitionKey: {
-          paths: [
-            "/partitionKey",
-          ],
-          kind: "Hash",
-          Version: 2,
+    const optionalHeaders: Record<string, string> = {};
+
+    if (options.throughput !== undefined) {
+      optionalHeaders["x-ms-offer-throughput"] = options.throughput.toString();
+    }
+
+    if (options.maxAutoscaleThroughput !== undefined) {
+      optionalHeaders["x-ms-cosmos-offer-autopilot-settings"] = JSON.stringify(
+        { maxThroughput: options.maxAutoscaleThroughput },
+      );
+    }
+
+    const response = await cosmosFetch(
+      `${cosmosUrl}/dbs/${databaseName}/colls`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json",
+          "x-ms-version": reqHeaders.xMsVersion,
+          ...optionalHeaders,
         },
-      }),
-    });
+        body: JSON.stringify({
+          id: collectionName,
+          partitionKey: {
+            paths: partitionKeyPaths,
+            kind: partitionKeyPaths.length > 1 ? "MultiHash" : "Hash",
+            version: 2,
+          },
+          indexingPolicy: options.indexingPolicy,
+          uniqueKeyPolicy: options.uniqueKeyPolicy,
+          defaultTtl: options.defaultTtl,
+        }),
+      },
+      "createCollection",
+      attempt,
+    );
 
-    ensureRaisingOfTransitoryErrors(response);
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "createCollection",
+    );
 
     if (!response.ok) {
-      throw new Error(`Unable to create collection.\n${await response.text()}`);
+      throw await createCosmosError(
+        response,
+        "createCollection",
+        "Unable to create collection.",
+      );
     }
 
-    await response.body?.cancel();
-  });
+    return await response.json() as CosmosCollection;
+  }, { retryPolicy: options.retryPolicy, isIdempotent: false });
+
+  return collection;
 }
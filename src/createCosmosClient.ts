@@ -0,0 +1,717 @@
+import { CosmosAuthorization } from "./generateCosmosReqHeaders.ts";
+import { CosmosPartitionKeyValue } from "./formatPartitionKeyValue.ts";
+import { mergeSessionTokens } from "./mergeSessionTokens.ts";
+import { CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { bulkWriteDocuments } from "./bulkWriteDocuments.ts";
+import { createCollection } from "./createCollection.ts";
+import { createDatabase } from "./createDatabase.ts";
+import { createDocument } from "./createDocument.ts";
+import { createPermission } from "./createPermission.ts";
+import { createUser } from "./createUser.ts";
+import { deleteCollection } from "./deleteCollection.ts";
+import { deleteDatabase } from "./deleteDatabase.ts";
+import { deleteDocument } from "./deleteDocument.ts";
+import { deleteUser } from "./deleteUser.ts";
+import { executeStoredProcedure } from "./executeStoredProcedure.ts";
+import { executeTransactionalBatch } from "./executeTransactionalBatch.ts";
+import { getCollection } from "./getCollection.ts";
+import { getDocument } from "./getDocument.ts";
+import { getOffer } from "./getOffer.ts";
+import { getPermission } from "./getPermission.ts";
+import { listCollections } from "./listCollections.ts";
+import { listDatabases } from "./listDatabases.ts";
+import { listUsers } from "./listUsers.ts";
+import { patchDocument } from "./patchDocument.ts";
+import { queryDocumentsContainersDirect } from "./queryDocumentsContainersDirect.ts";
+import { queryDocumentsGateway } from "./queryDocumentsGateway.ts";
+import { readChangeFeed } from "./readChangeFeed.ts";
+import { replaceDocument } from "./replaceDocument.ts";
+import { CosmosThroughput, replaceOffer } from "./replaceOffer.ts";
+
+/**
+ * A client for a Cosmos account, which holds the authorization and url
+ * so they do not need to be supplied to each operation.
+ */
+export interface CosmosClient {
+  /**
+   * Returns a handle to a database.  The database is not read or
+   * created, so the handle can be obtained before the database exists.
+   */
+  database: (databaseName: string) => CosmosDatabaseHandle;
+
+  /**
+   * Creates a new database.
+   */
+  createDatabase: (
+    databaseName: string,
+    options?: Parameters<typeof createDatabase>[3],
+  ) => ReturnType<typeof createDatabase>;
+
+  /**
+   * Returns the names of the databases.
+   */
+  listDatabases: (
+    options?: Parameters<typeof listDatabases>[2],
+  ) => ReturnType<typeof listDatabases>;
+
+  /**
+   * Deletes a database.
+   */
+  deleteDatabase: (
+    databaseName: string,
+    options?: Parameters<typeof deleteDatabase>[3],
+  ) => ReturnType<typeof deleteDatabase>;
+}
+
+/**
+ * A handle to a database of a Cosmos account.
+ */
+export interface CosmosDatabaseHandle {
+  /**
+   * The name of the database.
+   */
+  databaseName: string;
+
+  /**
+   * Returns a handle to a collection of the database.  Handles to the
+   * same collection, obtained from the same client, share session tokens.
+   */
+  container: (collectionName: string) => CosmosContainerHandle;
+
+  /**
+   * Creates a new collection.
+   */
+  createCollection: (
+    collectionName: string,
+    options?: Parameters<typeof createCollection>[4],
+  ) => ReturnType<typeof createCollection>;
+
+  /**
+   * Returns the names of the collections.
+   */
+  listCollections: (
+    options?: Parameters<typeof listCollections>[3],
+  ) => ReturnType<typeof listCollections>;
+
+  /**
+   * Returns the throughput provisioned for the database,
+   * or null if it does not have its own throughput.
+   */
+  getOffer: (
+    options?: Parameters<typeof getOffer>[4],
+  ) => ReturnType<typeof getOffer>;
+
+  /**
+   * Replaces the throughput provisioned for the database.
+   */
+  replaceOffer: (
+    throughput: CosmosThroughput,
+    options?: Parameters<typeof replaceOffer>[5],
+  ) => ReturnType<typeof replaceOffer>;
+
+  /**
+   * Creates a new user.
+   */
+  createUser: (
+    userName: string,
+    options?: Parameters<typeof createUser>[4],
+  ) => ReturnType<typeof createUser>;
+
+  /**
+   * Returns the users of the database.
+   */
+  listUsers: (
+    options?: Parameters<typeof listUsers>[3],
+  ) => ReturnType<typeof listUsers>;
+
+  /**
+   * Deletes a user, along with all of its permissions.
+   */
+  deleteUser: (
+    userName: string,
+    options?: Parameters<typeof deleteUser>[4],
+  ) => ReturnType<typeof deleteUser>;
+
+  /**
+   * Creates a new permission for a user.
+   */
+  createPermission: (
+    userName: string,
+    permissionName: string,
+    definition: Parameters<typeof createPermission>[5],
+    options?: Parameters<typeof createPermission>[6],
+  ) => ReturnType<typeof createPermission>;
+
+  /**
+   * Returns a permission of a user, with a newly issued resource token.
+   */
+  getPermission: (
+    userName: string,
+    permissionName: string,
+    options?: Parameters<typeof getPermission>[5],
+  ) => ReturnType<typeof getPermission>;
+}
+
+/**
+ * A handle to a collection of a Cosmos database.  The session tokens
+ * returned by writes are merged and supplied to subsequent requests,
+ * unless a session token is given in the options, so that a read
+ * always observes the writes made through the same client.
+ */
+export interface CosmosContainerHandle {
+  /**
+   * The name of the database.
+   */
+  databaseName: string;
+
+  /**
+   * The name of the collection.
+   */
+  collectionName: string;
+
+  /**
+   * Returns the session token that is supplied to requests,
+   * or undefined if no writes have been made.
+   */
+  getSessionToken: () => string | undefined;
+
+  /**
+   * Returns the definition of the collection.
+   */
+  getCollection: (
+    options?: Parameters<typeof getCollection>[4],
+  ) => ReturnType<typeof getCollection>;
+
+  /**
+   * Deletes the collection.
+   */
+  deleteCollection: (
+    options?: Parameters<typeof deleteCollection>[4],
+  ) => ReturnType<typeof deleteCollection>;
+
+  /**
+   * Returns the throughput provisioned for the collection,
+   * or null if it shares the throughput of the database.
+   */
+  getOffer: (
+    options?: Parameters<typeof getOffer>[4],
+  ) => ReturnType<typeof getOffer>;
+
+  /**
+   * Replaces the throughput provisioned for the collection.
+   */
+  replaceOffer: (
+    throughput: CosmosThroughput,
+    options?: Parameters<typeof replaceOffer>[5],
+  ) => ReturnType<typeof replaceOffer>;
+
+  /**
+   * Creates a new document.
+   */
+  createDocument: (
+    partition: CosmosPartitionKeyValue,
+    document: Record<string, unknown>,
+    options?: Parameters<typeof createDocument>[6],
+  ) => ReturnType<typeof createDocument>;
+
+  /**
+   * Returns a document, or a null doc if it does not exist.
+   */
+  getDocument: (
+    partition: CosmosPartitionKeyValue,
+    documentId: string,
+    options?: Parameters<typeof getDocument>[6],
+  ) => ReturnType<typeof getDocument>;
+
+  /**
+   * Replaces an existing document.
+   */
+  replaceDocument: (
+    partition: CosmosPartitionKeyValue,
+    document: Record<string, unknown>,
+    options?: Parameters<typeof replaceDocument>[6],
+  ) => ReturnType<typeof replaceDocument>;
+
+  /**
+   * Applies a set of partial updates to a document.
+   */
+  patchDocument: (
+    partition: CosmosPartitionKeyValue,
+    documentId: string,
+    operations: Parameters<typeof patchDocument>[6],
+    options?: Parameters<typeof patchDocument>[7],
+  ) => ReturnType<typeof patchDocument>;
+
+  /**
+   * Deletes a document.
+   */
+  deleteDocument: (
+    partition: CosmosPartitionKeyValue,
+    documentId: string,
+    options?: Parameters<typeof deleteDocument>[6],
+  ) => ReturnType<typeof deleteDocument>;
+
+  /**
+   * Executes a set of operations within a single logical partition
+   * as a single transaction.
+   */
+  executeTransactionalBatch: (
+    partition: CosmosPartitionKeyValue,
+    operations: Parameters<typeof executeTransactionalBatch>[5],
+    options?: Parameters<typeof executeTransactionalBatch>[6],
+  ) => ReturnType<typeof executeTransactionalBatch>;
+
+  /**
+   * Writes a large number of documents with bounded concurrency.
+   */
+  bulkWriteDocuments: (
+    operation: Parameters<typeof bulkWriteDocuments>[4],
+    documents: Parameters<typeof bulkWriteDocuments>[5],
+    options?: Parameters<typeof bulkWriteDocuments>[6],
+  ) => ReturnType<typeof bulkWriteDocuments>;
+
+  /**
+   * Queries the documents of a logical partition using the gateway.
+   */
+  queryDocumentsGateway: (
+    partition: CosmosPartitionKeyValue,
+    query: string,
+    parameters: Parameters<typeof queryDocumentsGateway>[6],
+    options?: Parameters<typeof queryDocumentsGateway>[7],
+  ) => ReturnType<typeof queryDocumentsGateway>;
+
+  /**
+   * Queries the documents of every partition key range and
+   * combines the results using the given transform.
+   */
+  queryDocumentsContainersDirect: (
+    query: string,
+    parameters: Parameters<typeof queryDocumentsContainersDirect>[5],
+    transform: Parameters<typeof queryDocumentsContainersDirect>[6],
+    options?: Parameters<typeof queryDocumentsContainersDirect>[7],
+  ) => ReturnType<typeof queryDocumentsContainersDirect>;
+
+  /**
+   * Reads the changes made to the documents of the collection.
+   */
+  readChangeFeed: (
+    options?: Parameters<typeof readChangeFeed>[4],
+  ) => ReturnType<typeof readChangeFeed>;
+
+  /**
+   * Executes a stored procedure against a logical partition.
+   */
+  executeStoredProcedure: (
+    storedProcedureName: string,
+    partition: CosmosPartitionKeyValue,
+    args: unknown[],
+    options?: Parameters<typeof executeStoredProcedure>[7],
+  ) => ReturnType<typeof executeStoredProcedure>;
+}
+
+/**
+ * Options for creating a Cosmos client.
+ */
+interface CreateCosmosClientOptions {
+  /**
+   * The policy for retrying transient failures, used by each operation
+   * that accepts a retry policy unless the operation supplies its own.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * Returns a client for a Cosmos account.  The client holds the session
+ * tokens of each collection it has written to, which are kept in memory
+ * for the lifetime of the client.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param options A property bag of options.
+ */
+export function createCosmosClient(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  options: CreateCosmosClientOptions = {},
+): CosmosClient {
+  // The merged session token of each collection,
+  // keyed by database name and collection name.
+  const sessionTokens = new Map<string, string>();
+
+  const forgetSessionTokens = (prefix: string) => {
+    for (const key of Array.from(sessionTokens.keys())) {
+      if (key.startsWith(prefix)) {
+        sessionTokens.delete(key);
+      }
+    }
+  };
+
+  const client: CosmosClient = {
+    database: (databaseName) =>
+      createDatabaseHandle(
+        authorization,
+        cosmosUrl,
+        databaseName,
+        sessionTokens,
+        options.retryPolicy,
+      ),
+    createDatabase: (databaseName, createOptions = {}) =>
+      createDatabase(
+        authorization,
+        cosmosUrl,
+        databaseName,
+        withRetryPolicy(createOptions, options.retryPolicy),
+      ),
+    listDatabases: (listOptions = {}) =>
+      listDatabases(
+        authorization,
+        cosmosUrl,
+        withRetryPolicy(listOptions, options.retryPolicy),
+      ),
+    deleteDatabase: (databaseName, deleteOptions = {}) => {
+      forgetSessionTokens(`${databaseName}/`);
+
+      return deleteDatabase(
+        authorization,
+        cosmosUrl,
+        databaseName,
+        withRetryPolicy(deleteOptions, options.retryPolicy),
+      );
+    },
+  };
+
+  return client;
+}
+
+/**
+ * Returns a handle to a database.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param sessionTokens The session tokens held by the client.
+ * @param retryPolicy The retry policy of the client.
+ */
+function createDatabaseHandle(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  sessionTokens: Map<string, string>,
+  retryPolicy?: CosmosRetryPolicy,
+): CosmosDatabaseHandle {
+  return {
+    databaseName,
+    container: (collectionName) =>
+      createContainerHandle(
+        authorization,
+        cosmosUrl,
+        databaseName,
+        collectionName,
+        sessionTokens,
+        retryPolicy,
+      ),
+    createCollection: (collectionName, options = {}) =>
+      createCollection(
+        authorization,
+        cosmosUrl,
+        databaseName,
+        collectionName,
+        withRetryPolicy(options, retryPolicy),
+      ),
+    listCollections: (options = {}) =>
+      listCollections(
+        authorization,
+        cosmosUrl,
+        databaseName,
+        withRetryPolicy(options, retryPolicy),
+      ),
+    getOffer: (options = {}) =>
+      getOffer(
+        authorization,
+        cosmosUrl,
+        databaseName,
+        null,
+        withRetryPolicy(options, retryPolicy),
+      ),
+    replaceOffer: (throughput, options = {}) =>
+      replaceOffer(
+        authorization,
+        cosmosUrl,
+        databaseName,
+        null,
+        throughput,
+        withRetryPolicy(options, retryPolicy),
+      ),
+    createUser: (userName, options = {}) =>
+      createUser(
+        authorization,
+        cosmosUrl,
+        databaseName,
+        userName,
+        withRetryPolicy(options, retryPolicy),
+      ),
+    listUsers: (options = {}) =>
+      listUsers(
+        authorization,
+        cosmosUrl,
+        databaseName,
+        withRetryPolicy(options, retryPolicy),
+      ),
+    deleteUser: (userName, options = {}) =>
+      deleteUser(
+        authorization,
+        cosmosUrl,
+        databaseName,
+        userName,
+        withRetryPolicy(options, retryPolicy),
+      ),
+    createPermission: (userName, permissionName, definition, options = {}) =>
+      createPermission(
+        authorization,
+        cosmosUrl,
+        databaseName,
+        userName,
+        permissionName,
+        definition,
+        withRetryPolicy(options, retryPolicy),
+      ),
+    getPermission: (userName, permissionName, options = {}) =>
+      getPermission(
+        authorization,
+        cosmosUrl,
+        databaseName,
+        userName,
+        permissionName,
+        withRetryPolicy(options, retryPolicy),
+      ),
+  };
+}
+
+/**
+ * Returns a handle to a collection, which supplies the session token
+ * held for the collection to each request and merges the session
+ * token returned by each write into it.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param sessionTokens The session tokens held by the client.
+ * @param retryPolicy The retry policy of the client.
+ */
+function createContainerHandle(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  sessionTokens: Map<string, string>,
+  retryPolicy?: CosmosRetryPolicy,
+): CosmosContainerHandle {
+  const key = `${databaseName}/${collectionName}`;
+
+  const withSession = <
+    T extends { sessionToken?: string; retryPolicy?: CosmosRetryPolicy },
+  >(options: T) => ({
+    ...withRetryPolicy(options, retryPolicy),
+    sessionToken: options.sessionToken ?? sessionTokens.get(key),
+  });
+
+  const track = <T extends { sessionToken: string }>(result: T) => {
+    if (result.sessionToken) {
+      sessionTokens.set(
+        key,
+        mergeSessionTokens(sessionTokens.get(key), result.sessionToken),
+      );
+    }
+
+    return result;
+  };
+
+  return {
+    databaseName,
+    collectionName,
+    getSessionToken: () => sessionTokens.get(key),
+    getCollection: (options = {}) =>
+      getCollection(
+        authorization,
+        cosmosUrl,
+        databaseName,
+        collectionName,
+        withRetryPolicy(options, retryPolicy),
+      ),
+    deleteCollection: (options = {}) => {
+      sessionTokens.delete(key);
+
+      return deleteCollection(
+        authorization,
+        cosmosUrl,
+        databaseName,
+        collectionName,
+        withRetryPolicy(options, retryPolicy),
+      );
+    },
+    getOffer: (options = {}) =>
+      getOffer(
+        authorization,
+        cosmosUrl,
+        databaseName,
+        collectionName,
+        withRetryPolicy(options, retryPolicy),
+      ),
+    replaceOffer: (throughput, options = {}) =>
+      replaceOffer(
+        authorization,
+        cosmosUrl,
+        databaseName,
+        collectionName,
+        throughput,
+        withRetryPolicy(options, retryPolicy),
+      ),
+    createDocument: async (partition, document, options = {}) =>
+      track(
+        await createDocument(
+          authorization,
+          cosmosUrl,
+          databaseName,
+          collectionName,
+          partition,
+          document,
+          withSession(options),
+        ),
+      ),
+    getDocument: (partition, documentId, options = {}) =>
+      getDocument(
+        authorization,
+        cosmosUrl,
+        databaseName,
+        collectionName,
+        partition,
+        documentId,
+        withSession(options),
+      ),
+    replaceDocument: async (partition, document, options = {}) =>
+      track(
+        await replaceDocument(
+          authorization,
+          cosmosUrl,
+          databaseName,
+          collectionName,
+          partition,
+          document,
+          withSession(options),
+        ),
+      ),
+    patchDocument: async (partition, documentId, operations, options = {}) =>
+      track(
+        await patchDocument(
+          authorization,
+          cosmosUrl,
+          databaseName,
+          collectionName,
+          partition,
+          documentId,
+          operations,
+          withSession(options),
+        ),
+      ),
+    deleteDocument: async (partition, documentId, options = {}) =>
+      track(
+        await deleteDocument(
+          authorization,
+          cosmosUrl,
+          databaseName,
+          collectionName,
+          partition,
+          documentId,
+          withSession(options),
+        ),
+      ),
+    executeTransactionalBatch: async (partition, operations, options = {}) =>
+      track(
+        await executeTransactionalBatch(
+          authorization,
+          cosmosUrl,
+          databaseName,
+          collectionName,
+          partition,
+          operations,
+          withSession(options),
+        ),
+      ),
+    bulkWriteDocuments: async (operation, documents, options = {}) =>
+      track(
+        await bulkWriteDocuments(
+          authorization,
+          cosmosUrl,
+          databaseName,
+          collectionName,
+          operation,
+          documents,
+          withRetryPolicy(options, retryPolicy),
+        ),
+      ),
+    queryDocumentsGateway: (partition, query, parameters, options = {}) =>
+      queryDocumentsGateway(
+        authorization,
+        cosmosUrl,
+        databaseName,
+        collectionName,
+        partition,
+        query,
+        parameters,
+        withSession(options),
+      ),
+    queryDocumentsContainersDirect: (
+      query,
+      parameters,
+      transform,
+      options = {},
+    ) =>
+      queryDocumentsContainersDirect(
+        authorization,
+        cosmosUrl,
+        databaseName,
+        collectionName,
+        query,
+        parameters,
+        transform,
+        withSession(options),
+      ),
+    readChangeFeed: (options = {}) =>
+      readChangeFeed(
+        authorization,
+        cosmosUrl,
+        databaseName,
+        collectionName,
+        withSession(options),
+      ),
+    executeStoredProcedure: async (
+      storedProcedureName,
+      partition,
+      args,
+      options = {},
+    ) =>
+      track(
+        await executeStoredProcedure(
+          authorization,
+          cosmosUrl,
+          databaseName,
+          collectionName,
+          storedProcedureName,
+          partition,
+          args,
+          withSession(options),
+        ),
+      ),
+  };
+}
+
+/**
+ * Returns the given options, using the retry policy of the client
+ * if the options do not supply one.
+ * @param options A property bag of options.
+ * @param retryPolicy The retry policy of the client.
+ */
+function withRetryPolicy<T extends { retryPolicy?: CosmosRetryPolicy }>(
+  options: T,
+  retryPolicy?: CosmosRetryPolicy,
+): T {
+  return { ...options, retryPolicy: options.retryPolicy ?? retryPolicy };
+}
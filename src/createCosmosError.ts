@@ -0,0 +1,301 @@
+import { getResourceLink } from "./cosmosFetch.ts";
+
+/**
+ * The substatus codes of a 410 (Gone) response that indicate the
+ * request was not applied and can safely be attempted again, e.g.
+ * because the partition was being moved or split at the time.
+ */
+const TRANSITORY_GONE_SUBSTATUSES = [1000, 1002, 1007, 1008];
+
+/**
+ * The details of a failed Cosmos request, as passed to the
+ * constructor of CosmosError.
+ */
+export type CosmosErrorDetails = Omit<CosmosError, keyof Error>;
+
+/**
+ * Raised when Cosmos rejects a request.  The message describes the
+ * failed operation followed by the body of the response, and the
+ * remaining details of the response are exposed as properties.
+ */
+export class CosmosError extends Error {
+  /**
+   * The Http status code of the response.
+   */
+  readonly status: number;
+
+  /**
+   * The x-ms-substatus header of the response, or null if not supplied.
+   */
+  readonly substatus: number | null;
+
+  /**
+   * The x-ms-activity-id header of the response, which identifies the
+   * request to Cosmos support, or null if not supplied.
+   */
+  readonly activityId: string | null;
+
+  /**
+   * The request units consumed by the request.
+   */
+  readonly requestCharge: number;
+
+  /**
+   * The error code in the body of the response, e.g. Conflict,
+   * or null if the body could not be parsed.
+   */
+  readonly code: string | null;
+
+  /**
+   * The error message in the body of the response,
+   * or null if the body could not be parsed.
+   */
+  readonly cosmosMessage: string | null;
+
+  /**
+   * The name of the operation that failed, e.g. createDocument.
+   */
+  readonly operation: string;
+
+  /**
+   * The link of the resource that the request was made to,
+   * e.g. dbs/mydb/colls/mycol/docs/doc1.
+   */
+  readonly resourceLink: string;
+
+  /**
+   * The x-ms-retry-after-ms header of the response, which is the number
+   * of milliseconds that Cosmos asked the client to wait before retrying,
+   * or null if not supplied.
+   */
+  readonly retryAfterMilliseconds: number | null;
+
+  /**
+   * True if Cosmos may have applied the request before it failed,
+   * e.g. after a timeout.
+   */
+  readonly mayHaveBeenApplied: boolean;
+
+  /**
+   * Constructs a new instance.
+   * @param message A description of the failure.
+   * @param details The details of the failed request.
+   */
+  constructor(message: string, details: CosmosErrorDetails) {
+    super(message);
+    this.name = "CosmosError";
+    this.status = details.status;
+    this.substatus = details.substatus;
+    this.activityId = details.activityId;
+    this.requestCharge = details.requestCharge;
+    this.code = details.code;
+    this.cosmosMessage = details.cosmosMessage;
+    this.operation = details.operation;
+    this.resourceLink = details.resourceLink;
+    this.retryAfterMilliseconds = details.retryAfterMilliseconds;
+    this.mayHaveBeenApplied = details.mayHaveBeenApplied;
+  }
+}
+
+/**
+ * Raised for a transient failure that may succeed if the request is
+ * attempted again, such as a 503 (Service Unavailable) response.
+ */
+export class CosmosTransitoryError extends CosmosError {
+  constructor(message: string, details: CosmosErrorDetails) {
+    super(message, details);
+    this.name = "CosmosTransitoryError";
+  }
+}
+
+/**
+ * Raised when a request is rejected with a 429 (Too Many Requests)
+ * response because the provisioned throughput has been consumed.
+ */
+export class CosmosThrottledError extends CosmosTransitoryError {
+  constructor(message: string, details: CosmosErrorDetails) {
+    super(message, details);
+    this.name = "CosmosThrottledError";
+  }
+}
+
+/**
+ * Raised when a request is rejected with a 401 (Unauthorized) or
+ * 403 (Forbidden) response.
+ */
+export class CosmosAuthError extends CosmosError {
+  constructor(message: string, details: CosmosErrorDetails) {
+    super(message, details);
+    this.name = "CosmosAuthError";
+  }
+}
+
+/**
+ * Raised when a request is rejected with a 404 (Not Found) response.
+ */
+export class CosmosNotFoundError extends CosmosError {
+  constructor(message: string, details: CosmosErrorDetails) {
+    super(message, details);
+    this.name = "CosmosNotFoundError";
+  }
+}
+
+/**
+ * Raised when a request is rejected with a 409 (Conflict) response,
+ * typically because a resource with the same id already exists.
+ */
+export class CosmosConflictError extends CosmosError {
+  constructor(message: string, details: CosmosErrorDetails) {
+    super(message, details);
+    this.name = "CosmosConflictError";
+  }
+}
+
+/**
+ * Raised when a request is rejected with a 412 (Precondition Failed)
+ * response, typically because the etag of a resource has changed.
+ */
+export class CosmosPreconditionFailedError extends CosmosError {
+  constructor(message: string, details: CosmosErrorDetails) {
+    super(message, details);
+    this.name = "CosmosPreconditionFailedError";
+  }
+}
+
+/**
+ * Returns a CosmosError, or one of its subclasses, that describes the
+ * failure indicated by the given response.  The body of the response
+ * is consumed.
+ * @param response A fetch response.
+ * @param operation The name of the operation that failed.
+ * @param message A description of the failure, which is followed
+ * by the body of the response in the message of the error.
+ */
+export async function createCosmosError(
+  response: Response,
+  operation: string,
+  message: string,
+): Promise<CosmosError> {
+  const text = await response.text();
+  const body = parseErrorBody(text);
+  const details = readErrorDetails(response, operation);
+
+  const ErrorClass = selectErrorClass(details.status, details.substatus);
+
+  return new ErrorClass(`${message}\n${text}`, {
+    ...details,
+    code: body.code,
+    cosmosMessage: body.message,
+  });
+}
+
+/**
+ * Returns the details of a failed request that can be read from
+ * the status and headers of the response.  The code and message
+ * of the body are not read, and so are returned as null.
+ * @param response A fetch response.
+ * @param operation The name of the operation that failed.
+ */
+function readErrorDetails(
+  response: Response,
+  operation: string,
+): CosmosErrorDetails {
+  const retryAfter = parseFloat(
+    response.headers.get("x-ms-retry-after-ms") || "",
+  );
+
+  return {
+    status: response.status,
+    substatus: readSubstatus(response),
+    activityId: response.headers.get("x-ms-activity-id"),
+    requestCharge: parseFloat(
+      response.headers.get("x-ms-request-charge") || "0",
+    ),
+    code: null,
+    cosmosMessage: null,
+    operation,
+    resourceLink: getResourceLink(response.url),
+    retryAfterMilliseconds: isNaN(retryAfter) || retryAfter < 0
+      ? null
+      : retryAfter,
+    mayHaveBeenApplied: response.status === 408 || response.status === 504,
+  };
+}
+
+/**
+ * Returns true if the given response indicates a transient failure
+ * that may succeed if the request is attempted again.
+ * The body of the response is not consumed.
+ * @param response A fetch response.
+ */
+export function isTransitoryResponse(response: Response) {
+  return isTransitoryStatus(response.status, readSubstatus(response));
+}
+
+/**
+ * Returns true if the given status and substatus indicate a transient
+ * failure that may succeed if the request is attempted again.
+ * @param status The Http status code of a response.
+ * @param substatus The x-ms-substatus header of a response, if any.
+ */
+function isTransitoryStatus(status: number, substatus: number | null) {
+  return status === 408 ||
+    (status === 410 && substatus !== null &&
+      TRANSITORY_GONE_SUBSTATUSES.includes(substatus)) ||
+    status === 429 ||
+    status === 449 ||
+    status === 503 ||
+    status === 504;
+}
+
+/**
+ * Returns the x-ms-substatus header of the response as a number,
+ * or null if the header is missing or invalid.
+ * @param response A fetch response.
+ */
+function readSubstatus(response: Response) {
+  const substatus = parseInt(response.headers.get("x-ms-substatus") || "");
+
+  return isNaN(substatus) ? null : substatus;
+}
+
+/**
+ * Returns the error class that represents the given status and substatus.
+ * @param status The Http status code of a response.
+ * @param substatus The x-ms-substatus header of a response, if any.
+ */
+function selectErrorClass(status: number, substatus: number | null) {
+  if (status === 429) {
+    return CosmosThrottledError;
+  } else if (isTransitoryStatus(status, substatus)) {
+    return CosmosTransitoryError;
+  } else if (status === 401 || status === 403) {
+    return CosmosAuthError;
+  } else if (status === 404) {
+    return CosmosNotFoundError;
+  } else if (status === 409) {
+    return CosmosConflictError;
+  } else if (status === 412) {
+    return CosmosPreconditionFailedError;
+  } else {
+    return CosmosError;
+  }
+}
+
+/**
+ * Returns the code and message of an error response body, which
+ * Cosmos supplies in the form {"code": "...", "message": "..."}.
+ * @param text The body of a response.
+ */
+function parseErrorBody(text: string) {
+  try {
+    const body = JSON.parse(text);
+
+    return {
+      code: typeof body?.code === "string" ? body.code : null,
+      message: typeof body?.message === "string" ? body.message : null,
+    };
+  } catch {
+    return { code: null, message: null };
+  }
+}
@@ -1,44 +1,111 @@
-import { generateCosmosReqHeaders } from "./generateCosmosReqHeaders.ts";
-import { cosmosRetryable } from "./cosmosRetryable.ts";
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
 import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+
+/**
+ * Options for creating a database.
+ */
+interface CreateDatabaseOptions {
+  /**
+   * The manual throughput, in RU/s, to provision for the database,
+   * which is shared by its collections.  If neither throughput nor
+   * maxAutoscaleThroughput are supplied then each collection must
+   * provision its own throughput.
+   */
+  throughput?: number;
+
+  /**
+   * The maximum throughput, in RU/s, to provision for the database
+   * using autoscale.  Cannot be combined with throughput.
+   */
+  maxAutoscaleThroughput?: number;
+
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
 
 /**
  * Creates a new database.
- * @param cryptoKey A crypto key.
+ * @param authorization A crypto key, or a provider of authorization headers.
  * @param cosmosUrl The url to the database.
  * @param databaseName The name of the new database.
+ * @param options A property bag of options.
  */
 export async function createDatabase(
-  cryptoKey: CryptoKey,
+  authorization: CosmosAuthorization,
   cosmosUrl: string,
   databaseName: string,
+  options: CreateDatabaseOptions = {},
 ) {
-  await cosmosRetryable(async () => {
+  if (
+    options.throughput !== undefined &&
+    options.maxAutoscaleThroughput !== undefined
+  ) {
+    throw new Error(
+      `Unable to create database ${databaseName}.\nThroughput and maxAutoscaleThroughput cannot both be supplied.`,
+    );
+  }
+
+  await cosmosRetryable(async (attempt) => {
     const reqHeaders = await generateCosmosReqHeaders({
-      key: cryptoKey,
+      key: authorization,
       method: "POST",
       resourceType: "dbs",
     });
 
-    const response = await fetch(`${cosmosUrl}/dbs`, {
-      method: "POST",
-      headers: {
-        Authorization: reqHeaders.authorizationHeader,
-        "x-ms-date": reqHeaders.xMsDateHeader,
-        "content-type": "application/json",
-        "x-ms-version": reqHeaders.xMsVersion,
+    const optionalHeaders: Record<string, string> = {};
+
+    if (options.throughput !== undefined) {
+      optionalHeaders["x-ms-offer-throughput"] = options.throughput.toString();
+    }
+
+    if (options.maxAutoscaleThroughput !== undefined) {
+      optionalHeaders["x-ms-cosmos-offer-autopilot-settings"] = JSON.stringify(
+        { maxThroughput: options.maxAutoscaleThroughput },
+      );
+    }
+
+    const response = await cosmosFetch(
+      `${cosmosUrl}/dbs`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json",
+          "x-ms-version": reqHeaders.xMsVersion,
+          ...optionalHeaders,
+        },
+        body: JSON.stringify({
+          id: databaseName,
+        }),
       },
-      body: JSON.stringify({
-        id: databaseName,
-      }),
-    });
+      "createDatabase",
+      attempt,
+    );
 
-    ensureRaisingOfTransitoryErrors(response);
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "createDatabase",
+    );
 
     if (!response.ok) {
-      throw new Error(`Unable to create database.\n${await response.text()}`);
+      throw await createCosmosError(
+        response,
+        "createDatabase",
+        "Unable to create database.",
+      );
     }
 
     await response.body?.cancel();
-  });
+  }, { retryPolicy: options.retryPolicy, isIdempotent: false });
 }
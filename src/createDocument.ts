@@ -1,7 +1,16 @@
-import { generateCosmosReqHeaders } from "./generateCosmosReqHeaders.ts";
-import { cosmosRetryable } from "./cosmosRetryable.ts";
+import { applyPartitionKeyValue } from "./applyPartitionKeyValue.ts";
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
 import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
-import { formatPartitionKeyValue } from "./formatPartitionKeyValue.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+import {
+  CosmosPartitionKeyValue,
+  formatPartitionKeyValue,
+} from "./formatPartitionKeyValue.ts";
 
 /**
  * The options to use when creating the document.
@@ -14,10 +23,32 @@ interface CreateDocumentOptions {
    */
   upsertDocument?: boolean;
 
+  /**
+   * The partition key paths of the collection, e.g. ["/tenantId", "/userId"].
+   * The partition key value is written to these paths of the document.
+   * Defaults to ["/partitionKey"].
+   */
+  partitionKeyPaths?: string[];
+
+  /**
+   * The names of the pre-triggers to run before the document is written.
+   */
+  preTriggers?: string[];
+
+  /**
+   * The names of the post-triggers to run after the document is written.
+   */
+  postTriggers?: string[];
+
   /**
    * A session token.
    */
   sessionToken?: string;
+
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
 }
 
 /**
@@ -47,7 +78,7 @@ interface CreateDocumentResult {
 
 /**
  * Creates a new document.
- * @param cryptoKey A crypto key.
+ * @param authorization A crypto key, or a provider of authorization headers.
  * @param cosmosUrl The url to the database.
  * @param databaseName The name of the database.
  * @param collectionName The name of the collection.
@@ -56,17 +87,17 @@ interface CreateDocumentResult {
  * @param options A property bag of options.
  */
 export async function createDocument(
-  cryptoKey: CryptoKey,
+  authorization: CosmosAuthorization,
   cosmosUrl: string,
   databaseName: string,
   collectionName: string,
-  partition: string,
+  partition: CosmosPartitionKeyValue,
   document: Record<string, unknown>,
   options: CreateDocumentOptions,
 ): Promise<CreateDocumentResult> {
-  const result = await cosmosRetryable(async () => {
+  const result = await cosmosRetryable(async (attempt) => {
     const reqHeaders = await generateCosmosReqHeaders({
-      key: cryptoKey,
+      key: authorization,
       method: "POST",
       resourceType: "docs",
       resourceLink: `dbs/${databaseName}/colls/${collectionName}`,
@@ -82,11 +113,19 @@ export async function createDocument(
       optionalHeaders["x-ms-session-token"] = options.sessionToken;
     }
 
-    if (document.partitionKey !== partition) {
-      document.partitionKey = partition;
+    if (options.preTriggers && options.preTriggers.length > 0) {
+      optionalHeaders["x-ms-documentdb-pre-trigger-include"] = options
+        .preTriggers.join(",");
     }
 
-    const response = await fetch(
+    if (options.postTriggers && options.postTriggers.length > 0) {
+      optionalHeaders["x-ms-documentdb-post-trigger-include"] = options
+        .postTriggers.join(",");
+    }
+
+    applyPartitionKeyValue(document, partition, options.partitionKeyPaths);
+
+    const response = await cosmosFetch(
       `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}/docs`,
       {
         method: "POST",
@@ -102,14 +141,22 @@ export async function createDocument(
         },
         body: JSON.stringify(document),
       },
+      "createDocument",
+      attempt,
     );
 
-    ensureRaisingOfTransitoryErrors(response);
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "createDocument",
+    );
 
     if (!response.ok) {
-      throw new Error(
-        `Unable to create document ${databaseName}/${collectionName}/${document.id}.\n${await response
-          .text()}`,
+      throw await createCosmosError(
+        response,
+        "createDocument",
+        `Unable to create document ${databaseName}/${collectionName}/${document.id}.`,
       );
     }
 
@@ -125,6 +172,9 @@ export async function createDocument(
         response.headers.get("x-ms-request-duration-ms") as string,
       ),
     };
+  }, {
+    retryPolicy: options.retryPolicy,
+    isIdempotent: Boolean(options.upsertDocument),
   });
 
   return result;
@@ -0,0 +1,67 @@
+import {
+  containsAggregateCall,
+  parseAggregateCall,
+} from "./combineAggregateResults.ts";
+import { createAvgExpression } from "./createAvgQuery.ts";
+import { joinQueryClauses, splitQueryClauses } from "./splitQueryClauses.ts";
+
+/**
+ * Rewrites a query that uses GROUP BY so that each record returned
+ * by Cosmos holds the values of the GROUP BY items alongside the
+ * original selection, in the form { groupByItems: [{ item }], payload }.
+ * This allows the partial groups returned by each partition key range
+ * to be merged, even when the grouping keys are not part of the
+ * selection.  Any AVG aggregates are replaced by the sum and count
+ * of the values so that the true average can be calculated.
+ * @param query A Cosmos SQL query that uses GROUP BY.
+ */
+export function createGroupByQuery(query: string): string {
+  const clauses = splitQueryClauses(query);
+
+  if (clauses.groupBy.length === 0) {
+    throw new Error(`Query must contain a GROUP BY clause.\n${query}`);
+  }
+
+  if (clauses.value === null && clauses.selectionItems.length === 0) {
+    throw new Error(`Query cannot use SELECT * with GROUP BY.\n${query}`);
+  }
+
+  const groupByItems = `[${
+    clauses.groupBy.map((expression) => `{"item": ${expression}}`).join(", ")
+  }]`;
+
+  // Replaces AVG with the sum and count, and ensures that any other
+  // aggregate is the whole of the expression so it can be combined.
+  const rewriteExpression = (expression: string) => {
+    const call = parseAggregateCall(expression);
+
+    if (call && call.aggregate === "avg") {
+      return createAvgExpression(call.argument);
+    }
+
+    if (!call && containsAggregateCall(expression)) {
+      throw new Error(
+        `Aggregates must form the whole of a selection item to be combined across partitions.\n${query}`,
+      );
+    }
+
+    return expression;
+  };
+
+  const payload = clauses.value !== null
+    ? rewriteExpression(clauses.value)
+    : `{${
+      clauses.selectionItems.map((item) =>
+        `${JSON.stringify(item.name)}: ${rewriteExpression(item.expression)}`
+      ).join(", ")
+    }}`;
+
+  return joinQueryClauses({
+    ...clauses,
+    value: null,
+    selectionItems: [
+      { expression: groupByItems, name: "groupByItems" },
+      { expression: payload, name: "payload" },
+    ],
+  });
+}
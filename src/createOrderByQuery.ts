@@ -0,0 +1,41 @@
+import { joinQueryClauses, splitQueryClauses } from "./splitQueryClauses.ts";
+
+/**
+ * Rewrites a query that uses ORDER BY so that each record returned
+ * by Cosmos holds the values of the ORDER BY items alongside the
+ * original selection, in the form { orderByItems: [{ item }], payload }.
+ * This allows the results of each partition key range to be merged
+ * even when the ORDER BY items are not part of the selection.
+ * This is the same format used by the official Cosmos SDKs.
+ * @param query A Cosmos SQL query that uses ORDER BY.
+ */
+export function createOrderByQuery(query: string): string {
+  const clauses = splitQueryClauses(query);
+
+  if (clauses.orderBy.length === 0) {
+    throw new Error(`Query must contain an ORDER BY clause.\n${query}`);
+  }
+
+  const orderByItems = `[${
+    clauses.orderBy.map((item) => `{"item": ${item.expression}}`).join(", ")
+  }]`;
+
+  const payload = clauses.value !== null
+    ? clauses.value
+    : clauses.selectionItems.length === 0
+    ? clauses.fromAlias
+    : `{${
+      clauses.selectionItems.map((item) =>
+        `${JSON.stringify(item.name)}: ${item.expression}`
+      ).join(", ")
+    }}`;
+
+  return joinQueryClauses({
+    ...clauses,
+    value: null,
+    selectionItems: [
+      { expression: orderByItems, name: "orderByItems" },
+      { expression: payload, name: "payload" },
+    ],
+  });
+}
@@ -0,0 +1,198 @@
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+import {
+  CosmosPartitionKeyValue,
+  formatPartitionKeyValue,
+} from "./formatPartitionKeyValue.ts";
+
+/**
+ * The access granted by a permission.
+ * - Read: The resource can be read and queried.
+ * - All: The resource can also be written and deleted.
+ */
+export type CosmosPermissionMode = "Read" | "All";
+
+/**
+ * The definition of a permission.  A permission is scoped to a
+ * collection, and optionally narrowed to a single document or to the
+ * documents of a single logical partition.
+ */
+export interface CosmosPermissionDefinition {
+  /**
+   * The access granted by the permission.
+   */
+  permissionMode: CosmosPermissionMode;
+
+  /**
+   * The name of the collection that the permission applies to.
+   */
+  collectionName: string;
+
+  /**
+   * The id of a document, if the permission only applies
+   * to that document.
+   */
+  documentId?: string;
+
+  /**
+   * A partition key value, if the permission only applies
+   * to the documents of that logical partition.
+   */
+  partition?: CosmosPartitionKeyValue;
+}
+
+/**
+ * A permission of a user.
+ */
+export interface CosmosPermission {
+  /**
+   * The name of the permission.
+   */
+  id: string;
+
+  /**
+   * The access granted by the permission.
+   */
+  permissionMode: CosmosPermissionMode;
+
+  /**
+   * The link of the resource that the permission applies to,
+   * e.g. dbs/mydb/colls/mycol.
+   */
+  resource: string;
+
+  /**
+   * The partition key value that the permission is restricted to,
+   * in the form used by the partition key header.
+   */
+  resourcePartitionKey?: unknown[];
+
+  /**
+   * A resource token that grants the permission.  A new token
+   * is issued each time the permission is created or read.
+   */
+  _token: string;
+
+  /**
+   * The resource id of the permission.
+   */
+  _rid: string;
+
+  /**
+   * The etag of the permission.
+   */
+  _etag: string;
+
+  /**
+   * The time the permission was last updated, in seconds
+   * since the unix epoch.
+   */
+  _ts: number;
+}
+
+/**
+ * Options for creating a permission.
+ */
+interface CreatePermissionOptions {
+  /**
+   * The number of seconds for which the returned resource token is
+   * valid, up to a maximum of 18000 (5 hours).  Defaults to 3600.
+   */
+  expirySeconds?: number;
+
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * Creates a new permission for a user, returning the permission
+ * along with a resource token that grants it.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param userName The name of a user.
+ * @param permissionName The name for the new permission.
+ * @param definition The definition of the permission.
+ * @param options A property bag of options.
+ */
+export async function createPermission(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  userName: string,
+  permissionName: string,
+  definition: CosmosPermissionDefinition,
+  options: CreatePermissionOptions = {},
+): Promise<CosmosPermission> {
+  const collectionLink =
+    `dbs/${databaseName}/colls/${definition.collectionName}`;
+
+  const result = await cosmosRetryable(async (attempt) => {
+    const reqHeaders = await generateCosmosReqHeaders({
+      key: authorization,
+      method: "POST",
+      resourceType: "permissions",
+      resourceLink: `dbs/${databaseName}/users/${userName}`,
+    });
+
+    const optionalHeaders: Record<string, string> = {};
+
+    if (options.expirySeconds !== undefined) {
+      optionalHeaders["x-ms-documentdb-expiry-seconds"] = options
+        .expirySeconds.toString();
+    }
+
+    const response = await cosmosFetch(
+      `${cosmosUrl}/dbs/${databaseName}/users/${userName}/permissions`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json",
+          "x-ms-version": reqHeaders.xMsVersion,
+          ...optionalHeaders,
+        },
+        body: JSON.stringify({
+          id: permissionName,
+          permissionMode: definition.permissionMode,
+          resource: definition.documentId === undefined
+            ? collectionLink
+            : `${collectionLink}/docs/${definition.documentId}`,
+          resourcePartitionKey: "partition" in definition
+            ? JSON.parse(formatPartitionKeyValue(definition.partition))
+            : undefined,
+        }),
+      },
+      "createPermission",
+      attempt,
+    );
+
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "createPermission",
+    );
+
+    if (!response.ok) {
+      throw await createCosmosError(
+        response,
+        "createPermission",
+        `Unable to create permission ${databaseName}/${userName}/${permissionName}.`,
+      );
+    }
+
+    return await response.json() as CosmosPermission;
+  }, { retryPolicy: options.retryPolicy, isIdempotent: false });
+
+  return result;
+}
@@ -0,0 +1,45 @@
+import { CosmosAuthorizationProvider } from "./generateCosmosReqHeaders.ts";
+import { CosmosPermission } from "./createPermission.ts";
+
+/**
+ * Returns an authorization provider that uses pre-issued resource
+ * tokens in place of the master key.  Each request uses the token of
+ * the permission with the most specific resource that contains the
+ * resource link of the request, so a service can be given tokens for a
+ * collection and for individual documents at the same time.
+ * The provider raises an error if none of the tokens apply.
+ * @param permissions The permissions, as returned by createPermission
+ * or getPermission, whose resource tokens are to be used.
+ */
+export function createResourceTokenAuthorization(
+  permissions: Pick<CosmosPermission, "resource" | "_token">[],
+): CosmosAuthorizationProvider {
+  // Sort the permissions so that the most specific resources come first.
+  const candidates = permissions.map((p) => ({
+    resource: p.resource.replace(/^\/+|\/+$/g, ""),
+    token: p._token,
+  })).sort((a, b) => b.resource.length - a.resource.length);
+
+  return {
+    getAuthorizationHeader: (request) => {
+      const candidate = candidates.find((c) =>
+        request.resourceLink === c.resource ||
+        request.resourceLink.startsWith(`${c.resource}/`)
+      );
+
+      if (!candidate) {
+        return Promise.reject(
+          new Error(
+            `Unable to authorize request.\nNone of the resource tokens grant access to ${
+              request.resourceLink || "the account"
+            }.`,
+          ),
+        );
+      }
+
+      // Resource tokens are issued unencoded, but like any other
+      // authorization header they must be URL encoded when sent.
+      return Promise.resolve(encodeURIComponent(candidate.token));
+    },
+  };
+}
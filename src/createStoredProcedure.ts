@@ -0,0 +1,119 @@
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+
+/**
+ * A stored procedure of a collection.
+ */
+export interface CosmosStoredProcedure {
+  /**
+   * The name of the stored procedure.
+   */
+  id: string;
+
+  /**
+   * The javascript source of the stored procedure,
+   * e.g. function sample(prefix) { ... }.
+   */
+  body: string;
+
+  /**
+   * The resource id of the stored procedure.
+   */
+  _rid: string;
+
+  /**
+   * The etag of the stored procedure.
+   */
+  _etag: string;
+
+  /**
+   * The time the stored procedure was last updated, in seconds
+   * since the unix epoch.
+   */
+  _ts: number;
+}
+
+/**
+ * Options for creating a stored procedure.
+ */
+interface CreateStoredProcedureOptions {
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * Creates a new stored procedure.  A stored procedure runs within
+ * a single logical partition, and all of the changes it makes are
+ * committed or rolled back together.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param storedProcedureName The name for the new stored procedure.
+ * @param body The javascript source of the stored procedure.
+ * @param options A property bag of options.
+ */
+export async function createStoredProcedure(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  storedProcedureName: string,
+  body: string,
+  options: CreateStoredProcedureOptions = {},
+): Promise<CosmosStoredProcedure> {
+  const result = await cosmosRetryable(async (attempt) => {
+    const reqHeaders = await generateCosmosReqHeaders({
+      key: authorization,
+      method: "POST",
+      resourceType: "sprocs",
+      resourceLink: `dbs/${databaseName}/colls/${collectionName}`,
+    });
+
+    const response = await cosmosFetch(
+      `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}/sprocs`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json",
+          "x-ms-version": reqHeaders.xMsVersion,
+        },
+        body: JSON.stringify({
+          id: storedProcedureName,
+          body,
+        }),
+      },
+      "createStoredProcedure",
+      attempt,
+    );
+
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "createStoredProcedure",
+    );
+
+    if (!response.ok) {
+      throw await createCosmosError(
+        response,
+        "createStoredProcedure",
+        `Unable to create stored procedure ${databaseName}/${collectionName}/${storedProcedureName}.`,
+      );
+    }
+
+    return await response.json() as CosmosStoredProcedure;
+  }, { retryPolicy: options.retryPolicy, isIdempotent: false });
+
+  return result;
+}
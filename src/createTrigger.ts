@@ -0,0 +1,152 @@
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+
+/**
+ * The type of a trigger.
+ * - Pre: Runs before the document is written and can modify it.
+ * - Post: Runs after the document is written, within the same transaction.
+ */
+export type CosmosTriggerType = "Pre" | "Post";
+
+/**
+ * The operations that fire a trigger.
+ */
+export type CosmosTriggerOperation =
+  | "All"
+  | "Create"
+  | "Replace"
+  | "Delete"
+  | "Upsert";
+
+/**
+ * The definition of a trigger.
+ */
+export interface CosmosTriggerDefinition {
+  /**
+   * The javascript source of the trigger,
+   * e.g. function audit() { ... }.
+   */
+  body: string;
+
+  /**
+   * Whether the trigger runs before or after the document is written.
+   */
+  triggerType: CosmosTriggerType;
+
+  /**
+   * The operations that fire the trigger.
+   */
+  triggerOperation: CosmosTriggerOperation;
+}
+
+/**
+ * A trigger of a collection.
+ */
+export interface CosmosTrigger extends CosmosTriggerDefinition {
+  /**
+   * The name of the trigger.
+   */
+  id: string;
+
+  /**
+   * The resource id of the trigger.
+   */
+  _rid: string;
+
+  /**
+   * The etag of the trigger.
+   */
+  _etag: string;
+
+  /**
+   * The time the trigger was last updated, in seconds
+   * since the unix epoch.
+   */
+  _ts: number;
+}
+
+/**
+ * Options for creating a trigger.
+ */
+interface CreateTriggerOptions {
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * Creates a new trigger.  Triggers only run when they are named in the
+ * options of a document write.  A trigger runs within the same
+ * transaction as the write, so if it throws an error then neither
+ * the write nor the changes made by the trigger are committed.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param triggerName The name for the new trigger.
+ * @param definition The definition of the trigger.
+ * @param options A property bag of options.
+ */
+export async function createTrigger(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  triggerName: string,
+  definition: CosmosTriggerDefinition,
+  options: CreateTriggerOptions = {},
+): Promise<CosmosTrigger> {
+  const result = await cosmosRetryable(async (attempt) => {
+    const reqHeaders = await generateCosmosReqHeaders({
+      key: authorization,
+      method: "POST",
+      resourceType: "triggers",
+      resourceLink: `dbs/${databaseName}/colls/${collectionName}`,
+    });
+
+    const response = await cosmosFetch(
+      `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}/triggers`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json",
+          "x-ms-version": reqHeaders.xMsVersion,
+        },
+        body: JSON.stringify({
+          id: triggerName,
+          ...definition,
+        }),
+      },
+      "createTrigger",
+      attempt,
+    );
+
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "createTrigger",
+    );
+
+    if (!response.ok) {
+      throw await createCosmosError(
+        response,
+        "createTrigger",
+        `Unable to create trigger ${databaseName}/${collectionName}/${triggerName}.`,
+      );
+    }
+
+    return await response.json() as CosmosTrigger;
+  }, { retryPolicy: options.retryPolicy, isIdempotent: false });
+
+  return result;
+}
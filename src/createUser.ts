@@ -0,0 +1,108 @@
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+
+/**
+ * A user of a database.
+ */
+export interface CosmosUser {
+  /**
+   * The name of the user.
+   */
+  id: string;
+
+  /**
+   * The resource id of the user.
+   */
+  _rid: string;
+
+  /**
+   * The etag of the user.
+   */
+  _etag: string;
+
+  /**
+   * The time the user was last updated, in seconds
+   * since the unix epoch.
+   */
+  _ts: number;
+}
+
+/**
+ * Options for creating a user.
+ */
+interface CreateUserOptions {
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * Creates a new user.  A user holds the permissions that are used
+ * to issue resource tokens, which grant access to specific resources
+ * without sharing the master key.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param userName The name for the new user.
+ * @param options A property bag of options.
+ */
+export async function createUser(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  userName: string,
+  options: CreateUserOptions = {},
+): Promise<CosmosUser> {
+  const result = await cosmosRetryable(async (attempt) => {
+    const reqHeaders = await generateCosmosReqHeaders({
+      key: authorization,
+      method: "POST",
+      resourceType: "users",
+      resourceLink: `dbs/${databaseName}`,
+    });
+
+    const response = await cosmosFetch(
+      `${cosmosUrl}/dbs/${databaseName}/users`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json",
+          "x-ms-version": reqHeaders.xMsVersion,
+        },
+        body: JSON.stringify({
+          id: userName,
+        }),
+      },
+      "createUser",
+      attempt,
+    );
+
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "createUser",
+    );
+
+    if (!response.ok) {
+      throw await createCosmosError(
+        response,
+        "createUser",
+        `Unable to create user ${databaseName}/${userName}.`,
+      );
+    }
+
+    return await response.json() as CosmosUser;
+  }, { retryPolicy: options.retryPolicy, isIdempotent: false });
+
+  return result;
+}
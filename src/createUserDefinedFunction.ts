@@ -0,0 +1,119 @@
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+
+/**
+ * A user-defined function of a collection.
+ */
+export interface CosmosUserDefinedFunction {
+  /**
+   * The name of the user-defined function.
+   */
+  id: string;
+
+  /**
+   * The javascript source of the user-defined function,
+   * e.g. function tax(income) { ... }.
+   */
+  body: string;
+
+  /**
+   * The resource id of the user-defined function.
+   */
+  _rid: string;
+
+  /**
+   * The etag of the user-defined function.
+   */
+  _etag: string;
+
+  /**
+   * The time the user-defined function was last updated, in seconds
+   * since the unix epoch.
+   */
+  _ts: number;
+}
+
+/**
+ * Options for creating a user-defined function.
+ */
+interface CreateUserDefinedFunctionOptions {
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * Creates a new user-defined function.  A user-defined function can be
+ * called from a query using the udf prefix, e.g.
+ * SELECT udf.tax(d.income) FROM Docs d.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param userDefinedFunctionName The name for the new user-defined function.
+ * @param body The javascript source of the user-defined function.
+ * @param options A property bag of options.
+ */
+export async function createUserDefinedFunction(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  userDefinedFunctionName: string,
+  body: string,
+  options: CreateUserDefinedFunctionOptions = {},
+): Promise<CosmosUserDefinedFunction> {
+  const result = await cosmosRetryable(async (attempt) => {
+    const reqHeaders = await generateCosmosReqHeaders({
+      key: authorization,
+      method: "POST",
+      resourceType: "udfs",
+      resourceLink: `dbs/${databaseName}/colls/${collectionName}`,
+    });
+
+    const response = await cosmosFetch(
+      `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}/udfs`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json",
+          "x-ms-version": reqHeaders.xMsVersion,
+        },
+        body: JSON.stringify({
+          id: userDefinedFunctionName,
+          body,
+        }),
+      },
+      "createUserDefinedFunction",
+      attempt,
+    );
+
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "createUserDefinedFunction",
+    );
+
+    if (!response.ok) {
+      throw await createCosmosError(
+        response,
+        "createUserDefinedFunction",
+        `Unable to create user-defined function ${databaseName}/${collectionName}/${userDefinedFunctionName}.`,
+      );
+    }
+
+    return await response.json() as CosmosUserDefinedFunction;
+  }, { retryPolicy: options.retryPolicy, isIdempotent: false });
+
+  return result;
+}
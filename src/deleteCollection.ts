@@ -1,6 +1,12 @@
-import { generateCosmosReqHeaders } from "./generateCosmosReqHeaders.ts";
-import { cosmosRetryable } from "./cosmosRetryable.ts";
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
 import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+import { clearPkRangeCache } from "./getPkRangesForContainer.ts";
 
 /**
  * The result of deleting a collection.
@@ -12,28 +18,40 @@ interface DeleteCollectionResult {
   didDelete: boolean;
 }
 
+/**
+ * Options for deleting a collection.
+ */
+interface DeleteCollectionOptions {
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
 /**
  * Deletes a collection.
- * @param cryptoKey A crypto key.
+ * @param authorization A crypto key, or a provider of authorization headers.
  * @param cosmosUrl The url to a database.
  * @param databaseName The name of a database.
  * @param collectionName The name of the collection to delete.
+ * @param options A property bag of options.
  */
 export async function deleteCollection(
-  cryptoKey: CryptoKey,
+  authorization: CosmosAuthorization,
   cosmosUrl: string,
   databaseName: string,
   collectionName: string,
+  options: DeleteCollectionOptions = {},
 ): Promise<DeleteCollectionResult> {
-  const result = await cosmosRetryable(async () => {
+  const result = await cosmosRetryable(async (attempt) => {
     const reqHeaders = await generateCosmosReqHeaders({
-      key: cryptoKey,
+      key: authorization,
       method: "DELETE",
       resourceType: "colls",
       resourceLink: `dbs/${databaseName}/colls/${collectionName}`,
     });
 
-    const response = await fetch(
+    const response = await cosmosFetch(
       `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}`,
       {
         method: "DELETE",
@@ -44,12 +62,23 @@ export async function deleteCollection(
           "x-ms-version": reqHeaders.xMsVersion,
         },
       },
+      "deleteCollection",
+      attempt,
     );
 
-    ensureRaisingOfTransitoryErrors(response);
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "deleteCollection",
+    );
 
     if (!response.ok && response.status !== 404) {
-      throw new Error(`Unable to delete collection.\n${await response.text()}`);
+      throw await createCosmosError(
+        response,
+        "deleteCollection",
+        "Unable to delete collection.",
+      );
     }
 
     await response.body?.cancel();
@@ -57,7 +86,10 @@ export async function deleteCollection(
     return {
       didDelete: response.ok,
     };
-  });
+  }, { retryPolicy: options.retryPolicy });
+
+  // A new collection with the same name will have different ranges.
+  clearPkRangeCache(cosmosUrl, databaseName, collectionName);
 
   return result;
 }
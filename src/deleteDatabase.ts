@@ -1,6 +1,12 @@
-import { generateCosmosReqHeaders } from "./generateCosmosReqHeaders.ts";
-import { cosmosRetryable } from "./cosmosRetryable.ts";
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
 import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+import { clearPkRangeCache } from "./getPkRangesForContainer.ts";
 
 /**
  * The result of deleting a database.
@@ -12,39 +18,65 @@ interface DeleteDatabaseResult {
   didDelete: boolean;
 }
 
+/**
+ * Options for deleting a database.
+ */
+interface DeleteDatabaseOptions {
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
 /**
  * Deletes a database.
- * @param cryptoKey A crypto key.
+ * @param authorization A crypto key, or a provider of authorization headers.
  * @param cosmosUrl The url to a database.
  * @param databaseName The name of a database.
+ * @param options A property bag of options.
  */
 export async function deleteDatabase(
-  cryptoKey: CryptoKey,
+  authorization: CosmosAuthorization,
   cosmosUrl: string,
   databaseName: string,
+  options: DeleteDatabaseOptions = {},
 ): Promise<DeleteDatabaseResult> {
-  const result = await cosmosRetryable(async () => {
+  const result = await cosmosRetryable(async (attempt) => {
     const reqHeaders = await generateCosmosReqHeaders({
-      key: cryptoKey,
+      key: authorization,
       method: "DELETE",
       resourceType: "dbs",
       resourceLink: `dbs/${databaseName}`,
     });
 
-    const response = await fetch(`${cosmosUrl}/dbs/${databaseName}`, {
-      method: "DELETE",
-      headers: {
-        Authorization: reqHeaders.authorizationHeader,
-        "x-ms-date": reqHeaders.xMsDateHeader,
-        "content-type": "application/json",
-        "x-ms-version": reqHeaders.xMsVersion,
+    const response = await cosmosFetch(
+      `${cosmosUrl}/dbs/${databaseName}`,
+      {
+        method: "DELETE",
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json",
+          "x-ms-version": reqHeaders.xMsVersion,
+        },
       },
-    });
+      "deleteDatabase",
+      attempt,
+    );
 
-    ensureRaisingOfTransitoryErrors(response);
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "deleteDatabase",
+    );
 
     if (!response.ok && response.status !== 404) {
-      throw new Error(`Unable to delete database.\n${await response.text()}`);
+      throw await createCosmosError(
+        response,
+        "deleteDatabase",
+        "Unable to delete database.",
+      );
     }
 
     await response.body?.cancel();
@@ -52,7 +84,10 @@ export async function deleteDatabase(
     return {
       didDelete: response.ok,
     };
-  });
+  }, { retryPolicy: options.retryPolicy });
+
+  // A new collection with the same name will have different ranges.
+  clearPkRangeCache(cosmosUrl, databaseName);
 
   return result;
 }
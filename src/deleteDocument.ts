@@ -1,10 +1,39 @@
-import { generateCosmosReqHeaders } from "./generateCosmosReqHeaders.ts";
-import { cosmosRetryable } from "./cosmosRetryable.ts";
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
 import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
-import { formatPartitionKeyValue } from "./formatPartitionKeyValue.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+import {
+  CosmosPartitionKeyValue,
+  formatPartitionKeyValue,
+} from "./formatPartitionKeyValue.ts";
 
+/**
+ * Options for deleting a document.
+ */
 interface DeleteDocumentOptions {
+  /**
+   * The names of the pre-triggers to run before the document is deleted.
+   */
+  preTriggers?: string[];
+
+  /**
+   * The names of the post-triggers to run after the document is deleted.
+   */
+  postTriggers?: string[];
+
+  /**
+   * A session token.
+   */
   sessionToken?: string;
+
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
 }
 
 /**
@@ -34,7 +63,7 @@ interface DeleteDocumentResult {
 
 /**
  * Deletes the document with the given document id.
- * @param cryptoKey A crypto key.
+ * @param authorization A crypto key, or a provider of authorization headers.
  * @param cosmosUrl The url to a database.
  * @param databaseName The name of a database.
  * @param collectionName The name of a collection.
@@ -43,11 +72,11 @@ interface DeleteDocumentResult {
  * @param options A property bag of options.
  */
 export async function deleteDocument(
-  cryptoKey: CryptoKey,
+  authorization: CosmosAuthorization,
   cosmosUrl: string,
   databaseName: string,
   collectionName: string,
-  partition: string,
+  partition: CosmosPartitionKeyValue,
   documentId: string,
   options: DeleteDocumentOptions,
 ): Promise<DeleteDocumentResult> {
@@ -57,16 +86,26 @@ export async function deleteDocument(
     optionalHeaders["x-ms-session-token"] = options.sessionToken;
   }
 
-  const result = await cosmosRetryable(async () => {
+  if (options.preTriggers && options.preTriggers.length > 0) {
+    optionalHeaders["x-ms-documentdb-pre-trigger-include"] = options
+      .preTriggers.join(",");
+  }
+
+  if (options.postTriggers && options.postTriggers.length > 0) {
+    optionalHeaders["x-ms-documentdb-post-trigger-include"] = options
+      .postTriggers.join(",");
+  }
+
+  const result = await cosmosRetryable(async (attempt) => {
     const reqHeaders = await generateCosmosReqHeaders({
-      key: cryptoKey,
+      key: authorization,
       method: "DELETE",
       resourceType: "docs",
       resourceLink:
         `dbs/${databaseName}/colls/${collectionName}/docs/${documentId}`,
     });
 
-    const response = await fetch(
+    const response = await cosmosFetch(
       `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}/docs/${documentId}`,
       {
         method: "DELETE",
@@ -81,14 +120,22 @@ export async function deleteDocument(
           ...optionalHeaders,
         },
       },
+      "deleteDocument",
+      attempt,
     );
 
-    ensureRaisingOfTransitoryErrors(response);
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "deleteDocument",
+    );
 
     if (!response.ok && response.status !== 404) {
-      throw new Error(
-        `Unable to delete document ${databaseName}/${collectionName}/${documentId}.\n${await response
-          .text()}`,
+      throw await createCosmosError(
+        response,
+        "deleteDocument",
+        `Unable to delete document ${databaseName}/${collectionName}/${documentId}.`,
       );
     }
 
@@ -104,7 +151,7 @@ export async function deleteDocument(
         response.headers.get("x-ms-request-duration-ms") as string,
       ),
     };
-  });
+  }, { retryPolicy: options.retryPolicy });
 
   return result;
 }
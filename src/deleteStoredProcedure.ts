@@ -0,0 +1,94 @@
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+
+/**
+ * The result of deleting a stored procedure.
+ */
+interface DeleteStoredProcedureResult {
+  /**
+   * True if a stored procedure was deleted.
+   */
+  didDelete: boolean;
+}
+
+/**
+ * Options for deleting a stored procedure.
+ */
+interface DeleteStoredProcedureOptions {
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * Deletes a stored procedure.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param storedProcedureName The name of the stored procedure to delete.
+ * @param options A property bag of options.
+ */
+export async function deleteStoredProcedure(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  storedProcedureName: string,
+  options: DeleteStoredProcedureOptions = {},
+): Promise<DeleteStoredProcedureResult> {
+  const result = await cosmosRetryable(async (attempt) => {
+    const reqHeaders = await generateCosmosReqHeaders({
+      key: authorization,
+      method: "DELETE",
+      resourceType: "sprocs",
+      resourceLink:
+        `dbs/${databaseName}/colls/${collectionName}/sprocs/${storedProcedureName}`,
+    });
+
+    const response = await cosmosFetch(
+      `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}/sprocs/${storedProcedureName}`,
+      {
+        method: "DELETE",
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json",
+          "x-ms-version": reqHeaders.xMsVersion,
+        },
+      },
+      "deleteStoredProcedure",
+      attempt,
+    );
+
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "deleteStoredProcedure",
+    );
+
+    if (!response.ok && response.status !== 404) {
+      throw await createCosmosError(
+        response,
+        "deleteStoredProcedure",
+        "Unable to delete stored procedure.",
+      );
+    }
+
+    await response.body?.cancel();
+
+    return {
+      didDelete: response.ok,
+    };
+  }, { retryPolicy: options.retryPolicy });
+
+  return result;
+}
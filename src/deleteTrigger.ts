@@ -0,0 +1,94 @@
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+
+/**
+ * The result of deleting a trigger.
+ */
+interface DeleteTriggerResult {
+  /**
+   * True if a trigger was deleted.
+   */
+  didDelete: boolean;
+}
+
+/**
+ * Options for deleting a trigger.
+ */
+interface DeleteTriggerOptions {
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * Deletes a trigger.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param triggerName The name of the trigger to delete.
+ * @param options A property bag of options.
+ */
+export async function deleteTrigger(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  triggerName: string,
+  options: DeleteTriggerOptions = {},
+): Promise<DeleteTriggerResult> {
+  const result = await cosmosRetryable(async (attempt) => {
+    const reqHeaders = await generateCosmosReqHeaders({
+      key: authorization,
+      method: "DELETE",
+      resourceType: "triggers",
+      resourceLink:
+        `dbs/${databaseName}/colls/${collectionName}/triggers/${triggerName}`,
+    });
+
+    const response = await cosmosFetch(
+      `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}/triggers/${triggerName}`,
+      {
+        method: "DELETE",
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json",
+          "x-ms-version": reqHeaders.xMsVersion,
+        },
+      },
+      "deleteTrigger",
+      attempt,
+    );
+
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "deleteTrigger",
+    );
+
+    if (!response.ok && response.status !== 404) {
+      throw await createCosmosError(
+        response,
+        "deleteTrigger",
+        "Unable to delete trigger.",
+      );
+    }
+
+    await response.body?.cancel();
+
+    return {
+      didDelete: response.ok,
+    };
+  }, { retryPolicy: options.retryPolicy });
+
+  return result;
+}
@@ -0,0 +1,92 @@
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+
+/**
+ * The result of deleting a user.
+ */
+interface DeleteUserResult {
+  /**
+   * True if a user was deleted.
+   */
+  didDelete: boolean;
+}
+
+/**
+ * Options for deleting a user.
+ */
+interface DeleteUserOptions {
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * Deletes a user, along with all of its permissions.  Resource tokens
+ * that were issued for those permissions can no longer be used.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param userName The name of the user to delete.
+ * @param options A property bag of options.
+ */
+export async function deleteUser(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  userName: string,
+  options: DeleteUserOptions = {},
+): Promise<DeleteUserResult> {
+  const result = await cosmosRetryable(async (attempt) => {
+    const reqHeaders = await generateCosmosReqHeaders({
+      key: authorization,
+      method: "DELETE",
+      resourceType: "users",
+      resourceLink: `dbs/${databaseName}/users/${userName}`,
+    });
+
+    const response = await cosmosFetch(
+      `${cosmosUrl}/dbs/${databaseName}/users/${userName}`,
+      {
+        method: "DELETE",
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json",
+          "x-ms-version": reqHeaders.xMsVersion,
+        },
+      },
+      "deleteUser",
+      attempt,
+    );
+
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "deleteUser",
+    );
+
+    if (!response.ok && response.status !== 404) {
+      throw await createCosmosError(
+        response,
+        "deleteUser",
+        "Unable to delete user.",
+      );
+    }
+
+    await response.body?.cancel();
+
+    return {
+      didDelete: response.ok,
+    };
+  }, { retryPolicy: options.retryPolicy });
+
+  return result;
+}
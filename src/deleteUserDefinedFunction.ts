@@ -0,0 +1,94 @@
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+
+/**
+ * The result of deleting a user-defined function.
+ */
+interface DeleteUserDefinedFunctionResult {
+  /**
+   * True if a user-defined function was deleted.
+   */
+  didDelete: boolean;
+}
+
+/**
+ * Options for deleting a user-defined function.
+ */
+interface DeleteUserDefinedFunctionOptions {
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * Deletes a user-defined function.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param userDefinedFunctionName The name of the user-defined function to delete.
+ * @param options A property bag of options.
+ */
+export async function deleteUserDefinedFunction(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  userDefinedFunctionName: string,
+  options: DeleteUserDefinedFunctionOptions = {},
+): Promise<DeleteUserDefinedFunctionResult> {
+  const result = await cosmosRetryable(async (attempt) => {
+    const reqHeaders = await generateCosmosReqHeaders({
+      key: authorization,
+      method: "DELETE",
+      resourceType: "udfs",
+      resourceLink:
+        `dbs/${databaseName}/colls/${collectionName}/udfs/${userDefinedFunctionName}`,
+    });
+
+    const response = await cosmosFetch(
+      `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}/udfs/${userDefinedFunctionName}`,
+      {
+        method: "DELETE",
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json",
+          "x-ms-version": reqHeaders.xMsVersion,
+        },
+      },
+      "deleteUserDefinedFunction",
+      attempt,
+    );
+
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "deleteUserDefinedFunction",
+    );
+
+    if (!response.ok && response.status !== 404) {
+      throw await createCosmosError(
+        response,
+        "deleteUserDefinedFunction",
+        "Unable to delete user-defined function.",
+      );
+    }
+
+    await response.body?.cancel();
+
+    return {
+      didDelete: response.ok,
+    };
+  }, { retryPolicy: options.retryPolicy });
+
+  return result;
+}
@@ -0,0 +1,85 @@
+import {
+  CosmosError,
+  CosmosErrorDetails,
+  createCosmosError,
+} from "./createCosmosError.ts";
+
+/**
+ * Raised when a request targets a partition key range that no longer
+ * exists because it has been split or merged.  The partition key
+ * ranges of the collection must be retrieved again.
+ */
+export class PkRangeGoneError extends CosmosError {
+  constructor(message: string, details: CosmosErrorDetails) {
+    super(message, details);
+    this.name = "PkRangeGoneError";
+  }
+}
+
+/**
+ * The sub-status codes that accompany a 410 (Gone) response when
+ * a partition key range has been split or merged.
+ * - 1002: The partition key range is gone.
+ * - 1007: The partition key range is completing a split.
+ * - 1008: The partition key range is completing a migration.
+ */
+const PK_RANGE_GONE_SUBSTATUSES = ["1002", "1007", "1008"];
+
+/**
+ * The number of times an operation is attempted when the partition
+ * key ranges keep changing.
+ */
+const MAX_PK_RANGE_ATTEMPTS = 3;
+
+/**
+ * Identifies responses that indicate the targeted partition key range
+ * has been split or merged and raises a PkRangeGoneError.  If the
+ * response does not indicate a split or merge then this function
+ * takes no action.
+ * @param response A fetch response.
+ * @param operation The name of the operation that made the request.
+ */
+export async function ensureRaisingOfPkRangeGoneErrors(
+  response: Response,
+  operation: string,
+) {
+  if (
+    response.status === 410 &&
+    PK_RANGE_GONE_SUBSTATUSES.includes(
+      response.headers.get("x-ms-substatus") || "",
+    )
+  ) {
+    const error = await createCosmosError(
+      response,
+      operation,
+      `The partition key range has been split or merged (substatus ${
+        response.headers.get("x-ms-substatus")
+      }).`,
+    );
+
+    throw new PkRangeGoneError(error.message, error);
+  }
+}
+
+/**
+ * Executes an operation that depends on the partition key ranges of
+ * a collection.  If the operation raises a PkRangeGoneError then it
+ * is executed again, informing it that the ranges must be refreshed.
+ * @param operation An asynchronous operation that is passed true
+ * if the partition key ranges should be refreshed.
+ */
+export async function retryIfPkRangesChanged<T>(
+  operation: (forceRefresh: boolean) => Promise<T>,
+): Promise<T> {
+  for (let attempt = 1;; attempt++) {
+    try {
+      return await operation(attempt > 1);
+    } catch (err) {
+      if (
+        !(err instanceof PkRangeGoneError) || attempt >= MAX_PK_RANGE_ATTEMPTS
+      ) {
+        throw err;
+      }
+    }
+  }
+}
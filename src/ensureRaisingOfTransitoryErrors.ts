@@ -1,24 +1,44 @@
 import { OperationTransitoryError } from "../deps.ts";
+import { CosmosAuthorization } from "./generateCosmosReqHeaders.ts";
+import {
+  createCosmosError,
+  isTransitoryResponse,
+} from "./createCosmosError.ts";
 
 /**
- * Identifies transitory errors and raises an OperationTransitoryError
+ * Identifies transitory errors and raises a CosmosTransitoryError
  * so that the operation can be retried.  If the response does not contain
  * a transitory error then this function takes no action.
  * This function is designed to catch transient conditions based on the
  * response status.  If it's necessary to consume the response body,
  * then add clauses to the isCosmosTransientError function instead.
+ * A 401 (Unauthorized) response is treated as transitory if the
+ * authorization provider will supply a new token for the next attempt.
  * @param response A fetch response.
+ * @param authorization The crypto key or authorization provider
+ * used to authorize the request.
+ * @param authorizationHeader The Authorization header of the request.
+ * @param operation The name of the operation that made the request.
  */
-export function ensureRaisingOfTransitoryErrors(response: Response) {
-  if (response.status === 429) {
-    throw new OperationTransitoryError("Too many requests.");
+export async function ensureRaisingOfTransitoryErrors(
+  response: Response,
+  authorization: CosmosAuthorization,
+  authorizationHeader: string,
+  operation: string,
+) {
+  if (
+    !(authorization instanceof CryptoKey) &&
+    authorization.handleResponse?.(authorizationHeader, response.status)
+  ) {
+    await response.body?.cancel();
+    throw new OperationTransitoryError("Unauthorized.");
   }
 
-  if (response.status === 503) {
-    throw new OperationTransitoryError("Gateway unavailable.");
-  }
-
-  if (response.status === 504) {
-    throw new OperationTransitoryError("Gateway time-out.");
+  if (isTransitoryResponse(response)) {
+    throw await createCosmosError(
+      response,
+      operation,
+      `Transient failure (${response.status}) during ${operation}.`,
+    );
   }
 }
@@ -0,0 +1,165 @@
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+import {
+  CosmosPartitionKeyValue,
+  formatPartitionKeyValue,
+} from "./formatPartitionKeyValue.ts";
+
+/**
+ * Options for executing a stored procedure.
+ */
+interface ExecuteStoredProcedureOptions {
+  /**
+   * True if the output of console.log calls made by the stored
+   * procedure should be returned as the script log.
+   */
+  enableScriptLogging?: boolean;
+
+  /**
+   * A session token.
+   */
+  sessionToken?: string;
+
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * The result of executing a stored procedure.
+ */
+interface ExecuteStoredProcedureResult {
+  /**
+   * The value passed to getContext().getResponse().setBody() by the
+   * stored procedure, or undefined if no value was set.
+   */
+  body: unknown;
+
+  /**
+   * The output of the console.log calls made by the stored procedure,
+   * or null if script logging was not enabled.
+   */
+  scriptLog: string | null;
+
+  /**
+   * A session token.
+   */
+  sessionToken: string;
+
+  /**
+   * The number of RUs consumed by the request.
+   */
+  requestCharge: number;
+
+  /**
+   * The number of milliseconds spent serving the request.
+   */
+  requestDurationMilliseconds: number;
+}
+
+/**
+ * Executes a stored procedure against the documents of a single
+ * logical partition.  If the stored procedure throws an error then
+ * none of its changes are committed.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param storedProcedureName The name of a stored procedure.
+ * @param partition The partition key value that the stored procedure
+ * is scoped to.
+ * @param args The arguments passed to the stored procedure function.
+ * @param options A property bag of options.
+ */
+export async function executeStoredProcedure(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  storedProcedureName: string,
+  partition: CosmosPartitionKeyValue,
+  args: unknown[],
+  options: ExecuteStoredProcedureOptions,
+): Promise<ExecuteStoredProcedureResult> {
+  const result = await cosmosRetryable(async (attempt) => {
+    const reqHeaders = await generateCosmosReqHeaders({
+      key: authorization,
+      method: "POST",
+      resourceType: "sprocs",
+      resourceLink:
+        `dbs/${databaseName}/colls/${collectionName}/sprocs/${storedProcedureName}`,
+    });
+
+    const optionalHeaders: Record<string, string> = {};
+
+    if (options.enableScriptLogging) {
+      optionalHeaders["x-ms-documentdb-script-enable-logging"] = "true";
+    }
+
+    if (options.sessionToken) {
+      optionalHeaders["x-ms-session-token"] = options.sessionToken;
+    }
+
+    const response = await cosmosFetch(
+      `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}/sprocs/${storedProcedureName}`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json",
+          "x-ms-version": reqHeaders.xMsVersion,
+          "x-ms-documentdb-partitionkey": formatPartitionKeyValue(
+            partition,
+          ),
+          ...optionalHeaders,
+        },
+        body: JSON.stringify(args),
+      },
+      "executeStoredProcedure",
+      attempt,
+    );
+
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "executeStoredProcedure",
+    );
+
+    if (!response.ok) {
+      throw await createCosmosError(
+        response,
+        "executeStoredProcedure",
+        `Unable to execute stored procedure ${databaseName}/${collectionName}/${storedProcedureName}.`,
+      );
+    }
+
+    // The body is empty if the stored procedure did not set one.
+    const text = await response.text();
+    const scriptLog = response.headers.get(
+      "x-ms-documentdb-script-log-results",
+    );
+
+    return {
+      body: text.length > 0 ? JSON.parse(text) : undefined,
+      scriptLog: scriptLog === null ? null : decodeURIComponent(scriptLog),
+      sessionToken: response.headers.get("x-ms-session-token") as string,
+      requestCharge: parseFloat(
+        response.headers.get("x-ms-request-charge") as string,
+      ),
+      requestDurationMilliseconds: parseFloat(
+        response.headers.get("x-ms-request-duration-ms") as string,
+      ),
+    };
+  }, { retryPolicy: options.retryPolicy, isIdempotent: false });
+
+  return result;
+}
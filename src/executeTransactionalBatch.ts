@@ -0,0 +1,287 @@
+import { applyPartitionKeyValue } from "./applyPartitionKeyValue.ts";
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+import {
+  CosmosPartitionKeyValue,
+  formatPartitionKeyValue,
+} from "./formatPartitionKeyValue.ts";
+
+/**
+ * An operation that forms part of a transactional batch.
+ * - create: Creates a new document, which must not already exist.
+ * - upsert: Creates a document or replaces an existing one.
+ * - replace: Replaces an existing document, optionally only if
+ * the etag matches.
+ * - delete: Deletes an existing document, optionally only if
+ * the etag matches.
+ * - read: Reads an existing document.
+ */
+export type CosmosBatchOperation =
+  | { op: "create" | "upsert"; document: Record<string, unknown> }
+  | { op: "replace"; document: Record<string, unknown>; ifMatch?: string }
+  | { op: "delete"; id: string; ifMatch?: string }
+  | { op: "read"; id: string };
+
+/**
+ * The outcome of a single operation within a transactional batch.
+ */
+interface CosmosBatchOperationResult {
+  /**
+   * The Http status code of the operation.  If the batch failed
+   * then the operation that caused the failure will have an error
+   * status and the remaining operations will have a 424 status.
+   */
+  statusCode: number;
+
+  /**
+   * The number of RUs consumed by the operation.
+   */
+  requestCharge: number;
+
+  /**
+   * The etag of the document after the operation, or null if
+   * the operation did not produce a document.
+   */
+  etag: string | null;
+
+  /**
+   * The document produced by a read, create, upsert or replace
+   * operation, or null otherwise.
+   */
+  doc: Record<string, unknown> | null;
+}
+
+/**
+ * The result of executing a transactional batch.
+ */
+interface ExecuteTransactionalBatchResult {
+  /**
+   * True if all of the operations were committed.  If false,
+   * then none of the operations were committed.
+   */
+  didCommit: boolean;
+
+  /**
+   * The outcome of each operation, in the order they were supplied.
+   */
+  operationResults: CosmosBatchOperationResult[];
+
+  /**
+   * A session token.
+   */
+  sessionToken: string;
+
+  /**
+   * The number of RUs consumed by the request.
+   */
+  requestCharge: number;
+
+  /**
+   * The number of milliseconds spent serving the request.
+   */
+  requestDurationMilliseconds: number;
+}
+
+/**
+ * Options for when executing a transactional batch.
+ */
+interface ExecuteTransactionalBatchOptions {
+  /**
+   * The partition key paths of the collection, e.g. ["/tenantId", "/userId"].
+   * The partition key value is written to these paths of the document.
+   * Defaults to ["/partitionKey"].
+   */
+  partitionKeyPaths?: string[];
+
+  /**
+   * A session token.
+   */
+  sessionToken?: string;
+
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * Executes a set of operations against the documents of a single
+ * logical partition as an atomic unit.  Either all of the operations
+ * are committed or none of them are.  Cosmos accepts a maximum of
+ * 100 operations per batch.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param partition A partition key value shared by all the operations.
+ * @param operations An ordered array of batch operations.
+ * @param options A property bag of options.
+ */
+export async function executeTransactionalBatch(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  partition: CosmosPartitionKeyValue,
+  operations: CosmosBatchOperation[],
+  options: ExecuteTransactionalBatchOptions,
+): Promise<ExecuteTransactionalBatchResult> {
+  const optionalHeaders: Record<string, string> = {};
+
+  if (options.sessionToken) {
+    optionalHeaders["x-ms-session-token"] = options.sessionToken;
+  }
+
+  const body = operations.map((operation) =>
+    convertBatchOperation(operation, partition, options.partitionKeyPaths)
+  );
+
+  const result = await cosmosRetryable(async (attempt) => {
+    const reqHeaders = await generateCosmosReqHeaders({
+      key: authorization,
+      method: "POST",
+      resourceType: "docs",
+      resourceLink: `dbs/${databaseName}/colls/${collectionName}`,
+    });
+
+    const response = await cosmosFetch(
+      `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}/docs`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json",
+          "x-ms-version": reqHeaders.xMsVersion,
+          "x-ms-documentdb-partitionkey": formatPartitionKeyValue(
+            partition,
+          ),
+          "x-ms-cosmos-is-batch-request": "True",
+          "x-ms-cosmos-batch-atomic": "True",
+          "x-ms-cosmos-batch-continue-on-error": "False",
+          ...optionalHeaders,
+        },
+        body: JSON.stringify(body),
+      },
+      "executeTransactionalBatch",
+      attempt,
+    );
+
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "executeTransactionalBatch",
+    );
+
+    // A batch that fails because of one of its operations responds
+    // with 207 (Multi-Status) and the per-operation results, so the
+    // batch only committed if every operation succeeded.  Any other
+    // failure will not contain a results array.
+    const operationResults = parseBatchResults(
+      await response.clone().text(),
+    );
+
+    if (!operationResults) {
+      throw await createCosmosError(
+        response,
+        "executeTransactionalBatch",
+        `Unable to execute batch against ${databaseName}/${collectionName}.`,
+      );
+    }
+
+    await response.body?.cancel();
+
+    return {
+      didCommit: operationResults.every((r) => r.statusCode < 400),
+      operationResults,
+      sessionToken: response.headers.get("x-ms-session-token") as string,
+      requestCharge: parseFloat(
+        response.headers.get("x-ms-request-charge") as string,
+      ),
+      requestDurationMilliseconds: parseFloat(
+        response.headers.get("x-ms-request-duration-ms") as string,
+      ),
+    };
+  }, { retryPolicy: options.retryPolicy, isIdempotent: false });
+
+  return result;
+}
+
+/**
+ * Converts a batch operation into the format expected by Cosmos.
+ * @param operation A batch operation.
+ * @param partition The partition key value of the batch.
+ * @param partitionKeyPaths The partition key paths of the collection.
+ */
+function convertBatchOperation(
+  operation: CosmosBatchOperation,
+  partition: CosmosPartitionKeyValue,
+  partitionKeyPaths?: string[],
+) {
+  switch (operation.op) {
+    case "create":
+    case "upsert":
+    case "replace": {
+      const document = operation.document;
+
+      applyPartitionKeyValue(document, partition, partitionKeyPaths);
+
+      return {
+        operationType: operation.op === "create"
+          ? "Create"
+          : operation.op === "upsert"
+          ? "Upsert"
+          : "Replace",
+        id: operation.op === "replace" ? document.id : undefined,
+        ifMatch: operation.op === "replace" ? operation.ifMatch : undefined,
+        resourceBody: document,
+      };
+    }
+    case "delete":
+      return {
+        operationType: "Delete",
+        id: operation.id,
+        ifMatch: operation.ifMatch,
+      };
+    case "read":
+      return {
+        operationType: "Read",
+        id: operation.id,
+      };
+  }
+}
+
+/**
+ * Returns the per-operation results contained in the body of a batch
+ * response, or null if the body does not contain a results array.
+ * @param responseText The body of a batch response.
+ */
+function parseBatchResults(
+  responseText: string,
+): CosmosBatchOperationResult[] | null {
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(responseText);
+  } catch {
+    return null;
+  }
+
+  if (!Array.isArray(parsed)) {
+    return null;
+  }
+
+  return parsed.map((item) => ({
+    statusCode: item.statusCode,
+    requestCharge: item.requestCharge || 0,
+    etag: item.eTag || null,
+    doc: item.resourceBody || null,
+  }));
+}
@@ -1,11 +1,33 @@
+/**
+ * A single component of a partition key value.  Use undefined for
+ * documents that do not have the partition key property, which
+ * Cosmos refers to as the none partition key.
+ */
+export type CosmosPartitionKeyComponent =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined;
+
+/**
+ * A partition key value.  Collections with a hierarchical (MultiHash)
+ * partition key take an array with one component for each level.
+ */
+export type CosmosPartitionKeyValue =
+  | CosmosPartitionKeyComponent
+  | CosmosPartitionKeyComponent[];
+
 /**
  * Formats the given value into a partition key array header value.
- * @param value A string or number value.
+ * Strings are JSON encoded, so any quotes or other special characters
+ * are escaped, and undefined components are encoded as {}.
+ * @param value A partition key value.
  */
-export function formatPartitionKeyValue(value: string | number) {
-  if (typeof value === "string") {
-    return `["${value}"]`;
-  } else {
-    return `[${value}]`;
-  }
+export function formatPartitionKeyValue(value: CosmosPartitionKeyValue) {
+  const components = Array.isArray(value) ? value : [value];
+
+  return JSON.stringify(
+    components.map((component) => component === undefined ? {} : component),
+  );
 }
@@ -18,7 +18,7 @@ const COSMOS_API_VERSION = "2018-12-31";
 /**
  * The Cosmos resources that can be queried.
  */
-type CosmosResourceType =
+export type CosmosResourceType =
   | "dbs"
   | "colls"
   | "docs"
@@ -37,16 +37,71 @@ type CosmosResourceType =
 /**
  * The Http method being invoked on a Cosmos resource.
  */
-type CosmosMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+export type CosmosMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+/**
+ * The details of a request that needs to be authorized.
+ */
+export interface CosmosAuthorizationRequest {
+  /**
+   * The Http method being invoked.
+   */
+  method: CosmosMethod;
+
+  /**
+   * The type of resource being queried.
+   */
+  resourceType: CosmosResourceType;
+
+  /**
+   * The resource link of the request, as described by
+   * GenerateCosmosReqHeadersProps.
+   */
+  resourceLink: string;
+
+  /**
+   * The date and time that the request is being made.
+   */
+  date: Date;
+}
+
+/**
+ * Produces the Authorization header for each request, for use in
+ * place of a master key.
+ */
+export interface CosmosAuthorizationProvider {
+  /**
+   * Returns the value of the Authorization header for a request.
+   */
+  getAuthorizationHeader: (
+    request: CosmosAuthorizationRequest,
+  ) => Promise<string>;
+
+  /**
+   * Called with the status of each response.  Returns true if the
+   * request was rejected with a 401 (Unauthorized) response and the
+   * provider will supply a different Authorization header, in which
+   * case the request is attempted again.
+   */
+  handleResponse?: (authorizationHeader: string, status: number) => boolean;
+}
+
+/**
+ * The means of authorizing requests.  Either a CryptoKey based on the
+ * Cosmos master key, which is used to sign each request, or a provider,
+ * such as one created by createResourceTokenAuthorization.
+ */
+export type CosmosAuthorization = CryptoKey | CosmosAuthorizationProvider;
 
 /**
  * The properties required to generate the authorization headers.
  */
 export interface GenerateCosmosReqHeadersProps {
   /**
-   * A CryptoKey based on the Cosmos master key.
+   * A CryptoKey based on the Cosmos master key, or a provider
+   * of authorization headers.
    */
-  key: CryptoKey;
+  key: CosmosAuthorization;
 
   /**
    * The Http method being invoked.
@@ -105,30 +160,50 @@ export interface GenerateCosmosReqHeadersResult {
 export async function generateCosmosReqHeaders(
   props: GenerateCosmosReqHeadersProps,
 ): Promise<GenerateCosmosReqHeadersResult> {
-  const date = props.date || new Date();
-  const resourceLink = props.resourceLink || "";
+  const request: CosmosAuthorizationRequest = {
+    method: props.method,
+    resourceType: props.resourceType,
+    resourceLink: props.resourceLink || "",
+    date: props.date || new Date(),
+  };
+
+  const authorizationHeader = props.key instanceof CryptoKey
+    ? await signWithMasterKey(props.key, request)
+    : await props.key.getAuthorizationHeader(request);
+
+  return {
+    authorizationHeader,
+    xMsDateHeader: request.date.toUTCString(),
+    xMsVersion: COSMOS_API_VERSION,
+  };
+}
+
+/**
+ * Returns an Authorization header containing a signature of the
+ * request produced using the master key.
+ * @param key A CryptoKey based on the Cosmos master key.
+ * @param request The request to sign.
+ */
+async function signWithMasterKey(
+  key: CryptoKey,
+  request: CosmosAuthorizationRequest,
+) {
   const encoder = new TextEncoder();
 
-  const text = props.method.toLowerCase() +
+  const text = request.method.toLowerCase() +
     "\n" +
-    props.resourceType.toLowerCase() +
+    request.resourceType.toLowerCase() +
     "\n" +
-    resourceLink +
+    request.resourceLink +
     "\n" +
-    date.toUTCString().toLowerCase() +
+    request.date.toUTCString().toLowerCase() +
     "\n\n"; // additional new line required at end
 
   const data = encoder.encode(text);
 
-  const signature = await crypto.subtle.sign("HMAC", props.key, data);
+  const signature = await crypto.subtle.sign("HMAC", key, data);
 
-  const authorizationHeader = "type=" + COSMOS_SIGN_TYPE +
+  return "type=" + COSMOS_SIGN_TYPE +
     "&ver=" + COSMOS_SIGN_VERSION +
     "&sig=" + encodeURIComponent(encodeBase64(signature));
-
-  return {
-    authorizationHeader,
-    xMsDateHeader: date.toUTCString(),
-    xMsVersion: COSMOS_API_VERSION,
-  };
 }
@@ -1,26 +1,133 @@
-import { generateCosmosReqHeaders } from "./generateCosmosReqHeaders.ts";
-import { cosmosRetryable } from "./cosmosRetryable.ts";
-import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { CosmosAuthorization } from "./generateCosmosReqHeaders.ts";
+import { CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { readCollection } from "./readCollection.ts";
 
 /**
  * Represents the definition of a partition key.
  */
-interface CosmosPartitionKey {
+export interface CosmosPartitionKeyDefinition {
   /**
-   * The paths of a partition key.
+   * The paths of a partition key.  A hierarchical partition key
+   * has up to three paths.
    */
   paths: string[];
 
   /**
-   * The type of a partition key.
+   * The type of a partition key.  MultiHash is used for
+   * hierarchical partition keys.
    */
-  kind: "Hash";
+  kind: "Hash" | "MultiHash";
+
+  /**
+   * The version of the hash used to place documents in partition
+   * key ranges.  Version 2 supports partition key values that are
+   * longer than 100 bytes.
+   */
+  version?: 1 | 2;
+}
+
+/**
+ * A path that is included in, or excluded from, an index.
+ */
+export interface CosmosIndexPath {
+  /**
+   * The path, e.g. /name/? or /address/*.
+   */
+  path: string;
+}
+
+/**
+ * A path that forms part of a composite index.
+ */
+export interface CosmosCompositeIndexPath {
+  /**
+   * The path, e.g. /name.
+   */
+  path: string;
+
+  /**
+   * The order of the path.  Defaults to ascending.
+   */
+  order?: "ascending" | "descending";
+}
+
+/**
+ * A path that holds GeoJSON values that are indexed spatially.
+ */
+export interface CosmosSpatialIndex {
+  /**
+   * The path, e.g. /location/*.
+   */
+  path: string;
+
+  /**
+   * The types of GeoJSON object that are indexed.
+   */
+  types: ("Point" | "LineString" | "Polygon" | "MultiPolygon")[];
+}
+
+/**
+ * The indexing policy of a collection.
+ */
+export interface CosmosIndexingPolicy {
+  /**
+   * The indexing mode.  The index is updated synchronously in
+   * consistent mode, whereas none disables indexing.
+   */
+  indexingMode?: "consistent" | "none";
+
+  /**
+   * True if documents are indexed automatically.
+   */
+  automatic?: boolean;
+
+  /**
+   * The paths that are indexed.
+   */
+  includedPaths?: CosmosIndexPath[];
+
+  /**
+   * The paths that are not indexed.
+   */
+  excludedPaths?: CosmosIndexPath[];
+
+  /**
+   * The composite indexes, each of which is an ordered list of paths.
+   * Composite indexes are required to ORDER BY multiple properties.
+   */
+  compositeIndexes?: CosmosCompositeIndexPath[][];
+
+  /**
+   * The paths that are indexed spatially.
+   */
+  spatialIndexes?: CosmosSpatialIndex[];
+}
+
+/**
+ * A set of paths whose combined values must be unique within
+ * a logical partition.
+ */
+export interface CosmosUniqueKey {
+  /**
+   * The paths of the unique key, e.g. ["/firstName", "/lastName"].
+   */
+  paths: string[];
+}
+
+/**
+ * The unique key constraints of a collection.
+ */
+export interface CosmosUniqueKeyPolicy {
+  /**
+   * The unique keys.
+   */
+  uniqueKeys: CosmosUniqueKey[];
 }
 
 /**
  * Information about a cosmos collection.
  */
-interface CosmosCollection {
+export interface CosmosCollection {
   /**
    * The id of a collection.
    */
@@ -29,55 +136,78 @@ interface CosmosCollection {
   /**
    * The definition of the partition key for a collection.
    */
-  partitionKey: CosmosPartitionKey;
+  partitionKey: CosmosPartitionKeyDefinition;
+
+  /**
+   * The indexing policy of a collection.
+   */
+  indexingPolicy: CosmosIndexingPolicy;
+
+  /**
+   * The unique key constraints of a collection, if any.
+   */
+  uniqueKeyPolicy?: CosmosUniqueKeyPolicy;
+
+  /**
+   * The number of seconds after which documents expire, or -1
+   * if documents only expire when they have their own ttl.
+   * If not present, documents do not expire.
+   */
+  defaultTtl?: number;
+
+  /**
+   * The resource id of a collection.
+   */
+  _rid: string;
+
+  /**
+   * The self link of a collection.
+   */
+  _self: string;
+
+  /**
+   * The etag of a collection.
+   */
+  _etag: string;
+
+  /**
+   * The time a collection was last updated, in seconds since
+   * the unix epoch.
+   */
+  _ts: number;
+}
+
+/**
+ * Options for getting a collection.
+ */
+interface GetCollectionOptions {
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
 }
 
 /**
- * Returns partition key information for a collection.
- * @param cryptoKey A crypto key.
+ * Returns the definition of a collection, including its partition
+ * key, indexing policy, unique keys and default time to live.
+ * @param authorization A crypto key, or a provider of authorization headers.
  * @param cosmosUrl A url to a database.
  * @param databaseName The name of a database.
  * @param collectionName The name of a collection.
+ * @param options A property bag of options.
  */
 export async function getCollection(
-  cryptoKey: CryptoKey,
+  authorization: CosmosAuthorization,
   cosmosUrl: string,
   databaseName: string,
   collectionName: string,
+  options: GetCollectionOptions = {},
 ): Promise<CosmosCollection> {
-  const collection = await cosmosRetryable(async () => {
-    const reqHeaders = await generateCosmosReqHeaders({
-      key: cryptoKey,
-      method: "GET",
-      resourceType: "colls",
-      resourceLink: `dbs/${databaseName}/colls/${collectionName}`,
-    });
-
-    const response = await fetch(
-      `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}`,
-      {
-        headers: {
-          Authorization: reqHeaders.authorizationHeader,
-          "x-ms-date": reqHeaders.xMsDateHeader,
-          "content-type": "application/json",
-          "x-ms-version": reqHeaders.xMsVersion,
-        },
-      },
-    );
-
-    ensureRaisingOfTransitoryErrors(response);
-
-    if (!response.ok) {
-      throw new Error(
-        `Unable to get collection ${databaseName}/${collectionName}.\n${await response
-          .text()}`,
-      );
-    }
-
-    const result = await response.json() as CosmosCollection;
-
-    return result;
-  });
-
-  return collection;
+  return await readCollection(
+    authorization,
+    cosmosUrl,
+    databaseName,
+    collectionName,
+    options.retryPolicy,
+  );
 }
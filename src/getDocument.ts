@@ -1,7 +1,15 @@
-import { generateCosmosReqHeaders } from "./generateCosmosReqHeaders.ts";
-import { cosmosRetryable } from "./cosmosRetryable.ts";
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
 import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
-import { formatPartitionKeyValue } from "./formatPartitionKeyValue.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+import {
+  CosmosPartitionKeyValue,
+  formatPartitionKeyValue,
+} from "./formatPartitionKeyValue.ts";
 
 /**
  * The options for fetching a document.
@@ -11,6 +19,11 @@ interface GetDocumentOptions {
    * A session token.
    */
   sessionToken?: string;
+
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
 }
 
 /**
@@ -35,7 +48,7 @@ interface GetDocumentResult {
 
 /**
  * Fetches a document based on it's id.
- * @param cryptoKey A crypto key.
+ * @param authorization A crypto key, or a provider of authorization headers.
  * @param cosmosUrl The url to a database.
  * @param databaseName The name of a database.
  * @param collectionName The name of a collection.
@@ -44,11 +57,11 @@ interface GetDocumentResult {
  * @param options A property bag of options.
  */
 export async function getDocument(
-  cryptoKey: CryptoKey,
+  authorization: CosmosAuthorization,
   cosmosUrl: string,
   databaseName: string,
   collectionName: string,
-  partition: string,
+  partition: CosmosPartitionKeyValue,
   documentId: string,
   options: GetDocumentOptions,
 ): Promise<GetDocumentResult> {
@@ -58,16 +71,16 @@ export async function getDocument(
     optionalHeaders["x-ms-session-token"] = options.sessionToken;
   }
 
-  const result = await cosmosRetryable(async () => {
+  const result = await cosmosRetryable(async (attempt) => {
     const reqHeaders = await generateCosmosReqHeaders({
-      key: cryptoKey,
+      key: authorization,
       method: "GET",
       resourceType: "docs",
       resourceLink:
         `dbs/${databaseName}/colls/${collectionName}/docs/${documentId}`,
     });
 
-    const response = await fetch(
+    const response = await cosmosFetch(
       `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}/docs/${documentId}`,
       {
         headers: {
@@ -81,14 +94,22 @@ export async function getDocument(
           ...optionalHeaders,
         },
       },
+      "getDocument",
+      attempt,
     );
 
-    ensureRaisingOfTransitoryErrors(response);
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "getDocument",
+    );
 
     if (!response.ok && response.status !== 404) {
-      throw new Error(
-        `Unable to get document ${databaseName}/${collectionName}/${documentId}.\n${await response
-          .text()}`,
+      throw await createCosmosError(
+        response,
+        "getDocument",
+        `Unable to get document ${databaseName}/${collectionName}/${documentId}.`,
       );
     }
 
@@ -115,7 +136,7 @@ export async function getDocument(
         requestDurationMilliseconds,
       };
     }
-  });
+  }, { retryPolicy: options.retryPolicy });
 
   return result;
 }
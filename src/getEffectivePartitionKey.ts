@@ -0,0 +1,203 @@
+import {
+  CosmosPartitionKeyComponent,
+  CosmosPartitionKeyValue,
+} from "./formatPartitionKeyValue.ts";
+
+/**
+ * The markers that precede each type of value when a partition
+ * key value is encoded for hashing.
+ */
+const TYPE_MARKERS = {
+  undefined: 0x00,
+  null: 0x01,
+  false: 0x02,
+  true: 0x03,
+  number: 0x05,
+  string: 0x08,
+  terminator: 0xff,
+};
+
+/**
+ * A mask of the 64 least significant bits.
+ */
+const UINT64_MASK = (1n << 64n) - 1n;
+
+/**
+ * Returns the effective partition key (EPK) of a partition key value,
+ * using the hash (version 2) that Cosmos applies to partition keys.
+ * The EPK is a hex string that determines which partition key range
+ * holds the documents with the given partition key value.  A partition
+ * key range holds the documents where minInclusive <= EPK < maxExclusive,
+ * when compared as strings.  The EPK of a hierarchical (MultiHash) key
+ * is the concatenation of the EPK of each component.
+ * @param partitionKeyValue A partition key value.
+ */
+export function getEffectivePartitionKey(
+  partitionKeyValue: CosmosPartitionKeyValue,
+): string {
+  return Array.isArray(partitionKeyValue)
+    ? partitionKeyValue.map(hashPartitionKeyComponent).join("")
+    : hashPartitionKeyComponent(partitionKeyValue);
+}
+
+/**
+ * Returns the effective partition key of a single component.
+ * @param component A partition key component.
+ */
+function hashPartitionKeyComponent(component: CosmosPartitionKeyComponent) {
+  const [h1, h2] = murmurHash3x64x128(encodePartitionKeyValue(component));
+
+  const hash = h2.toString(16).padStart(16, "0") +
+    h1.toString(16).padStart(16, "0");
+
+  // The top two bits are cleared so that every EPK is less than "FF",
+  // which is the upper bound of the last partition key range.
+  const firstByte = parseInt(hash.slice(0, 2), 16) & 0x3f;
+
+  return (firstByte.toString(16).padStart(2, "0") + hash.slice(2))
+    .toUpperCase();
+}
+
+/**
+ * Returns the binary encoding of a partition key value
+ * that is used as the input to the hash.
+ * @param value A partition key value.
+ */
+function encodePartitionKeyValue(
+  value: CosmosPartitionKeyComponent,
+): Uint8Array {
+  if (typeof value === "string") {
+    const bytes = new TextEncoder().encode(value);
+    const encoded = new Uint8Array(bytes.length + 2);
+    encoded[0] = TYPE_MARKERS.string;
+    encoded.set(bytes, 1);
+    encoded[bytes.length + 1] = TYPE_MARKERS.terminator;
+    return encoded;
+  }
+
+  if (typeof value === "number") {
+    const encoded = new Uint8Array(9);
+    encoded[0] = TYPE_MARKERS.number;
+    new DataView(encoded.buffer).setFloat64(1, value, true);
+    return encoded;
+  }
+
+  if (typeof value === "boolean") {
+    return new Uint8Array([value ? TYPE_MARKERS.true : TYPE_MARKERS.false]);
+  }
+
+  if (value === null) {
+    return new Uint8Array([TYPE_MARKERS.null]);
+  }
+
+  return new Uint8Array([TYPE_MARKERS.undefined]);
+}
+
+/**
+ * Returns the 128-bit MurmurHash3 (x64 variant) of the given bytes,
+ * using a seed of zero, as a pair of 64-bit values.
+ * @param bytes The bytes to hash.
+ */
+function murmurHash3x64x128(bytes: Uint8Array): [bigint, bigint] {
+  const c1 = 0x87c37b91114253d5n;
+  const c2 = 0x4cf5ad432745937fn;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const blockCount = Math.floor(bytes.length / 16);
+
+  let h1 = 0n;
+  let h2 = 0n;
+
+  for (let i = 0; i < blockCount; i++) {
+    const k1 = view.getBigUint64(i * 16, true);
+    const k2 = view.getBigUint64(i * 16 + 8, true);
+
+    h1 ^= mixK1(k1, c1, c2);
+    h1 = (rotateLeft(h1, 27n) + h2) & UINT64_MASK;
+    h1 = (h1 * 5n + 0x52dce729n) & UINT64_MASK;
+
+    h2 ^= mixK2(k2, c1, c2);
+    h2 = (rotateLeft(h2, 31n) + h1) & UINT64_MASK;
+    h2 = (h2 * 5n + 0x38495ab5n) & UINT64_MASK;
+  }
+
+  const tailStart = blockCount * 16;
+  const tailLength = bytes.length & 15;
+
+  let k1 = 0n;
+  let k2 = 0n;
+
+  for (let i = tailLength - 1; i >= 8; i--) {
+    k2 ^= BigInt(bytes[tailStart + i]) << BigInt((i - 8) * 8);
+  }
+
+  if (tailLength > 8) {
+    h2 ^= mixK2(k2, c1, c2);
+  }
+
+  for (let i = Math.min(tailLength, 8) - 1; i >= 0; i--) {
+    k1 ^= BigInt(bytes[tailStart + i]) << BigInt(i * 8);
+  }
+
+  if (tailLength > 0) {
+    h1 ^= mixK1(k1, c1, c2);
+  }
+
+  const length = BigInt(bytes.length);
+
+  h1 ^= length;
+  h2 ^= length;
+  h1 = (h1 + h2) & UINT64_MASK;
+  h2 = (h2 + h1) & UINT64_MASK;
+  h1 = finalizationMix(h1);
+  h2 = finalizationMix(h2);
+  h1 = (h1 + h2) & UINT64_MASK;
+  h2 = (h2 + h1) & UINT64_MASK;
+
+  return [h1, h2];
+}
+
+/**
+ * Mixes the first 64-bit half of a block.
+ * @param k1 The first half of a block.
+ * @param c1 The first hash constant.
+ * @param c2 The second hash constant.
+ */
+function mixK1(k1: bigint, c1: bigint, c2: bigint) {
+  k1 = (k1 * c1) & UINT64_MASK;
+  k1 = rotateLeft(k1, 31n);
+  return (k1 * c2) & UINT64_MASK;
+}
+
+/**
+ * Mixes the second 64-bit half of a block.
+ * @param k2 The second half of a block.
+ * @param c1 The first hash constant.
+ * @param c2 The second hash constant.
+ */
+function mixK2(k2: bigint, c1: bigint, c2: bigint) {
+  k2 = (k2 * c2) & UINT64_MASK;
+  k2 = rotateLeft(k2, 33n);
+  return (k2 * c1) & UINT64_MASK;
+}
+
+/**
+ * Rotates a 64-bit value to the left.
+ * @param value A 64-bit value.
+ * @param bits The number of bits to rotate by.
+ */
+function rotateLeft(value: bigint, bits: bigint) {
+  return ((value << bits) | (value >> (64n - bits))) & UINT64_MASK;
+}
+
+/**
+ * Forces all the bits of a 64-bit value to avalanche.
+ * @param k A 64-bit value.
+ */
+function finalizationMix(k: bigint) {
+  k ^= k >> 33n;
+  k = (k * 0xff51afd7ed558ccdn) & UINT64_MASK;
+  k ^= k >> 33n;
+  k = (k * 0xc4ceb9fe1a85ec53n) & UINT64_MASK;
+  k ^= k >> 33n;
+  return k;
+}
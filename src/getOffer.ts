@@ -0,0 +1,87 @@
+import { convertOfferRecord, readOfferRecord } from "./readOfferRecord.ts";
+import { CosmosAuthorization } from "./generateCosmosReqHeaders.ts";
+import { CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { traceCosmosOperation } from "./cosmosFetch.ts";
+
+/**
+ * The throughput provisioned for a database or collection.
+ */
+export interface CosmosOffer {
+  /**
+   * The id of the offer.
+   */
+  id: string;
+
+  /**
+   * The manual throughput in RU/s, or null if the offer uses autoscale.
+   */
+  throughput: number | null;
+
+  /**
+   * The maximum throughput in RU/s that autoscale will scale up to,
+   * or null if the offer uses manual throughput.
+   */
+  maxAutoscaleThroughput: number | null;
+
+  /**
+   * The lowest manual throughput, in RU/s, that can be provisioned.
+   * This rises with the amount of data stored and the highest
+   * throughput that has previously been provisioned.  This is null
+   * if Cosmos did not report the minimum.
+   */
+  minimumThroughput: number | null;
+
+  /**
+   * True if a change of throughput is still being applied.  Scaling
+   * beyond the capacity of the existing physical partitions requires
+   * Cosmos to split them, which can take several hours.
+   */
+  isReplacePending: boolean;
+}
+
+/**
+ * Options for getting the throughput of a database or collection.
+ */
+interface GetOfferOptions {
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * Returns the throughput provisioned for a database or collection,
+ * or null if the resource does not have its own throughput, e.g. a
+ * collection that shares the throughput of its database or
+ * a serverless account.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection, or null for the
+ * throughput of the database.
+ * @param options A property bag of options.
+ */
+export async function getOffer(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string | null,
+  options: GetOfferOptions = {},
+): Promise<CosmosOffer | null> {
+  const offerRecord = await traceCosmosOperation(
+    "getOffer",
+    databaseName,
+    collectionName,
+    (trace) =>
+      readOfferRecord(
+        authorization,
+        cosmosUrl,
+        databaseName,
+        collectionName,
+        options.retryPolicy,
+        trace,
+      ),
+  );
+
+  return offerRecord ? convertOfferRecord(offerRecord) : null;
+}
@@ -0,0 +1,96 @@
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+import { CosmosPermission } from "./createPermission.ts";
+
+/**
+ * Options for getting a permission.
+ */
+interface GetPermissionOptions {
+  /**
+   * The number of seconds for which the returned resource token is
+   * valid, up to a maximum of 18000 (5 hours).  Defaults to 3600.
+   */
+  expirySeconds?: number;
+
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * Returns a permission of a user, along with a newly issued resource
+ * token that grants it.  Read the permission again to obtain a fresh
+ * token before the previous one expires.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param userName The name of a user.
+ * @param permissionName The name of a permission.
+ * @param options A property bag of options.
+ */
+export async function getPermission(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  userName: string,
+  permissionName: string,
+  options: GetPermissionOptions = {},
+): Promise<CosmosPermission> {
+  const permission = await cosmosRetryable(async (attempt) => {
+    const reqHeaders = await generateCosmosReqHeaders({
+      key: authorization,
+      method: "GET",
+      resourceType: "permissions",
+      resourceLink:
+        `dbs/${databaseName}/users/${userName}/permissions/${permissionName}`,
+    });
+
+    const optionalHeaders: Record<string, string> = {};
+
+    if (options.expirySeconds !== undefined) {
+      optionalHeaders["x-ms-documentdb-expiry-seconds"] = options
+        .expirySeconds.toString();
+    }
+
+    const response = await cosmosFetch(
+      `${cosmosUrl}/dbs/${databaseName}/users/${userName}/permissions/${permissionName}`,
+      {
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json",
+          "x-ms-version": reqHeaders.xMsVersion,
+          ...optionalHeaders,
+        },
+      },
+      "getPermission",
+      attempt,
+    );
+
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "getPermission",
+    );
+
+    if (!response.ok) {
+      throw await createCosmosError(
+        response,
+        "getPermission",
+        `Unable to get permission ${databaseName}/${userName}/${permissionName}.`,
+      );
+    }
+
+    return await response.json() as CosmosPermission;
+  }, { retryPolicy: options.retryPolicy });
+
+  return permission;
+}
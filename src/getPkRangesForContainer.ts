@@ -0,0 +1,363 @@
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch, CosmosOperationTrace } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+import { CosmosPartitionKeyValue } from "./formatPartitionKeyValue.ts";
+import { getEffectivePartitionKey } from "./getEffectivePartitionKey.ts";
+import { readCollection } from "./readCollection.ts";
+
+/**
+ * Options for retrieving the partition key ranges.
+ */
+interface GetPkRangesForContainerOptions {
+  /**
+   * True if the cached ranges should be discarded and the ranges
+   * retrieved from Cosmos again, typically because a range has
+   * been split or merged.
+   */
+  forceRefresh?: boolean;
+
+  /**
+   * The number of milliseconds that the ranges of a collection are
+   * cached for before they are retrieved again.  Defaults to 5 minutes.
+   */
+  pkRangeCacheTtlMilliseconds?: number;
+
+  /**
+   * A session token.
+   */
+  sessionToken?: string;
+
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+
+  /**
+   * The trace of the operation that the ranges are retrieved for.
+   */
+  trace?: CosmosOperationTrace;
+}
+
+/**
+ * A partition key range of a collection.
+ */
+interface CosmosPkRange {
+  /**
+   * The id of the range.
+   */
+  id: string;
+
+  /**
+   * The lowest effective partition key held by the range.
+   */
+  minInclusive: string;
+
+  /**
+   * The effective partition key above the highest held by the range.
+   */
+  maxExclusive: string;
+
+  /**
+   * The ids of the ranges that this range was split from, oldest first.
+   */
+  parents: string[];
+}
+
+/**
+ * The partition key ranges of a collection held in the cache.
+ */
+interface PkRangeCacheEntry {
+  /**
+   * The resource id of the collection.
+   */
+  collectionRid: string;
+
+  /**
+   * The partition key ranges, ordered by effective partition key.
+   */
+  pkRanges: CosmosPkRange[];
+
+  /**
+   * True if the collection uses version 2 hashing, or undefined
+   * if the collection has not been retrieved yet.
+   */
+  isHashV2?: boolean;
+
+  /**
+   * The time (in milliseconds) at which the entry expires.
+   */
+  expiresAt: number;
+}
+
+/**
+ * The default number of milliseconds that partition key ranges are cached.
+ */
+const DEFAULT_PK_RANGE_CACHE_TTL_MILLISECONDS = 5 * 60 * 1000;
+
+/**
+ * The cached partition key ranges, keyed by collection url.
+ */
+const pkRangeCache = new Map<string, PkRangeCacheEntry>();
+
+/**
+ * Returns the partition key ranges for a container.  Each range
+ * is returned in the form {collectionRid},{pkRangeId} which is the
+ * format expected by the x-ms-documentdb-partitionkeyrangeid header.
+ * The ranges are cached, so Cosmos is only asked for the ranges when
+ * the cached entry expires or a refresh is forced.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param options A property bag of options.
+ */
+export async function getPkRangesForContainer(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  options: GetPkRangesForContainerOptions,
+): Promise<string[]> {
+  const entry = await getPkRangeCacheEntry(
+    authorization,
+    cosmosUrl,
+    databaseName,
+    collectionName,
+    options,
+  );
+
+  return entry.pkRanges.map((pkr) => `${entry.collectionRid},${pkr.id}`);
+}
+
+/**
+ * Returns the partition key range that holds the documents with the
+ * given partition key value, in the form {collectionRid},{pkRangeId}.
+ * The range is found by comparing the effective partition key (EPK)
+ * of the value with the bounds of each range.  Returns null if the
+ * collection does not use version 2 hashing, in which case the range
+ * cannot be determined and all the ranges must be queried.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param partition A partition key value.
+ * @param options A property bag of options.
+ */
+export async function getPkRangeForPartition(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  partition: CosmosPartitionKeyValue,
+  options: GetPkRangesForContainerOptions,
+): Promise<string | null> {
+  const entry = await getPkRangeCacheEntry(
+    authorization,
+    cosmosUrl,
+    databaseName,
+    collectionName,
+    options,
+  );
+
+  if (entry.isHashV2 === undefined) {
+    const collection = await readCollection(
+      authorization,
+      cosmosUrl,
+      databaseName,
+      collectionName,
+      options.retryPolicy,
+      options.trace,
+    );
+
+    entry.isHashV2 = collection.partitionKey.version === 2;
+  }
+
+  if (!entry.isHashV2) {
+    return null;
+  }
+
+  const epk = getEffectivePartitionKey(partition);
+
+  const pkRange = entry.pkRanges.find((pkr) =>
+    pkr.minInclusive <= epk && epk < pkr.maxExclusive
+  );
+
+  if (!pkRange) {
+    throw new Error(
+      `Unable to find the pk-range of ${databaseName}/${collectionName} that holds effective partition key ${epk}.`,
+    );
+  }
+
+  return `${entry.collectionRid},${pkRange.id}`;
+}
+
+/**
+ * Returns the parents of each partition key range of a container,
+ * i.e. the ranges that it was split from, nearest first.  Both the
+ * ranges and their parents are in the form {collectionRid},{pkRangeId}.
+ * This allows a position recorded against a range that has since been
+ * split to be carried over to the ranges that replaced it.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param options A property bag of options.
+ */
+export async function getPkRangeParentsForContainer(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  options: GetPkRangesForContainerOptions,
+): Promise<Record<string, string[]>> {
+  const entry = await getPkRangeCacheEntry(
+    authorization,
+    cosmosUrl,
+    databaseName,
+    collectionName,
+    options,
+  );
+
+  const parents: Record<string, string[]> = {};
+
+  for (const pkr of entry.pkRanges) {
+    parents[`${entry.collectionRid},${pkr.id}`] = pkr.parents
+      .map((parentId) => `${entry.collectionRid},${parentId}`)
+      .reverse();
+  }
+
+  return parents;
+}
+
+/**
+ * Removes the cached partition key ranges of a collection, or of all
+ * the collections in a database if a collection name is not supplied.
+ * This should be called when a collection is deleted, since a new
+ * collection with the same name will have different ranges.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ */
+export function clearPkRangeCache(
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName?: string,
+): void {
+  const prefix = collectionName === undefined
+    ? `${cosmosUrl}/dbs/${databaseName}/colls/`
+    : `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}`;
+
+  for (const cacheKey of Array.from(pkRangeCache.keys())) {
+    if (
+      collectionName === undefined
+        ? cacheKey.startsWith(prefix)
+        : cacheKey === prefix
+    ) {
+      pkRangeCache.delete(cacheKey);
+    }
+  }
+}
+
+/**
+ * Returns the cached partition key ranges of a collection, retrieving
+ * them from Cosmos if they are not cached, have expired or a refresh
+ * has been forced.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param options A property bag of options.
+ */
+async function getPkRangeCacheEntry(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  options: GetPkRangesForContainerOptions,
+): Promise<PkRangeCacheEntry> {
+  const cacheKey = `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}`;
+  const cachedEntry = pkRangeCache.get(cacheKey);
+
+  if (
+    cachedEntry && !options.forceRefresh && cachedEntry.expiresAt > Date.now()
+  ) {
+    return cachedEntry;
+  }
+
+  const optionalHeaders: Record<string, string> = {};
+
+  if (options.sessionToken) {
+    optionalHeaders["x-ms-session-token"] = options.sessionToken;
+  }
+
+  const pkRangesFull = await cosmosRetryable(async (attempt) => {
+    const pkRangesReqHeaders = await generateCosmosReqHeaders({
+      key: authorization,
+      method: "GET",
+      resourceType: "pkranges",
+      resourceLink: `dbs/${databaseName}/colls/${collectionName}`,
+    });
+
+    const response = await cosmosFetch(
+      `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}/pkranges`,
+      {
+        method: "GET",
+        headers: {
+          Authorization: pkRangesReqHeaders.authorizationHeader,
+          "x-ms-date": pkRangesReqHeaders.xMsDateHeader,
+          "x-ms-version": pkRangesReqHeaders.xMsVersion,
+          ...optionalHeaders,
+        },
+      },
+      "getPkRangesForContainer",
+      attempt,
+    );
+
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      pkRangesReqHeaders.authorizationHeader,
+      "getPkRangesForContainer",
+    );
+
+    if (!response.ok) {
+      throw await createCosmosError(
+        response,
+        "getPkRangesForContainer",
+        `Unable to get pk-ranges from collection ${databaseName}/${collectionName}.`,
+      );
+    }
+
+    return await response.json() as {
+      _rid: string;
+      PartitionKeyRanges: CosmosPkRange[];
+    };
+  }, { retryPolicy: options.retryPolicy, trace: options.trace });
+
+  const entry: PkRangeCacheEntry = {
+    collectionRid: pkRangesFull._rid,
+    pkRanges: pkRangesFull.PartitionKeyRanges
+      .map((pkr) => ({
+        id: pkr.id,
+        minInclusive: pkr.minInclusive,
+        maxExclusive: pkr.maxExclusive,
+        parents: pkr.parents || [],
+      }))
+      .sort((a, b) => a.minInclusive < b.minInclusive ? -1 : 1),
+    isHashV2: cachedEntry?.collectionRid === pkRangesFull._rid
+      ? cachedEntry.isHashV2
+      : undefined,
+    expiresAt: Date.now() +
+      (options.pkRangeCacheTtlMilliseconds ??
+        DEFAULT_PK_RANGE_CACHE_TTL_MILLISECONDS),
+  };
+
+  pkRangeCache.set(cacheKey, entry);
+
+  return entry;
+}
@@ -1,16 +1,51 @@
+export * from "./addCosmosInstrumentation.ts";
+export * from "./bulkWriteDocuments.ts";
 export * from "./convertCosmosKeyToCryptoKey.ts";
+export * from "./cosmosRetryable.ts";
+export * from "./createAadAuthorization.ts";
 export * from "./createCollection.ts";
+export * from "./createCosmosClient.ts";
+export * from "./createCosmosError.ts";
 export * from "./createDatabase.ts";
 export * from "./createDocument.ts";
+export * from "./createPermission.ts";
+export * from "./createResourceTokenAuthorization.ts";
+export * from "./createStoredProcedure.ts";
+export * from "./createTrigger.ts";
+export * from "./createUser.ts";
+export * from "./createUserDefinedFunction.ts";
 export * from "./deleteCollection.ts";
 export * from "./deleteDatabase.ts";
 export * from "./deleteDocument.ts";
+export * from "./deleteStoredProcedure.ts";
+export * from "./deleteTrigger.ts";
+export * from "./deleteUser.ts";
+export * from "./deleteUserDefinedFunction.ts";
+export * from "./executeStoredProcedure.ts";
+export * from "./executeTransactionalBatch.ts";
+export * from "./formatPartitionKeyValue.ts";
 export * from "./getCollection.ts";
 export * from "./getDocument.ts";
+export * from "./getOffer.ts";
 export * from "./generateCosmosReqHeaders.ts";
 export * from "./getCollection.ts";
+export * from "./getPermission.ts";
 export * from "./listCollections.ts";
 export * from "./listDatabases.ts";
+export * from "./listStoredProcedures.ts";
+export * from "./listTriggers.ts";
+export * from "./listUserDefinedFunctions.ts";
+export * from "./listUsers.ts";
+export * from "./patchDocument.ts";
 export * from "./queryDocumentsContainersDirect.ts";
+export * from "./queryDocumentsContainersDirectPages.ts";
 export * from "./queryDocumentsGateway.ts";
+export * from "./queryDocumentsGatewayPages.ts";
+export * from "./readChangeFeed.ts";
+export * from "./readChangeFeedPages.ts";
 export * from "./replaceDocument.ts";
+export * from "./replaceOffer.ts";
+export * from "./replaceStoredProcedure.ts";
+export * from "./replaceTrigger.ts";
+export * from "./replaceUserDefinedFunction.ts";
+export * from "./setCosmosTracer.ts";
@@ -1,46 +1,77 @@
-import { generateCosmosReqHeaders } from "./generateCosmosReqHeaders.ts";
-import { cosmosRetryable } from "./cosmosRetryable.ts";
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
 import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+
+/**
+ * Options for listing the collections of a database.
+ */
+interface ListCollectionsOptions {
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
 
 /**
  * Returns an array of the collection names for
  * the given database.
- * @param cryptoKey A crypto key.
+ * @param authorization A crypto key, or a provider of authorization headers.
  * @param cosmosUrl The url to a database.
  * @param databaseName The name of a database.
+ * @param options A property bag of options.
  */
 export async function listCollections(
-  cryptoKey: CryptoKey,
+  authorization: CosmosAuthorization,
   cosmosUrl: string,
   databaseName: string,
+  options: ListCollectionsOptions = {},
 ): Promise<string[]> {
-  const list = await cosmosRetryable(async () => {
+  const list = await cosmosRetryable(async (attempt) => {
     const reqHeaders = await generateCosmosReqHeaders({
-      key: cryptoKey,
+      key: authorization,
       method: "GET",
       resourceType: "colls",
       resourceLink: `dbs/${databaseName}`,
     });
 
-    const response = await fetch(`${cosmosUrl}/dbs/${databaseName}/colls`, {
-      headers: {
-        Authorization: reqHeaders.authorizationHeader,
-        "x-ms-date": reqHeaders.xMsDateHeader,
-        "content-type": "application/json",
-        "x-ms-version": reqHeaders.xMsVersion,
+    const response = await cosmosFetch(
+      `${cosmosUrl}/dbs/${databaseName}/colls`,
+      {
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json",
+          "x-ms-version": reqHeaders.xMsVersion,
+        },
       },
-    });
+      "listCollections",
+      attempt,
+    );
 
-    ensureRaisingOfTransitoryErrors(response);
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "listCollections",
+    );
 
     if (!response.ok) {
-      throw new Error(`Unable to list collections.\n${await response.text()}`);
+      throw await createCosmosError(
+        response,
+        "listCollections",
+        "Unable to list collections.",
+      );
     }
 
     const result = await response.json();
 
     return result.DocumentCollections.map((col: { id: string }) => col.id);
-  });
+  }, { retryPolicy: options.retryPolicy });
 
   return list;
 }
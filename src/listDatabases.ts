@@ -1,43 +1,74 @@
-import { generateCosmosReqHeaders } from "./generateCosmosReqHeaders.ts";
-import { cosmosRetryable } from "./cosmosRetryable.ts";
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
 import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+
+/**
+ * Options for listing the databases.
+ */
+interface ListDatabasesOptions {
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
 
 /**
  * Returns the names of the databases for a given
  * cosmos instance.
- * @param cryptoKey A crypto key.
+ * @param authorization A crypto key, or a provider of authorization headers.
  * @param cosmosUrl The url to a database.
+ * @param options A property bag of options.
  */
 export async function listDatabases(
-  cryptoKey: CryptoKey,
+  authorization: CosmosAuthorization,
   cosmosUrl: string,
+  options: ListDatabasesOptions = {},
 ): Promise<string[]> {
-  const list = await cosmosRetryable(async () => {
+  const list = await cosmosRetryable(async (attempt) => {
     const reqHeaders = await generateCosmosReqHeaders({
-      key: cryptoKey,
+      key: authorization,
       method: "GET",
       resourceType: "dbs",
     });
 
-    const response = await fetch(`${cosmosUrl}/dbs`, {
-      headers: {
-        Authorization: reqHeaders.authorizationHeader,
-        "x-ms-date": reqHeaders.xMsDateHeader,
-        "content-type": "application/json",
-        "x-ms-version": reqHeaders.xMsVersion,
+    const response = await cosmosFetch(
+      `${cosmosUrl}/dbs`,
+      {
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json",
+          "x-ms-version": reqHeaders.xMsVersion,
+        },
       },
-    });
+      "listDatabases",
+      attempt,
+    );
 
-    ensureRaisingOfTransitoryErrors(response);
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "listDatabases",
+    );
 
     if (!response.ok) {
-      throw new Error(`Unable to list databases.\n${await response.text()}`);
+      throw await createCosmosError(
+        response,
+        "listDatabases",
+        "Unable to list databases.",
+      );
     }
 
     const result = await response.json();
 
     return result.Databases.map((db: { id: string }) => db.id);
-  });
+  }, { retryPolicy: options.retryPolicy });
 
   return list;
 }
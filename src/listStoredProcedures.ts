@@ -0,0 +1,79 @@
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+import { CosmosStoredProcedure } from "./createStoredProcedure.ts";
+
+/**
+ * Options for listing the stored procedures of a collection.
+ */
+interface ListStoredProceduresOptions {
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * Returns an array of the stored procedures of the given collection.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param options A property bag of options.
+ */
+export async function listStoredProcedures(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  options: ListStoredProceduresOptions = {},
+): Promise<CosmosStoredProcedure[]> {
+  const list = await cosmosRetryable(async (attempt) => {
+    const reqHeaders = await generateCosmosReqHeaders({
+      key: authorization,
+      method: "GET",
+      resourceType: "sprocs",
+      resourceLink: `dbs/${databaseName}/colls/${collectionName}`,
+    });
+
+    const response = await cosmosFetch(
+      `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}/sprocs`,
+      {
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json",
+          "x-ms-version": reqHeaders.xMsVersion,
+        },
+      },
+      "listStoredProcedures",
+      attempt,
+    );
+
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "listStoredProcedures",
+    );
+
+    if (!response.ok) {
+      throw await createCosmosError(
+        response,
+        "listStoredProcedures",
+        "Unable to list stored procedures.",
+      );
+    }
+
+    const result = await response.json();
+
+    return result.StoredProcedures as CosmosStoredProcedure[];
+  }, { retryPolicy: options.retryPolicy });
+
+  return list;
+}
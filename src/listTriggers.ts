@@ -0,0 +1,79 @@
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+import { CosmosTrigger } from "./createTrigger.ts";
+
+/**
+ * Options for listing the triggers of a collection.
+ */
+interface ListTriggersOptions {
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * Returns an array of the triggers of the given collection.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param options A property bag of options.
+ */
+export async function listTriggers(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  options: ListTriggersOptions = {},
+): Promise<CosmosTrigger[]> {
+  const list = await cosmosRetryable(async (attempt) => {
+    const reqHeaders = await generateCosmosReqHeaders({
+      key: authorization,
+      method: "GET",
+      resourceType: "triggers",
+      resourceLink: `dbs/${databaseName}/colls/${collectionName}`,
+    });
+
+    const response = await cosmosFetch(
+      `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}/triggers`,
+      {
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json",
+          "x-ms-version": reqHeaders.xMsVersion,
+        },
+      },
+      "listTriggers",
+      attempt,
+    );
+
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "listTriggers",
+    );
+
+    if (!response.ok) {
+      throw await createCosmosError(
+        response,
+        "listTriggers",
+        "Unable to list triggers.",
+      );
+    }
+
+    const result = await response.json();
+
+    return result.Triggers as CosmosTrigger[];
+  }, { retryPolicy: options.retryPolicy });
+
+  return list;
+}
@@ -0,0 +1,79 @@
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+import { CosmosUserDefinedFunction } from "./createUserDefinedFunction.ts";
+
+/**
+ * Options for listing the user-defined functions of a collection.
+ */
+interface ListUserDefinedFunctionsOptions {
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * Returns an array of the user-defined functions of the given collection.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param options A property bag of options.
+ */
+export async function listUserDefinedFunctions(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  options: ListUserDefinedFunctionsOptions = {},
+): Promise<CosmosUserDefinedFunction[]> {
+  const list = await cosmosRetryable(async (attempt) => {
+    const reqHeaders = await generateCosmosReqHeaders({
+      key: authorization,
+      method: "GET",
+      resourceType: "udfs",
+      resourceLink: `dbs/${databaseName}/colls/${collectionName}`,
+    });
+
+    const response = await cosmosFetch(
+      `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}/udfs`,
+      {
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json",
+          "x-ms-version": reqHeaders.xMsVersion,
+        },
+      },
+      "listUserDefinedFunctions",
+      attempt,
+    );
+
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "listUserDefinedFunctions",
+    );
+
+    if (!response.ok) {
+      throw await createCosmosError(
+        response,
+        "listUserDefinedFunctions",
+        "Unable to list user-defined functions.",
+      );
+    }
+
+    const result = await response.json();
+
+    return result.UserDefinedFunctions as CosmosUserDefinedFunction[];
+  }, { retryPolicy: options.retryPolicy });
+
+  return list;
+}
@@ -0,0 +1,77 @@
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+import { CosmosUser } from "./createUser.ts";
+
+/**
+ * Options for listing the users of a database.
+ */
+interface ListUsersOptions {
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * Returns an array of the users of the given database.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param options A property bag of options.
+ */
+export async function listUsers(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  options: ListUsersOptions = {},
+): Promise<CosmosUser[]> {
+  const list = await cosmosRetryable(async (attempt) => {
+    const reqHeaders = await generateCosmosReqHeaders({
+      key: authorization,
+      method: "GET",
+      resourceType: "users",
+      resourceLink: `dbs/${databaseName}`,
+    });
+
+    const response = await cosmosFetch(
+      `${cosmosUrl}/dbs/${databaseName}/users`,
+      {
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json",
+          "x-ms-version": reqHeaders.xMsVersion,
+        },
+      },
+      "listUsers",
+      attempt,
+    );
+
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "listUsers",
+    );
+
+    if (!response.ok) {
+      throw await createCosmosError(
+        response,
+        "listUsers",
+        "Unable to list users.",
+      );
+    }
+
+    const result = await response.json();
+
+    return result.Users as CosmosUser[];
+  }, { retryPolicy: options.retryPolicy });
+
+  return list;
+}
@@ -0,0 +1,50 @@
+/**
+ * Applies an async function to each of the given items, running at
+ * most maxConcurrency invocations at once.  A fixed number of workers
+ * take the next item from the array as soon as they finish with the
+ * previous one.  The results are returned in the order of the items,
+ * regardless of the order in which the invocations complete.
+ * If any invocation fails then no further items are started, and
+ * once the invocations already in-flight have settled the returned
+ * promise is rejected with the first error.  This ensures that no
+ * invocations are still running when the caller handles the error.
+ * @param items An array of items.
+ * @param maxConcurrency The maximum number of invocations in-flight.
+ * @param fn An async function to apply to each item.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  maxConcurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  const errors: unknown[] = [];
+
+  const worker = async () => {
+    while (errors.length === 0 && nextIndex < items.length) {
+      const index = nextIndex++;
+
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (err) {
+        errors.push(err);
+      }
+    }
+  };
+
+  const workerCount = Math.min(items.length, Math.max(1, maxConcurrency));
+  const workers = [];
+
+  for (let i = 0; i < workerCount; i++) {
+    workers.push(worker());
+  }
+
+  await Promise.all(workers);
+
+  if (errors.length > 0) {
+    throw errors[0];
+  }
+
+  return results;
+}
@@ -0,0 +1,87 @@
+import {
+  combineAggregateResults,
+  CosmosAggregate,
+  parseAggregateCall,
+} from "./combineAggregateResults.ts";
+import { splitQueryClauses } from "./splitQueryClauses.ts";
+
+/**
+ * A record returned by a query produced by createGroupByQuery.
+ */
+interface GroupByRecord {
+  /**
+   * The values of the GROUP BY items.  An item is omitted
+   * if the value was undefined.
+   */
+  groupByItems: { item?: unknown }[];
+
+  /**
+   * The values selected by the original query for the group.
+   */
+  payload?: unknown;
+}
+
+/**
+ * Merges the partial groups retrieved from each partition key range,
+ * so that each group appears once.  The records must have been
+ * produced by a query from createGroupByQuery.  Aggregate columns
+ * are combined and any other column takes the value from the first
+ * partial group.  Groups are returned in the order they were first seen.
+ * @param records The records retrieved from all partition key ranges.
+ * @param query The original query, before it was rewritten.
+ */
+export function mergeGroupedResults(
+  records: unknown[],
+  query: string,
+): unknown[] {
+  const clauses = splitQueryClauses(query);
+  const groups = new Map<string, unknown[]>();
+
+  for (const record of records as GroupByRecord[]) {
+    const key = JSON.stringify(record.groupByItems);
+    const payloads = groups.get(key);
+
+    if (payloads) {
+      payloads.push(record.payload);
+    } else {
+      groups.set(key, [record.payload]);
+    }
+  }
+
+  const combineColumn = (
+    aggregate: CosmosAggregate | undefined,
+    values: unknown[],
+  ) =>
+    aggregate
+      ? combineAggregateResults(aggregate, values)
+      : values.find((value) => value !== undefined);
+
+  const results: unknown[] = [];
+
+  for (const payloads of groups.values()) {
+    if (clauses.value !== null) {
+      results.push(
+        combineColumn(parseAggregateCall(clauses.value)?.aggregate, payloads),
+      );
+    } else {
+      const row: Record<string, unknown> = {};
+
+      for (const item of clauses.selectionItems) {
+        const value = combineColumn(
+          parseAggregateCall(item.expression)?.aggregate,
+          payloads.map((payload) =>
+            (payload as Record<string, unknown> | undefined)?.[item.name]
+          ),
+        );
+
+        if (value !== undefined) {
+          row[item.name] = value;
+        }
+      }
+
+      results.push(row);
+    }
+  }
+
+  return results.filter((result) => result !== undefined);
+}
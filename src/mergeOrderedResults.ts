@@ -0,0 +1,138 @@
+import { compareCosmosValues } from "./compareCosmosValues.ts";
+
+/**
+ * A record returned by a query produced by createOrderByQuery.
+ */
+interface OrderByRecord {
+  /**
+   * The values of the ORDER BY items.  An item is omitted
+   * if the value was undefined.
+   */
+  orderByItems: { item?: unknown }[];
+
+  /**
+   * The value selected by the original query.
+   */
+  payload?: unknown;
+}
+
+/**
+ * The position reached in one of the arrays being merged.
+ */
+interface MergeCursor {
+  /**
+   * The index of the array.
+   */
+  arrayIndex: number;
+
+  /**
+   * The index of the next record in the array.
+   */
+  position: number;
+}
+
+/**
+ * Merges the sorted results retrieved from each partition key range
+ * into a single sorted array, using a k-way merge.  Each array must
+ * contain the records produced by a query from createOrderByQuery,
+ * already sorted by Cosmos.  Records that compare equal are returned
+ * in the order of the arrays, so the result is stable.
+ * Returns the payload of each record.
+ * @param arrays An array of sorted records for each partition key range.
+ * @param directions The direction of each ORDER BY item.
+ */
+export function mergeOrderedResults(
+  arrays: unknown[][],
+  directions: { descending: boolean }[],
+): unknown[] {
+  const compareRecords = (a: MergeCursor, b: MergeCursor) => {
+    const recordA = arrays[a.arrayIndex][a.position] as OrderByRecord;
+    const recordB = arrays[b.arrayIndex][b.position] as OrderByRecord;
+
+    for (let i = 0; i < directions.length; i++) {
+      const comparison = compareCosmosValues(
+        recordA.orderByItems[i]?.item,
+        recordB.orderByItems[i]?.item,
+      );
+
+      if (comparison !== 0) {
+        return directions[i].descending ? -comparison : comparison;
+      }
+    }
+
+    return a.arrayIndex - b.arrayIndex;
+  };
+
+  // A binary min-heap holding the next record of each array.
+  const heap: MergeCursor[] = [];
+
+  const siftUp = (index: number) => {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+
+      if (compareRecords(heap[index], heap[parent]) >= 0) {
+        break;
+      }
+
+      [heap[index], heap[parent]] = [heap[parent], heap[index]];
+      index = parent;
+    }
+  };
+
+  const siftDown = (index: number) => {
+    while (true) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+
+      if (
+        left < heap.length && compareRecords(heap[left], heap[smallest]) < 0
+      ) {
+        smallest = left;
+      }
+
+      if (
+        right < heap.length && compareRecords(heap[right], heap[smallest]) < 0
+      ) {
+        smallest = right;
+      }
+
+      if (smallest === index) {
+        break;
+      }
+
+      [heap[index], heap[smallest]] = [heap[smallest], heap[index]];
+      index = smallest;
+    }
+  };
+
+  for (let arrayIndex = 0; arrayIndex < arrays.length; arrayIndex++) {
+    if (arrays[arrayIndex].length > 0) {
+      heap.push({ arrayIndex, position: 0 });
+      siftUp(heap.length - 1);
+    }
+  }
+
+  const merged: unknown[] = [];
+
+  while (heap.length > 0) {
+    const cursor = heap[0];
+    merged.push(
+      (arrays[cursor.arrayIndex][cursor.position] as OrderByRecord).payload,
+    );
+
+    cursor.position++;
+
+    if (cursor.position >= arrays[cursor.arrayIndex].length) {
+      const last = heap.pop() as MergeCursor;
+
+      if (heap.length > 0) {
+        heap[0] = last;
+      }
+    }
+
+    siftDown(0);
+  }
+
+  return merged.filter((payload) => payload !== undefined);
+}
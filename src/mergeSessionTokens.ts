@@ -0,0 +1,89 @@
+/**
+ * The progress recorded by a session token for a single
+ * partition key range.
+ */
+interface SessionTokenSegment {
+  /**
+   * The id of the partition key range.
+   */
+  rangeId: string;
+
+  /**
+   * The segment, as it appears in the session token,
+   * e.g. 0:-1#12 or 3:1#45#1=43.
+   */
+  text: string;
+
+  /**
+   * The version of the partition key range.
+   */
+  version: number;
+
+  /**
+   * The global logical sequence number of the partition key range.
+   */
+  globalLsn: number;
+}
+
+/**
+ * Merges two session tokens into a single session token that is at
+ * least as recent as both of them.  A session token is a comma
+ * separated list with a segment for each partition key range, in the
+ * form {rangeId}:{version}#{globalLsn}, optionally followed by
+ * #{regionId}={lsn} entries.  Where both tokens have a segment for the
+ * same range, the segment with the highest version, and then the
+ * highest global lsn, is kept.  If neither token can be parsed
+ * then the latest token is returned unchanged.
+ * @param existing The session token held so far, if any.
+ * @param latest The session token returned by the most recent request.
+ */
+export function mergeSessionTokens(
+  existing: string | undefined,
+  latest: string,
+) {
+  const segments = new Map<string, SessionTokenSegment>();
+
+  for (const token of [existing, latest]) {
+    for (const text of (token || "").split(",")) {
+      const segment = parseSessionTokenSegment(text.trim());
+
+      if (!segment) {
+        continue;
+      }
+
+      const current = segments.get(segment.rangeId);
+
+      if (
+        !current || segment.version > current.version ||
+        (segment.version === current.version &&
+          segment.globalLsn >= current.globalLsn)
+      ) {
+        segments.set(segment.rangeId, segment);
+      }
+    }
+  }
+
+  return segments.size === 0
+    ? latest
+    : Array.from(segments.values()).map((s) => s.text).join(",");
+}
+
+/**
+ * Returns the range id, version and global lsn of a segment of a
+ * session token, or null if the segment is not in the expected form.
+ * @param text A segment of a session token.
+ */
+function parseSessionTokenSegment(text: string): SessionTokenSegment | null {
+  const match = /^([^:]+):(-?\d+)#(\d+)(#.*)?$/.exec(text);
+
+  if (!match) {
+    return null;
+  }
+
+  return {
+    rangeId: match[1],
+    text,
+    version: parseInt(match[2]),
+    globalLsn: parseInt(match[3]),
+  };
+}
@@ -0,0 +1,207 @@
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+import {
+  CosmosPartitionKeyValue,
+  formatPartitionKeyValue,
+} from "./formatPartitionKeyValue.ts";
+
+/**
+ * An operation that forms part of a partial document update.
+ * Paths are JSON pointers such as /address/city or /tags/0.
+ * - add: Inserts a value into an array, or sets a property.
+ * - set: Sets a property, creating it if it does not exist.
+ * - replace: Replaces a property, which must already exist.
+ * - remove: Removes a property or array element, which must exist.
+ * - incr: Increments a numeric property by the given value.
+ * - move: Moves the value at the 'from' path to the 'path' path.
+ */
+export type CosmosPatchOperation =
+  | { op: "add" | "set" | "replace"; path: string; value: unknown }
+  | { op: "remove"; path: string }
+  | { op: "incr"; path: string; value: number }
+  | { op: "move"; from: string; path: string };
+
+/**
+ * The result of patching a document.
+ */
+interface PatchDocumentResult {
+  /**
+   * True if the document was patched.
+   */
+  didPatch: boolean;
+
+  /**
+   * The patched document, if the returnDocument option was set
+   * and the document was patched, otherwise null.
+   */
+  doc: Record<string, unknown> | null;
+
+  /**
+   * A session token.
+   */
+  sessionToken: string;
+
+  /**
+   * The number of RUs consumed by the request.
+   */
+  requestCharge: number;
+
+  /**
+   * The number of milliseconds spent serving the request.
+   */
+  requestDurationMilliseconds: number;
+}
+
+/**
+ * Options for when patching a document.
+ */
+interface PatchDocumentOptions {
+  /**
+   * A filter predicate that the existing document must satisfy
+   * if it is to be patched, e.g. FROM c WHERE c.status = 'active'.
+   * If the document was not patched then didPatch will be false
+   * on the result object.
+   */
+  condition?: string;
+
+  /**
+   * The etag value that must be present on the existing document
+   * if it is to be patched.  If the document was not patched
+   * then didPatch will be false on the result object.
+   */
+  ifMatch?: string;
+
+  /**
+   * True if the patched document should be returned.
+   */
+  returnDocument?: boolean;
+
+  /**
+   * A session token.
+   */
+  sessionToken?: string;
+
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * Applies a set of operations to a document.  The operations are
+ * applied atomically, so either all of them succeed or none of them
+ * are applied.  Cosmos accepts a maximum of 10 operations per request.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param partition A partition key value.
+ * @param documentId The id of a document.
+ * @param operations An array of patch operations.
+ * @param options A property bag of options.
+ */
+export async function patchDocument(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  partition: CosmosPartitionKeyValue,
+  documentId: string,
+  operations: CosmosPatchOperation[],
+  options: PatchDocumentOptions,
+): Promise<PatchDocumentResult> {
+  const optionalHeaders: Record<string, string> = {};
+
+  if (options.ifMatch) {
+    optionalHeaders["If-Match"] = options.ifMatch;
+  }
+
+  if (options.sessionToken) {
+    optionalHeaders["x-ms-session-token"] = options.sessionToken;
+  }
+
+  if (!options.returnDocument) {
+    optionalHeaders["Prefer"] = "return=minimal";
+  }
+
+  const body: Record<string, unknown> = { operations };
+
+  if (options.condition) {
+    body.condition = options.condition;
+  }
+
+  const result = await cosmosRetryable(async (attempt) => {
+    const reqHeaders = await generateCosmosReqHeaders({
+      key: authorization,
+      method: "PATCH",
+      resourceType: "docs",
+      resourceLink:
+        `dbs/${databaseName}/colls/${collectionName}/docs/${documentId}`,
+    });
+
+    const response = await cosmosFetch(
+      `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}/docs/${documentId}`,
+      {
+        method: "PATCH",
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json_patch+json",
+          "x-ms-version": reqHeaders.xMsVersion,
+          "x-ms-documentdb-partitionkey": formatPartitionKeyValue(
+            partition,
+          ),
+          ...optionalHeaders,
+        },
+        body: JSON.stringify(body),
+      },
+      "patchDocument",
+      attempt,
+    );
+
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "patchDocument",
+    );
+
+    // 412 errors means the pre-condition (either the etag or the
+    // filter predicate) failed and the document wasn't updated.
+    if (!response.ok && response.status !== 412) {
+      throw await createCosmosError(
+        response,
+        "patchDocument",
+        `Unable to patch document ${databaseName}/${collectionName}/${documentId}.`,
+      );
+    }
+
+    let doc: Record<string, unknown> | null = null;
+
+    if (response.ok && options.returnDocument) {
+      doc = await response.json() as Record<string, unknown>;
+    } else {
+      await response.body?.cancel();
+    }
+
+    return {
+      didPatch: response.ok,
+      doc,
+      sessionToken: response.headers.get("x-ms-session-token") as string,
+      requestCharge: parseFloat(
+        response.headers.get("x-ms-request-charge") as string,
+      ),
+      requestDurationMilliseconds: parseFloat(
+        response.headers.get("x-ms-request-duration-ms") as string,
+      ),
+    };
+  }, { retryPolicy: options.retryPolicy, isIdempotent: false });
+
+  return result;
+}
@@ -1,6 +1,32 @@
-import { generateCosmosReqHeaders } from "./generateCosmosReqHeaders.ts";
-import { cosmosRetryable } from "./cosmosRetryable.ts";
-import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import {
+  applyQueryWindow,
+  createWindowPushdownQuery,
+  getQueryWindow,
+  isQueryWindowFilled,
+  QueryWindow,
+} from "./applyQueryWindow.ts";
+import { combineAggregateResults } from "./combineAggregateResults.ts";
+import { createAvgQuery } from "./createAvgQuery.ts";
+import { createGroupByQuery } from "./createGroupByQuery.ts";
+import { createOrderByQuery } from "./createOrderByQuery.ts";
+import { retryIfPkRangesChanged } from "./ensureRaisingOfPkRangeGoneErrors.ts";
+import { CosmosPartitionKeyValue } from "./formatPartitionKeyValue.ts";
+import {
+  getPkRangeForPartition,
+  getPkRangesForContainer,
+} from "./getPkRangesForContainer.ts";
+import { mapWithConcurrency } from "./mapWithConcurrency.ts";
+import { mergeGroupedResults } from "./mergeGroupedResults.ts";
+import { mergeOrderedResults } from "./mergeOrderedResults.ts";
+import {
+  containsQueryWindow,
+  joinQueryClauses,
+  splitQueryClauses,
+} from "./splitQueryClauses.ts";
+import { queryDocumentsPkRangePages } from "./queryDocumentsPkRangePages.ts";
+import { CosmosAuthorization } from "./generateCosmosReqHeaders.ts";
+import { CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { CosmosOperationTrace, traceCosmosOperation } from "./cosmosFetch.ts";
 
 // Any query that requires state across continuations cannot be served by the gateway.
 // This covers cross-partition queries that require use of TOP, ORDER BY, OFFSET LIMIT,
@@ -13,10 +39,37 @@ import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErro
  * Options for querying a document container.
  */
 interface QueryDocumentsContainerOptions {
+  /**
+   * The maximum number of partition key ranges that will be queried
+   * at the same time.  Defaults to 10.  Larger collections can have
+   * hundreds of partition key ranges and querying them all at once
+   * is likely to lead to throttling.
+   */
+  maxParallelism?: number;
+
+  /**
+   * A partition key value.  If supplied, only the partition key range
+   * that holds the logical partition is queried.  The query should
+   * still filter on the partition key, since a partition key range
+   * typically holds many logical partitions.
+   */
+  partition?: CosmosPartitionKeyValue;
+
+  /**
+   * The number of milliseconds that the partition key ranges of
+   * a collection are cached for.  Defaults to 5 minutes.
+   */
+  pkRangeCacheTtlMilliseconds?: number;
+
   /**
    * A session token.
    */
   sessionToken?: string;
+
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
 }
 
 /**
@@ -62,68 +115,169 @@ interface QueryDocumentsContainerDirectResult {
  * and then the given transform function should produce a final set.
  * If transform is not supplied then an array of all results retrived
  * from Cosmos will be returned.
- * @param cryptoKey The crypto key.
+ * @param authorization A crypto key, or a provider of authorization headers.
  * @param cosmosUrl The cosmos url.
  * @param databaseName The database name.
  * @param collectionName The collection name.
- * @param query The query to execute.  If you're intending to use the 'sum'
- * transform then you typically want a value select statement similar to
- * SELECT VALUE SUM(d.field).
+ * @param query The query to execute.  If you're intending to use one of
+ * the aggregate transforms then you typically want a value select
+ * statement similar to SELECT VALUE SUM(d.field).
  * @param parameters The parameter to substitute into the query.
- * @param transform A function that is given the results retrieved
- * from each of the logical containers where the query was executed.
- * This function would typically order the result records or for
- * aggregates it would sum/avg the values held in each result element.
- * Although this transform could cull the result set to meet a
- * specific limit, this is rarely useful since the documents have
- * already been retrieved.
+ * @param transform The way the results retrieved from each of the
+ * logical containers are combined.
+ * - concatArrays: The results are concatenated in pkrange order.
+ * - orderBy: The query must contain an ORDER BY clause.  The query is
+ * rewritten so that each record carries its ORDER BY values and the
+ * sorted results of each container are then merged, so the records
+ * are returned in the same order as a single-partition query.
+ * - avg: The query must be of the form SELECT VALUE AVG(...).  The query
+ * is rewritten to retrieve the sum and count from each container so
+ * that the true average can be calculated.
+ * - count, sum: The values are added together.
+ * - groupBy: The query must contain a GROUP BY clause, and each aggregate
+ * must form the whole of a selection item, e.g. SUM(d.x) AS total.
+ * The partial groups of each container are merged so that each group
+ * appears once with its aggregates combined.
+ * - min, max: The smallest or largest value is returned, using
+ * the Cosmos type ordering.
+ * Empty containers, which return null or no value for an aggregate,
+ * are ignored.  If no container returns a value then avg, min and max
+ * produce undefined, whereas count and sum produce zero.
+ * For the concatArrays, orderBy and groupBy transforms, any DISTINCT,
+ * TOP or OFFSET LIMIT clauses are applied to the combined results,
+ * so the data matches that of a single-partition query.
  * @param options An options property bag.
  */
 export async function queryDocumentsContainersDirect(
-  cryptoKey: CryptoKey,
+  authorization: CosmosAuthorization,
   cosmosUrl: string,
   databaseName: string,
   collectionName: string,
   query: string,
   parameters: CosmosQueryParameter[],
-  transform: "concatArrays" | "sum",
+  transform:
+    | "avg"
+    | "concatArrays"
+    | "count"
+    | "groupBy"
+    | "max"
+    | "min"
+    | "orderBy"
+    | "sum",
   options: QueryDocumentsContainerOptions,
 ): Promise<QueryDocumentsContainerDirectResult> {
-  // Retrieve the pk ranges for the collection.  This can change at
-  // any time so we perform this lookup on each query.
-  // There is potential performance uplift by only doing this once
-  // and then responding to errors informing us that the given range
-  // has changed.
-  const pkRanges = await getPkRangesForContainer(
-    cryptoKey,
-    cosmosUrl,
-    databaseName,
-    collectionName,
-    options,
-  );
+  // DISTINCT, TOP and OFFSET LIMIT apply to the combined results,
+  // so the window is pushed down to each container where possible
+  // and then enforced once the results are combined.  The partial
+  // groups of a grouped query must all be retrieved before the
+  // window can be applied.  The aggregate transforms, and the
+  // concatArrays transform without a window, pass the query through
+  // unchanged, so it is not split for them.  This allows queries
+  // that cannot be split, such as SELECT VALUE 1, to be used.
+  const isWindowed = transform === "orderBy" || transform === "groupBy" ||
+    (transform === "concatArrays" && containsQueryWindow(query));
+
+  const clauses = isWindowed ? splitQueryClauses(query) : null;
+
+  const window: QueryWindow = clauses
+    ? getQueryWindow(clauses, parameters)
+    : { distinct: false, skip: 0, take: null };
+
+  const windowedQuery = !clauses
+    ? query
+    : transform === "groupBy"
+    ? joinQueryClauses({ ...clauses, top: null, offset: null, limit: null })
+    : clauses.offset !== null
+    ? createWindowPushdownQuery(clauses, window)
+    : query;
+
+  const containerQuery = transform === "orderBy"
+    ? createOrderByQuery(windowedQuery)
+    : transform === "avg"
+    ? createAvgQuery(query)
+    : transform === "groupBy"
+    ? createGroupByQuery(windowedQuery)
+    : windowedQuery;
 
   /**
-   * Then request the documents from all of the physical partitions
-   * simultaenously.  For a small number of physical partitions it's fine
-   * to do this, but we may have to throttle the requests if
-   * the number of physical partitions is larger.  Note that this will
-   * require a cross-partition (i.e. logical partitions) query.
+   * Then request the documents from the physical partitions, querying
+   * up to maxParallelism of them at the same time so that collections
+   * with many physical partitions do not produce a burst of requests.
+   * Note that this will require a cross-partition (i.e. logical
+   * partitions) query.  The results are kept in pkrange order.
+   * An unordered query with a window can stop as soon as enough
+   * values have been retrieved, so in that case no further pages or
+   * physical partitions are requested once the window is filled.
    */
-  const promises = pkRanges.map((pkr) =>
-    getValueArrayForPkRange(
-      cryptoKey,
-      cosmosUrl,
-      databaseName,
-      collectionName,
-      pkr,
-      query,
-      parameters,
-      options,
-    )
-  );
+  const queryPkRanges = (pkRanges: string[], trace: CosmosOperationTrace) => {
+    const values: unknown[] = [];
+
+    const isWindowFilled = (records: unknown[]) => {
+      if (transform !== "concatArrays" || window.take === null) {
+        return false;
+      }
 
-  // Wait for the promises to resolve.
-  const arrayOfContainerResults = await Promise.all(promises);
+      values.push(...records);
+      return isQueryWindowFilled(values, window);
+    };
+
+    return mapWithConcurrency(
+      pkRanges,
+      options.maxParallelism || 10,
+      (pkr) =>
+        getValueArrayForPkRange(
+          authorization,
+          cosmosUrl,
+          databaseName,
+          collectionName,
+          pkr,
+          containerQuery,
+          parameters,
+          options,
+          trace,
+          isWindowFilled,
+        ),
+    );
+  };
+
+  // The pk ranges for the collection are cached, but they can change
+  // at any time as physical partitions are split or merged.  If Cosmos
+  // reports that a range has gone then the ranges are retrieved again
+  // and the query is repeated.  If a partition is supplied then only
+  // the range that holds the partition needs to be queried.
+  const arrayOfContainerResults = await traceCosmosOperation(
+    "queryDocumentsContainersDirect",
+    databaseName,
+    collectionName,
+    (trace) =>
+      retryIfPkRangesChanged(async (forceRefresh) => {
+        const pkRangeOptions = { ...options, forceRefresh, trace };
+
+        const pkRangeForPartition = options.partition === undefined
+          ? null
+          : await getPkRangeForPartition(
+            authorization,
+            cosmosUrl,
+            databaseName,
+            collectionName,
+            options.partition,
+            pkRangeOptions,
+          );
+
+        return queryPkRanges(
+          pkRangeForPartition
+            ? [pkRangeForPartition]
+            : await getPkRangesForContainer(
+              authorization,
+              cosmosUrl,
+              databaseName,
+              collectionName,
+              pkRangeOptions,
+            ),
+          trace,
+        );
+      }),
+  );
 
   // Combine the arrays.  Using push may be faster than concat:
   // https://dev.to/uilicious/javascript-array-push-is-945x-faster-than-array-concat-1oki
@@ -137,12 +291,21 @@ export async function queryDocumentsContainersDirect(
     requestDurationMilliseconds += containerResult.requestDurationMilliseconds;
   }
 
-  const data = transform === "sum"
-    ? combinedValueArray.reduce(
-      (agg, cur) => (agg as number) + (cur as number),
-      0,
+  const data = transform === "concatArrays"
+    ? applyQueryWindow(combinedValueArray, window)
+    : transform === "orderBy"
+    ? applyQueryWindow(
+      mergeOrderedResults(
+        arrayOfContainerResults.map((containerResult) =>
+          containerResult.records
+        ),
+        clauses ? clauses.orderBy : [],
+      ),
+      window,
     )
-    : combinedValueArray;
+    : transform === "groupBy"
+    ? applyQueryWindow(mergeGroupedResults(combinedValueArray, query), window)
+    : combineAggregateResults(transform, combinedValueArray);
 
   return {
     data,
@@ -151,75 +314,12 @@ export async function queryDocumentsContainersDirect(
   };
 }
 
-/**
- * Returns the partition key ranges for a container.
- * @param cryptoKey A crypto key.
- * @param cosmosUrl The url to a database.
- * @param databaseName The name of a database.
- * @param collectionName The name of a collection.
- * @param options A property bag of options.
- */
-async function getPkRangesForContainer(
-  cryptoKey: CryptoKey,
-  cosmosUrl: string,
-  databaseName: string,
-  collectionName: string,
-  options: QueryDocumentsContainerOptions,
-) {
-  const optionalHeaders: Record<string, string> = {};
-
-  if (options.sessionToken) {
-    optionalHeaders["x-ms-session-token"] = options.sessionToken;
-  }
-
-  const pkRanges = await cosmosRetryable(async () => {
-    const pkRangesReqHeaders = await generateCosmosReqHeaders({
-      key: cryptoKey,
-      method: "GET",
-      resourceType: "pkranges",
-      resourceLink: `dbs/${databaseName}/colls/${collectionName}`,
-    });
-
-    const response = await fetch(
-      `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}/pkranges`,
-      {
-        method: "GET",
-        headers: {
-          Authorization: pkRangesReqHeaders.authorizationHeader,
-          "x-ms-date": pkRangesReqHeaders.xMsDateHeader,
-          "x-ms-version": pkRangesReqHeaders.xMsVersion,
-          ...optionalHeaders,
-        },
-      },
-    );
-
-    ensureRaisingOfTransitoryErrors(response);
-
-    if (!response.ok) {
-      const errMsg =
-        `Unable to get pk-ranges from collection ${databaseName}/${collectionName}.\n${await response
-          .text()}`;
-
-      throw new Error(errMsg);
-    }
-
-    const pkRangesFull = await response.json() as {
-      _rid: string;
-      PartitionKeyRanges: { id: string }[];
-    };
-
-    return pkRangesFull.PartitionKeyRanges.map((pkr) =>
-      `${pkRangesFull._rid},${pkr.id}`
-    );
-  });
-
-  return pkRanges;
-}
-
 /**
  * Returns the result of executing the given query against
- * the given partition key ranges.
- * @param cryptoKey A crypto key.
+ * the given partition key ranges.  No further pages are requested
+ * once isWindowFilled reports that enough values have been retrieved
+ * from all the partition key ranges.
+ * @param authorization A crypto key, or a provider of authorization headers.
  * @param cosmosUrl The url to a database.
  * @param databaseName The name of a database.
  * @param collectionName The name of a collection.
@@ -227,9 +327,12 @@ async function getPkRangesForContainer(
  * @param query A cosmos SQL query.
  * @param parameters An array of cosmos SQL parameters.
  * @param options A property bag of options.
+ * @param trace The trace of the query.
+ * @param isWindowFilled A function that is passed the records of each
+ * page and returns true if enough values have been retrieved.
  */
 async function getValueArrayForPkRange(
-  cryptoKey: CryptoKey,
+  authorization: CosmosAuthorization,
   cosmosUrl: string,
   databaseName: string,
   collectionName: string,
@@ -237,82 +340,37 @@ async function getValueArrayForPkRange(
   query: string,
   parameters: CosmosQueryParameter[],
   options: QueryDocumentsContainerOptions,
+  trace: CosmosOperationTrace,
+  isWindowFilled: (records: unknown[]) => boolean,
 ) {
   const records: unknown[] = [];
 
-  let continuationToken: string | null = null;
   let requestCharge = 0.0;
   let requestDurationMilliseconds = 0.0;
-  let isAllRecordsLoaded = false;
 
-  while (!isAllRecordsLoaded) {
-    const optionalHeaders: Record<string, string> = {};
+  if (isWindowFilled([])) {
+    return { records, requestCharge, requestDurationMilliseconds };
+  }
 
-    if (continuationToken) {
-      optionalHeaders["x-ms-continuation"] = continuationToken;
-    }
+  for await (
+    const page of queryDocumentsPkRangePages(
+      authorization,
+      cosmosUrl,
+      databaseName,
+      collectionName,
+      pkRange,
+      query,
+      parameters,
+      { ...options, trace },
+    )
+  ) {
+    records.push(...page.records);
+    requestCharge += page.requestCharge;
+    requestDurationMilliseconds += page.requestDurationMilliseconds;
 
-    if (options.sessionToken) {
-      optionalHeaders["x-ms-session-token"] = options.sessionToken;
+    if (isWindowFilled(page.records)) {
+      break;
     }
-
-    await cosmosRetryable(async () => {
-      const reqHeaders = await generateCosmosReqHeaders({
-        key: cryptoKey,
-        method: "POST",
-        resourceType: "docs",
-        resourceLink: `dbs/${databaseName}/colls/${collectionName}`,
-      });
-
-      const response = await fetch(
-        `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}/docs`,
-        {
-          method: "POST",
-          headers: {
-            Authorization: reqHeaders.authorizationHeader,
-            "x-ms-date": reqHeaders.xMsDateHeader,
-            "content-type": "application/query+json",
-            "x-ms-version": reqHeaders.xMsVersion,
-            "x-ms-documentdb-partitionkeyrangeid": pkRange,
-            "x-ms-documentdb-query-enablecrosspartition": "True",
-            ...optionalHeaders,
-          },
-          body: JSON.stringify({
-            query,
-            parameters,
-          }),
-        },
-      );
-
-      ensureRaisingOfTransitoryErrors(response);
-
-      if (!response.ok) {
-        const errMsg =
-          `Unable to query collection (container-direct-mode) ${databaseName}/${collectionName}/${pkRange} with query ${query} and parameters ${
-            JSON.stringify(parameters)
-          }.\n${await response.text()}`;
-
-        throw new Error(errMsg);
-      }
-
-      continuationToken = response.headers.get("x-ms-continuation");
-
-      if (!continuationToken) {
-        isAllRecordsLoaded = true;
-      }
-
-      requestCharge += parseFloat(
-        response.headers.get("x-ms-request-charge") as string,
-      );
-
-      requestDurationMilliseconds += parseFloat(
-        response.headers.get("x-ms-request-duration-ms") as string,
-      );
-
-      const result = await response.json();
-
-      records.push(...result.Documents);
-    });
   }
 
   return {
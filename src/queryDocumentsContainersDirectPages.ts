@@ -0,0 +1,297 @@
+import { PkRangeGoneError } from "./ensureRaisingOfPkRangeGoneErrors.ts";
+import {
+  getPkRangeParentsForContainer,
+  getPkRangesForContainer,
+} from "./getPkRangesForContainer.ts";
+import { queryDocumentsPkRangePages } from "./queryDocumentsPkRangePages.ts";
+import { CosmosAuthorization } from "./generateCosmosReqHeaders.ts";
+import { CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import {
+  CosmosOperationTrace,
+  traceCosmosOperationPages,
+} from "./cosmosFetch.ts";
+
+/**
+ * Options for querying document containers page by page.
+ */
+interface QueryDocumentsContainersDirectPagesOptions {
+  /**
+   * The maximum number of records to retrieve per page.
+   */
+  maxItemCount?: number;
+
+  /**
+   * A session token.
+   */
+  sessionToken?: string;
+
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * A parameter that is substituted into a Cosmos query.
+ */
+interface CosmosQueryParameter {
+  /**
+   * The name of a parameter, e.g. @city.
+   */
+  name: string;
+
+  /**
+   * The value of a parameter, e.g. "Bournemouth".
+   */
+  value: unknown;
+}
+
+/**
+ * A page of values retrieved from one of the containers.
+ */
+interface QueryDocumentsContainersDirectPage {
+  /**
+   * The partition key range that produced the page.
+   */
+  pkRange: string;
+
+  /**
+   * An array of values.
+   */
+  records: unknown[];
+
+  /**
+   * The cost of retrieving the page.
+   */
+  requestCharge: number;
+
+  /**
+   * The cost of retrieving this page and all the previous pages.
+   */
+  cumulativeRequestCharge: number;
+
+  /**
+   * The duration of the request in milliseconds.
+   */
+  requestDurationMilliseconds: number;
+}
+
+/**
+ * Options for querying document containers page by page,
+ * as part of a traced query.
+ */
+interface TracedOptions extends QueryDocumentsContainersDirectPagesOptions {
+  /**
+   * The trace of the query.
+   */
+  trace: CosmosOperationTrace;
+}
+
+/**
+ * A partition key range that remains to be queried.
+ */
+interface PendingPkRange {
+  /**
+   * The partition key range.
+   */
+  pkRange: string;
+
+  /**
+   * The token from which to resume the query, or null to query
+   * the range from the start.
+   */
+  continuationToken: string | null;
+}
+
+/**
+ * Executes the given query on each of the containers in turn, yielding
+ * each page of values as it is retrieved.  The pages of one container
+ * are exhausted before the next container is queried, and the next page
+ * is only requested when the consumer asks for it, so breaking out of a
+ * for-await loop prevents any further requests.  No transform is applied,
+ * so the values of each page are exactly as returned by the container.
+ * If a container is split, the containers that replaced it are queried
+ * instead, resuming from the last page that was retrieved from it.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The cosmos url.
+ * @param databaseName The database name.
+ * @param collectionName The collection name.
+ * @param query The query to execute.
+ * @param parameters The parameter to substitute into the query.
+ * @param options An options property bag.
+ */
+export async function* queryDocumentsContainersDirectPages(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  query: string,
+  parameters: CosmosQueryParameter[],
+  options: QueryDocumentsContainersDirectPagesOptions,
+): AsyncGenerator<QueryDocumentsContainersDirectPage> {
+  yield* traceCosmosOperationPages(
+    "queryDocumentsContainersDirectPages",
+    databaseName,
+    collectionName,
+    (trace) =>
+      queryEachPkRange(
+        authorization,
+        cosmosUrl,
+        databaseName,
+        collectionName,
+        query,
+        parameters,
+        { ...options, trace },
+      ),
+  );
+}
+
+/**
+ * Executes the given query on each of the containers in turn, yielding
+ * each page of values as it is retrieved.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The cosmos url.
+ * @param databaseName The database name.
+ * @param collectionName The collection name.
+ * @param query The query to execute.
+ * @param parameters The parameter to substitute into the query.
+ * @param options An options property bag, including the trace of the query.
+ */
+async function* queryEachPkRange(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  query: string,
+  parameters: CosmosQueryParameter[],
+  options: TracedOptions,
+): AsyncGenerator<QueryDocumentsContainersDirectPage> {
+  const pkRanges = await getPkRangesForContainer(
+    authorization,
+    cosmosUrl,
+    databaseName,
+    collectionName,
+    options,
+  );
+
+  const pendingPkRanges: PendingPkRange[] = pkRanges.map((pkRange) => ({
+    pkRange,
+    continuationToken: null,
+  }));
+
+  let cumulativeRequestCharge = 0.0;
+
+  while (pendingPkRanges.length > 0) {
+    const pending = pendingPkRanges.shift() as PendingPkRange;
+
+    try {
+      for await (
+        const page of queryDocumentsPkRangePages(
+          authorization,
+          cosmosUrl,
+          databaseName,
+          collectionName,
+          pending.pkRange,
+          query,
+          parameters,
+          { ...options, continuationToken: pending.continuationToken },
+        )
+      ) {
+        cumulativeRequestCharge += page.requestCharge;
+        pending.continuationToken = page.continuationToken;
+
+        yield {
+          pkRange: pending.pkRange,
+          records: page.records,
+          requestCharge: page.requestCharge,
+          cumulativeRequestCharge,
+          requestDurationMilliseconds: page.requestDurationMilliseconds,
+        };
+      }
+    } catch (err) {
+      if (!(err instanceof PkRangeGoneError)) {
+        throw err;
+      }
+
+      // The ranges that replace a split range accept its continuation
+      // token, so the pages that have already been yielded are not
+      // repeated.
+      const replacementPkRanges = await getReplacementPkRanges(
+        authorization,
+        cosmosUrl,
+        databaseName,
+        collectionName,
+        [pending, ...pendingPkRanges],
+        options,
+      );
+
+      if (!replacementPkRanges) {
+        throw err;
+      }
+
+      pendingPkRanges.splice(
+        0,
+        pendingPkRanges.length,
+        ...replacementPkRanges,
+      );
+    }
+  }
+}
+
+/**
+ * Retrieves the partition key ranges again and returns the ranges that
+ * should be queried in place of the given ranges.  A range that has
+ * been split is replaced by the ranges that were split from it, each
+ * of which resumes from the continuation token of the split range.
+ * Returns null if a range has gone but no range was split from it,
+ * e.g. because it was merged.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The cosmos url.
+ * @param databaseName The database name.
+ * @param collectionName The collection name.
+ * @param pkRanges The partition key ranges that remain to be queried.
+ * @param options An options property bag.
+ */
+async function getReplacementPkRanges(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  pkRanges: PendingPkRange[],
+  options: TracedOptions,
+) {
+  const currentPkRanges = await getPkRangesForContainer(
+    authorization,
+    cosmosUrl,
+    databaseName,
+    collectionName,
+    { ...options, forceRefresh: true },
+  );
+
+  const parents = await getPkRangeParentsForContainer(
+    authorization,
+    cosmosUrl,
+    databaseName,
+    collectionName,
+    options,
+  );
+
+  const replacementPkRanges: PendingPkRange[] = [];
+
+  for (const pending of pkRanges) {
+    const children = currentPkRanges.includes(pending.pkRange)
+      ? [pending.pkRange]
+      : currentPkRanges.filter((pkr) => parents[pkr].includes(pending.pkRange));
+
+    if (children.length === 0) {
+      return null;
+    }
+
+    replacementPkRanges.push(...children.map((pkRange) => ({
+      pkRange,
+      continuationToken: pending.continuationToken,
+    })));
+  }
+
+  return replacementPkRanges;
+}
@@ -1,7 +1,8 @@
-import { generateCosmosReqHeaders } from "./generateCosmosReqHeaders.ts";
-import { cosmosRetryable } from "./cosmosRetryable.ts";
-import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
-import { formatPartitionKeyValue } from "./formatPartitionKeyValue.ts";
+import { queryGatewayPages } from "./queryGatewayPages.ts";
+import { CosmosPartitionKeyValue } from "./formatPartitionKeyValue.ts";
+import { CosmosAuthorization } from "./generateCosmosReqHeaders.ts";
+import { CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { traceCosmosOperation } from "./cosmosFetch.ts";
 
 /**
  * Options for querying a gateway.
@@ -11,6 +12,11 @@ interface QueryDocumentsGatewayOptions {
    * A session token.
    */
   sessionToken?: string;
+
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
 }
 
 /**
@@ -54,7 +60,8 @@ interface QueryDocumentsGatewayResult {
  * this function to select sets of documents (modelled as
  * DocStoreRecords) and not use any aggregates such as SUM or TOTAL.
  * To execute a query involving aggregates use queryDocumentsContainersDirect.
- * @param cryptoKey The crypto key.
+ * To process a large result set page by page use queryDocumentsGatewayPages.
+ * @param authorization A crypto key, or a provider of authorization headers.
  * @param cosmosUrl The cosmos url.
  * @param databaseName The database name.
  * @param collectionName The collection name.
@@ -65,96 +72,48 @@ interface QueryDocumentsGatewayResult {
  * @param options An options property bag.
  */
 export async function queryDocumentsGateway(
-  cryptoKey: CryptoKey,
+  authorization: CosmosAuthorization,
   cosmosUrl: string,
   databaseName: string,
   collectionName: string,
-  partition: string,
+  partition: CosmosPartitionKeyValue,
   query: string,
   parameters: CosmosQueryParameter[],
   options: QueryDocumentsGatewayOptions,
 ): Promise<QueryDocumentsGatewayResult> {
-  const records: Record<string, unknown>[] = [];
-
-  let continuationToken: string | null = null;
-  let requestCharge = 0.0;
-  let requestDurationMilliseconds = 0.0;
-  let isAllRecordsLoaded = false;
-
-  while (!isAllRecordsLoaded) {
-    const optionalHeaders: Record<string, string> = {};
-
-    if (continuationToken) {
-      optionalHeaders["x-ms-continuation"] = continuationToken;
-    }
-
-    if (options.sessionToken) {
-      optionalHeaders["x-ms-session-token"] = options.sessionToken;
-    }
-
-    await cosmosRetryable(async () => {
-      const reqHeaders = await generateCosmosReqHeaders({
-        key: cryptoKey,
-        method: "POST",
-        resourceType: "docs",
-        resourceLink: `dbs/${databaseName}/colls/${collectionName}`,
-      });
-
-      const response = await fetch(
-        `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}/docs`,
-        {
-          method: "POST",
-          headers: {
-            Authorization: reqHeaders.authorizationHeader,
-            "x-ms-date": reqHeaders.xMsDateHeader,
-            "content-type": "application/query+json",
-            "x-ms-version": reqHeaders.xMsVersion,
-            "x-ms-documentdb-partitionkey": formatPartitionKeyValue(
-              partition,
-            ),
-            ...optionalHeaders,
-          },
-          body: JSON.stringify({
-            query,
-            parameters,
-          }),
-        },
-      );
-
-      ensureRaisingOfTransitoryErrors(response);
-
-      if (!response.ok) {
-        const errMsg =
-          `Unable to query collection (gateway) ${databaseName}/${collectionName} with query ${query} and parameters ${
-            JSON.stringify(parameters)
-          }.\n${await response.text()}`;
-
-        throw new Error(errMsg);
-      }
-
-      continuationToken = response.headers.get("x-ms-continuation");
-
-      if (!continuationToken) {
-        isAllRecordsLoaded = true;
+  return await traceCosmosOperation(
+    "queryDocumentsGateway",
+    databaseName,
+    collectionName,
+    async (trace) => {
+      const records: Record<string, unknown>[] = [];
+
+      let requestCharge = 0.0;
+      let requestDurationMilliseconds = 0.0;
+
+      for await (
+        const page of queryGatewayPages(
+          authorization,
+          cosmosUrl,
+          databaseName,
+          collectionName,
+          partition,
+          query,
+          parameters,
+          options,
+          trace,
+        )
+      ) {
+        records.push(...page.records);
+        requestCharge += page.requestCharge;
+        requestDurationMilliseconds += page.requestDurationMilliseconds;
       }
 
-      requestCharge += parseFloat(
-        response.headers.get("x-ms-request-charge") as string,
-      );
-
-      requestDurationMilliseconds += parseFloat(
-        response.headers.get("x-ms-request-duration-ms") as string,
-      );
-
-      const result = await response.json();
-
-      records.push(...result.Documents);
-    });
-  }
-
-  return {
-    records,
-    requestCharge,
-    requestDurationMilliseconds,
-  };
+      return {
+        records,
+        requestCharge,
+        requestDurationMilliseconds,
+      };
+    },
+  );
 }
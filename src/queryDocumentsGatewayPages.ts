@@ -0,0 +1,88 @@
+import { CosmosAuthorization } from "./generateCosmosReqHeaders.ts";
+import { CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { traceCosmosOperationPages } from "./cosmosFetch.ts";
+import { CosmosPartitionKeyValue } from "./formatPartitionKeyValue.ts";
+import {
+  QueryDocumentsGatewayPage,
+  queryGatewayPages,
+} from "./queryGatewayPages.ts";
+
+/**
+ * Options for querying a gateway page by page.
+ */
+interface QueryDocumentsGatewayPagesOptions {
+  /**
+   * The maximum number of records to retrieve per page.
+   */
+  maxItemCount?: number;
+
+  /**
+   * A session token.
+   */
+  sessionToken?: string;
+
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * A parameter that is substituted into a Cosmos query.
+ */
+interface CosmosQueryParameter {
+  /**
+   * The name of a parameter, e.g. @city.
+   */
+  name: string;
+
+  /**
+   * The value of a parameter, e.g. "Bournemouth".
+   */
+  value: unknown;
+}
+
+/**
+ * Executes the given query against the gateway, yielding each page of
+ * records as it is retrieved.  The next page is only requested when the
+ * consumer asks for it, so breaking out of a for-await loop prevents any
+ * further requests.  This is useful for processing large result sets
+ * without holding all the records in memory.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The cosmos url.
+ * @param databaseName The database name.
+ * @param collectionName The collection name.
+ * @param partition The name of a partition.  This is specified to
+ * ensure the query can be satisfied by a single container.
+ * @param query The query to execute.
+ * @param parameters The parameter to substitute into the query.
+ * @param options An options property bag.
+ */
+export async function* queryDocumentsGatewayPages(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  partition: CosmosPartitionKeyValue,
+  query: string,
+  parameters: CosmosQueryParameter[],
+  options: QueryDocumentsGatewayPagesOptions,
+): AsyncGenerator<QueryDocumentsGatewayPage> {
+  yield* traceCosmosOperationPages(
+    "queryDocumentsGatewayPages",
+    databaseName,
+    collectionName,
+    (trace) =>
+      queryGatewayPages(
+        authorization,
+        cosmosUrl,
+        databaseName,
+        collectionName,
+        partition,
+        query,
+        parameters,
+        options,
+        trace,
+      ),
+  );
+}
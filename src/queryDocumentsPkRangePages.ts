@@ -0,0 +1,204 @@
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch, CosmosOperationTrace } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+import { ensureRaisingOfPkRangeGoneErrors } from "./ensureRaisingOfPkRangeGoneErrors.ts";
+
+/**
+ * Options for querying a partition key range.
+ */
+interface QueryDocumentsPkRangePagesOptions {
+  /**
+   * The maximum number of records to retrieve per page.
+   */
+  maxItemCount?: number;
+
+  /**
+   * A session token.
+   */
+  sessionToken?: string;
+
+  /**
+   * A continuation token from which to resume the query.  This may
+   * have been returned for a different range, such as a range that
+   * has since been split into the given range and others.
+   */
+  continuationToken?: string | null;
+
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+
+  /**
+   * The trace of the query that the range is queried for.
+   */
+  trace?: CosmosOperationTrace;
+}
+
+/**
+ * A parameter that is substituted into a Cosmos query.
+ */
+interface CosmosQueryParameter {
+  /**
+   * The name of a parameter, e.g. @city.
+   */
+  name: string;
+
+  /**
+   * The value of a parameter, e.g. "Bournemouth".
+   */
+  value: unknown;
+}
+
+/**
+ * A page of results retrieved from a partition key range.
+ */
+interface QueryDocumentsPkRangePage {
+  /**
+   * An array of values.
+   */
+  records: unknown[];
+
+  /**
+   * The cost of retrieving the page.
+   */
+  requestCharge: number;
+
+  /**
+   * The duration of the request in milliseconds.
+   */
+  requestDurationMilliseconds: number;
+
+  /**
+   * The token from which the query can be resumed after this page,
+   * or null if this is the last page.
+   */
+  continuationToken: string | null;
+}
+
+/**
+ * Executes the given query against a single partition key range,
+ * yielding each page of results as it is retrieved.  The next page
+ * is only requested when the consumer asks for it, so breaking out
+ * of the iteration prevents any further requests.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param pkRange A partition key range.
+ * @param query A cosmos SQL query.
+ * @param parameters An array of cosmos SQL parameters.
+ * @param options A property bag of options.
+ */
+export async function* queryDocumentsPkRangePages(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  pkRange: string,
+  query: string,
+  parameters: CosmosQueryParameter[],
+  options: QueryDocumentsPkRangePagesOptions,
+): AsyncGenerator<QueryDocumentsPkRangePage> {
+  let continuationToken = options.continuationToken || null;
+  let isAllRecordsLoaded = false;
+
+  while (!isAllRecordsLoaded) {
+    const optionalHeaders: Record<string, string> = {};
+
+    if (continuationToken) {
+      optionalHeaders["x-ms-continuation"] = continuationToken;
+    }
+
+    if (options.maxItemCount) {
+      optionalHeaders["x-ms-max-item-count"] = options.maxItemCount.toString();
+    }
+
+    if (options.sessionToken) {
+      optionalHeaders["x-ms-session-token"] = options.sessionToken;
+    }
+
+    const page = await cosmosRetryable(async (attempt) => {
+      const reqHeaders = await generateCosmosReqHeaders({
+        key: authorization,
+        method: "POST",
+        resourceType: "docs",
+        resourceLink: `dbs/${databaseName}/colls/${collectionName}`,
+      });
+
+      const response = await cosmosFetch(
+        `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}/docs`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: reqHeaders.authorizationHeader,
+            "x-ms-date": reqHeaders.xMsDateHeader,
+            "content-type": "application/query+json",
+            "x-ms-version": reqHeaders.xMsVersion,
+            "x-ms-documentdb-partitionkeyrangeid": pkRange,
+            "x-ms-documentdb-query-enablecrosspartition": "True",
+            ...optionalHeaders,
+          },
+          body: JSON.stringify({
+            query,
+            parameters,
+          }),
+        },
+        "queryDocumentsPkRangePages",
+        attempt,
+      );
+
+      await ensureRaisingOfPkRangeGoneErrors(
+        response,
+        "queryDocumentsPkRangePages",
+      );
+      await ensureRaisingOfTransitoryErrors(
+        response,
+        authorization,
+        reqHeaders.authorizationHeader,
+        "queryDocumentsPkRangePages",
+      );
+
+      if (!response.ok) {
+        throw await createCosmosError(
+          response,
+          "queryDocumentsPkRangePages",
+          `Unable to query collection (container-direct-mode) ${databaseName}/${collectionName}/${pkRange} with query ${query} and parameters ${
+            JSON.stringify(parameters)
+          }.`,
+        );
+      }
+
+      const result = await response.json();
+
+      return {
+        continuationToken: response.headers.get("x-ms-continuation"),
+        records: result.Documents as unknown[],
+        requestCharge: parseFloat(
+          response.headers.get("x-ms-request-charge") as string,
+        ),
+        requestDurationMilliseconds: parseFloat(
+          response.headers.get("x-ms-request-duration-ms") as string,
+        ),
+      };
+    }, { retryPolicy: options.retryPolicy, trace: options.trace });
+
+    continuationToken = page.continuationToken;
+
+    if (!continuationToken) {
+      isAllRecordsLoaded = true;
+    }
+
+    yield {
+      records: page.records,
+      requestCharge: page.requestCharge,
+      requestDurationMilliseconds: page.requestDurationMilliseconds,
+      continuationToken,
+    };
+  }
+}
@@ -0,0 +1,195 @@
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch, CosmosOperationTrace } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+import {
+  CosmosPartitionKeyValue,
+  formatPartitionKeyValue,
+} from "./formatPartitionKeyValue.ts";
+
+/**
+ * Options for querying a gateway page by page.
+ */
+interface QueryGatewayPagesOptions {
+  /**
+   * The maximum number of records to retrieve per page.
+   */
+  maxItemCount?: number;
+
+  /**
+   * A session token.
+   */
+  sessionToken?: string;
+
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * A parameter that is substituted into a Cosmos query.
+ */
+interface CosmosQueryParameter {
+  /**
+   * The name of a parameter, e.g. @city.
+   */
+  name: string;
+
+  /**
+   * The value of a parameter, e.g. "Bournemouth".
+   */
+  value: unknown;
+}
+
+/**
+ * A page of records retrieved from the gateway.
+ */
+export interface QueryDocumentsGatewayPage {
+  /**
+   * An array of records.
+   */
+  records: Record<string, unknown>[];
+
+  /**
+   * The cost of retrieving the page.
+   */
+  requestCharge: number;
+
+  /**
+   * The cost of retrieving this page and all the previous pages.
+   */
+  cumulativeRequestCharge: number;
+
+  /**
+   * The duration of the request in milliseconds.
+   */
+  requestDurationMilliseconds: number;
+}
+
+/**
+ * Executes the given query against the gateway, yielding each page of
+ * records as it is retrieved.  This is used by queryDocumentsGateway
+ * and queryDocumentsGatewayPages, which each trace the requests as
+ * part of their own operation.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The cosmos url.
+ * @param databaseName The database name.
+ * @param collectionName The collection name.
+ * @param partition The name of a partition.
+ * @param query The query to execute.
+ * @param parameters The parameter to substitute into the query.
+ * @param options An options property bag.
+ * @param trace The trace of the operation that is querying the gateway.
+ */
+export async function* queryGatewayPages(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  partition: CosmosPartitionKeyValue,
+  query: string,
+  parameters: CosmosQueryParameter[],
+  options: QueryGatewayPagesOptions,
+  trace: CosmosOperationTrace,
+): AsyncGenerator<QueryDocumentsGatewayPage> {
+  let continuationToken: string | null = null;
+  let cumulativeRequestCharge = 0.0;
+  let isAllRecordsLoaded = false;
+
+  while (!isAllRecordsLoaded) {
+    const optionalHeaders: Record<string, string> = {};
+
+    if (continuationToken) {
+      optionalHeaders["x-ms-continuation"] = continuationToken;
+    }
+
+    if (options.maxItemCount) {
+      optionalHeaders["x-ms-max-item-count"] = options.maxItemCount.toString();
+    }
+
+    if (options.sessionToken) {
+      optionalHeaders["x-ms-session-token"] = options.sessionToken;
+    }
+
+    const page = await cosmosRetryable(async (attempt) => {
+      const reqHeaders = await generateCosmosReqHeaders({
+        key: authorization,
+        method: "POST",
+        resourceType: "docs",
+        resourceLink: `dbs/${databaseName}/colls/${collectionName}`,
+      });
+
+      const response = await cosmosFetch(
+        `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}/docs`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: reqHeaders.authorizationHeader,
+            "x-ms-date": reqHeaders.xMsDateHeader,
+            "content-type": "application/query+json",
+            "x-ms-version": reqHeaders.xMsVersion,
+            "x-ms-documentdb-partitionkey": formatPartitionKeyValue(
+              partition,
+            ),
+            ...optionalHeaders,
+          },
+          body: JSON.stringify({
+            query,
+            parameters,
+          }),
+        },
+        "queryDocumentsGatewayPages",
+        attempt,
+      );
+
+      await ensureRaisingOfTransitoryErrors(
+        response,
+        authorization,
+        reqHeaders.authorizationHeader,
+        "queryDocumentsGatewayPages",
+      );
+
+      if (!response.ok) {
+        throw await createCosmosError(
+          response,
+          "queryDocumentsGatewayPages",
+          `Unable to query collection (gateway) ${databaseName}/${collectionName} with query ${query} and parameters ${
+            JSON.stringify(parameters)
+          }.`,
+        );
+      }
+
+      const result = await response.json();
+
+      return {
+        continuationToken: response.headers.get("x-ms-continuation"),
+        records: result.Documents as Record<string, unknown>[],
+        requestCharge: parseFloat(
+          response.headers.get("x-ms-request-charge") as string,
+        ),
+        requestDurationMilliseconds: parseFloat(
+          response.headers.get("x-ms-request-duration-ms") as string,
+        ),
+      };
+    }, { retryPolicy: options.retryPolicy, trace });
+
+    continuationToken = page.continuationToken;
+    cumulativeRequestCharge += page.requestCharge;
+
+    if (!continuationToken) {
+      isAllRecordsLoaded = true;
+    }
+
+    yield {
+      records: page.records,
+      requestCharge: page.requestCharge,
+      cumulativeRequestCharge,
+      requestDurationMilliseconds: page.requestDurationMilliseconds,
+    };
+  }
+}
@@ -0,0 +1,124 @@
+import { CosmosAuthorization } from "./generateCosmosReqHeaders.ts";
+import { CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { traceCosmosOperation } from "./cosmosFetch.ts";
+import { ChangeFeedContinuation, readFeedPages } from "./readFeedPages.ts";
+
+export type { ChangeFeedContinuation } from "./readFeedPages.ts";
+
+/**
+ * Options for reading the change feed.
+ */
+interface ReadChangeFeedOptions {
+  /**
+   * The position in the feed to start reading from.  Use 'beginning'
+   * to read all the changes, 'now' to only read changes made from this
+   * point onwards, or a Date to read the changes made since that time.
+   * Defaults to 'beginning'.
+   */
+  startFrom?: "beginning" | "now" | Date;
+
+  /**
+   * The continuation returned by a previous read.  If supplied then
+   * the startFrom option only applies to the partition key ranges
+   * that had not been read when the continuation was saved.
+   */
+  continuation?: ChangeFeedContinuation;
+
+  /**
+   * The maximum number of documents to retrieve per request.
+   */
+  maxItemCount?: number;
+
+  /**
+   * A session token.
+   */
+  sessionToken?: string;
+
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * The result of reading the change feed.
+ */
+interface ReadChangeFeedResult {
+  /**
+   * The latest version of each document that has been created or
+   * updated since the start position.  Deletions are not reported.
+   * Documents are ordered by modification within a partition key range.
+   */
+  docs: Record<string, unknown>[];
+
+  /**
+   * The continuation that should be supplied to the next read.
+   */
+  continuation: ChangeFeedContinuation;
+
+  /**
+   * The resultant cost of reading the feed.
+   */
+  requestCharge: number;
+
+  /**
+   * The duration of the requests in milliseconds.
+   */
+  requestDurationMilliseconds: number;
+}
+
+/**
+ * Reads the changes made to the documents of a collection.  The feed of
+ * each partition key range is read in turn, until Cosmos reports there
+ * are no further changes.  To consume the changes incrementally, persist
+ * the returned continuation and supply it to the next read.  All the
+ * changes are held in memory, so use readChangeFeedPages to process a
+ * large feed a page at a time.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param options A property bag of options.
+ */
+export async function readChangeFeed(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  options: ReadChangeFeedOptions,
+): Promise<ReadChangeFeedResult> {
+  return await traceCosmosOperation(
+    "readChangeFeed",
+    databaseName,
+    collectionName,
+    async (trace) => {
+      const docs: Record<string, unknown>[] = [];
+      let continuation: ChangeFeedContinuation = {};
+      let requestCharge = 0.0;
+      let requestDurationMilliseconds = 0.0;
+
+      for await (
+        const page of readFeedPages(
+          authorization,
+          cosmosUrl,
+          databaseName,
+          collectionName,
+          options,
+          trace,
+        )
+      ) {
+        docs.push(...page.docs);
+        continuation = page.continuation;
+        requestCharge += page.requestCharge;
+        requestDurationMilliseconds += page.requestDurationMilliseconds;
+      }
+
+      return {
+        docs,
+        continuation,
+        requestCharge,
+        requestDurationMilliseconds,
+      };
+    },
+  );
+}
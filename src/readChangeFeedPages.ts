@@ -0,0 +1,81 @@
+import { CosmosAuthorization } from "./generateCosmosReqHeaders.ts";
+import { CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { traceCosmosOperationPages } from "./cosmosFetch.ts";
+import {
+  ChangeFeedContinuation,
+  ReadChangeFeedPage,
+  readFeedPages,
+} from "./readFeedPages.ts";
+
+/**
+ * Options for reading the change feed page by page.
+ */
+interface ReadChangeFeedPagesOptions {
+  /**
+   * The position in the feed to start reading from.  Use 'beginning'
+   * to read all the changes, 'now' to only read changes made from this
+   * point onwards, or a Date to read the changes made since that time.
+   * Defaults to 'beginning'.
+   */
+  startFrom?: "beginning" | "now" | Date;
+
+  /**
+   * The continuation returned by a previous read.  If supplied then
+   * the startFrom option only applies to the partition key ranges
+   * that had not been read when the continuation was saved.
+   */
+  continuation?: ChangeFeedContinuation;
+
+  /**
+   * The maximum number of documents to retrieve per page.
+   */
+  maxItemCount?: number;
+
+  /**
+   * A session token.
+   */
+  sessionToken?: string;
+
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * Reads the changes made to the documents of a collection, yielding
+ * each page of changes as it is retrieved.  The next page is only
+ * requested when the consumer asks for it, so breaking out of a
+ * for-await loop prevents any further requests.  Each page carries the
+ * continuation reached so far, which can be persisted once the page has
+ * been processed.  If the continuation is saved part way through, supply
+ * the same startFrom option alongside it so that any partition key
+ * range that had not been read yet starts from the same position.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param options A property bag of options.
+ */
+export async function* readChangeFeedPages(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  options: ReadChangeFeedPagesOptions,
+): AsyncGenerator<ReadChangeFeedPage> {
+  yield* traceCosmosOperationPages(
+    "readChangeFeedPages",
+    databaseName,
+    collectionName,
+    (trace) =>
+      readFeedPages(
+        authorization,
+        cosmosUrl,
+        databaseName,
+        collectionName,
+        options,
+        trace,
+      ),
+  );
+}
@@ -0,0 +1,73 @@
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch, CosmosOperationTrace } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+import { CosmosCollection } from "./getCollection.ts";
+
+/**
+ * Reads the definition of a collection.  This is used by getCollection
+ * and by the operations that need the partition key of a collection.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl A url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param retryPolicy The policy for retrying transient failures.
+ * @param trace The trace of the operation that the collection is read
+ * for, if it is not being read by getCollection.
+ */
+export async function readCollection(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  retryPolicy?: CosmosRetryPolicy,
+  trace?: CosmosOperationTrace,
+): Promise<CosmosCollection> {
+  const collection = await cosmosRetryable(async (attempt) => {
+    const reqHeaders = await generateCosmosReqHeaders({
+      key: authorization,
+      method: "GET",
+      resourceType: "colls",
+      resourceLink: `dbs/${databaseName}/colls/${collectionName}`,
+    });
+
+    const response = await cosmosFetch(
+      `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}`,
+      {
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json",
+          "x-ms-version": reqHeaders.xMsVersion,
+        },
+      },
+      "getCollection",
+      attempt,
+    );
+
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "getCollection",
+    );
+
+    if (!response.ok) {
+      throw await createCosmosError(
+        response,
+        "getCollection",
+        `Unable to get collection ${databaseName}/${collectionName}.`,
+      );
+    }
+
+    const result = await response.json() as CosmosCollection;
+
+    return result;
+  }, { retryPolicy, trace });
+
+  return collection;
+}
@@ -0,0 +1,519 @@
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch, CosmosOperationTrace } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+import {
+  ensureRaisingOfPkRangeGoneErrors,
+  PkRangeGoneError,
+} from "./ensureRaisingOfPkRangeGoneErrors.ts";
+import {
+  getPkRangeParentsForContainer,
+  getPkRangesForContainer,
+} from "./getPkRangesForContainer.ts";
+
+/**
+ * The position reached in the change feed of each partition key range
+ * of a collection.  This is a plain object that can be serialised and
+ * persisted so that a later run can resume from where the last one ended.
+ * The keys are the partition key ranges and the values are the etags
+ * returned by Cosmos.  If a range has since been split, the ranges
+ * that replaced it resume from the position of the original range.
+ */
+export type ChangeFeedContinuation = Record<string, string>;
+
+/**
+ * Options for reading the change feed page by page.
+ */
+interface ReadFeedPagesOptions {
+  /**
+   * The position in the feed to start reading from.  Use 'beginning'
+   * to read all the changes, 'now' to only read changes made from this
+   * point onwards, or a Date to read the changes made since that time.
+   * Defaults to 'beginning'.
+   */
+  startFrom?: "beginning" | "now" | Date;
+
+  /**
+   * The continuation returned by a previous read.
+   */
+  continuation?: ChangeFeedContinuation;
+
+  /**
+   * The maximum number of documents to retrieve per request.
+   */
+  maxItemCount?: number;
+
+  /**
+   * A session token.
+   */
+  sessionToken?: string;
+
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * A page of changes read from the feed of a partition key range.
+ */
+export interface ReadChangeFeedPage {
+  /**
+   * The partition key range that the changes were read from.
+   */
+  pkRange: string;
+
+  /**
+   * The latest version of each document that has been created or
+   * updated, ordered by modification.  The last page of each range
+   * has no documents, since it is the response from Cosmos reporting
+   * that there are no further changes.
+   */
+  docs: Record<string, unknown>[];
+
+  /**
+   * The position reached in the feed once this page has been read,
+   * which can be persisted and supplied to a later read.
+   */
+  continuation: ChangeFeedContinuation;
+
+  /**
+   * The cost of reading the page.
+   */
+  requestCharge: number;
+
+  /**
+   * The cost of reading this page and all the previous pages.
+   */
+  cumulativeRequestCharge: number;
+
+  /**
+   * The duration of the requests in milliseconds.
+   */
+  requestDurationMilliseconds: number;
+}
+
+/**
+ * Reads the changes made to the documents of a collection, yielding
+ * each page of changes as it is retrieved.  The feed of each partition
+ * key range is read in turn, until Cosmos reports there are no further
+ * changes.  If a range is split, the ranges that replaced it resume
+ * from the position that had been reached.  This is used by
+ * readChangeFeed and readChangeFeedPages, which each trace the
+ * requests as part of their own operation.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param options A property bag of options.
+ * @param trace The trace of the operation that is reading the feed.
+ */
+export async function* readFeedPages(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  options: ReadFeedPagesOptions,
+  trace: CosmosOperationTrace,
+): AsyncGenerator<ReadChangeFeedPage> {
+  const pkRanges = await getPkRangesForContainer(
+    authorization,
+    cosmosUrl,
+    databaseName,
+    collectionName,
+    { ...options, trace },
+  );
+
+  const continuation = options.continuation
+    ? await getStartEtags(
+      authorization,
+      cosmosUrl,
+      databaseName,
+      collectionName,
+      pkRanges,
+      options.continuation,
+      options,
+      trace,
+    )
+    : {};
+
+  const isCapturingStartPosition = !options.continuation &&
+    options.startFrom === "now";
+
+  let cumulativeRequestCharge = 0.0;
+  let unreportedRequestCharge = 0.0;
+  let unreportedRequestDurationMilliseconds = 0.0;
+
+  // The current position of every range is recorded before any changes
+  // are read, so a continuation saved after any page holds a position
+  // for every range, and a range that is split part way through resumes
+  // from that position rather than from a later 'now'.
+  if (isCapturingStartPosition) {
+    for await (
+      const page of readEachPkRange(
+        authorization,
+        cosmosUrl,
+        databaseName,
+        collectionName,
+        pkRanges,
+        continuation,
+        options,
+        trace,
+      )
+    ) {
+      unreportedRequestCharge += page.requestCharge;
+      unreportedRequestDurationMilliseconds += page.requestDurationMilliseconds;
+    }
+  }
+
+  for await (
+    const page of readEachPkRange(
+      authorization,
+      cosmosUrl,
+      databaseName,
+      collectionName,
+      isCapturingStartPosition ? Object.keys(continuation) : pkRanges,
+      continuation,
+      options,
+      trace,
+    )
+  ) {
+    const requestCharge = page.requestCharge + unreportedRequestCharge;
+    cumulativeRequestCharge += requestCharge;
+
+    yield {
+      pkRange: page.pkRange,
+      docs: page.docs,
+      continuation: { ...continuation },
+      requestCharge,
+      cumulativeRequestCharge,
+      requestDurationMilliseconds: page.requestDurationMilliseconds +
+        unreportedRequestDurationMilliseconds,
+    };
+
+    unreportedRequestCharge = 0.0;
+    unreportedRequestDurationMilliseconds = 0.0;
+  }
+}
+
+/**
+ * Reads the feed of each of the given partition key ranges in turn,
+ * yielding the response to each request.  The position reached in
+ * each range is recorded in the given continuation, which is where
+ * the feed of a range is read from.  If a range is split, the ranges
+ * that replaced it are read instead, from the position of the
+ * split range.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param pkRanges The partition key ranges to read.
+ * @param continuation The position reached in each range.
+ * @param options A property bag of options.
+ * @param trace The trace of the read.
+ */
+async function* readEachPkRange(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  pkRanges: string[],
+  continuation: ChangeFeedContinuation,
+  options: ReadFeedPagesOptions,
+  trace: CosmosOperationTrace,
+) {
+  const pendingPkRanges = [...pkRanges];
+
+  while (pendingPkRanges.length > 0) {
+    const pkRange = pendingPkRanges.shift() as string;
+
+    try {
+      let isAllChangesLoaded = false;
+
+      while (!isAllChangesLoaded) {
+        const page = await readFeedPage(
+          authorization,
+          cosmosUrl,
+          databaseName,
+          collectionName,
+          pkRange,
+          continuation[pkRange] || null,
+          options,
+          trace,
+        );
+
+        continuation[pkRange] = page.etag;
+        isAllChangesLoaded = page.isAllChangesLoaded;
+
+        yield {
+          pkRange,
+          docs: page.docs,
+          requestCharge: page.requestCharge,
+          requestDurationMilliseconds: page.requestDurationMilliseconds,
+        };
+      }
+    } catch (err) {
+      if (!(err instanceof PkRangeGoneError)) {
+        throw err;
+      }
+
+      const replacementPkRanges = await getReplacementPkRanges(
+        authorization,
+        cosmosUrl,
+        databaseName,
+        collectionName,
+        [pkRange, ...pendingPkRanges],
+        continuation,
+        options,
+        trace,
+      );
+
+      if (!replacementPkRanges) {
+        throw err;
+      }
+
+      pendingPkRanges.splice(
+        0,
+        pendingPkRanges.length,
+        ...replacementPkRanges,
+      );
+    }
+  }
+}
+
+/**
+ * Reads a page of the change feed of a single partition key range.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param pkRange A partition key range.
+ * @param etag The etag to resume from, or null to use the
+ * startFrom option.
+ * @param options A property bag of options.
+ * @param trace The trace of the read.
+ */
+async function readFeedPage(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  pkRange: string,
+  etag: string | null,
+  options: ReadFeedPagesOptions,
+  trace: CosmosOperationTrace,
+) {
+  const optionalHeaders: Record<string, string> = {};
+
+  if (etag) {
+    optionalHeaders["If-None-Match"] = etag;
+  } else if (options.startFrom === "now") {
+    optionalHeaders["If-None-Match"] = "*";
+  } else if (options.startFrom instanceof Date) {
+    optionalHeaders["If-Modified-Since"] = options.startFrom.toUTCString();
+  }
+
+  if (options.maxItemCount) {
+    optionalHeaders["x-ms-max-item-count"] = options.maxItemCount.toString();
+  }
+
+  if (options.sessionToken) {
+    optionalHeaders["x-ms-session-token"] = options.sessionToken;
+  }
+
+  return await cosmosRetryable(async (attempt) => {
+    const reqHeaders = await generateCosmosReqHeaders({
+      key: authorization,
+      method: "GET",
+      resourceType: "docs",
+      resourceLink: `dbs/${databaseName}/colls/${collectionName}`,
+    });
+
+    const response = await cosmosFetch(
+      `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}/docs`,
+      {
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "x-ms-version": reqHeaders.xMsVersion,
+          "A-IM": "Incremental feed",
+          "x-ms-documentdb-partitionkeyrangeid": pkRange,
+          ...optionalHeaders,
+        },
+      },
+      "readChangeFeed",
+      attempt,
+    );
+
+    await ensureRaisingOfPkRangeGoneErrors(response, "readChangeFeed");
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "readChangeFeed",
+    );
+
+    if (!response.ok && response.status !== 304) {
+      throw await createCosmosError(
+        response,
+        "readChangeFeed",
+        `Unable to read change feed ${databaseName}/${collectionName}/${pkRange}.`,
+      );
+    }
+
+    const isAllChangesLoaded = response.status === 304;
+
+    if (isAllChangesLoaded) {
+      await response.body?.cancel();
+    }
+
+    return {
+      docs: isAllChangesLoaded
+        ? []
+        : (await response.json()).Documents as Record<string, unknown>[],
+      etag: response.headers.get("etag") as string,
+      isAllChangesLoaded,
+      requestCharge: parseFloat(
+        response.headers.get("x-ms-request-charge") as string,
+      ),
+      requestDurationMilliseconds: parseFloat(
+        response.headers.get("x-ms-request-duration-ms") as string,
+      ),
+    };
+  }, { retryPolicy: options.retryPolicy, trace });
+}
+
+/**
+ * Retrieves the partition key ranges again and returns the ranges that
+ * should be read in place of the given ranges.  A range that has been
+ * split is replaced by the ranges that were split from it, and the
+ * position it reached is moved to those ranges in the continuation.
+ * Returns null if a range has gone but no range was split from it,
+ * e.g. because it was merged.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param pkRanges The partition key ranges that remain to be read.
+ * @param continuation The position reached in each range.
+ * @param options A property bag of options.
+ * @param trace The trace of the read.
+ */
+async function getReplacementPkRanges(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  pkRanges: string[],
+  continuation: ChangeFeedContinuation,
+  options: ReadFeedPagesOptions,
+  trace: CosmosOperationTrace,
+) {
+  const currentPkRanges = await getPkRangesForContainer(
+    authorization,
+    cosmosUrl,
+    databaseName,
+    collectionName,
+    { ...options, forceRefresh: true, trace },
+  );
+
+  const parents = await getPkRangeParentsForContainer(
+    authorization,
+    cosmosUrl,
+    databaseName,
+    collectionName,
+    { ...options, trace },
+  );
+
+  const replacementPkRanges: string[] = [];
+
+  for (const pkRange of pkRanges) {
+    if (currentPkRanges.includes(pkRange)) {
+      replacementPkRanges.push(pkRange);
+      continue;
+    }
+
+    const children = currentPkRanges.filter((pkr) =>
+      parents[pkr].includes(pkRange)
+    );
+
+    if (children.length === 0) {
+      return null;
+    }
+
+    if (continuation[pkRange]) {
+      for (const child of children) {
+        continuation[child] = continuation[pkRange];
+      }
+
+      delete continuation[pkRange];
+    }
+
+    replacementPkRanges.push(...children);
+  }
+
+  return replacementPkRanges;
+}
+
+/**
+ * Returns the etag that the feed of each partition key range should
+ * resume from.  A range that is missing from the continuation has been
+ * split from a range that was read previously, so it resumes from the
+ * position of its nearest parent.  If neither the range nor any of its
+ * parents appear in the continuation, the range had not been read when
+ * the continuation was saved, so it is read from the startFrom option.
+ * An error is raised if the startFrom option is not supplied, rather
+ * than reading the range from the beginning.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param pkRanges The partition key ranges of the collection.
+ * @param continuation The continuation returned by a previous read.
+ * @param options A property bag of options.
+ * @param trace The trace of the read.
+ */
+async function getStartEtags(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  pkRanges: string[],
+  continuation: ChangeFeedContinuation,
+  options: ReadFeedPagesOptions,
+  trace: CosmosOperationTrace,
+) {
+  const startEtags: ChangeFeedContinuation = {};
+  let parents: Record<string, string[]> | null = null;
+
+  for (const pkRange of pkRanges) {
+    if (continuation[pkRange]) {
+      startEtags[pkRange] = continuation[pkRange];
+      continue;
+    }
+
+    parents = parents || await getPkRangeParentsForContainer(
+      authorization,
+      cosmosUrl,
+      databaseName,
+      collectionName,
+      { ...options, trace },
+    );
+
+    const parent = (parents[pkRange] || []).find((p) => continuation[p]);
+
+    if (parent) {
+      startEtags[pkRange] = continuation[parent];
+    } else if (options.startFrom === undefined) {
+      throw new Error(
+        `The continuation does not contain a position for pk-range ${pkRange} of ${databaseName}/${collectionName} or any of its parents.`,
+      );
+    }
+  }
+
+  return startEtags;
+}
@@ -0,0 +1,378 @@
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch, CosmosOperationTrace } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+import { CosmosOffer } from "./getOffer.ts";
+
+/**
+ * The content of an offer record.
+ */
+interface CosmosOfferContent {
+  /**
+   * The provisioned throughput in RU/s.  For autoscale, this is
+   * the throughput that Cosmos scales down to.
+   */
+  offerThroughput: number;
+
+  /**
+   * The autoscale settings, if the offer uses autoscale.
+   */
+  offerAutopilotSettings?: {
+    /**
+     * The maximum throughput in RU/s.
+     */
+    maxThroughput: number;
+  };
+}
+
+/**
+ * An offer record, as stored by Cosmos.
+ */
+export interface CosmosOfferRecord extends Record<string, unknown> {
+  /**
+   * The id of the offer.
+   */
+  id: string;
+
+  /**
+   * The etag of the offer.
+   */
+  _etag: string;
+
+  /**
+   * The throughput settings of the offer.
+   */
+  content: CosmosOfferContent;
+}
+
+/**
+ * An offer record, along with the status information that Cosmos
+ * returns in the headers when the offer is read or replaced.
+ */
+export interface CosmosOfferRecordResult {
+  /**
+   * The offer record.
+   */
+  record: CosmosOfferRecord;
+
+  /**
+   * The lowest manual throughput, in RU/s, that can be provisioned,
+   * or null if Cosmos did not report it.
+   */
+  minimumThroughput: number | null;
+
+  /**
+   * True if a replacement of the offer is still being applied.
+   */
+  isReplacePending: boolean;
+}
+
+/**
+ * Returns the offer record for a database or collection, or null if
+ * the resource does not have its own provisioned throughput.
+ * Offers are addressed by the resource id of the database or collection,
+ * so the resource is read first, then the offers are queried and finally
+ * the offer is read to retrieve the minimum throughput and
+ * replacement status.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection, or null for the
+ * offer of the database.
+ * @param retryPolicy The policy for retrying transient failures.
+ * @param trace The trace of the operation that the offer is used by.
+ */
+export async function readOfferRecord(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string | null,
+  retryPolicy: CosmosRetryPolicy | undefined,
+  trace: CosmosOperationTrace,
+): Promise<CosmosOfferRecordResult | null> {
+  const resourceRid = await getResourceRid(
+    authorization,
+    cosmosUrl,
+    databaseName,
+    collectionName,
+    retryPolicy,
+    trace,
+  );
+
+  const offerId = await cosmosRetryable(async (attempt) => {
+    const reqHeaders = await generateCosmosReqHeaders({
+      key: authorization,
+      method: "POST",
+      resourceType: "offers",
+    });
+
+    const response = await cosmosFetch(
+      `${cosmosUrl}/offers`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/query+json",
+          "x-ms-version": reqHeaders.xMsVersion,
+          "x-ms-documentdb-isquery": "True",
+        },
+        body: JSON.stringify({
+          query: "SELECT * FROM root WHERE root.offerResourceId = @resourceRid",
+          parameters: [{ name: "@resourceRid", value: resourceRid }],
+        }),
+      },
+      "readOfferRecord",
+      attempt,
+    );
+
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "readOfferRecord",
+    );
+
+    if (!response.ok) {
+      throw await createCosmosError(
+        response,
+        "readOfferRecord",
+        "Unable to query offers.",
+      );
+    }
+
+    const result = await response.json();
+    const offers = result.Offers as CosmosOfferRecord[];
+
+    return offers.length > 0 ? offers[0].id : null;
+  }, { retryPolicy, trace });
+
+  if (offerId === null) {
+    return null;
+  }
+
+  return await cosmosRetryable(async (attempt) => {
+    const reqHeaders = await generateCosmosReqHeaders({
+      key: authorization,
+      method: "GET",
+      resourceType: "offers",
+      resourceLink: offerId.toLowerCase(),
+    });
+
+    const response = await cosmosFetch(
+      `${cosmosUrl}/offers/${offerId}`,
+      {
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json",
+          "x-ms-version": reqHeaders.xMsVersion,
+          "x-ms-documentdb-populatequotainfo": "true",
+        },
+      },
+      "readOfferRecord",
+      attempt,
+    );
+
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "readOfferRecord",
+    );
+
+    if (!response.ok) {
+      throw await createCosmosError(
+        response,
+        "readOfferRecord",
+        `Unable to get offer ${offerId}.`,
+      );
+    }
+
+    return await convertOfferResponse(response);
+  }, { retryPolicy, trace });
+}
+
+/**
+ * Replaces an offer record.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param record The offer record, with the content changed as required.
+ * @param migration The type of throughput to migrate to, if the offer
+ * is being switched between manual and autoscale.  The throughput
+ * in the content is ignored when migrating.
+ * @param retryPolicy The policy for retrying transient failures.
+ * @param trace The trace of the operation that the offer is used by.
+ */
+export async function writeOfferRecord(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  record: CosmosOfferRecord,
+  migration: "autoscale" | "manual" | null,
+  retryPolicy: CosmosRetryPolicy | undefined,
+  trace: CosmosOperationTrace,
+): Promise<CosmosOfferRecordResult> {
+  return await cosmosRetryable(async (attempt) => {
+    const reqHeaders = await generateCosmosReqHeaders({
+      key: authorization,
+      method: "PUT",
+      resourceType: "offers",
+      resourceLink: record.id.toLowerCase(),
+    });
+
+    const optionalHeaders: Record<string, string> = {};
+
+    if (migration === "autoscale") {
+      optionalHeaders["x-ms-cosmos-migrate-offer-to-autopilot"] = "true";
+    }
+
+    if (migration === "manual") {
+      optionalHeaders["x-ms-cosmos-migrate-offer-to-manual-throughput"] =
+        "true";
+    }
+
+    const response = await cosmosFetch(
+      `${cosmosUrl}/offers/${record.id}`,
+      {
+        method: "PUT",
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json",
+          "x-ms-version": reqHeaders.xMsVersion,
+          "if-match": record._etag,
+          "x-ms-documentdb-populatequotainfo": "true",
+          ...optionalHeaders,
+        },
+        body: JSON.stringify(record),
+      },
+      "writeOfferRecord",
+      attempt,
+    );
+
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "writeOfferRecord",
+    );
+
+    if (!response.ok) {
+      throw await createCosmosError(
+        response,
+        "writeOfferRecord",
+        `Unable to replace offer ${record.id}.`,
+      );
+    }
+
+    return await convertOfferResponse(response);
+  }, { retryPolicy, trace });
+}
+
+/**
+ * Converts an offer record into an offer.
+ * @param offerRecord An offer record and its status.
+ */
+export function convertOfferRecord(
+  offerRecord: CosmosOfferRecordResult,
+): CosmosOffer {
+  const content = offerRecord.record.content;
+
+  return {
+    id: offerRecord.record.id,
+    throughput: content.offerAutopilotSettings ? null : content.offerThroughput,
+    maxAutoscaleThroughput: content.offerAutopilotSettings
+      ? content.offerAutopilotSettings.maxThroughput
+      : null,
+    minimumThroughput: offerRecord.minimumThroughput,
+    isReplacePending: offerRecord.isReplacePending,
+  };
+}
+
+/**
+ * Returns the offer record and status held by a response.
+ * @param response A successful response to a read or replace of an offer.
+ */
+async function convertOfferResponse(
+  response: Response,
+): Promise<CosmosOfferRecordResult> {
+  const minimumThroughput = response.headers.get("x-ms-cosmos-min-throughput");
+
+  return {
+    record: await response.json() as CosmosOfferRecord,
+    minimumThroughput: minimumThroughput ? parseInt(minimumThroughput) : null,
+    isReplacePending:
+      response.headers.get("x-ms-offer-replace-pending")?.toLowerCase() ===
+        "true",
+  };
+}
+
+/**
+ * Returns the resource id of a database or collection.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection, or null for
+ * the database itself.
+ * @param retryPolicy The policy for retrying transient failures.
+ * @param trace The trace of the operation that the offer is used by.
+ */
+function getResourceRid(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string | null,
+  retryPolicy: CosmosRetryPolicy | undefined,
+  trace: CosmosOperationTrace,
+): Promise<string> {
+  const resourceLink = collectionName === null
+    ? `dbs/${databaseName}`
+    : `dbs/${databaseName}/colls/${collectionName}`;
+
+  return cosmosRetryable(async (attempt) => {
+    const reqHeaders = await generateCosmosReqHeaders({
+      key: authorization,
+      method: "GET",
+      resourceType: collectionName === null ? "dbs" : "colls",
+      resourceLink,
+    });
+
+    const response = await cosmosFetch(
+      `${cosmosUrl}/${resourceLink}`,
+      {
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json",
+          "x-ms-version": reqHeaders.xMsVersion,
+          "x-ms-documentdb-populatequotainfo": "true",
+        },
+      },
+      "readOfferRecord",
+      attempt,
+    );
+
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "readOfferRecord",
+    );
+
+    if (!response.ok) {
+      throw await createCosmosError(
+        response,
+        "readOfferRecord",
+        `Unable to get ${resourceLink}.`,
+      );
+    }
+
+    const result = await response.json();
+
+    return result._rid as string;
+  }, { retryPolicy, trace });
+}
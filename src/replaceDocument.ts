@@ -1,7 +1,16 @@
-import { generateCosmosReqHeaders } from "./generateCosmosReqHeaders.ts";
-import { cosmosRetryable } from "./cosmosRetryable.ts";
+import { applyPartitionKeyValue } from "./applyPartitionKeyValue.ts";
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
 import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
-import { formatPartitionKeyValue } from "./formatPartitionKeyValue.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+import {
+  CosmosPartitionKeyValue,
+  formatPartitionKeyValue,
+} from "./formatPartitionKeyValue.ts";
 
 /**
  * The result of replacing a document.
@@ -39,15 +48,37 @@ interface ReplaceDocumentOptions {
    */
   ifMatch?: string;
 
+  /**
+   * The partition key paths of the collection, e.g. ["/tenantId", "/userId"].
+   * The partition key value is written to these paths of the document.
+   * Defaults to ["/partitionKey"].
+   */
+  partitionKeyPaths?: string[];
+
+  /**
+   * The names of the pre-triggers to run before the document is written.
+   */
+  preTriggers?: string[];
+
+  /**
+   * The names of the post-triggers to run after the document is written.
+   */
+  postTriggers?: string[];
+
   /**
    * A session token.
    */
   sessionToken?: string;
+
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
 }
 
 /**
  * Replaces a document with the given document.
- * @param cryptoKey A crypto key.
+ * @param authorization A crypto key, or a provider of authorization headers.
  * @param cosmosUrl The url to a database.
  * @param databaseName The name of a database.
  * @param collectionName The name of a collection.
@@ -56,11 +87,11 @@ interface ReplaceDocumentOptions {
  * @param options A property bag of options.
  */
 export async function replaceDocument(
-  cryptoKey: CryptoKey,
+  authorization: CosmosAuthorization,
   cosmosUrl: string,
   databaseName: string,
   collectionName: string,
-  partition: string,
+  partition: CosmosPartitionKeyValue,
   document: Record<string, unknown>,
   options: ReplaceDocumentOptions,
 ): Promise<ReplaceDocumentResult> {
@@ -74,20 +105,28 @@ export async function replaceDocument(
     optionalHeaders["x-ms-session-token"] = options.sessionToken;
   }
 
-  if (document.partitionKey !== partition) {
-    document.partitionKey = partition;
+  if (options.preTriggers && options.preTriggers.length > 0) {
+    optionalHeaders["x-ms-documentdb-pre-trigger-include"] = options
+      .preTriggers.join(",");
   }
 
-  const result = await cosmosRetryable(async () => {
+  if (options.postTriggers && options.postTriggers.length > 0) {
+    optionalHeaders["x-ms-documentdb-post-trigger-include"] = options
+      .postTriggers.join(",");
+  }
+
+  applyPartitionKeyValue(document, partition, options.partitionKeyPaths);
+
+  const result = await cosmosRetryable(async (attempt) => {
     const reqHeaders = await generateCosmosReqHeaders({
-      key: cryptoKey,
+      key: authorization,
       method: "PUT",
       resourceType: "docs",
       resourceLink:
         `dbs/${databaseName}/colls/${collectionName}/docs/${document.id}`,
     });
 
-    const response = await fetch(
+    const response = await cosmosFetch(
       `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}/docs/${document.id}`,
       {
         method: "PUT",
@@ -103,17 +142,25 @@ export async function replaceDocument(
         },
         body: JSON.stringify(document),
       },
+      "replaceDocument",
+      attempt,
     );
 
-    ensureRaisingOfTransitoryErrors(response);
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "replaceDocument",
+    );
 
     // 412 errors means the pre-condition failed and the document
     // wasn't updated.  In this circumstance we cancel reading from
     // the stream and return false.
     if (!response.ok && response.status !== 412) {
-      throw new Error(
-        `Unable to replace document ${databaseName}/${collectionName}/${document.id}.\n${await response
-          .text()}`,
+      throw await createCosmosError(
+        response,
+        "replaceDocument",
+        `Unable to replace document ${databaseName}/${collectionName}/${document.id}.`,
       );
     }
 
@@ -129,7 +176,7 @@ export async function replaceDocument(
         response.headers.get("x-ms-request-duration-ms") as string,
       ),
     };
-  });
+  }, { retryPolicy: options.retryPolicy });
 
   return result;
 }
@@ -0,0 +1,126 @@
+import { CosmosOffer } from "./getOffer.ts";
+import {
+  convertOfferRecord,
+  readOfferRecord,
+  writeOfferRecord,
+} from "./readOfferRecord.ts";
+import { CosmosAuthorization } from "./generateCosmosReqHeaders.ts";
+import { CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { traceCosmosOperation } from "./cosmosFetch.ts";
+
+/**
+ * The throughput to provision, either a fixed (manual) throughput
+ * or the maximum throughput that autoscale will scale up to.
+ */
+export type CosmosThroughput =
+  | { throughput: number }
+  | { maxAutoscaleThroughput: number };
+
+/**
+ * Options for replacing the throughput of a database or collection.
+ */
+interface ReplaceOfferOptions {
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * Changes the throughput provisioned for a database or collection.
+ * The throughput is switched between manual and autoscale as required,
+ * by first migrating the offer and then setting the requested value.
+ * Throughput can only be changed for resources that were created
+ * with their own throughput.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection, or null to change
+ * the throughput of the database.
+ * @param throughput The throughput to provision.
+ * @param options A property bag of options.
+ */
+export async function replaceOffer(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string | null,
+  throughput: CosmosThroughput,
+  options: ReplaceOfferOptions = {},
+): Promise<CosmosOffer> {
+  return await traceCosmosOperation(
+    "replaceOffer",
+    databaseName,
+    collectionName,
+    async (trace) => {
+      const resourceName = collectionName === null
+        ? databaseName
+        : `${databaseName}/${collectionName}`;
+
+      let offerRecord = await readOfferRecord(
+        authorization,
+        cosmosUrl,
+        databaseName,
+        collectionName,
+        options.retryPolicy,
+        trace,
+      );
+
+      if (!offerRecord) {
+        throw new Error(
+          `Unable to replace offer of ${resourceName}.\nThe resource does not have its own provisioned throughput.`,
+        );
+      }
+
+      const isAutoscale = "maxAutoscaleThroughput" in throughput;
+
+      if (
+        isAutoscale !==
+          Boolean(offerRecord.record.content.offerAutopilotSettings)
+      ) {
+        offerRecord = await writeOfferRecord(
+          authorization,
+          cosmosUrl,
+          offerRecord.record,
+          isAutoscale ? "autoscale" : "manual",
+          options.retryPolicy,
+          trace,
+        );
+      }
+
+      const offer = convertOfferRecord(offerRecord);
+
+      if (
+        "maxAutoscaleThroughput" in throughput
+          ? offer.maxAutoscaleThroughput === throughput.maxAutoscaleThroughput
+          : offer.throughput === throughput.throughput
+      ) {
+        return offer;
+      }
+
+      const content = "maxAutoscaleThroughput" in throughput
+        ? {
+          ...offerRecord.record.content,
+          offerAutopilotSettings: {
+            ...offerRecord.record.content.offerAutopilotSettings,
+            maxThroughput: throughput.maxAutoscaleThroughput,
+          },
+        }
+        : {
+          ...offerRecord.record.content,
+          offerThroughput: throughput.throughput,
+        };
+
+      return convertOfferRecord(
+        await writeOfferRecord(
+          authorization,
+          cosmosUrl,
+          { ...offerRecord.record, content },
+          null,
+          options.retryPolicy,
+          trace,
+        ),
+      );
+    },
+  );
+}
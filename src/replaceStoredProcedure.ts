@@ -0,0 +1,87 @@
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+import { CosmosStoredProcedure } from "./createStoredProcedure.ts";
+
+/**
+ * Options for replacing a stored procedure.
+ */
+interface ReplaceStoredProcedureOptions {
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * Replaces the source of an existing stored procedure.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param storedProcedureName The name of a stored procedure.
+ * @param body The new javascript source of the stored procedure.
+ * @param options A property bag of options.
+ */
+export async function replaceStoredProcedure(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  storedProcedureName: string,
+  body: string,
+  options: ReplaceStoredProcedureOptions = {},
+): Promise<CosmosStoredProcedure> {
+  const result = await cosmosRetryable(async (attempt) => {
+    const reqHeaders = await generateCosmosReqHeaders({
+      key: authorization,
+      method: "PUT",
+      resourceType: "sprocs",
+      resourceLink:
+        `dbs/${databaseName}/colls/${collectionName}/sprocs/${storedProcedureName}`,
+    });
+
+    const response = await cosmosFetch(
+      `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}/sprocs/${storedProcedureName}`,
+      {
+        method: "PUT",
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json",
+          "x-ms-version": reqHeaders.xMsVersion,
+        },
+        body: JSON.stringify({
+          id: storedProcedureName,
+          body,
+        }),
+      },
+      "replaceStoredProcedure",
+      attempt,
+    );
+
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "replaceStoredProcedure",
+    );
+
+    if (!response.ok) {
+      throw await createCosmosError(
+        response,
+        "replaceStoredProcedure",
+        `Unable to replace stored procedure ${databaseName}/${collectionName}/${storedProcedureName}.`,
+      );
+    }
+
+    return await response.json() as CosmosStoredProcedure;
+  }, { retryPolicy: options.retryPolicy });
+
+  return result;
+}
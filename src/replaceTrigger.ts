@@ -0,0 +1,87 @@
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+import { CosmosTrigger, CosmosTriggerDefinition } from "./createTrigger.ts";
+
+/**
+ * Options for replacing a trigger.
+ */
+interface ReplaceTriggerOptions {
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * Replaces the definition of an existing trigger.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param triggerName The name of a trigger.
+ * @param definition The new definition of the trigger.
+ * @param options A property bag of options.
+ */
+export async function replaceTrigger(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  triggerName: string,
+  definition: CosmosTriggerDefinition,
+  options: ReplaceTriggerOptions = {},
+): Promise<CosmosTrigger> {
+  const result = await cosmosRetryable(async (attempt) => {
+    const reqHeaders = await generateCosmosReqHeaders({
+      key: authorization,
+      method: "PUT",
+      resourceType: "triggers",
+      resourceLink:
+        `dbs/${databaseName}/colls/${collectionName}/triggers/${triggerName}`,
+    });
+
+    const response = await cosmosFetch(
+      `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}/triggers/${triggerName}`,
+      {
+        method: "PUT",
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json",
+          "x-ms-version": reqHeaders.xMsVersion,
+        },
+        body: JSON.stringify({
+          id: triggerName,
+          ...definition,
+        }),
+      },
+      "replaceTrigger",
+      attempt,
+    );
+
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "replaceTrigger",
+    );
+
+    if (!response.ok) {
+      throw await createCosmosError(
+        response,
+        "replaceTrigger",
+        `Unable to replace trigger ${databaseName}/${collectionName}/${triggerName}.`,
+      );
+    }
+
+    return await response.json() as CosmosTrigger;
+  }, { retryPolicy: options.retryPolicy });
+
+  return result;
+}
@@ -0,0 +1,87 @@
+import {
+  CosmosAuthorization,
+  generateCosmosReqHeaders,
+} from "./generateCosmosReqHeaders.ts";
+import { cosmosRetryable, CosmosRetryPolicy } from "./cosmosRetryable.ts";
+import { ensureRaisingOfTransitoryErrors } from "./ensureRaisingOfTransitoryErrors.ts";
+import { cosmosFetch } from "./cosmosFetch.ts";
+import { createCosmosError } from "./createCosmosError.ts";
+import { CosmosUserDefinedFunction } from "./createUserDefinedFunction.ts";
+
+/**
+ * Options for replacing a user-defined function.
+ */
+interface ReplaceUserDefinedFunctionOptions {
+  /**
+   * The policy for retrying transient failures.
+   */
+  retryPolicy?: CosmosRetryPolicy;
+}
+
+/**
+ * Replaces the source of an existing user-defined function.
+ * @param authorization A crypto key, or a provider of authorization headers.
+ * @param cosmosUrl The url to a database.
+ * @param databaseName The name of a database.
+ * @param collectionName The name of a collection.
+ * @param userDefinedFunctionName The name of a user-defined function.
+ * @param body The new javascript source of the user-defined function.
+ * @param options A property bag of options.
+ */
+export async function replaceUserDefinedFunction(
+  authorization: CosmosAuthorization,
+  cosmosUrl: string,
+  databaseName: string,
+  collectionName: string,
+  userDefinedFunctionName: string,
+  body: string,
+  options: ReplaceUserDefinedFunctionOptions = {},
+): Promise<CosmosUserDefinedFunction> {
+  const result = await cosmosRetryable(async (attempt) => {
+    const reqHeaders = await generateCosmosReqHeaders({
+      key: authorization,
+      method: "PUT",
+      resourceType: "udfs",
+      resourceLink:
+        `dbs/${databaseName}/colls/${collectionName}/udfs/${userDefinedFunctionName}`,
+    });
+
+    const response = await cosmosFetch(
+      `${cosmosUrl}/dbs/${databaseName}/colls/${collectionName}/udfs/${userDefinedFunctionName}`,
+      {
+        method: "PUT",
+        headers: {
+          Authorization: reqHeaders.authorizationHeader,
+          "x-ms-date": reqHeaders.xMsDateHeader,
+          "content-type": "application/json",
+          "x-ms-version": reqHeaders.xMsVersion,
+        },
+        body: JSON.stringify({
+          id: userDefinedFunctionName,
+          body,
+        }),
+      },
+      "replaceUserDefinedFunction",
+      attempt,
+    );
+
+    await ensureRaisingOfTransitoryErrors(
+      response,
+      authorization,
+      reqHeaders.authorizationHeader,
+      "replaceUserDefinedFunction",
+    );
+
+    if (!response.ok) {
+      throw await createCosmosError(
+        response,
+        "replaceUserDefinedFunction",
+        `Unable to replace user-defined function ${databaseName}/${collectionName}/${userDefinedFunctionName}.`,
+      );
+    }
+
+    return await response.json() as CosmosUserDefinedFunction;
+  }, { retryPolicy: options.retryPolicy });
+
+  return result;
+}
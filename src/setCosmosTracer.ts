@@ -0,0 +1,143 @@
+import { cosmosTracing } from "./cosmosFetch.ts";
+
+/**
+ * The value of an attribute of a span.
+ */
+export type CosmosSpanAttributeValue = string | number | boolean;
+
+/**
+ * The status of a span.  The codes are those of OpenTelemetry,
+ * where 0 is unset, 1 is ok and 2 is an error.
+ */
+export interface CosmosSpanStatus {
+  /**
+   * The status code.
+   */
+  code: 0 | 1 | 2;
+
+  /**
+   * A description of the error.
+   */
+  message?: string;
+}
+
+/**
+ * A span that records the duration and outcome of an operation.
+ * This is a subset of the Span interface of OpenTelemetry, so an
+ * OpenTelemetry span can be used directly.
+ */
+export interface CosmosSpan {
+  /**
+   * Sets an attribute of the span.
+   */
+  setAttribute(key: string, value: CosmosSpanAttributeValue): unknown;
+
+  /**
+   * Sets the status of the span.
+   */
+  setStatus(status: CosmosSpanStatus): unknown;
+
+  /**
+   * Records an error that occurred during the span.
+   */
+  recordException(exception: Error): unknown;
+
+  /**
+   * Marks the end of the span.
+   */
+  end(): unknown;
+}
+
+/**
+ * Options for starting a span.
+ */
+export interface CosmosSpanOptions {
+  /**
+   * The kind of span, using the codes of OpenTelemetry.
+   * Spans started by this library are always 2 (client).
+   */
+  kind: 2;
+
+  /**
+   * The initial attributes of the span.
+   */
+  attributes: Record<string, CosmosSpanAttributeValue>;
+}
+
+/**
+ * Starts spans on behalf of this library.  This is a subset of the
+ * Tracer interface of OpenTelemetry, so an OpenTelemetry tracer can
+ * be used directly.
+ */
+export interface CosmosTracer {
+  /**
+   * Starts a new span.
+   * @param name The name of the span.
+   * @param options The kind and initial attributes of the span.
+   * @param context The context that holds the parent of the span.
+   * This is an OpenTelemetry context, which is opaque to this library.
+   */
+  startSpan(
+    name: string,
+    options: CosmosSpanOptions,
+    context?: unknown,
+  ): CosmosSpan;
+}
+
+/**
+ * The parts of the OpenTelemetry API that are used to find the context
+ * that is active when an operation starts, and to create the context
+ * that holds the span of an operation.  This is a subset of the api
+ * module of OpenTelemetry, so the module itself can be supplied,
+ * e.g. import * as otel from "@opentelemetry/api".
+ */
+export interface CosmosTraceApi {
+  /**
+   * The context API of OpenTelemetry.
+   */
+  context: {
+    /**
+     * Returns the active context.
+     */
+    active(): unknown;
+  };
+
+  /**
+   * The trace API of OpenTelemetry.
+   */
+  trace: {
+    /**
+     * Returns a copy of the given context that holds the given span.
+     * @param context A context.
+     * @param span A span.
+     */
+    setSpan(context: unknown, span: CosmosSpan): unknown;
+  };
+}
+
+/**
+ * Sets the tracer used to trace the requests sent to Cosmos, or
+ * removes it if null is supplied.  Each operation is traced as a span
+ * that follows the OpenTelemetry semantic conventions for databases,
+ * with db.system set to cosmosdb, and each attempt to send the request,
+ * including retries, is traced as a child span.  An operation that
+ * sends several requests, such as a query that reads several pages,
+ * is traced as a single span with a child span for every attempt.
+ * The span of an operation is a child of the span that was active
+ * when the operation started, if any.  For example, to use the global
+ * tracer provider, setCosmosTracer(otel.trace.getTracer("cosmos"), otel).
+ * @param tracer A tracer, or null.
+ * @param api The OpenTelemetry API, which is required with a tracer.
+ */
+export function setCosmosTracer(
+  tracer: CosmosTracer,
+  api: CosmosTraceApi,
+): void;
+export function setCosmosTracer(tracer: null): void;
+export function setCosmosTracer(
+  tracer: CosmosTracer | null,
+  api?: CosmosTraceApi,
+) {
+  cosmosTracing.tracer = tracer;
+  cosmosTracing.api = api ?? null;
+}
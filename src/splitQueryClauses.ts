@@ -0,0 +1,415 @@
+/**
+ * An item from the selection list of a query.
+ */
+interface QuerySelectionItem {
+  /**
+   * The text of the expression.
+   */
+  expression: string;
+
+  /**
+   * The name of the property that the expression is assigned to
+   * in each record, either given by AS or inferred by Cosmos.
+   */
+  name: string;
+}
+
+/**
+ * An item from the ORDER BY clause of a query.
+ */
+interface QueryOrderByItem {
+  /**
+   * The text of the expression.
+   */
+  expression: string;
+
+  /**
+   * True if the item is sorted in descending order.
+   */
+  descending: boolean;
+}
+
+/**
+ * The clauses of a Cosmos SQL query.
+ */
+export interface QueryClauses {
+  /**
+   * The expression given to TOP, or null if not specified.
+   */
+  top: string | null;
+
+  /**
+   * True if the DISTINCT keyword was specified.
+   */
+  distinct: boolean;
+
+  /**
+   * The expression given to SELECT VALUE, or null if not specified.
+   */
+  value: string | null;
+
+  /**
+   * The items of the selection list, which is empty if the query
+   * uses SELECT * or SELECT VALUE.
+   */
+  selectionItems: QuerySelectionItem[];
+
+  /**
+   * The text of the query from the FROM keyword to the end of
+   * the WHERE clause, e.g. FROM Docs d WHERE d.x = 1.
+   */
+  fromWhere: string;
+
+  /**
+   * The alias used to refer to documents in the query.
+   */
+  fromAlias: string;
+
+  /**
+   * The expressions of the GROUP BY clause.
+   */
+  groupBy: string[];
+
+  /**
+   * The items of the ORDER BY clause.
+   */
+  orderBy: QueryOrderByItem[];
+
+  /**
+   * The expression given to OFFSET, or null if not specified.
+   */
+  offset: string | null;
+
+  /**
+   * The expression given to LIMIT, or null if not specified.
+   */
+  limit: string | null;
+}
+
+/**
+ * Splits a Cosmos SQL query into its clauses.  This is not a full parser,
+ * it only identifies the keywords that appear at the top level of the
+ * query (i.e. not inside strings, brackets or sub-queries) so that
+ * queries can be rewritten and results combined across containers.
+ * @param query A Cosmos SQL query.
+ */
+export function splitQueryClauses(query: string): QueryClauses {
+  const masked = maskQuery(query);
+  const selectMatch = /^\s*SELECT\b/i.exec(masked);
+
+  if (!selectMatch) {
+    throw new Error(`Query must begin with SELECT.\n${query}`);
+  }
+
+  const fromIndex = findKeyword(masked, "FROM", selectMatch[0].length);
+
+  if (fromIndex < 0) {
+    throw new Error(`Query must contain a FROM clause.\n${query}`);
+  }
+
+  const whereIndex = findKeyword(masked, "WHERE", fromIndex);
+  const groupByIndex = findKeyword(masked, "GROUP\\s+BY", fromIndex);
+  const orderByIndex = findKeyword(masked, "ORDER\\s+BY", fromIndex);
+  const offsetIndex = findKeyword(masked, "OFFSET", fromIndex);
+  const limitIndex = findKeyword(masked, "LIMIT", fromIndex);
+
+  // Returns the text between the given position and the next clause.
+  const clauseText = (start: number, keywordLength: number) => {
+    const end = [
+      groupByIndex,
+      orderByIndex,
+      offsetIndex,
+      limitIndex,
+      query
+        .length,
+    ]
+      .filter((i) => i > start).reduce((a, b) => Math.min(a, b));
+
+    return query.slice(start + keywordLength, end).trim();
+  };
+
+  const fromWhereEnd = [groupByIndex, orderByIndex, offsetIndex, query.length]
+    .filter((i) => i > fromIndex).reduce((a, b) => Math.min(a, b));
+
+  const selection = parseSelection(
+    query.slice(selectMatch[0].length, fromIndex),
+    masked.slice(selectMatch[0].length, fromIndex),
+  );
+
+  // The collection is optionally followed by an alias, e.g. FROM Docs d,
+  // FROM Docs AS d or FROM Docs d JOIN t IN d.tags.
+  const fromWords = query.slice(
+    fromIndex + "FROM".length,
+    whereIndex > 0 ? whereIndex : fromWhereEnd,
+  ).trim().split(/\s+/);
+
+  const fromAlias = fromWords[1] && fromWords[1].toUpperCase() === "AS"
+    ? fromWords[2]
+    : fromWords[1] && fromWords[1].toUpperCase() !== "JOIN"
+    ? fromWords[1]
+    : fromWords[0];
+
+  return {
+    ...selection,
+    fromWhere: query.slice(fromIndex, fromWhereEnd).trim(),
+    fromAlias,
+    groupBy: groupByIndex > 0
+      ? splitTopLevel(clauseText(groupByIndex, "GROUP".length)).map((g) =>
+        g.replace(/^BY\s+/i, "")
+      )
+      : [],
+    orderBy: orderByIndex > 0
+      ? splitTopLevel(
+        clauseText(orderByIndex, "ORDER".length).replace(/^BY\s+/i, ""),
+      ).map(parseOrderByItem)
+      : [],
+    offset: offsetIndex > 0 ? clauseText(offsetIndex, "OFFSET".length) : null,
+    limit: limitIndex > 0 ? clauseText(limitIndex, "LIMIT".length) : null,
+  };
+}
+
+/**
+ * Joins the clauses of a query back into a Cosmos SQL query.
+ * This is typically used to produce a rewritten form of a query
+ * that was split using splitQueryClauses.
+ * @param clauses The clauses of a query.
+ */
+export function joinQueryClauses(clauses: QueryClauses): string {
+  const parts = ["SELECT"];
+
+  if (clauses.top !== null) {
+    parts.push(`TOP ${clauses.top}`);
+  }
+
+  if (clauses.distinct) {
+    parts.push("DISTINCT");
+  }
+
+  if (clauses.value !== null) {
+    parts.push(`VALUE ${clauses.value}`);
+  } else if (clauses.selectionItems.length === 0) {
+    parts.push("*");
+  } else {
+    parts.push(
+      clauses.selectionItems.map((item) =>
+        item.name.startsWith("$") || item.expression === item.name ||
+          item.expression.endsWith(`.${item.name}`)
+          ? item.expression
+          : `${item.expression} AS ${item.name}`
+      ).join(", "),
+    );
+  }
+
+  parts.push(clauses.fromWhere);
+
+  if (clauses.groupBy.length > 0) {
+    parts.push(`GROUP BY ${clauses.groupBy.join(", ")}`);
+  }
+
+  if (clauses.orderBy.length > 0) {
+    parts.push(
+      `ORDER BY ${
+        clauses.orderBy.map((item) =>
+          `${item.expression} ${item.descending ? "DESC" : "ASC"}`
+        ).join(", ")
+      }`,
+    );
+  }
+
+  if (clauses.offset !== null) {
+    parts.push(`OFFSET ${clauses.offset}`);
+  }
+
+  if (clauses.limit !== null) {
+    parts.push(`LIMIT ${clauses.limit}`);
+  }
+
+  return parts.join(" ");
+}
+
+/**
+ * Returns true if the query uses DISTINCT, TOP or OFFSET at the top
+ * level, i.e. if the combined results of the query are restricted
+ * to a window.
+ * @param query A Cosmos SQL query.
+ */
+export function containsQueryWindow(query: string): boolean {
+  const masked = maskQuery(query);
+
+  return ["DISTINCT", "TOP", "OFFSET"].some((keyword) =>
+    findKeyword(masked, keyword, 0) >= 0
+  );
+}
+
+/**
+ * Splits a list of expressions on the commas that appear at the
+ * top level, i.e. not inside strings or brackets.
+ * @param text A comma separated list of expressions.
+ */
+export function splitTopLevel(text: string): string[] {
+  const masked = maskQuery(text);
+  const items: string[] = [];
+  let start = 0;
+
+  for (let i = 0; i < masked.length; i++) {
+    if (masked[i] === ",") {
+      items.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+
+  items.push(text.slice(start).trim());
+
+  return items.filter((item) => item.length > 0);
+}
+
+/**
+ * Parses the text between SELECT and FROM.
+ * @param text The selection text.
+ * @param masked The masked selection text.
+ */
+function parseSelection(text: string, masked: string) {
+  let top: string | null = null;
+  let distinct = false;
+  let position = 0;
+
+  while (true) {
+    const topMatch = /^\s*TOP\s+(\S+)/i.exec(masked.slice(position));
+
+    if (topMatch) {
+      top = text.slice(position).trim().split(/\s+/)[1];
+      position += topMatch[0].length;
+      continue;
+    }
+
+    const distinctMatch = /^\s*DISTINCT\b/i.exec(masked.slice(position));
+
+    if (distinctMatch) {
+      distinct = true;
+      position += distinctMatch[0].length;
+      continue;
+    }
+
+    break;
+  }
+
+  const remainder = text.slice(position).trim();
+  const valueMatch = /^VALUE\b/i.exec(remainder);
+
+  if (valueMatch) {
+    return {
+      top,
+      distinct,
+      value: remainder.slice(valueMatch[0].length).trim(),
+      selectionItems: [],
+    };
+  }
+
+  if (remainder === "*") {
+    return { top, distinct, value: null, selectionItems: [] };
+  }
+
+  return {
+    top,
+    distinct,
+    value: null,
+    selectionItems: splitTopLevel(remainder).map(parseSelectionItem),
+  };
+}
+
+/**
+ * Parses an item of the selection list, determining the name that
+ * the value will be assigned to in each record.
+ * @param item An item of the selection list, e.g. d.id or SUM(d.x) AS total.
+ * @param index The position of the item in the selection list.
+ */
+function parseSelectionItem(item: string, index: number): QuerySelectionItem {
+  const aliasMatch = /^([\s\S]+?)\s+AS\s+([A-Za-z_$][\w$]*)$/i.exec(item);
+
+  if (aliasMatch) {
+    return { expression: aliasMatch[1].trim(), name: aliasMatch[2] };
+  }
+
+  const pathMatch = /^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*$/.exec(item);
+
+  if (pathMatch) {
+    const segments = item.split(".");
+    return { expression: item, name: segments[segments.length - 1] };
+  }
+
+  return { expression: item, name: `$${index + 1}` };
+}
+
+/**
+ * Parses an item of the ORDER BY clause.
+ * @param item An item of the ORDER BY clause, e.g. d.name DESC.
+ */
+function parseOrderByItem(item: string): QueryOrderByItem {
+  const directionMatch = /\s+(ASC|DESC)$/i.exec(item);
+
+  return directionMatch
+    ? {
+      expression: item.slice(0, directionMatch.index).trim(),
+      descending: directionMatch[1].toUpperCase() === "DESC",
+    }
+    : { expression: item, descending: false };
+}
+
+/**
+ * Returns the position of the first occurrence of the keyword at
+ * the top level of the masked query, after the given position,
+ * or -1 if the keyword does not appear.  A word that is preceded
+ * by a dot is a property name, e.g. d.limit, not a keyword.
+ * @param masked A masked query.
+ * @param keyword A keyword pattern, e.g. ORDER\s+BY.
+ * @param from The position to start searching from.
+ */
+function findKeyword(masked: string, keyword: string, from: number) {
+  const regex = new RegExp(`(?<!\\.\\s*)\\b${keyword}\\b`, "gi");
+  regex.lastIndex = from;
+  const match = regex.exec(masked);
+  return match ? match.index : -1;
+}
+
+/**
+ * Returns a copy of the query where the content of strings and
+ * brackets has been replaced with spaces, so that keywords and
+ * commas at the top level of the query can be found with a regex.
+ * @param query A Cosmos SQL query.
+ */
+function maskQuery(query: string) {
+  let masked = "";
+  let quote: string | null = null;
+  let depth = 0;
+
+  for (let i = 0; i < query.length; i++) {
+    const ch = query[i];
+
+    if (quote) {
+      if (ch === "\\") {
+        masked += "  ";
+        i++;
+        continue;
+      }
+
+      if (ch === quote) {
+        quote = null;
+      }
+
+      masked += " ";
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+      masked += " ";
+    } else if (ch === "(" || ch === "[" || ch === "{") {
+      depth++;
+      masked += " ";
+    } else if (ch === ")" || ch === "]" || ch === "}") {
+      depth--;
+      masked += " ";
+    } else {
+      masked += depth > 0 ? " " : ch;
+    }
+  }
+
+  return masked;
+}
@@ -0,0 +1,120 @@
+import {
+  StandInCollection,
+  StandInDocument,
+  StandInPartitionKey,
+} from "./standInTypes.ts";
+import { ensureResourceId } from "./ensureResourceId.ts";
+import { createDocumentKey } from "./createDocumentKey.ts";
+import { getPartitionKeyValue } from "./getPartitionKeyValue.ts";
+import { StandInError } from "./standInError.ts";
+import { writeDocument } from "./writeDocument.ts";
+
+/**
+ * Applies a single batch operation to a collection and returns the
+ * result, raising a StandInError if the operation fails.
+ * @param collection The collection, which may be a staging copy.
+ * @param partitionKeyValue The partition key value of the batch.
+ * @param operation A batch operation.
+ */
+export function applyBatchOperation(
+  collection: StandInCollection,
+  partitionKeyValue: StandInPartitionKey,
+  operation: {
+    operationType: string;
+    id?: string;
+    ifMatch?: string;
+    resourceBody?: StandInDocument;
+  },
+) {
+  const body = operation.resourceBody;
+  const id = ensureResourceId(body ? body.id : operation.id);
+  const documentKey = createDocumentKey(partitionKeyValue, id);
+  const existing = collection.documents.get(documentKey);
+
+  if (
+    body &&
+    JSON.stringify(getPartitionKeyValue(collection, body)) !==
+      JSON.stringify(partitionKeyValue)
+  ) {
+    throw new StandInError(
+      400,
+      "BadRequest",
+      "PartitionKey extracted from document doesn't match the one specified in the header.",
+    );
+  }
+
+  const ensureExists = () => {
+    if (!existing) {
+      throw new StandInError(
+        404,
+        "NotFound",
+        "Entity with the specified id does not exist in the system.",
+      );
+    }
+
+    if (
+      operation.ifMatch && operation.ifMatch !== "*" &&
+      operation.ifMatch !== existing._etag
+    ) {
+      throw new StandInError(
+        412,
+        "PreconditionFailed",
+        "Operation cannot be performed because one of the specified precondition is not met.",
+      );
+    }
+
+    return existing;
+  };
+
+  switch (operation.operationType) {
+    case "Create":
+    case "Upsert":
+    case "Replace": {
+      if (operation.operationType === "Create" && existing) {
+        throw new StandInError(
+          409,
+          "Conflict",
+          "Entity with the specified id already exists in the system.",
+        );
+      }
+
+      if (operation.operationType === "Replace") {
+        ensureExists();
+      }
+
+      const stored = writeDocument(
+        collection,
+        documentKey,
+        body as StandInDocument,
+      );
+
+      return {
+        statusCode: existing ? 200 : 201,
+        requestCharge: existing ? 10.29 : 5.71,
+        eTag: stored._etag,
+        resourceBody: stored,
+      };
+    }
+    case "Delete":
+      ensureExists();
+      collection.documents.delete(documentKey);
+      collection.lsn++;
+      return { statusCode: 204, requestCharge: 5.71 };
+    case "Read": {
+      const doc = ensureExists();
+
+      return {
+        statusCode: 200,
+        requestCharge: 1,
+        eTag: doc._etag,
+        resourceBody: doc,
+      };
+    }
+    default:
+      throw new StandInError(
+        400,
+        "BadRequest",
+        `Batch operation type '${operation.operationType}' is not supported.`,
+      );
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * A patch operation as received by the stand-in.
+ */
+interface PatchOperation {
+  /**
+   * The type of operation.
+   */
+  op: string;
+
+  /**
+   * The path that the operation targets.
+   */
+  path: string;
+
+  /**
+   * The path that a move operation takes the value from.
+   */
+  from?: string;
+
+  /**
+   * The value used by the operation.
+   */
+  value?: unknown;
+}
+
+/**
+ * Returns a copy of the given document with the patch operations
+ * applied, following the semantics described here:
+ * https://learn.microsoft.com/en-us/azure/cosmos-db/partial-document-update.
+ * An error is raised if any of the operations cannot be applied.
+ * @param doc A document.
+ * @param operations An array of patch operations.
+ */
+export function applyPatchOperations(
+  doc: Record<string, unknown>,
+  operations: PatchOperation[],
+): Record<string, unknown> {
+  if (!Array.isArray(operations) || operations.length === 0) {
+    throw new Error("At least one patch operation must be supplied.");
+  }
+
+  if (operations.length > 10) {
+    throw new Error("A maximum of 10 patch operations can be supplied.");
+  }
+
+  const result = structuredClone(doc);
+
+  for (const operation of operations) {
+    const segments = parsePath(operation.path);
+    const parent = resolveParent(result, segments);
+    const last = segments[segments.length - 1];
+
+    switch (operation.op) {
+      case "add":
+        writeValue(parent, last, operation.value, "insert");
+        break;
+      case "set":
+        writeValue(parent, last, operation.value, "overwrite");
+        break;
+      case "replace":
+        readValue(parent, last);
+        writeValue(parent, last, operation.value, "overwrite");
+        break;
+      case "remove":
+        readValue(parent, last);
+        removeValue(parent, last);
+        break;
+      case "incr": {
+        const existing = hasValue(parent, last) ? readValue(parent, last) : 0;
+
+        if (
+          typeof existing !== "number" || typeof operation.value !== "number"
+        ) {
+          throw new Error(
+            `Cannot increment a non-numeric value at ${operation.path}.`,
+          );
+        }
+
+        writeValue(parent, last, existing + operation.value, "overwrite");
+        break;
+      }
+      case "move": {
+        const fromSegments = parsePath(operation.from || "");
+        const fromParent = resolveParent(result, fromSegments);
+        const fromLast = fromSegments[fromSegments.length - 1];
+        const value = readValue(fromParent, fromLast);
+        removeValue(fromParent, fromLast);
+        writeValue(resolveParent(result, segments), last, value, "overwrite");
+        break;
+      }
+      default:
+        throw new Error(`Patch operation '${operation.op}' is not supported.`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Splits a JSON pointer into its segments.
+ * @param path A JSON pointer, e.g. /address/city.
+ */
+function parsePath(path: string) {
+  if (typeof path !== "string" || !path.startsWith("/") || path.length < 2) {
+    throw new Error(`The path '${path}' is not valid.`);
+  }
+
+  return path.slice(1).split("/").map((s) =>
+    s.replace(/~1/g, "/").replace(/~0/g, "~")
+  );
+}
+
+/**
+ * Returns the object or array that holds the value at the given path.
+ * @param doc A document.
+ * @param segments The segments of a path.
+ */
+function resolveParent(doc: Record<string, unknown>, segments: string[]) {
+  let current: unknown = doc;
+
+  for (const segment of segments.slice(0, segments.length - 1)) {
+    current = readValue(current, segment);
+  }
+
+  if (current === null || typeof current !== "object") {
+    throw new Error(`The path /${segments.join("/")} cannot be resolved.`);
+  }
+
+  return current as Record<string, unknown> | unknown[];
+}
+
+/**
+ * Returns true if the container holds a value for the given key.
+ * @param container An object or array.
+ * @param key A property name or array index.
+ */
+function hasValue(container: unknown, key: string) {
+  if (Array.isArray(container)) {
+    const index = parseInt(key);
+    return index >= 0 && index < container.length;
+  }
+
+  return container !== null && typeof container === "object" &&
+    Object.prototype.hasOwnProperty.call(container, key);
+}
+
+/**
+ * Returns the value held by the container for the given key,
+ * raising an error if the value does not exist.
+ * @param container An object or array.
+ * @param key A property name or array index.
+ */
+function readValue(container: unknown, key: string): unknown {
+  if (!hasValue(container, key)) {
+    throw new Error(`The path segment '${key}' does not exist.`);
+  }
+
+  return Array.isArray(container)
+    ? container[parseInt(key)]
+    : (container as Record<string, unknown>)[key];
+}
+
+/**
+ * Writes a value to the container.  For arrays, the insert mode adds
+ * a new element at the index (or the end for '-') whereas the overwrite
+ * mode updates an existing element.
+ * @param container An object or array.
+ * @param key A property name, array index or '-'.
+ * @param value The value to write.
+ * @param mode Either insert or overwrite.
+ */
+function writeValue(
+  container: Record<string, unknown> | unknown[],
+  key: string,
+  value: unknown,
+  mode: "insert" | "overwrite",
+) {
+  if (!Array.isArray(container)) {
+    container[key] = value;
+    return;
+  }
+
+  const index = key === "-" ? container.length : parseInt(key);
+
+  if (isNaN(index) || index < 0 || index > container.length) {
+    throw new Error(`The array index '${key}' is not valid.`);
+  }
+
+  if (mode === "insert" || index === container.length) {
+    container.splice(index, 0, value);
+  } else {
+    container[index] = value;
+  }
+}
+
+/**
+ * Removes the value held by the container for the given key.
+ * @param container An object or array.
+ * @param key A property name or array index.
+ */
+function removeValue(
+  container: Record<string, unknown> | unknown[],
+  key: string,
+) {
+  if (Array.isArray(container)) {
+    container.splice(parseInt(key), 1);
+  } else {
+    delete container[key];
+  }
+}
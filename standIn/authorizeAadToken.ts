@@ -0,0 +1,21 @@
+import { StandInState } from "./standInTypes.ts";
+
+/**
+ * Verifies the bearer token of a request that uses aad authorization,
+ * using the function supplied when the stand-in was started.
+ * The format of the header is described here:
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/access-control-on-cosmosdb-resources.
+ * @param state The state of the stand-in.
+ * @param authorizationHeader The decoded value of the Authorization
+ * header.
+ */
+export function authorizeAadToken(
+  state: StandInState,
+  authorizationHeader: string,
+) {
+  const token = new URLSearchParams(authorizationHeader).get("sig");
+
+  return state.isAadTokenValid && token && state.isAadTokenValid(token)
+    ? "valid"
+    : "invalidSignature";
+}
@@ -0,0 +1,67 @@
+import { StandInState } from "./standInTypes.ts";
+import { isSamePartitionKey } from "./isSamePartitionKey.ts";
+
+/**
+ * Verifies that a resource token was issued by the stand-in and has
+ * not expired, and that its permission still exists and grants access
+ * to the request.  A permission with the Read mode only allows reads
+ * and queries, and a permission restricted to a partition key only
+ * allows document requests that target that logical partition.
+ * Resource tokens and permission modes are described here:
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/access-control-on-cosmosdb-resources
+ * and the test of resource tokens in lifeCycle.test.ts also runs
+ * against a live account.
+ * @param state The state of the stand-in.
+ * @param raw The request.
+ * @param authorizationHeader The decoded value of the Authorization
+ * header.
+ * @param resourceLocation The resource type and resource link
+ * addressed by the request.
+ */
+export function authorizeResourceToken(
+  state: StandInState,
+  raw: Request,
+  authorizationHeader: string,
+  resourceLocation: { resourceType: string; resourceLink: string },
+) {
+  const issued = state.resourceTokens.get(authorizationHeader);
+  const permission = issued && state.databases.get(issued.databaseName)
+    ?.users.get(issued.userName)?.permissions.get(issued.permissionId);
+
+  if (!issued || !permission) {
+    return "invalidSignature";
+  }
+
+  if (issued.expires < Date.now()) {
+    state.resourceTokens.delete(authorizationHeader);
+    return "expired";
+  }
+
+  const resource = (permission.resource as string).replace(/^\/+|\/+$/g, "");
+  const link = resourceLocation.resourceLink;
+
+  if (link !== resource && !link.startsWith(`${resource}/`)) {
+    return "insufficientPermissions";
+  }
+
+  const isRead = raw.method === "GET" ||
+    (raw.method === "POST" &&
+      raw.headers.get("content-type") === "application/query+json");
+
+  if (permission.permissionMode === "Read" && !isRead) {
+    return "insufficientPermissions";
+  }
+
+  if (
+    permission.resourcePartitionKey !== undefined &&
+    resourceLocation.resourceType === "docs" &&
+    !isSamePartitionKey(
+      raw.headers.get("x-ms-documentdb-partitionkey"),
+      permission.resourcePartitionKey,
+    )
+  ) {
+    return "insufficientPermissions";
+  }
+
+  return "valid";
+}
@@ -0,0 +1,14 @@
+import { StandInOfferContent } from "./standInTypes.ts";
+
+/**
+ * Returns the content of an offer with autoscale throughput.
+ * @param maxThroughput The maximum throughput in RU/s.
+ */
+export function createAutoscaleOfferContent(
+  maxThroughput: number,
+): StandInOfferContent {
+  return {
+    offerThroughput: maxThroughput / 10,
+    offerAutopilotSettings: { maxThroughput },
+  };
+}
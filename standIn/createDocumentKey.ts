@@ -0,0 +1,13 @@
+import { StandInPartitionKey } from "./standInTypes.ts";
+
+/**
+ * Returns the key used to store a document within a collection.
+ * @param partitionKeyValue A partition key value.
+ * @param id The id of a document.
+ */
+export function createDocumentKey(
+  partitionKeyValue: StandInPartitionKey,
+  id: string,
+) {
+  return `${JSON.stringify(partitionKeyValue)}|${id}`;
+}
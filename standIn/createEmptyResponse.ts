@@ -0,0 +1,11 @@
+/**
+ * Returns a response with no body.
+ * @param status The Http status.
+ * @param headers Additional headers.
+ */
+export function createEmptyResponse(
+  status: number,
+  headers: Record<string, string>,
+) {
+  return new Response(null, { status, headers });
+}
@@ -0,0 +1,19 @@
+/**
+ * Returns a response with a JSON body.
+ * @param status The Http status.
+ * @param body The body of the response.
+ * @param headers Additional headers.
+ */
+export function createJsonResponse(
+  status: number,
+  body: unknown,
+  headers: Record<string, string>,
+) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "content-type": "application/json",
+      ...headers,
+    },
+  });
+}
@@ -0,0 +1,13 @@
+import { StandInOfferContent } from "./standInTypes.ts";
+
+/**
+ * Returns the content of an offer with manual throughput.
+ * @param throughput The throughput in RU/s.
+ */
+export function createManualOfferContent(
+  throughput: number,
+): StandInOfferContent {
+  return {
+    offerThroughput: throughput,
+  };
+}
@@ -0,0 +1,12 @@
+import { StandInError } from "./standInError.ts";
+
+/**
+ * Returns an error for a method that is not supported on a resource.
+ */
+export function createMethodNotAllowedError() {
+  return new StandInError(
+    405,
+    "MethodNotAllowed",
+    "The requested verb is not supported.",
+  );
+}
@@ -0,0 +1,73 @@
+import {
+  StandInOfferContent,
+  StandInRequest,
+  StandInState,
+} from "./standInTypes.ts";
+import { StandInError } from "./standInError.ts";
+import { createManualOfferContent } from "./createManualOfferContent.ts";
+import { createAutoscaleOfferContent } from "./createAutoscaleOfferContent.ts";
+import { ensureOfferContentValid } from "./ensureOfferContentValid.ts";
+import { createSystemProperties } from "./createSystemProperties.ts";
+
+/**
+ * Creates an offer for the given database or collection resource if
+ * throughput was requested using the offer headers.
+ * @param state The state of the stand-in.
+ * @param req An authorized request to create a database or collection.
+ * @param resource The resource that is being created.
+ */
+export function createOffer(
+  state: StandInState,
+  req: StandInRequest,
+  resource: Record<string, unknown>,
+) {
+  const throughputHeader = req.headers.get("x-ms-offer-throughput");
+  const autopilotHeader = req.headers.get(
+    "x-ms-cosmos-offer-autopilot-settings",
+  );
+
+  if (throughputHeader === null && autopilotHeader === null) {
+    return;
+  }
+
+  if (throughputHeader !== null && autopilotHeader !== null) {
+    throw new StandInError(
+      400,
+      "BadRequest",
+      "Manual and autoscale throughput cannot both be specified.",
+    );
+  }
+
+  let content: StandInOfferContent;
+
+  try {
+    content = throughputHeader !== null
+      ? createManualOfferContent(parseInt(throughputHeader))
+      : createAutoscaleOfferContent(
+        JSON.parse(autopilotHeader as string).maxThroughput,
+      );
+  } catch {
+    throw new StandInError(
+      400,
+      "BadRequest",
+      "The autoscale settings header is invalid.",
+    );
+  }
+
+  ensureOfferContentValid(content);
+
+  const id = (state.nextOfferNumber++).toString(36).padStart(4, "0");
+
+  state.offers.set(id, {
+    resource: createSystemProperties({
+      id,
+      _rid: id,
+      offerVersion: "V2",
+      offerType: "Invalid",
+      resource: resource._self,
+      offerResourceId: resource._rid,
+      content,
+    }, `offers/${id}`),
+    isReplacePending: false,
+  });
+}
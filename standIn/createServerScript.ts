@@ -0,0 +1,23 @@
+import { StandInError } from "./standInError.ts";
+import { createSystemProperties } from "./createSystemProperties.ts";
+
+/**
+ * Returns the resource of a server-side script, raising a bad
+ * request error if the body of the script is missing.
+ * @param body The body of a request to create or replace a script.
+ * @param self The self link of the script.
+ */
+export function createServerScript(
+  body: Record<string, unknown>,
+  self: string,
+) {
+  if (typeof body.body !== "string" || body.body.trim().length === 0) {
+    throw new StandInError(
+      400,
+      "BadRequest",
+      "The body of a script must be a non-empty string.",
+    );
+  }
+
+  return createSystemProperties(body, self);
+}
@@ -0,0 +1,72 @@
+import { StandInCollection, StandInPartitionKey } from "./standInTypes.ts";
+import {
+  ServerScriptCollection,
+  ServerScriptError,
+} from "./runServerScript.ts";
+import { applyBatchOperation } from "./applyBatchOperation.ts";
+import { StandInError } from "./standInError.ts";
+import { executeCosmosQuery } from "./executeCosmosQuery.ts";
+import { getPartitionKeyValue } from "./getPartitionKeyValue.ts";
+
+/**
+ * Returns the operations available to a server-side script, which act
+ * on the documents of a single logical partition of the given collection.
+ * Any failure is raised as an error that the script can handle.
+ * @param collection The collection, typically a staging copy.
+ * @param partitionKeyValue The partition key value the script is scoped to.
+ * @param onRequestCharge Called with the charge of each operation.
+ */
+export function createServerScriptCollection(
+  collection: StandInCollection,
+  partitionKeyValue: StandInPartitionKey,
+  onRequestCharge: (charge: number) => void,
+): ServerScriptCollection {
+  const apply = (operation: Parameters<typeof applyBatchOperation>[2]) => {
+    try {
+      const result = applyBatchOperation(
+        collection,
+        partitionKeyValue,
+        operation,
+      );
+
+      onRequestCharge(result.requestCharge);
+
+      return result.resourceBody as Record<string, unknown>;
+    } catch (err) {
+      throw err instanceof StandInError
+        ? new ServerScriptError(err.status, err.message)
+        : err;
+    }
+  };
+
+  return {
+    selfLink: collection.resource._self as string,
+    createDocument: (doc, upsert) =>
+      apply({
+        operationType: upsert ? "Upsert" : "Create",
+        resourceBody: doc,
+      }),
+    readDocument: (id) => apply({ operationType: "Read", id }),
+    replaceDocument: (id, doc, ifMatch) =>
+      apply({
+        operationType: "Replace",
+        resourceBody: { ...doc, id },
+        ifMatch,
+      }),
+    deleteDocument: (id, ifMatch) => {
+      apply({ operationType: "Delete", id, ifMatch });
+    },
+    queryDocuments: (query, parameters) => {
+      const partitionJson = JSON.stringify(partitionKeyValue);
+
+      return executeCosmosQuery(
+        query,
+        parameters,
+        Array.from(collection.documents.values()).filter((doc) =>
+          JSON.stringify(getPartitionKeyValue(collection, doc)) ===
+            partitionJson
+        ),
+      );
+    },
+  };
+}
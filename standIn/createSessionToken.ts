@@ -0,0 +1,23 @@
+import {
+  StandInCollection,
+  StandInPartitionKey,
+  StandInState,
+} from "./standInTypes.ts";
+import { getPartitionKeyRangeId } from "./getPartitionKeyRangeId.ts";
+
+/**
+ * Returns a session token for the partition key range that
+ * holds the given partition key value.
+ * @param state The state of the stand-in.
+ * @param collection The collection.
+ * @param partitionKeyValue A partition key value.
+ */
+export function createSessionToken(
+  state: StandInState,
+  collection: StandInCollection,
+  partitionKeyValue: StandInPartitionKey,
+) {
+  return `${
+    getPartitionKeyRangeId(state, partitionKeyValue)
+  }:-1#${collection.lsn}`;
+}
@@ -0,0 +1,26 @@
+import { encodeBase64 } from "../deps.ts";
+
+/**
+ * Returns a copy of the given resource with the system
+ * properties (_rid, _self, _etag and _ts) assigned.
+ * The system properties are described here:
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/documents.
+ * @param resource A resource.
+ * @param self The self link of the resource.
+ */
+export function createSystemProperties(
+  resource: Record<string, unknown>,
+  self: string,
+) {
+  const rid = typeof resource._rid === "string"
+    ? resource._rid
+    : encodeBase64(crypto.getRandomValues(new Uint8Array(6)));
+
+  return {
+    ...resource,
+    _rid: rid,
+    _self: self.endsWith("/") ? self : `${self}/`,
+    _etag: `"${crypto.randomUUID()}"`,
+    _ts: Math.floor(Date.now() / 1000),
+  };
+}
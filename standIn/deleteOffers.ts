@@ -0,0 +1,19 @@
+import { StandInState } from "./standInTypes.ts";
+
+/**
+ * Removes the offers of the given database and collection resources.
+ * @param state The state of the stand-in.
+ * @param resources The resources that are being deleted.
+ */
+export function deleteOffers(
+  state: StandInState,
+  resources: Record<string, unknown>[],
+) {
+  const rids = resources.map((r) => r._rid);
+
+  for (const [id, offer] of state.offers) {
+    if (rids.includes(offer.resource.offerResourceId)) {
+      state.offers.delete(id);
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import { StandInDocument } from "./standInTypes.ts";
+import { executeCosmosQuery } from "./executeCosmosQuery.ts";
+import { StandInError } from "./standInError.ts";
+
+/**
+ * Raises a precondition failed error if a filter predicate was
+ * supplied that is not satisfied by the existing document.
+ * Conditional patches are described here:
+ * https://learn.microsoft.com/en-us/azure/cosmos-db/partial-document-update.
+ * @param condition A filter predicate, e.g. FROM c WHERE c.active = true.
+ * @param existing The existing document.
+ */
+export function ensureCondition(
+  condition: string | undefined,
+  existing: StandInDocument,
+) {
+  if (!condition) {
+    return;
+  }
+
+  let results: unknown[];
+
+  try {
+    results = executeCosmosQuery(`SELECT VALUE 1 ${condition}`, [], [
+      existing,
+    ]);
+  } catch (err) {
+    throw new StandInError(
+      400,
+      "BadRequest",
+      `The condition is not valid. ${(err as Error).message}`,
+    );
+  }
+
+  if (results.length === 0) {
+    throw new StandInError(
+      412,
+      "PreconditionFailed",
+      "Precondition check failed.",
+    );
+  }
+}
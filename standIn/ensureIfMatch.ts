@@ -0,0 +1,22 @@
+import { StandInDocument, StandInRequest } from "./standInTypes.ts";
+import { StandInError } from "./standInError.ts";
+
+/**
+ * Raises a precondition failed error if the request contains an
+ * If-Match header that does not match the etag of the existing document.
+ * The If-Match header is described here:
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/replace-a-document.
+ * @param req An authorized request.
+ * @param existing The existing document.
+ */
+export function ensureIfMatch(req: StandInRequest, existing: StandInDocument) {
+  const ifMatch = req.headers.get("if-match");
+
+  if (ifMatch && ifMatch !== "*" && ifMatch !== existing._etag) {
+    throw new StandInError(
+      412,
+      "PreconditionFailed",
+      "Operation cannot be performed because one of the specified precondition is not met.",
+    );
+  }
+}
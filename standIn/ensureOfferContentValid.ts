@@ -0,0 +1,47 @@
+import { StandInOfferContent } from "./standInTypes.ts";
+import { StandInError } from "./standInError.ts";
+
+/**
+ * The lowest manual throughput, in RU/s, that can be provisioned.
+ */
+export const MIN_THROUGHPUT = 400;
+
+/**
+ * The lowest maximum throughput, in RU/s, that can be provisioned
+ * using autoscale.
+ */
+export const MIN_AUTOSCALE_THROUGHPUT = 1000;
+
+/**
+ * Raises a bad request error if the throughput of the offer
+ * content is below the minimum or not a valid increment.
+ * The minimums and increments are those listed here:
+ * https://learn.microsoft.com/en-us/azure/cosmos-db/concepts-limits.
+ * @param content The content of an offer.
+ */
+export function ensureOfferContentValid(content: StandInOfferContent) {
+  if (content.offerAutopilotSettings) {
+    const maxThroughput = content.offerAutopilotSettings.maxThroughput;
+
+    if (
+      !Number.isInteger(maxThroughput) ||
+      maxThroughput < MIN_AUTOSCALE_THROUGHPUT || maxThroughput % 1000 !== 0
+    ) {
+      throw new StandInError(
+        400,
+        "BadRequest",
+        `The maximum autoscale throughput must be a multiple of 1000 and at least ${MIN_AUTOSCALE_THROUGHPUT}.`,
+      );
+    }
+  } else if (
+    !Number.isInteger(content.offerThroughput) ||
+    content.offerThroughput < MIN_THROUGHPUT ||
+    content.offerThroughput % 100 !== 0
+  ) {
+    throw new StandInError(
+      400,
+      "BadRequest",
+      `The throughput must be a multiple of 100 and at least ${MIN_THROUGHPUT}.`,
+    );
+  }
+}
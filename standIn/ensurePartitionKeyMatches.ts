@@ -0,0 +1,42 @@
+import {
+  StandInCollection,
+  StandInDocument,
+  StandInRequest,
+} from "./standInTypes.ts";
+import { readPartitionKeyHeader } from "./readPartitionKeyHeader.ts";
+import { getPartitionKeyValue } from "./getPartitionKeyValue.ts";
+import { StandInError } from "./standInError.ts";
+
+/**
+ * Returns the partition key value of the document after verifying it
+ * matches the value supplied in the partition key header.
+ * @param req An authorized request.
+ * @param collection The collection.
+ * @param doc A document.
+ */
+export function ensurePartitionKeyMatches(
+  req: StandInRequest,
+  collection: StandInCollection,
+  doc: StandInDocument,
+) {
+  const headerValue = readPartitionKeyHeader(req, collection);
+  const docValue = getPartitionKeyValue(collection, doc);
+
+  if (headerValue === null) {
+    throw new StandInError(
+      400,
+      "BadRequest",
+      "PartitionKey value must be supplied for this operation.",
+    );
+  }
+
+  if (JSON.stringify(headerValue) !== JSON.stringify(docValue)) {
+    throw new StandInError(
+      400,
+      "BadRequest",
+      "PartitionKey extracted from document doesn't match the one specified in the header.",
+    );
+  }
+
+  return docValue;
+}
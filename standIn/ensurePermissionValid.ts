@@ -0,0 +1,49 @@
+import { StandInDatabase } from "./standInTypes.ts";
+import { StandInError } from "./standInError.ts";
+
+/**
+ * Raises a bad request error if the body of a request to create a
+ * permission does not grant a valid mode on a collection or document
+ * of the database.
+ * @param database The database that holds the user.
+ * @param body The body of a request to create a permission.
+ */
+export function ensurePermissionValid(
+  database: StandInDatabase,
+  body: Record<string, unknown>,
+) {
+  if (body.permissionMode !== "Read" && body.permissionMode !== "All") {
+    throw new StandInError(
+      400,
+      "BadRequest",
+      "The permission mode must be Read or All.",
+    );
+  }
+
+  const segments = typeof body.resource === "string"
+    ? body.resource.split("/").filter((s) => s.length > 0)
+    : [];
+
+  if (
+    (segments.length !== 4 && segments.length !== 6) ||
+    segments[0] !== "dbs" || segments[1] !== database.resource.id ||
+    segments[2] !== "colls" || (segments.length === 6 && segments[4] !== "docs")
+  ) {
+    throw new StandInError(
+      400,
+      "BadRequest",
+      "The resource of a permission must be the link of a collection or document in the database of the user.",
+    );
+  }
+
+  if (
+    body.resourcePartitionKey !== undefined &&
+    !Array.isArray(body.resourcePartitionKey)
+  ) {
+    throw new StandInError(
+      400,
+      "BadRequest",
+      "The partition key of a permission must be an array.",
+    );
+  }
+}
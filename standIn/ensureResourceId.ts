@@ -0,0 +1,20 @@
+import { StandInError } from "./standInError.ts";
+
+/**
+ * Returns the given id if it is a valid resource id, otherwise
+ * raises a bad request error.
+ * The characters that an id cannot contain are listed here:
+ * https://learn.microsoft.com/en-us/azure/cosmos-db/concepts-limits.
+ * @param id A proposed resource id.
+ */
+export function ensureResourceId(id: unknown) {
+  if (typeof id !== "string" || id.length === 0 || /[/\\?#]/.test(id)) {
+    throw new StandInError(
+      400,
+      "BadRequest",
+      "The id of a resource must be a non-empty string without the characters /, \\, ? or #.",
+    );
+  }
+
+  return id;
+}
@@ -0,0 +1,35 @@
+import { StandInState } from "./standInTypes.ts";
+import { StandInError } from "./standInError.ts";
+
+/**
+ * Raises a throttling error if the request units available for
+ * the current one second window have already been consumed.
+ * The 429 response and its substatus are listed here:
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/http-status-codes-for-cosmosdb.
+ * @param state The state of the stand-in.
+ */
+export function ensureThroughputAvailable(state: StandInState) {
+  if (state.requestUnitsPerSecond === null) {
+    return;
+  }
+
+  const now = Date.now();
+
+  if (now - state.throughputWindowStart >= 1000) {
+    state.throughputWindowStart = now;
+    state.throughputWindowConsumed = 0;
+  }
+
+  if (state.throughputWindowConsumed >= state.requestUnitsPerSecond) {
+    throw new StandInError(
+      429,
+      "TooManyRequests",
+      "Request rate is large. More Request Units may be needed, so no changes were made. Please retry this request later.",
+      {
+        "x-ms-retry-after-ms": (state.throughputWindowStart + 1000 - now)
+          .toString(),
+        "x-ms-substatus": "3200",
+      },
+    );
+  }
+}
@@ -0,0 +1,710 @@
+import {
+  CosmosQuery,
+  CosmosQueryExpression,
+  parseCosmosQuery,
+} from "./parseCosmosQuery.ts";
+
+/**
+ * A parameter that is substituted into a Cosmos query.
+ */
+interface CosmosQueryParameter {
+  /**
+   * The name of a parameter, e.g. @city.
+   */
+  name: string;
+
+  /**
+   * The value of a parameter, e.g. "Bournemouth".
+   */
+  value: unknown;
+}
+
+/**
+ * The context in which an expression is evaluated.
+ */
+interface EvaluationScope {
+  /**
+   * The alias used to refer to the current document, or null if
+   * the query has no FROM clause.
+   */
+  alias: string | null;
+
+  /**
+   * The current document.
+   */
+  doc: Record<string, unknown>;
+
+  /**
+   * The documents that make up the current group, used
+   * to evaluate aggregate functions.
+   */
+  group: Record<string, unknown>[] | null;
+
+  /**
+   * The values of the query parameters.
+   */
+  parameters: Map<string, unknown>;
+}
+
+/**
+ * The names of the aggregate functions.
+ */
+const AGGREGATE_FUNCTIONS = ["COUNT", "SUM", "MIN", "MAX", "AVG"];
+
+/**
+ * Executes the given query against an array of documents and returns
+ * the complete set of results.  This mirrors the behaviour of a single
+ * Cosmos physical partition, so aggregates, ordering and paging clauses
+ * are only applied to the given documents.
+ * @param query A Cosmos SQL query.
+ * @param parameters The parameters to substitute into the query.
+ * @param docs The documents to query.
+ */
+export function executeCosmosQuery(
+  query: string,
+  parameters: CosmosQueryParameter[],
+  docs: Record<string, unknown>[],
+): unknown[] {
+  const parsed = parseCosmosQuery(query);
+  const parameterMap = new Map(parameters.map((p) => [p.name, p.value]));
+
+  const scopeFor = (
+    doc: Record<string, unknown>,
+    group: Record<string, unknown>[] | null,
+  ): EvaluationScope => ({
+    alias: parsed.fromAlias,
+    doc,
+    group,
+    parameters: parameterMap,
+  });
+
+  // A query without a FROM clause is evaluated once, rather than
+  // once for each document.
+  const sources = parsed.fromAlias === null ? [{}] : docs;
+
+  const filtered = parsed.where
+    ? sources.filter((doc) =>
+      evaluate(parsed.where as CosmosQueryExpression, scopeFor(doc, null)) ===
+        true
+    )
+    : sources.slice();
+
+  let results: unknown[];
+
+  if (parsed.groupBy.length > 0) {
+    const groups = new Map<string, Record<string, unknown>[]>();
+
+    for (const doc of filtered) {
+      const key = canonicalJson(
+        parsed.groupBy.map((g) => evaluate(g, scopeFor(doc, null))),
+      );
+
+      const group = groups.get(key);
+
+      if (group) {
+        group.push(doc);
+      } else {
+        groups.set(key, [doc]);
+      }
+    }
+
+    results = Array.from(groups.values()).map((group) =>
+      project(parsed, scopeFor(group[0], group))
+    );
+  } else if (isAggregateQuery(parsed)) {
+    results = [project(parsed, scopeFor(filtered[0] || {}, filtered))];
+  } else {
+    if (parsed.orderBy.length > 0) {
+      const keyed = filtered.map((doc) => ({
+        doc,
+        keys: parsed.orderBy.map((o) =>
+          evaluate(o.expression, scopeFor(doc, null))
+        ),
+      }));
+
+      keyed.sort((a, b) => {
+        for (let i = 0; i < parsed.orderBy.length; i++) {
+          const comparison = compareCosmosValues(a.keys[i], b.keys[i]);
+
+          if (comparison !== 0) {
+            return parsed.orderBy[i].descending ? -comparison : comparison;
+          }
+        }
+
+        return 0;
+      });
+
+      results = keyed.map((k) => project(parsed, scopeFor(k.doc, null)));
+    } else {
+      results = filtered.map((doc) => project(parsed, scopeFor(doc, null)));
+    }
+  }
+
+  results = results.filter((r) => typeof r !== "undefined");
+
+  if (parsed.distinct) {
+    const seen = new Set<string>();
+
+    results = results.filter((r) => {
+      const key = canonicalJson(r);
+
+      if (seen.has(key)) {
+        return false;
+      }
+
+      seen.add(key);
+      return true;
+    });
+  }
+
+  if (parsed.offset && parsed.limit) {
+    const offset = evaluateNumber(parsed.offset, scopeFor({}, null));
+    const limit = evaluateNumber(parsed.limit, scopeFor({}, null));
+    results = results.slice(offset, offset + limit);
+  }
+
+  if (parsed.top) {
+    results = results.slice(0, evaluateNumber(parsed.top, scopeFor({}, null)));
+  }
+
+  return results;
+}
+
+/**
+ * Compares two values using the Cosmos type ordering, whereby
+ * undefined < null < booleans < numbers < strings.  Values of
+ * the same type are compared naturally.
+ * @param a A value.
+ * @param b Another value.
+ */
+export function compareCosmosValues(a: unknown, b: unknown): number {
+  const rankA = typeRank(a);
+  const rankB = typeRank(b);
+
+  if (rankA !== rankB) {
+    return rankA - rankB;
+  }
+
+  if (typeof a === "boolean" || typeof a === "number") {
+    return Number(a) - Number(b);
+  }
+
+  if (typeof a === "string") {
+    return a < (b as string) ? -1 : a > (b as string) ? 1 : 0;
+  }
+
+  return 0;
+}
+
+/**
+ * Returns the position of the type of the given value within
+ * the Cosmos type ordering.
+ * @param value A value.
+ */
+function typeRank(value: unknown) {
+  if (typeof value === "undefined") {
+    return 0;
+  } else if (value === null) {
+    return 1;
+  } else if (typeof value === "boolean") {
+    return 2;
+  } else if (typeof value === "number") {
+    return 3;
+  } else if (typeof value === "string") {
+    return 4;
+  } else if (Array.isArray(value)) {
+    return 5;
+  } else {
+    return 6;
+  }
+}
+
+/**
+ * Returns a JSON representation of a value where the keys of
+ * objects are sorted, so that equal values produce equal strings.
+ * @param value A value.
+ */
+function canonicalJson(value: unknown): string {
+  if (typeof value === "undefined") {
+    return "undefined";
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+
+  if (value !== null && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+
+    return `{${
+      Object.keys(record).sort().filter((k) => typeof record[k] !== "undefined")
+        .map((k) => `${JSON.stringify(k)}:${canonicalJson(record[k])}`).join(
+          ",",
+        )
+    }}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Returns true if each result of the query is produced from a single
+ * document, regardless of the other documents, so that the query can
+ * be resumed from any document.  Queries with aggregates, grouping,
+ * ordering, DISTINCT, TOP or OFFSET do not qualify.
+ * @param query A Cosmos SQL query.
+ */
+export function isQueryResumableByDocument(query: string): boolean {
+  const parsed = parseCosmosQuery(query);
+
+  return parsed.fromAlias !== null && !parsed.distinct &&
+    parsed.top === null && parsed.groupBy.length === 0 &&
+    parsed.orderBy.length === 0 && parsed.offset === null &&
+    !isAggregateQuery(parsed);
+}
+
+/**
+ * Returns true if the selection of the query uses an aggregate
+ * function, which means all the documents are reduced to a single result.
+ * @param query A parsed query.
+ */
+function isAggregateQuery(query: CosmosQuery) {
+  return query.selections.some((s) => containsAggregate(s.expression));
+}
+
+/**
+ * Returns true if the expression contains an aggregate function.
+ * @param expression An expression.
+ */
+function containsAggregate(expression: CosmosQueryExpression): boolean {
+  switch (expression.kind) {
+    case "call":
+      return AGGREGATE_FUNCTIONS.includes(expression.name) ||
+        expression.args.some(containsAggregate);
+    case "property":
+      return containsAggregate(expression.target);
+    case "index":
+      return containsAggregate(expression.target) ||
+        containsAggregate(expression.index);
+    case "unary":
+      return containsAggregate(expression.operand);
+    case "binary":
+      return containsAggregate(expression.left) ||
+        containsAggregate(expression.right);
+    case "conditional":
+      return containsAggregate(expression.condition) ||
+        containsAggregate(expression.whenTrue) ||
+        containsAggregate(expression.whenFalse);
+    case "array":
+      return expression.items.some(containsAggregate);
+    case "object":
+      return expression.properties.some((p) => containsAggregate(p.value));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Produces the result for a document (or group of documents)
+ * based on the selection of the query.
+ * @param query A parsed query.
+ * @param scope The scope for evaluation.
+ */
+function project(query: CosmosQuery, scope: EvaluationScope): unknown {
+  if (query.selectAll) {
+    return scope.doc;
+  }
+
+  if (query.selectValue) {
+    return evaluate(query.selections[0].expression, scope);
+  }
+
+  const result: Record<string, unknown> = {};
+
+  query.selections.forEach((selection, index) => {
+    const value = evaluate(selection.expression, scope);
+
+    if (typeof value !== "undefined") {
+      result[selection.alias || inferName(selection.expression, index)] = value;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Returns the name that Cosmos assigns to a selected
+ * expression that was not given an alias.
+ * @param expression An expression.
+ * @param index The position of the expression in the selection.
+ */
+function inferName(expression: CosmosQueryExpression, index: number) {
+  if (expression.kind === "property") {
+    return expression.name;
+  } else if (expression.kind === "identifier") {
+    return expression.name;
+  } else {
+    return `$${index + 1}`;
+  }
+}
+
+/**
+ * Evaluates an expression that must produce a number.
+ * @param expression An expression.
+ * @param scope The scope for evaluation.
+ */
+function evaluateNumber(
+  expression: CosmosQueryExpression,
+  scope: EvaluationScope,
+) {
+  const value = evaluate(expression, scope);
+
+  if (typeof value !== "number") {
+    throw new Error("Expected a numeric value for TOP, OFFSET or LIMIT.");
+  }
+
+  return value;
+}
+
+/**
+ * Evaluates an expression.
+ * @param expression An expression.
+ * @param scope The scope for evaluation.
+ */
+function evaluate(
+  expression: CosmosQueryExpression,
+  scope: EvaluationScope,
+): unknown {
+  switch (expression.kind) {
+    case "literal":
+      return expression.value;
+    case "parameter":
+      if (!scope.parameters.has(expression.name)) {
+        throw new Error(`Parameter ${expression.name} was not supplied.`);
+      }
+
+      return scope.parameters.get(expression.name);
+    case "identifier":
+      if (expression.name !== scope.alias) {
+        throw new Error(
+          `Identifier '${expression.name}' could not be resolved.`,
+        );
+      }
+
+      return scope.doc;
+    case "property": {
+      const target = evaluate(expression.target, scope);
+
+      return isRecord(target) ? target[expression.name] : undefined;
+    }
+    case "index": {
+      const target = evaluate(expression.target, scope);
+      const index = evaluate(expression.index, scope);
+
+      if (Array.isArray(target) && typeof index === "number") {
+        return target[index];
+      } else if (isRecord(target) && typeof index === "string") {
+        return target[index];
+      } else {
+        return undefined;
+      }
+    }
+    case "unary": {
+      const operand = evaluate(expression.operand, scope);
+
+      if (expression.operator === "NOT") {
+        return typeof operand === "boolean" ? !operand : undefined;
+      } else {
+        return typeof operand === "number" ? -operand : undefined;
+      }
+    }
+    case "binary":
+      return evaluateBinary(
+        expression.operator,
+        evaluate(expression.left, scope),
+        () => evaluate(expression.right, scope),
+      );
+    case "in": {
+      const target = evaluate(expression.target, scope);
+
+      if (typeof target === "undefined") {
+        return undefined;
+      }
+
+      const found = expression.list.some((item) =>
+        canonicalJson(evaluate(item, scope)) === canonicalJson(target)
+      );
+
+      return expression.negate ? !found : found;
+    }
+    case "between": {
+      const target = evaluate(expression.target, scope);
+      const low = evaluateBinary(
+        ">=",
+        target,
+        () => evaluate(expression.low, scope),
+      );
+      const high = evaluateBinary(
+        "<=",
+        target,
+        () => evaluate(expression.high, scope),
+      );
+
+      return evaluateBinary("AND", low, () => high);
+    }
+    case "conditional":
+      return evaluate(expression.condition, scope) === true
+        ? evaluate(expression.whenTrue, scope)
+        : evaluate(expression.whenFalse, scope);
+    case "call":
+      return AGGREGATE_FUNCTIONS.includes(expression.name)
+        ? evaluateAggregate(expression.name, expression.args, scope)
+        : evaluateFunction(
+          expression.name,
+          expression.args.map((a) => evaluate(a, scope)),
+        );
+    case "array":
+      return expression.items.map((item) => evaluate(item, scope)).filter((
+        v,
+      ) => typeof v !== "undefined");
+    case "object": {
+      const result: Record<string, unknown> = {};
+
+      for (const property of expression.properties) {
+        const value = evaluate(property.value, scope);
+
+        if (typeof value !== "undefined") {
+          result[property.name] = value;
+        }
+      }
+
+      return result;
+    }
+  }
+}
+
+/**
+ * Evaluates a binary operator.  The right hand side is only
+ * evaluated if required.
+ * @param operator A binary operator.
+ * @param left The value of the left operand.
+ * @param right A function that returns the value of the right operand.
+ */
+function evaluateBinary(
+  operator: string,
+  left: unknown,
+  right: () => unknown,
+): unknown {
+  if (operator === "AND") {
+    if (left === false) {
+      return false;
+    }
+
+    const r = right();
+
+    if (r === false) {
+      return false;
+    }
+
+    return left === true && r === true ? true : undefined;
+  }
+
+  if (operator === "OR") {
+    if (left === true) {
+      return true;
+    }
+
+    const r = right();
+
+    if (r === true) {
+      return true;
+    }
+
+    return left === false && r === false ? false : undefined;
+  }
+
+  const r = right();
+
+  if (typeof left === "undefined" || typeof r === "undefined") {
+    return undefined;
+  }
+
+  switch (operator) {
+    case "=":
+      return canonicalJson(left) === canonicalJson(r);
+    case "!=":
+      return canonicalJson(left) !== canonicalJson(r);
+    case "<":
+    case "<=":
+    case ">":
+    case ">=": {
+      if (typeRank(left) !== typeRank(r) || typeRank(left) > 4) {
+        return undefined;
+      }
+
+      const comparison = compareCosmosValues(left, r);
+
+      return operator === "<"
+        ? comparison < 0
+        : operator === "<="
+        ? comparison <= 0
+        : operator === ">"
+        ? comparison > 0
+        : comparison >= 0;
+    }
+    case "||":
+      return typeof left === "string" && typeof r === "string"
+        ? left + r
+        : undefined;
+  }
+
+  if (typeof left !== "number" || typeof r !== "number") {
+    return undefined;
+  }
+
+  switch (operator) {
+    case "+":
+      return left + r;
+    case "-":
+      return left - r;
+    case "*":
+      return left * r;
+    case "/":
+      return left / r;
+    case "%":
+      return left % r;
+    default:
+      throw new Error(`Operator ${operator} is not supported.`);
+  }
+}
+
+/**
+ * Evaluates an aggregate function over the documents in the current group.
+ * @param name The name of the aggregate function.
+ * @param args The arguments passed to the aggregate function.
+ * @param scope The scope for evaluation.
+ */
+function evaluateAggregate(
+  name: string,
+  args: CosmosQueryExpression[],
+  scope: EvaluationScope,
+): unknown {
+  if (!scope.group) {
+    throw new Error(`Aggregate ${name} cannot be used in this position.`);
+  }
+
+  const values = scope.group.map((doc) =>
+    evaluate(args[0], { ...scope, doc, group: null })
+  ).filter((v) => typeof v !== "undefined");
+
+  switch (name) {
+    case "COUNT":
+      return values.length;
+    case "SUM":
+      return values.every((v) => typeof v === "number")
+        ? (values as number[]).reduce((agg, cur) => agg + cur, 0)
+        : undefined;
+    case "AVG":
+      return values.length > 0 && values.every((v) => typeof v === "number")
+        ? (values as number[]).reduce((agg, cur) => agg + cur, 0) /
+          values.length
+        : undefined;
+    case "MIN":
+    case "MAX": {
+      const candidates = values.filter((v) => typeRank(v) <= 4);
+
+      if (candidates.length === 0) {
+        return undefined;
+      }
+
+      return candidates.reduce((agg, cur) => {
+        const comparison = compareCosmosValues(cur, agg);
+        return (name === "MIN" ? comparison < 0 : comparison > 0) ? cur : agg;
+      });
+    }
+  }
+}
+
+/**
+ * Evaluates a built-in (non-aggregate) function.
+ * @param name The name of the function.
+ * @param args The values of the arguments.
+ */
+function evaluateFunction(name: string, args: unknown[]): unknown {
+  const [first, second, third] = args;
+
+  switch (name) {
+    case "IS_DEFINED":
+      return typeof first !== "undefined";
+    case "IS_NULL":
+      return first === null;
+    case "IS_BOOL":
+      return typeof first === "boolean";
+    case "IS_NUMBER":
+      return typeof first === "number";
+    case "IS_STRING":
+      return typeof first === "string";
+    case "IS_ARRAY":
+      return Array.isArray(first);
+    case "IS_OBJECT":
+      return isRecord(first);
+    case "LOWER":
+      return typeof first === "string" ? first.toLowerCase() : undefined;
+    case "UPPER":
+      return typeof first === "string" ? first.toUpperCase() : undefined;
+    case "LENGTH":
+      return typeof first === "string" ? first.length : undefined;
+    case "CONCAT":
+      return args.every((a) => typeof a === "string")
+        ? args.join("")
+        : undefined;
+    case "CONTAINS":
+    case "STARTSWITH":
+    case "ENDSWITH": {
+      if (typeof first !== "string" || typeof second !== "string") {
+        return undefined;
+      }
+
+      const text = third === true ? first.toLowerCase() : first;
+      const search = third === true ? second.toLowerCase() : second;
+
+      return name === "CONTAINS"
+        ? text.includes(search)
+        : name === "STARTSWITH"
+        ? text.startsWith(search)
+        : text.endsWith(search);
+    }
+    case "ARRAY_CONTAINS":
+      if (!Array.isArray(first)) {
+        return undefined;
+      }
+
+      return first.some((item) =>
+        third === true && isRecord(item) && isRecord(second)
+          ? Object.keys(second).every((k) =>
+            canonicalJson(item[k]) === canonicalJson(second[k])
+          )
+          : canonicalJson(item) === canonicalJson(second)
+      );
+    case "ARRAY_LENGTH":
+      return Array.isArray(first) ? first.length : undefined;
+    case "ABS":
+      return typeof first === "number" ? Math.abs(first) : undefined;
+    case "FLOOR":
+      return typeof first === "number" ? Math.floor(first) : undefined;
+    case "CEILING":
+      return typeof first === "number" ? Math.ceil(first) : undefined;
+    case "ROUND":
+      return typeof first === "number" ? Math.round(first) : undefined;
+    default:
+      throw new Error(`Function ${name} is not supported.`);
+  }
+}
+
+/**
+ * Returns true if the given value is a (non-array) object.
+ * @param value A value.
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
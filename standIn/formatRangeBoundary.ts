@@ -0,0 +1,24 @@
+/**
+ * The limit of the first 8 hex digits of an effective partition key.
+ * Cosmos clears the top two bits of the hash, so every effective
+ * partition key is less than 40000000.
+ */
+export const EPK_PREFIX_LIMIT = 0x40000000;
+
+/**
+ * Returns a boundary of a partition key range as a hex string,
+ * in the form used by Cosmos, where the lowest boundary is an
+ * empty string and the highest boundary is FF.
+ * @param boundary An effective partition key prefix.
+ */
+export function formatRangeBoundary(boundary: number) {
+  if (boundary === 0) {
+    return "";
+  }
+
+  if (boundary >= EPK_PREFIX_LIMIT) {
+    return "FF";
+  }
+
+  return boundary.toString(16).toUpperCase().padStart(8, "0");
+}
@@ -0,0 +1,9 @@
+import { StandInCollection } from "./standInTypes.ts";
+
+/**
+ * Returns the partition key paths of a collection.
+ * @param collection The collection.
+ */
+export function getPartitionKeyPaths(collection: StandInCollection) {
+  return (collection.resource.partitionKey as { paths: string[] }).paths;
+}
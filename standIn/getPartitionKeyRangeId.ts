@@ -0,0 +1,34 @@
+import { getEffectivePartitionKey } from "../src/getEffectivePartitionKey.ts";
+import {
+  StandInPartitionKey,
+  StandInPartitionKeyRange,
+  StandInState,
+} from "./standInTypes.ts";
+
+/**
+ * Returns the id of the partition key range that holds
+ * documents with the given partition key value.
+ * @param state The state of the stand-in.
+ * @param partitionKeyValue A partition key value.
+ */
+export function getPartitionKeyRangeId(
+  state: StandInState,
+  partitionKeyValue: StandInPartitionKey,
+) {
+  const components = partitionKeyValue.map((component) =>
+    component !== null && typeof component === "object" ? undefined : component
+  );
+
+  const epkPrefix = parseInt(
+    getEffectivePartitionKey(
+      components as (string | number | boolean | null | undefined)[],
+    ).slice(0, 8),
+    16,
+  );
+
+  const range = state.partitionKeyRanges.find((r) =>
+    r.min <= epkPrefix && epkPrefix < r.max
+  ) as StandInPartitionKeyRange;
+
+  return range.id;
+}
@@ -0,0 +1,29 @@
+import {
+  StandInCollection,
+  StandInDocument,
+  StandInPartitionKey,
+} from "./standInTypes.ts";
+import { getPartitionKeyPaths } from "./getPartitionKeyPaths.ts";
+
+/**
+ * Returns the partition key value of a document, based on the
+ * partition key paths of the collection.
+ * @param collection The collection.
+ * @param doc A document.
+ */
+export function getPartitionKeyValue(
+  collection: StandInCollection,
+  doc: StandInDocument,
+): StandInPartitionKey {
+  return getPartitionKeyPaths(collection).map((path) => {
+    let value: unknown = doc;
+
+    for (const segment of path.split("/").filter((s) => s.length > 0)) {
+      value = value !== null && typeof value === "object"
+        ? (value as Record<string, unknown>)[segment]
+        : undefined;
+    }
+
+    return value === undefined ? {} : value;
+  });
+}
@@ -0,0 +1,46 @@
+import { StandInCollection, StandInRequest } from "./standInTypes.ts";
+import { StandInError } from "./standInError.ts";
+
+/**
+ * Returns the triggers of the given type named in the request headers,
+ * raising a bad request error if a trigger does not exist or does not
+ * apply to the operation.
+ * @param req An authorized request.
+ * @param collection The collection.
+ * @param triggerType The type of trigger, Pre or Post.
+ * @param operation The type of write.
+ */
+export function getRequestedTriggers(
+  req: StandInRequest,
+  collection: StandInCollection,
+  triggerType: "Pre" | "Post",
+  operation: string,
+) {
+  const header = req.headers.get(
+    `x-ms-documentdb-${triggerType.toLowerCase()}-trigger-include`,
+  );
+
+  if (!header) {
+    return [];
+  }
+
+  return header.split(",").map((name) => name.trim()).filter((name) =>
+    name.length > 0
+  ).map((name) => {
+    const trigger = collection.triggers.get(name);
+
+    if (
+      !trigger || trigger.triggerType !== triggerType ||
+      (trigger.triggerOperation !== "All" &&
+        trigger.triggerOperation !== operation)
+    ) {
+      throw new StandInError(
+        400,
+        "BadRequest",
+        `The ${triggerType.toLowerCase()}-trigger ${name} does not exist or cannot be used for a ${operation} operation.`,
+      );
+    }
+
+    return trigger;
+  });
+}
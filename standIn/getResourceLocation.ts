@@ -0,0 +1,24 @@
+/**
+ * Returns the resource type and resource link that a request
+ * is expected to sign, based on the segments of the request path.
+ * Requests for a feed of resources sign the link of the parent resource.
+ * @param segments The segments of the request path.
+ */
+export function getResourceLocation(segments: string[]) {
+  if (segments.length === 0) {
+    return { resourceType: "", resourceLink: "" };
+  } else if (segments[0] === "offers" && segments.length === 2) {
+    // Offers are addressed by resource id, which is signed in lowercase.
+    return { resourceType: "offers", resourceLink: segments[1].toLowerCase() };
+  } else if (segments.length % 2 === 1) {
+    return {
+      resourceType: segments[segments.length - 1],
+      resourceLink: segments.slice(0, segments.length - 1).join("/"),
+    };
+  } else {
+    return {
+      resourceType: segments[segments.length - 2],
+      resourceLink: segments.join("/"),
+    };
+  }
+}
@@ -0,0 +1,117 @@
+import {
+  StandInCollection,
+  StandInDocument,
+  StandInRequest,
+  StandInState,
+} from "./standInTypes.ts";
+import { readPartitionKeyHeader } from "./readPartitionKeyHeader.ts";
+import { StandInError } from "./standInError.ts";
+import { applyBatchOperation } from "./applyBatchOperation.ts";
+import { createJsonResponse } from "./createJsonResponse.ts";
+import { createSessionToken } from "./createSessionToken.ts";
+
+/**
+ * Handles a transactional batch.  The operations are applied to a copy
+ * of the documents, which only replaces the originals if every
+ * operation succeeds.  As with Cosmos, a batch that is rolled back
+ * responds with 207 (Multi-Status) and the status of each operation.
+ * Transactional batches are not covered by the REST reference, so
+ * this follows the behaviour described here:
+ * https://learn.microsoft.com/en-us/azure/cosmos-db/nosql/transactional-batch
+ * and the batch test in lifeCycle.test.ts, which also runs against
+ * a live account.
+ * @param state The state of the stand-in.
+ * @param req An authorized request.
+ * @param collection The collection.
+ */
+export async function handleBatch(
+  state: StandInState,
+  req: StandInRequest,
+  collection: StandInCollection,
+) {
+  const partitionKeyValue = readPartitionKeyHeader(req, collection);
+
+  if (partitionKeyValue === null) {
+    throw new StandInError(
+      400,
+      "BadRequest",
+      "PartitionKey value must be supplied for this operation.",
+    );
+  }
+
+  let operations: {
+    operationType: string;
+    id?: string;
+    ifMatch?: string;
+    resourceBody?: StandInDocument;
+  }[];
+
+  try {
+    operations = await req.raw.json();
+  } catch {
+    operations = [];
+  }
+
+  if (
+    !Array.isArray(operations) || operations.length === 0 ||
+    operations.length > 100
+  ) {
+    throw new StandInError(
+      400,
+      "BadRequest",
+      "A batch must contain between 1 and 100 operations.",
+    );
+  }
+
+  const staging: StandInCollection = {
+    ...collection,
+    documents: new Map(collection.documents),
+  };
+
+  const results: Record<string, unknown>[] = [];
+  let failedStatus = 0;
+
+  for (const operation of operations) {
+    if (failedStatus) {
+      results.push({ statusCode: 424, requestCharge: 0 });
+      continue;
+    }
+
+    try {
+      results.push(
+        applyBatchOperation(staging, partitionKeyValue, operation),
+      );
+    } catch (err) {
+      if (!(err instanceof StandInError)) {
+        throw err;
+      }
+
+      failedStatus = err.status;
+      results.push({ statusCode: err.status, requestCharge: 1 });
+
+      // Operations that preceded the failure are rolled back.
+      for (let i = 0; i < results.length - 1; i++) {
+        results[i] = { statusCode: 424, requestCharge: 0 };
+      }
+    }
+  }
+
+  if (!failedStatus) {
+    collection.documents = staging.documents;
+    collection.lsn = staging.lsn;
+  }
+
+  const requestCharge = results.reduce(
+    (agg, cur) => agg + (cur.requestCharge as number),
+    0,
+  );
+
+  return createJsonResponse(failedStatus ? 207 : 200, results, {
+    "x-ms-request-charge": requestCharge.toFixed(2),
+    "x-ms-session-token": createSessionToken(
+      state,
+      collection,
+      partitionKeyValue,
+    ),
+  });
+}
@@ -0,0 +1,82 @@
+import {
+  StandInCollection,
+  StandInRequest,
+  StandInState,
+} from "./standInTypes.ts";
+import { readPartitionKeyRangeHeader } from "./readPartitionKeyRangeHeader.ts";
+import { createEmptyResponse } from "./createEmptyResponse.ts";
+import { getPartitionKeyRangeId } from "./getPartitionKeyRangeId.ts";
+import { getPartitionKeyValue } from "./getPartitionKeyValue.ts";
+import { createJsonResponse } from "./createJsonResponse.ts";
+
+/**
+ * Handles a request to read the change feed of a partition key range.
+ * The etag returned to the client is the sequence number of the
+ * last change that was included in the response.
+ * The incremental feed headers are described here:
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/list-documents
+ * and the test of the change feed in lifeCycle.test.ts also runs
+ * against a live account.
+ * @param state The state of the stand-in.
+ * @param req An authorized request.
+ * @param collection The collection.
+ */
+export function handleChangeFeed(
+  state: StandInState,
+  req: StandInRequest,
+  collection: StandInCollection,
+) {
+  const pkRangeId = readPartitionKeyRangeHeader(state, req, collection);
+  const ifNoneMatch = req.headers.get("if-none-match");
+  const ifModifiedSince = req.headers.get("if-modified-since");
+
+  if (ifNoneMatch === "*") {
+    return createEmptyResponse(304, {
+      "x-ms-request-charge": "1",
+      etag: `"${collection.lsn}"`,
+    });
+  }
+
+  const fromLsn = ifNoneMatch ? parseInt(ifNoneMatch.replace(/"/g, "")) : 0;
+  const fromTimestamp = ifModifiedSince
+    ? Math.floor(Date.parse(ifModifiedSince) / 1000)
+    : 0;
+
+  const changes = Array.from(collection.documents.values())
+    .map((doc) => ({ doc, lsn: (doc as { _lsn: number })._lsn }))
+    .filter((change) =>
+      change.lsn > fromLsn &&
+      (change.doc._ts as number) >= fromTimestamp &&
+      (pkRangeId === null ||
+        getPartitionKeyRangeId(
+            state,
+            getPartitionKeyValue(collection, change.doc),
+          ) === pkRangeId)
+    )
+    .sort((a, b) => a.lsn - b.lsn);
+
+  if (changes.length === 0) {
+    return createEmptyResponse(304, {
+      "x-ms-request-charge": "1",
+      etag: `"${Math.max(fromLsn, ifModifiedSince ? collection.lsn : 0)}"`,
+    });
+  }
+
+  const maxItemCount = parseInt(
+    req.headers.get("x-ms-max-item-count") || "-1",
+  );
+
+  const page = changes.slice(
+    0,
+    maxItemCount > 0 ? maxItemCount : state.pageSize,
+  );
+
+  return createJsonResponse(200, {
+    _rid: collection.resource._rid,
+    Documents: page.map((change) => ({ ...change.doc, _lsn: change.lsn })),
+    _count: page.length,
+  }, {
+    "x-ms-request-charge": (1 + page.length * 0.5).toFixed(2),
+    etag: `"${page[page.length - 1].lsn}"`,
+  });
+}
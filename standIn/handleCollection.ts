@@ -0,0 +1,48 @@
+import {
+  StandInCollection,
+  StandInDatabase,
+  StandInRequest,
+  StandInState,
+} from "./standInTypes.ts";
+import { StandInError } from "./standInError.ts";
+import { createJsonResponse } from "./createJsonResponse.ts";
+import { deleteOffers } from "./deleteOffers.ts";
+import { createEmptyResponse } from "./createEmptyResponse.ts";
+import { createMethodNotAllowedError } from "./createMethodNotAllowedError.ts";
+
+/**
+ * Handles requests to read and delete a collection.
+ * The requests and responses follow
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/get-a-collection and
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/delete-a-collection.
+ * @param state The state of the stand-in.
+ * @param req An authorized request.
+ * @param database The database that holds the collection.
+ * @param collectionName The name of the collection.
+ * @param collection The collection, if it exists.
+ */
+export function handleCollection(
+  state: StandInState,
+  req: StandInRequest,
+  database: StandInDatabase,
+  collectionName: string,
+  collection?: StandInCollection,
+) {
+  if (!collection) {
+    throw new StandInError(404, "NotFound", "Collection not found.");
+  }
+
+  if (req.method === "GET") {
+    return createJsonResponse(200, collection.resource, {
+      "x-ms-request-charge": "1",
+    });
+  }
+
+  if (req.method === "DELETE") {
+    deleteOffers(state, [collection.resource]);
+    database.collections.delete(collectionName);
+    return createEmptyResponse(204, { "x-ms-request-charge": "1" });
+  }
+
+  throw createMethodNotAllowedError();
+}
@@ -0,0 +1,101 @@
+import {
+  StandInDatabase,
+  StandInRequest,
+  StandInState,
+} from "./standInTypes.ts";
+import { createJsonResponse } from "./createJsonResponse.ts";
+import { readJsonBody } from "./readJsonBody.ts";
+import { ensureResourceId } from "./ensureResourceId.ts";
+import { StandInError } from "./standInError.ts";
+import { createSystemProperties } from "./createSystemProperties.ts";
+import { createOffer } from "./createOffer.ts";
+import { createMethodNotAllowedError } from "./createMethodNotAllowedError.ts";
+
+/**
+ * Handles requests to list and create collections.
+ * The requests and responses follow
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/create-a-collection and
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/list-collections.
+ * @param state The state of the stand-in.
+ * @param req An authorized request.
+ * @param database The database that holds the collections.
+ */
+export async function handleCollectionFeed(
+  state: StandInState,
+  req: StandInRequest,
+  database: StandInDatabase,
+) {
+  if (req.method === "GET") {
+    const collections = Array.from(database.collections.values()).map((c) =>
+      c.resource
+    );
+
+    return createJsonResponse(200, {
+      _rid: database.resource._rid,
+      DocumentCollections: collections,
+      _count: collections.length,
+    }, { "x-ms-request-charge": "1" });
+  }
+
+  if (req.method === "POST") {
+    const body = await readJsonBody(req);
+    const id = ensureResourceId(body.id);
+
+    if (database.collections.has(id)) {
+      throw new StandInError(
+        409,
+        "Conflict",
+        "Resource with specified id or name already exists.",
+      );
+    }
+
+    const partitionKey = body.partitionKey as
+      | { paths?: string[]; kind?: string }
+      | undefined;
+
+    if (!partitionKey || !Array.isArray(partitionKey.paths)) {
+      throw new StandInError(
+        400,
+        "BadRequest",
+        "A partition key definition is required.",
+      );
+    }
+
+    if (
+      partitionKey.paths.length < 1 || partitionKey.paths.length > 3 ||
+      (partitionKey.paths.length > 1 && partitionKey.kind !== "MultiHash")
+    ) {
+      throw new StandInError(
+        400,
+        "BadRequest",
+        "A partition key must have one path, or up to three paths with the MultiHash kind.",
+      );
+    }
+
+    const resource = createSystemProperties({
+      indexingPolicy: {
+        indexingMode: "consistent",
+        automatic: true,
+        includedPaths: [{ path: "/*" }],
+        excludedPaths: [{ path: '/"_etag"/?' }],
+      },
+      ...body,
+      id,
+    }, `${database.resource._self}colls/${id}`);
+
+    createOffer(state, req, resource);
+
+    database.collections.set(id, {
+      resource,
+      documents: new Map(),
+      lsn: 0,
+      storedProcedures: new Map(),
+      triggers: new Map(),
+      userDefinedFunctions: new Map(),
+    });
+
+    return createJsonResponse(201, resource, { "x-ms-request-charge": "1" });
+  }
+
+  throw createMethodNotAllowedError();
+}
@@ -0,0 +1,49 @@
+import {
+  StandInDatabase,
+  StandInRequest,
+  StandInState,
+} from "./standInTypes.ts";
+import { StandInError } from "./standInError.ts";
+import { createJsonResponse } from "./createJsonResponse.ts";
+import { deleteOffers } from "./deleteOffers.ts";
+import { createEmptyResponse } from "./createEmptyResponse.ts";
+import { createMethodNotAllowedError } from "./createMethodNotAllowedError.ts";
+
+/**
+ * Handles requests to read and delete a database.
+ * The requests and responses follow
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/get-a-database and
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/delete-a-database.
+ * @param state The state of the stand-in.
+ * @param req An authorized request.
+ * @param databaseName The name of the database.
+ * @param database The database, if it exists.
+ */
+export function handleDatabase(
+  state: StandInState,
+  req: StandInRequest,
+  databaseName: string,
+  database?: StandInDatabase,
+) {
+  if (!database) {
+    throw new StandInError(404, "NotFound", "Database not found.");
+  }
+
+  if (req.method === "GET") {
+    return createJsonResponse(200, database.resource, {
+      "x-ms-request-charge": "1",
+    });
+  }
+
+  if (req.method === "DELETE") {
+    deleteOffers(state, [
+      database.resource,
+      ...Array.from(database.collections.values()).map((c) => c.resource),
+    ]);
+
+    state.databases.delete(databaseName);
+    return createEmptyResponse(204, { "x-ms-request-charge": "1" });
+  }
+
+  throw createMethodNotAllowedError();
+}
@@ -0,0 +1,58 @@
+import { StandInRequest, StandInState } from "./standInTypes.ts";
+import { createJsonResponse } from "./createJsonResponse.ts";
+import { readJsonBody } from "./readJsonBody.ts";
+import { ensureResourceId } from "./ensureResourceId.ts";
+import { StandInError } from "./standInError.ts";
+import { createSystemProperties } from "./createSystemProperties.ts";
+import { createOffer } from "./createOffer.ts";
+import { createMethodNotAllowedError } from "./createMethodNotAllowedError.ts";
+
+/**
+ * Handles requests to list and create databases.
+ * The requests and responses follow
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/create-a-database and
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/list-databases.
+ * @param state The state of the stand-in.
+ * @param req An authorized request.
+ */
+export async function handleDatabaseFeed(
+  state: StandInState,
+  req: StandInRequest,
+) {
+  if (req.method === "GET") {
+    const databases = Array.from(state.databases.values()).map((d) =>
+      d.resource
+    );
+
+    return createJsonResponse(200, {
+      _rid: "",
+      Databases: databases,
+      _count: databases.length,
+    }, { "x-ms-request-charge": "1" });
+  }
+
+  if (req.method === "POST") {
+    const body = await readJsonBody(req);
+    const id = ensureResourceId(body.id);
+
+    if (state.databases.has(id)) {
+      throw new StandInError(
+        409,
+        "Conflict",
+        "Resource with specified id or name already exists.",
+      );
+    }
+
+    const resource = createSystemProperties({ id }, `dbs/${id}`);
+    createOffer(state, req, resource);
+    state.databases.set(id, {
+      resource,
+      collections: new Map(),
+      users: new Map(),
+    });
+
+    return createJsonResponse(201, resource, { "x-ms-request-charge": "1" });
+  }
+
+  throw createMethodNotAllowedError();
+}
@@ -0,0 +1,167 @@
+import {
+  StandInCollection,
+  StandInDocument,
+  StandInRequest,
+  StandInState,
+} from "./standInTypes.ts";
+import { readPartitionKeyHeader } from "./readPartitionKeyHeader.ts";
+import { StandInError } from "./standInError.ts";
+import { createDocumentKey } from "./createDocumentKey.ts";
+import { createSessionToken } from "./createSessionToken.ts";
+import { createJsonResponse } from "./createJsonResponse.ts";
+import { readJsonBody } from "./readJsonBody.ts";
+import { ensurePartitionKeyMatches } from "./ensurePartitionKeyMatches.ts";
+import { ensureIfMatch } from "./ensureIfMatch.ts";
+import { writeWithTriggers } from "./writeWithTriggers.ts";
+import { writeDocument } from "./writeDocument.ts";
+import { createEmptyResponse } from "./createEmptyResponse.ts";
+import { ensureCondition } from "./ensureCondition.ts";
+import { applyPatchOperations } from "./applyPatchOperations.ts";
+import { getPartitionKeyValue } from "./getPartitionKeyValue.ts";
+import { createMethodNotAllowedError } from "./createMethodNotAllowedError.ts";
+
+/**
+ * Handles requests to read, replace, patch and delete a document.
+ * The requests and responses follow
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/get-a-document,
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/replace-a-document,
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/patch-a-document and
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/delete-a-document.
+ * @param state The state of the stand-in.
+ * @param req An authorized request.
+ * @param collection The collection.
+ * @param documentId The id of the document.
+ */
+export async function handleDocument(
+  state: StandInState,
+  req: StandInRequest,
+  collection: StandInCollection,
+  documentId: string,
+) {
+  const partitionKeyValue = readPartitionKeyHeader(req, collection);
+
+  if (partitionKeyValue === null) {
+    throw new StandInError(
+      400,
+      "BadRequest",
+      "PartitionKey value must be supplied for this operation.",
+    );
+  }
+
+  const documentKey = createDocumentKey(partitionKeyValue, documentId);
+  const existing = collection.documents.get(documentKey);
+  const sessionToken = () =>
+    createSessionToken(state, collection, partitionKeyValue);
+
+  if (!existing) {
+    throw new StandInError(
+      404,
+      "NotFound",
+      "Entity with the specified id does not exist in the system.",
+    );
+  }
+
+  if (req.method === "GET") {
+    return createJsonResponse(200, existing, {
+      "x-ms-request-charge": "1",
+      "x-ms-session-token": sessionToken(),
+      etag: existing._etag as string,
+    });
+  }
+
+  if (req.method === "PUT") {
+    const doc = await readJsonBody(req);
+
+    if (doc.id !== documentId) {
+      throw new StandInError(
+        400,
+        "BadRequest",
+        "The id of the document does not match the id in the request.",
+      );
+    }
+
+    ensurePartitionKeyMatches(req, collection, doc);
+    ensureIfMatch(req, existing);
+
+    const stored = writeWithTriggers(
+      req,
+      collection,
+      partitionKeyValue,
+      "Replace",
+      doc,
+      (target, finalDoc) =>
+        writeDocument(target, documentKey, finalDoc as StandInDocument),
+    ) as StandInDocument;
+
+    return createJsonResponse(200, stored, {
+      "x-ms-request-charge": "10.29",
+      "x-ms-session-token": sessionToken(),
+      etag: stored._etag as string,
+    });
+  }
+
+  if (req.method === "DELETE") {
+    ensureIfMatch(req, existing);
+
+    writeWithTriggers(
+      req,
+      collection,
+      partitionKeyValue,
+      "Delete",
+      null,
+      (target) => {
+        target.documents.delete(documentKey);
+        target.lsn++;
+        return null;
+      },
+    );
+
+    return createEmptyResponse(204, {
+      "x-ms-request-charge": "5.71",
+      "x-ms-session-token": sessionToken(),
+    });
+  }
+
+  if (req.method === "PATCH") {
+    const body = await readJsonBody(req) as {
+      operations: { op: string; path: string }[];
+      condition?: string;
+    };
+
+    ensureIfMatch(req, existing);
+    ensureCondition(body.condition, existing);
+
+    let patched: StandInDocument;
+
+    try {
+      patched = applyPatchOperations(existing, body.operations);
+    } catch (err) {
+      throw new StandInError(400, "BadRequest", (err as Error).message);
+    }
+
+    if (
+      patched.id !== existing.id ||
+      JSON.stringify(getPartitionKeyValue(collection, patched)) !==
+        JSON.stringify(partitionKeyValue)
+    ) {
+      throw new StandInError(
+        400,
+        "BadRequest",
+        "The id and partition key of a document cannot be patched.",
+      );
+    }
+
+    const stored = writeDocument(collection, documentKey, patched);
+    const headers = {
+      "x-ms-request-charge": "10.67",
+      "x-ms-session-token": sessionToken(),
+      etag: stored._etag as string,
+    };
+
+    return req.headers.get("prefer") === "return=minimal"
+      ? createEmptyResponse(200, headers)
+      : createJsonResponse(200, stored, headers);
+  }
+
+  throw createMethodNotAllowedError();
+}
@@ -0,0 +1,93 @@
+import {
+  StandInCollection,
+  StandInDocument,
+  StandInRequest,
+  StandInState,
+} from "./standInTypes.ts";
+import { handleChangeFeed } from "./handleChangeFeed.ts";
+import { createMethodNotAllowedError } from "./createMethodNotAllowedError.ts";
+import { handleQuery } from "./handleQuery.ts";
+import { handleBatch } from "./handleBatch.ts";
+import { readJsonBody } from "./readJsonBody.ts";
+import { ensureResourceId } from "./ensureResourceId.ts";
+import { ensurePartitionKeyMatches } from "./ensurePartitionKeyMatches.ts";
+import { createDocumentKey } from "./createDocumentKey.ts";
+import { StandInError } from "./standInError.ts";
+import { writeWithTriggers } from "./writeWithTriggers.ts";
+import { writeDocument } from "./writeDocument.ts";
+import { createJsonResponse } from "./createJsonResponse.ts";
+import { createSessionToken } from "./createSessionToken.ts";
+
+/**
+ * Handles requests to create documents, query documents, read
+ * the change feed and execute transactional batches.
+ * The requests and responses follow
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/create-a-document,
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/query-documents and
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/list-documents.
+ * @param state The state of the stand-in.
+ * @param req An authorized request.
+ * @param collection The collection.
+ */
+export async function handleDocumentFeed(
+  state: StandInState,
+  req: StandInRequest,
+  collection: StandInCollection,
+) {
+  if (
+    req.method === "GET" &&
+    req.headers.get("a-im")?.toLowerCase() === "incremental feed"
+  ) {
+    return handleChangeFeed(state, req, collection);
+  }
+
+  if (req.method !== "POST") {
+    throw createMethodNotAllowedError();
+  }
+
+  if (req.headers.get("content-type") === "application/query+json") {
+    return handleQuery(state, req, collection);
+  }
+
+  if (
+    req.headers.get("x-ms-cosmos-is-batch-request")?.toLowerCase() === "true"
+  ) {
+    return handleBatch(state, req, collection);
+  }
+
+  const doc = await readJsonBody(req);
+  const id = ensureResourceId(doc.id);
+  const partitionKeyValue = ensurePartitionKeyMatches(req, collection, doc);
+  const documentKey = createDocumentKey(partitionKeyValue, id);
+  const existing = collection.documents.get(documentKey);
+  const isUpsert =
+    req.headers.get("x-ms-documentdb-is-upsert")?.toLowerCase() === "true";
+
+  if (existing && !isUpsert) {
+    throw new StandInError(
+      409,
+      "Conflict",
+      "Entity with the specified id already exists in the system.",
+    );
+  }
+
+  const stored = writeWithTriggers(
+    req,
+    collection,
+    partitionKeyValue,
+    isUpsert ? "Upsert" : "Create",
+    doc,
+    (target, finalDoc) =>
+      writeDocument(target, documentKey, finalDoc as StandInDocument),
+  ) as StandInDocument;
+
+  return createJsonResponse(existing ? 200 : 201, stored, {
+    "x-ms-request-charge": "5.71",
+    "x-ms-session-token": createSessionToken(
+      state,
+      collection,
+      partitionKeyValue,
+    ),
+    etag: stored._etag as string,
+  });
+}
@@ -0,0 +1,106 @@
+import {
+  StandInOfferContent,
+  StandInRequest,
+  StandInState,
+} from "./standInTypes.ts";
+import { StandInError } from "./standInError.ts";
+import { readJsonBody } from "./readJsonBody.ts";
+import { ensureIfMatch } from "./ensureIfMatch.ts";
+import { createAutoscaleOfferContent } from "./createAutoscaleOfferContent.ts";
+import {
+  ensureOfferContentValid,
+  MIN_AUTOSCALE_THROUGHPUT,
+  MIN_THROUGHPUT,
+} from "./ensureOfferContentValid.ts";
+import { createManualOfferContent } from "./createManualOfferContent.ts";
+import { createSystemProperties } from "./createSystemProperties.ts";
+import { isOfferBeyondCapacity } from "./isOfferBeyondCapacity.ts";
+import { createMethodNotAllowedError } from "./createMethodNotAllowedError.ts";
+import { createJsonResponse } from "./createJsonResponse.ts";
+
+/**
+ * Handles requests to read and replace an offer.  An offer can be
+ * migrated between manual and autoscale throughput by supplying
+ * the appropriate migration header.
+ * The requests and responses follow
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/get-an-offer and
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/replace-an-offer.
+ * The migration and quota headers are not covered by that reference,
+ * so they follow the headers sent by the Azure Cosmos DB SDKs, and
+ * the test of offers in lifeCycle.test.ts also runs against a live account.
+ * @param state The state of the stand-in.
+ * @param req An authorized request.
+ * @param offerId The id of the offer.
+ */
+export async function handleOffer(
+  state: StandInState,
+  req: StandInRequest,
+  offerId: string,
+) {
+  const offer = state.offers.get(offerId);
+
+  if (!offer) {
+    throw new StandInError(404, "NotFound", "Offer not found.");
+  }
+
+  if (req.method === "PUT") {
+    const body = await readJsonBody(req);
+    ensureIfMatch(req, offer.resource);
+
+    const content = body.content as StandInOfferContent | undefined;
+
+    if (!content || typeof content !== "object") {
+      throw new StandInError(
+        400,
+        "BadRequest",
+        "The content of an offer must be supplied.",
+      );
+    }
+
+    const current = offer.resource.content as StandInOfferContent;
+
+    const replacement: StandInOfferContent = req.headers.has(
+        "x-ms-cosmos-migrate-offer-to-autopilot",
+      )
+      ? createAutoscaleOfferContent(
+        Math.max(
+          MIN_AUTOSCALE_THROUGHPUT,
+          Math.ceil(current.offerThroughput / 1000) * 1000,
+        ),
+      )
+      : req.headers.has("x-ms-cosmos-migrate-offer-to-manual-throughput")
+      ? createManualOfferContent(
+        current.offerAutopilotSettings?.maxThroughput ??
+          current.offerThroughput,
+      )
+      : current.offerAutopilotSettings
+      ? createAutoscaleOfferContent(
+        content.offerAutopilotSettings?.maxThroughput ?? NaN,
+      )
+      : createManualOfferContent(content.offerThroughput);
+
+    ensureOfferContentValid(replacement);
+
+    offer.resource = createSystemProperties({
+      ...offer.resource,
+      content: replacement,
+    }, offer.resource._self as string);
+
+    offer.isReplacePending = isOfferBeyondCapacity(state, offer.resource);
+  } else if (req.method !== "GET") {
+    throw createMethodNotAllowedError();
+  }
+
+  const headers: Record<string, string> = {
+    "x-ms-request-charge": "1",
+    "x-ms-offer-replace-pending": offer.isReplacePending.toString(),
+  };
+
+  // The minimum throughput is only reported if quota information
+  // was requested.
+  if (req.headers.get("x-ms-documentdb-populatequotainfo") === "true") {
+    headers["x-ms-cosmos-min-throughput"] = MIN_THROUGHPUT.toString();
+  }
+
+  return createJsonResponse(200, offer.resource, headers);
+}
@@ -0,0 +1,54 @@
+import { StandInRequest, StandInState } from "./standInTypes.ts";
+import { readJsonBody } from "./readJsonBody.ts";
+import { StandInError } from "./standInError.ts";
+import { executeCosmosQuery } from "./executeCosmosQuery.ts";
+import { createMethodNotAllowedError } from "./createMethodNotAllowedError.ts";
+import { createJsonResponse } from "./createJsonResponse.ts";
+
+/**
+ * Handles requests to list and query offers.
+ * The requests and responses follow
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/list-offers and
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/query-offers.
+ * @param state The state of the stand-in.
+ * @param req An authorized request.
+ */
+export async function handleOfferFeed(
+  state: StandInState,
+  req: StandInRequest,
+) {
+  let offers = Array.from(state.offers.values()).map((o) => o.resource);
+
+  if (req.method === "POST") {
+    const body = await readJsonBody(req) as {
+      query?: string;
+      parameters?: { name: string; value: unknown }[];
+    };
+
+    if (typeof body.query !== "string") {
+      throw new StandInError(400, "BadRequest", "A query must be supplied.");
+    }
+
+    try {
+      offers = executeCosmosQuery(
+        body.query,
+        body.parameters || [],
+        offers,
+      ) as Record<string, unknown>[];
+    } catch (err) {
+      throw new StandInError(
+        400,
+        "BadRequest",
+        `Syntax error or unsupported query. ${(err as Error).message}`,
+      );
+    }
+  } else if (req.method !== "GET") {
+    throw createMethodNotAllowedError();
+  }
+
+  return createJsonResponse(200, {
+    _rid: "",
+    Offers: offers,
+    _count: offers.length,
+  }, { "x-ms-request-charge": "1" });
+}
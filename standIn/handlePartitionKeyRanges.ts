@@ -0,0 +1,39 @@
+import {
+  StandInCollection,
+  StandInRequest,
+  StandInState,
+} from "./standInTypes.ts";
+import { createMethodNotAllowedError } from "./createMethodNotAllowedError.ts";
+import { formatRangeBoundary } from "./formatRangeBoundary.ts";
+import { createJsonResponse } from "./createJsonResponse.ts";
+
+/**
+ * Handles requests to list the partition key ranges of a collection.
+ * The response follows
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/get-partition-key-ranges.
+ * @param state The state of the stand-in.
+ * @param req An authorized request.
+ * @param collection The collection.
+ */
+export function handlePartitionKeyRanges(
+  state: StandInState,
+  req: StandInRequest,
+  collection: StandInCollection,
+) {
+  if (req.method !== "GET") {
+    throw createMethodNotAllowedError();
+  }
+
+  const ranges = state.partitionKeyRanges.map((range) => ({
+    id: range.id,
+    minInclusive: formatRangeBoundary(range.min),
+    maxExclusive: formatRangeBoundary(range.max),
+    parents: range.parents,
+  }));
+
+  return createJsonResponse(200, {
+    _rid: collection.resource._rid,
+    PartitionKeyRanges: ranges,
+    _count: ranges.length,
+  }, { "x-ms-request-charge": "1" });
+}
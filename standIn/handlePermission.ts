@@ -0,0 +1,52 @@
+import {
+  StandInDatabase,
+  StandInRequest,
+  StandInState,
+  StandInUser,
+} from "./standInTypes.ts";
+import { StandInError } from "./standInError.ts";
+import { createJsonResponse } from "./createJsonResponse.ts";
+import { issueResourceToken } from "./issueResourceToken.ts";
+import { createEmptyResponse } from "./createEmptyResponse.ts";
+import { createMethodNotAllowedError } from "./createMethodNotAllowedError.ts";
+
+/**
+ * Handles requests to read and delete a permission.
+ * A resource token is issued when the permission is read.
+ * The requests and responses follow
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/get-a-permission and
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/delete-a-permission.
+ * @param state The state of the stand-in.
+ * @param req An authorized request.
+ * @param database The database that holds the user.
+ * @param user The user that holds the permission.
+ * @param permissionId The id of the permission.
+ */
+export function handlePermission(
+  state: StandInState,
+  req: StandInRequest,
+  database: StandInDatabase,
+  user: StandInUser,
+  permissionId: string,
+) {
+  const permission = user.permissions.get(permissionId);
+
+  if (!permission) {
+    throw new StandInError(404, "NotFound", "Permission not found.");
+  }
+
+  if (req.method === "GET") {
+    return createJsonResponse(
+      200,
+      issueResourceToken(state, req, database, user, permission),
+      { "x-ms-request-charge": "1" },
+    );
+  }
+
+  if (req.method === "DELETE") {
+    user.permissions.delete(permissionId);
+    return createEmptyResponse(204, { "x-ms-request-charge": "1" });
+  }
+
+  throw createMethodNotAllowedError();
+}
@@ -0,0 +1,76 @@
+import {
+  StandInDatabase,
+  StandInRequest,
+  StandInState,
+  StandInUser,
+} from "./standInTypes.ts";
+import { issueResourceToken } from "./issueResourceToken.ts";
+import { createJsonResponse } from "./createJsonResponse.ts";
+import { readJsonBody } from "./readJsonBody.ts";
+import { ensureResourceId } from "./ensureResourceId.ts";
+import { StandInError } from "./standInError.ts";
+import { ensurePermissionValid } from "./ensurePermissionValid.ts";
+import { createSystemProperties } from "./createSystemProperties.ts";
+import { createMethodNotAllowedError } from "./createMethodNotAllowedError.ts";
+
+/**
+ * Handles requests to list and create the permissions of a user.
+ * A resource token is issued for each permission that is returned.
+ * The requests and responses follow
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/create-a-permission and
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/list-permissions.
+ * @param state The state of the stand-in.
+ * @param req An authorized request.
+ * @param database The database that holds the user.
+ * @param user The user.
+ */
+export async function handlePermissionFeed(
+  state: StandInState,
+  req: StandInRequest,
+  database: StandInDatabase,
+  user: StandInUser,
+) {
+  if (req.method === "GET") {
+    const permissions = Array.from(user.permissions.values()).map((p) =>
+      issueResourceToken(state, req, database, user, p)
+    );
+
+    return createJsonResponse(200, {
+      _rid: user.resource._rid,
+      Permissions: permissions,
+      _count: permissions.length,
+    }, { "x-ms-request-charge": "1" });
+  }
+
+  if (req.method === "POST") {
+    const body = await readJsonBody(req);
+    const id = ensureResourceId(body.id);
+
+    if (user.permissions.has(id)) {
+      throw new StandInError(
+        409,
+        "Conflict",
+        "Resource with specified id or name already exists.",
+      );
+    }
+
+    ensurePermissionValid(database, body);
+
+    const resource = createSystemProperties({
+      id,
+      permissionMode: body.permissionMode,
+      resource: body.resource,
+      resourcePartitionKey: body.resourcePartitionKey,
+    }, `${user.resource._self}permissions/${id}`);
+
+    user.permissions.set(id, resource);
+
+    return createJsonResponse(
+      201,
+      issueResourceToken(state, req, database, user, resource),
+      { "x-ms-request-charge": "1" },
+    );
+  }
+
+  throw createMethodNotAllowedError();
+}
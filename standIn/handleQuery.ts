@@ -0,0 +1,131 @@
+import {
+  StandInCollection,
+  StandInDocument,
+  StandInRequest,
+  StandInState,
+} from "./standInTypes.ts";
+import { readJsonBody } from "./readJsonBody.ts";
+import { StandInError } from "./standInError.ts";
+import { readPartitionKeyHeader } from "./readPartitionKeyHeader.ts";
+import { readPartitionKeyRangeHeader } from "./readPartitionKeyRangeHeader.ts";
+import { getPartitionKeyValue } from "./getPartitionKeyValue.ts";
+import { getPartitionKeyRangeId } from "./getPartitionKeyRangeId.ts";
+import {
+  executeCosmosQuery,
+  isQueryResumableByDocument,
+} from "./executeCosmosQuery.ts";
+import { createJsonResponse } from "./createJsonResponse.ts";
+
+/**
+ * Handles a query, returning a single page of results.
+ * Paging with continuation tokens follows
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/query-documents.
+ * @param state The state of the stand-in.
+ * @param req An authorized request.
+ * @param collection The collection.
+ */
+export async function handleQuery(
+  state: StandInState,
+  req: StandInRequest,
+  collection: StandInCollection,
+) {
+  const body = await readJsonBody(req) as {
+    query?: string;
+    parameters?: { name: string; value: unknown }[];
+  };
+
+  if (typeof body.query !== "string") {
+    throw new StandInError(400, "BadRequest", "A query must be supplied.");
+  }
+
+  const partitionKeyValue = readPartitionKeyHeader(req, collection);
+  const pkRangeId = readPartitionKeyRangeHeader(state, req, collection);
+  const isCrossPartition = req.headers.get(
+    "x-ms-documentdb-query-enablecrosspartition",
+  )?.toLowerCase() === "true";
+
+  let docs = Array.from(collection.documents.values());
+
+  if (partitionKeyValue !== null) {
+    const partitionJson = JSON.stringify(partitionKeyValue);
+
+    docs = docs.filter((doc) =>
+      JSON.stringify(getPartitionKeyValue(collection, doc)) === partitionJson
+    );
+  } else if (pkRangeId !== null) {
+    docs = docs.filter((doc) =>
+      getPartitionKeyRangeId(state, getPartitionKeyValue(collection, doc)) ===
+        pkRangeId
+    );
+  } else if (!isCrossPartition) {
+    throw new StandInError(
+      400,
+      "BadRequest",
+      "Cross partition query is required but disabled.",
+    );
+  }
+
+  const continuation = req.headers.get("x-ms-continuation");
+  const resumeFrom = continuation
+    ? JSON.parse(continuation) as { offset?: number; lsn?: number }
+    : {};
+
+  const maxItemCount = parseInt(
+    req.headers.get("x-ms-max-item-count") || "-1",
+  );
+
+  const pageSize = maxItemCount > 0 ? maxItemCount : state.pageSize;
+  const parameters = body.parameters || [];
+  const page: unknown[] = [];
+  let nextContinuation: string | null = null;
+
+  try {
+    if (isQueryResumableByDocument(body.query)) {
+      // The documents are read in the order they were written and the
+      // continuation records the last document read, so (as in Cosmos)
+      // the continuation of a range remains valid for the ranges that
+      // replace it when it is split.
+      const lsnOf = (doc: StandInDocument) => doc._lsn as number;
+      const unread = docs.filter((doc) => lsnOf(doc) > (resumeFrom.lsn || 0))
+        .sort((a, b) => lsnOf(a) - lsnOf(b));
+
+      for (let i = 0; i < unread.length && page.length < pageSize; i++) {
+        page.push(...executeCosmosQuery(body.query, parameters, [unread[i]]));
+
+        if (page.length === pageSize && i < unread.length - 1) {
+          nextContinuation = JSON.stringify({ lsn: lsnOf(unread[i]) });
+        }
+      }
+    } else {
+      const results = executeCosmosQuery(body.query, parameters, docs);
+      const start = resumeFrom.offset || 0;
+
+      page.push(...results.slice(start, start + pageSize));
+
+      if (start + pageSize < results.length) {
+        nextContinuation = JSON.stringify({ offset: start + pageSize });
+      }
+    }
+  } catch (err) {
+    throw new StandInError(
+      400,
+      "BadRequest",
+      `Syntax error or unsupported query. ${(err as Error).message}`,
+    );
+  }
+
+  const headers: Record<string, string> = {
+    "x-ms-request-charge": (2.3 + docs.length * 0.05).toFixed(2),
+    "x-ms-item-count": page.length.toString(),
+  };
+
+  if (nextContinuation) {
+    headers["x-ms-continuation"] = nextContinuation;
+  }
+
+  return createJsonResponse(200, {
+    _rid: collection.resource._rid,
+    Documents: page,
+    _count: page.length,
+  }, headers);
+}
@@ -0,0 +1,115 @@
+import { StandInState } from "./standInTypes.ts";
+import { getResourceLocation } from "./getResourceLocation.ts";
+import { authorizeResourceToken } from "./authorizeResourceToken.ts";
+import { authorizeAadToken } from "./authorizeAadToken.ts";
+import { verifyMasterKeySignature } from "./verifyMasterKeySignature.ts";
+import { StandInError } from "./standInError.ts";
+import { ensureThroughputAvailable } from "./ensureThroughputAvailable.ts";
+import { routeRequest } from "./routeRequest.ts";
+import { createJsonResponse } from "./createJsonResponse.ts";
+
+/**
+ * Authorizes and routes a request, converting any errors
+ * raised by the handlers into Cosmos error responses.
+ * The error responses follow
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/http-status-codes-for-cosmosdb.
+ * @param state The state of the stand-in.
+ * @param key The master key of the stand-in.
+ * @param raw The request.
+ */
+export async function handleRequest(
+  state: StandInState,
+  key: CryptoKey,
+  raw: Request,
+): Promise<Response> {
+  const started = performance.now();
+  const segments = new URL(raw.url).pathname.split("/").filter((s) =>
+    s.length > 0
+  ).map(decodeURIComponent);
+
+  let response: Response;
+
+  try {
+    const resourceLocation = getResourceLocation(segments);
+    const authorizationHeader = raw.headers.get("authorization");
+
+    // Authorization headers are URL encoded, whatever their type.
+    const decodedAuthorizationHeader = authorizationHeader === null
+      ? null
+      : decodeURIComponent(authorizationHeader);
+
+    const verification = decodedAuthorizationHeader?.startsWith("type=resource")
+      ? authorizeResourceToken(
+        state,
+        raw,
+        decodedAuthorizationHeader,
+        resourceLocation,
+      )
+      : decodedAuthorizationHeader?.startsWith("type=aad")
+      ? authorizeAadToken(state, decodedAuthorizationHeader)
+      : await verifyMasterKeySignature({
+        key,
+        authorizationHeader,
+        xMsDateHeader: raw.headers.get("x-ms-date"),
+        method: raw.method,
+        resourceType: resourceLocation.resourceType,
+        resourceLink: resourceLocation.resourceLink,
+      });
+
+    if (verification === "invalidSignature") {
+      throw new StandInError(
+        401,
+        "Unauthorized",
+        "The input authorization token can't serve the request. The wrong key is being used or the expected payload is not built as per the protocol.",
+      );
+    }
+
+    if (verification === "expired") {
+      throw new StandInError(
+        403,
+        "Forbidden",
+        "The authorization token is not valid at the current time. Please create another token and retry.",
+      );
+    }
+
+    if (verification === "insufficientPermissions") {
+      throw new StandInError(
+        403,
+        "Forbidden",
+        "Insufficient permissions provided in the authorization header for the corresponding request. Please retry with another authorization header.",
+      );
+    }
+
+    ensureThroughputAvailable(state);
+
+    response = await routeRequest(state, {
+      method: raw.method,
+      segments,
+      headers: raw.headers,
+      raw,
+    });
+
+    state.throughputWindowConsumed += parseFloat(
+      response.headers.get("x-ms-request-charge") || "0",
+    );
+  } catch (err) {
+    response = err instanceof StandInError
+      ? createJsonResponse(err.status, {
+        code: err.code,
+        message: err.message,
+      }, { "x-ms-request-charge": "0", ...err.headers })
+      : createJsonResponse(500, {
+        code: "InternalServerError",
+        message: (err as Error).message,
+      }, { "x-ms-request-charge": "0" });
+  }
+
+  response.headers.set(
+    "x-ms-request-duration-ms",
+    Math.max(performance.now() - started, 0.01).toFixed(3),
+  );
+
+  response.headers.set("x-ms-activity-id", crypto.randomUUID());
+
+  return response;
+}
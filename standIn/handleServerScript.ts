@@ -0,0 +1,64 @@
+import { StandInRequest } from "./standInTypes.ts";
+import { StandInError } from "./standInError.ts";
+import { createJsonResponse } from "./createJsonResponse.ts";
+import { readJsonBody } from "./readJsonBody.ts";
+import { createServerScript } from "./createServerScript.ts";
+import { createEmptyResponse } from "./createEmptyResponse.ts";
+import { createMethodNotAllowedError } from "./createMethodNotAllowedError.ts";
+
+/**
+ * Handles requests to read, replace and delete a server-side script.
+ * The requests and responses follow
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/replace-a-stored-procedure and
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/delete-a-stored-procedure,
+ * and the equivalent pages for triggers and user-defined functions.
+ * @param req An authorized request.
+ * @param scripts The scripts of the requested type, keyed by id.
+ * @param scriptId The id of the script.
+ * @param description A description of the type of script,
+ * used in error messages.
+ */
+export async function handleServerScript(
+  req: StandInRequest,
+  scripts: Map<string, Record<string, unknown>>,
+  scriptId: string,
+  description: string,
+) {
+  const existing = scripts.get(scriptId);
+
+  if (!existing) {
+    throw new StandInError(404, "NotFound", `${description} not found.`);
+  }
+
+  if (req.method === "GET") {
+    return createJsonResponse(200, existing, { "x-ms-request-charge": "1" });
+  }
+
+  if (req.method === "PUT") {
+    const body = await readJsonBody(req);
+
+    if (body.id !== scriptId) {
+      throw new StandInError(
+        400,
+        "BadRequest",
+        "The id of a resource cannot be changed.",
+      );
+    }
+
+    const resource = createServerScript(
+      { ...body, _rid: existing._rid },
+      existing._self as string,
+    );
+
+    scripts.set(scriptId, resource);
+
+    return createJsonResponse(200, resource, { "x-ms-request-charge": "1" });
+  }
+
+  if (req.method === "DELETE") {
+    scripts.delete(scriptId);
+    return createEmptyResponse(204, { "x-ms-request-charge": "1" });
+  }
+
+  throw createMethodNotAllowedError();
+}
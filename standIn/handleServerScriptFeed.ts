@@ -0,0 +1,69 @@
+import { StandInCollection, StandInRequest } from "./standInTypes.ts";
+import { createJsonResponse } from "./createJsonResponse.ts";
+import { readJsonBody } from "./readJsonBody.ts";
+import { ensureResourceId } from "./ensureResourceId.ts";
+import { StandInError } from "./standInError.ts";
+import { createServerScript } from "./createServerScript.ts";
+import { createMethodNotAllowedError } from "./createMethodNotAllowedError.ts";
+
+/**
+ * The names of the feeds that list each type of server-side script.
+ */
+const SERVER_SCRIPT_FEED_NAMES: Record<string, string> = {
+  sprocs: "StoredProcedures",
+  triggers: "Triggers",
+  udfs: "UserDefinedFunctions",
+};
+
+/**
+ * Handles requests to list and create the server-side scripts
+ * of a collection.
+ * The requests and responses follow
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/create-a-stored-procedure and
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/list-stored-procedures,
+ * and the equivalent pages for triggers and user-defined functions.
+ * @param req An authorized request.
+ * @param collection The collection.
+ * @param scripts The scripts of the requested type, keyed by id.
+ * @param resourceType The type of script, e.g. sprocs.
+ */
+export async function handleServerScriptFeed(
+  req: StandInRequest,
+  collection: StandInCollection,
+  scripts: Map<string, Record<string, unknown>>,
+  resourceType: string,
+) {
+  if (req.method === "GET") {
+    const resources = Array.from(scripts.values());
+
+    return createJsonResponse(200, {
+      _rid: collection.resource._rid,
+      [SERVER_SCRIPT_FEED_NAMES[resourceType]]: resources,
+      _count: resources.length,
+    }, { "x-ms-request-charge": "1" });
+  }
+
+  if (req.method === "POST") {
+    const body = await readJsonBody(req);
+    const id = ensureResourceId(body.id);
+
+    if (scripts.has(id)) {
+      throw new StandInError(
+        409,
+        "Conflict",
+        "Resource with specified id or name already exists.",
+      );
+    }
+
+    const resource = createServerScript(
+      body,
+      `${collection.resource._self}${resourceType}/${id}`,
+    );
+
+    scripts.set(id, resource);
+
+    return createJsonResponse(201, resource, { "x-ms-request-charge": "1" });
+  }
+
+  throw createMethodNotAllowedError();
+}
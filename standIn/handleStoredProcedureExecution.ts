@@ -0,0 +1,110 @@
+import {
+  StandInCollection,
+  StandInRequest,
+  StandInState,
+} from "./standInTypes.ts";
+import { StandInError } from "./standInError.ts";
+import { readPartitionKeyHeader } from "./readPartitionKeyHeader.ts";
+import { createServerScriptCollection } from "./createServerScriptCollection.ts";
+import { runServerScript } from "./runServerScript.ts";
+import { createSessionToken } from "./createSessionToken.ts";
+import { createEmptyResponse } from "./createEmptyResponse.ts";
+import { createJsonResponse } from "./createJsonResponse.ts";
+
+/**
+ * Handles a request to execute a stored procedure against the
+ * documents of a logical partition.  The changes made by the stored
+ * procedure are only committed if it completes without an error.
+ * The request follows
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/execute-a-stored-procedure
+ * and the transactional semantics are described here:
+ * https://learn.microsoft.com/en-us/azure/cosmos-db/nosql/stored-procedures-triggers-udfs.
+ * @param state The state of the stand-in.
+ * @param req An authorized request.
+ * @param collection The collection.
+ * @param storedProcedureId The id of the stored procedure.
+ */
+export async function handleStoredProcedureExecution(
+  state: StandInState,
+  req: StandInRequest,
+  collection: StandInCollection,
+  storedProcedureId: string,
+) {
+  const storedProcedure = collection.storedProcedures.get(storedProcedureId);
+
+  if (!storedProcedure) {
+    throw new StandInError(404, "NotFound", "Stored procedure not found.");
+  }
+
+  const partitionKeyValue = readPartitionKeyHeader(req, collection);
+
+  if (partitionKeyValue === null) {
+    throw new StandInError(
+      400,
+      "BadRequest",
+      "PartitionKey value must be supplied for this operation.",
+    );
+  }
+
+  let args: unknown;
+
+  try {
+    args = await req.raw.json();
+  } catch {
+    args = [];
+  }
+
+  const staging: StandInCollection = {
+    ...collection,
+    documents: new Map(collection.documents),
+  };
+
+  let requestCharge = 2;
+
+  const scriptCollection = createServerScriptCollection(
+    staging,
+    partitionKeyValue,
+    (charge) => requestCharge += charge,
+  );
+
+  let result: ReturnType<typeof runServerScript>;
+
+  try {
+    result = runServerScript(
+      storedProcedure.body as string,
+      Array.isArray(args) ? args : [args],
+      scriptCollection,
+    );
+  } catch (err) {
+    throw new StandInError(
+      400,
+      "BadRequest",
+      `Encountered exception while executing function. Exception = ${err}`,
+    );
+  }
+
+  collection.documents = staging.documents;
+  collection.lsn = staging.lsn;
+
+  const headers: Record<string, string> = {
+    "x-ms-request-charge": requestCharge.toFixed(2),
+    "x-ms-session-token": createSessionToken(
+      state,
+      collection,
+      partitionKeyValue,
+    ),
+  };
+
+  if (
+    req.headers.get("x-ms-documentdb-script-enable-logging")?.toLowerCase() ===
+      "true"
+  ) {
+    headers["x-ms-documentdb-script-log-results"] = encodeURIComponent(
+      result.log,
+    );
+  }
+
+  return result.body === undefined
+    ? createEmptyResponse(200, headers)
+    : createJsonResponse(200, result.body, headers);
+}
@@ -0,0 +1,43 @@
+import {
+  StandInDatabase,
+  StandInRequest,
+  StandInUser,
+} from "./standInTypes.ts";
+import { StandInError } from "./standInError.ts";
+import { createJsonResponse } from "./createJsonResponse.ts";
+import { createEmptyResponse } from "./createEmptyResponse.ts";
+import { createMethodNotAllowedError } from "./createMethodNotAllowedError.ts";
+
+/**
+ * Handles requests to read and delete a user.
+ * The requests and responses follow
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/get-a-user and
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/delete-a-user.
+ * @param req An authorized request.
+ * @param database The database that holds the user.
+ * @param userName The name of the user.
+ * @param user The user, if it exists.
+ */
+export function handleUser(
+  req: StandInRequest,
+  database: StandInDatabase,
+  userName: string,
+  user?: StandInUser,
+) {
+  if (!user) {
+    throw new StandInError(404, "NotFound", "User not found.");
+  }
+
+  if (req.method === "GET") {
+    return createJsonResponse(200, user.resource, {
+      "x-ms-request-charge": "1",
+    });
+  }
+
+  if (req.method === "DELETE") {
+    database.users.delete(userName);
+    return createEmptyResponse(204, { "x-ms-request-charge": "1" });
+  }
+
+  throw createMethodNotAllowedError();
+}
@@ -0,0 +1,54 @@
+import { StandInDatabase, StandInRequest } from "./standInTypes.ts";
+import { createJsonResponse } from "./createJsonResponse.ts";
+import { readJsonBody } from "./readJsonBody.ts";
+import { ensureResourceId } from "./ensureResourceId.ts";
+import { StandInError } from "./standInError.ts";
+import { createSystemProperties } from "./createSystemProperties.ts";
+import { createMethodNotAllowedError } from "./createMethodNotAllowedError.ts";
+
+/**
+ * Handles requests to list and create the users of a database.
+ * The requests and responses follow
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/create-a-user and
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/list-users.
+ * @param req An authorized request.
+ * @param database The database that holds the users.
+ */
+export async function handleUserFeed(
+  req: StandInRequest,
+  database: StandInDatabase,
+) {
+  if (req.method === "GET") {
+    const users = Array.from(database.users.values()).map((u) => u.resource);
+
+    return createJsonResponse(200, {
+      _rid: database.resource._rid,
+      Users: users,
+      _count: users.length,
+    }, { "x-ms-request-charge": "1" });
+  }
+
+  if (req.method === "POST") {
+    const body = await readJsonBody(req);
+    const id = ensureResourceId(body.id);
+
+    if (database.users.has(id)) {
+      throw new StandInError(
+        409,
+        "Conflict",
+        "Resource with specified id or name already exists.",
+      );
+    }
+
+    const resource = createSystemProperties(
+      { id },
+      `${database.resource._self}users/${id}`,
+    );
+
+    database.users.set(id, { resource, permissions: new Map() });
+
+    return createJsonResponse(201, resource, { "x-ms-request-charge": "1" });
+  }
+
+  throw createMethodNotAllowedError();
+}
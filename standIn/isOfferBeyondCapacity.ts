@@ -0,0 +1,27 @@
+import { StandInOfferContent, StandInState } from "./standInTypes.ts";
+
+/**
+ * The throughput, in RU/s, that a single partition key range can serve.
+ */
+const THROUGHPUT_PER_PARTITION_KEY_RANGE = 10000;
+
+/**
+ * Returns true if the throughput of the offer cannot be served by
+ * the current partition key ranges, in which case Cosmos must split
+ * the ranges before the replacement of the offer completes.
+ * The throughput served by a physical partition is described here:
+ * https://learn.microsoft.com/en-us/azure/cosmos-db/scaling-provisioned-throughput-best-practices.
+ * @param state The state of the stand-in.
+ * @param resource The resource of an offer.
+ */
+export function isOfferBeyondCapacity(
+  state: StandInState,
+  resource: Record<string, unknown>,
+) {
+  const content = resource.content as StandInOfferContent;
+  const throughput = content.offerAutopilotSettings?.maxThroughput ??
+    content.offerThroughput;
+
+  return throughput >
+    THROUGHPUT_PER_PARTITION_KEY_RANGE * state.partitionKeyRanges.length;
+}
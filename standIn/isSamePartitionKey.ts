@@ -0,0 +1,17 @@
+/**
+ * Returns true if a partition key header holds the given partition
+ * key value.
+ * @param header The value of the partition key header, if supplied.
+ * @param partitionKeyValue A partition key value.
+ */
+export function isSamePartitionKey(
+  header: string | null,
+  partitionKeyValue: unknown,
+) {
+  try {
+    return header !== null &&
+      JSON.stringify(JSON.parse(header)) === JSON.stringify(partitionKeyValue);
+  } catch {
+    return false;
+  }
+}
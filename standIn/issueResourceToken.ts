@@ -0,0 +1,58 @@
+import { encodeBase64 } from "../deps.ts";
+import {
+  StandInDatabase,
+  StandInRequest,
+  StandInState,
+  StandInUser,
+} from "./standInTypes.ts";
+import { StandInError } from "./standInError.ts";
+
+/**
+ * The longest time, in seconds, for which a resource token can be issued.
+ */
+const MAX_RESOURCE_TOKEN_SECONDS = 18000;
+
+/**
+ * Returns a copy of a permission with a newly issued resource token,
+ * which is valid for the number of seconds given by the expiry header.
+ * The token is recorded so that requests made with it can be authorized
+ * for as long as the token is valid and the permission exists.
+ * The expiry header and its limit of 5 hours are described here:
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/create-a-permission.
+ * @param state The state of the stand-in.
+ * @param req An authorized request.
+ * @param database The database that holds the user.
+ * @param user The user that holds the permission.
+ * @param permission A permission.
+ */
+export function issueResourceToken(
+  state: StandInState,
+  req: StandInRequest,
+  database: StandInDatabase,
+  user: StandInUser,
+  permission: Record<string, unknown>,
+) {
+  const expirySeconds = parseInt(
+    req.headers.get("x-ms-documentdb-expiry-seconds") || "3600",
+  );
+
+  if (!(expirySeconds > 0 && expirySeconds <= MAX_RESOURCE_TOKEN_SECONDS)) {
+    throw new StandInError(
+      400,
+      "BadRequest",
+      `The expiry of a resource token must be between 1 and ${MAX_RESOURCE_TOKEN_SECONDS} seconds.`,
+    );
+  }
+
+  const signature = encodeBase64(crypto.getRandomValues(new Uint8Array(32)));
+  const token = `type=resource&ver=1.0&sig=${signature}`;
+
+  state.resourceTokens.set(token, {
+    databaseName: database.resource.id as string,
+    userName: user.resource.id as string,
+    permissionId: permission.id as string,
+    expires: Date.now() + expirySeconds * 1000,
+  });
+
+  return { ...permission, _token: token };
+}
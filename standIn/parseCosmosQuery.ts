@@ -0,0 +1,661 @@
+/**
+ * An expression that appears within a Cosmos SQL query.
+ */
+export type CosmosQueryExpression =
+  | { kind: "literal"; value: unknown }
+  | { kind: "parameter"; name: string }
+  | { kind: "identifier"; name: string }
+  | { kind: "property"; target: CosmosQueryExpression; name: string }
+  | {
+    kind: "index";
+    target: CosmosQueryExpression;
+    index: CosmosQueryExpression;
+  }
+  | { kind: "unary"; operator: "-" | "NOT"; operand: CosmosQueryExpression }
+  | {
+    kind: "binary";
+    operator: string;
+    left: CosmosQueryExpression;
+    right: CosmosQueryExpression;
+  }
+  | {
+    kind: "in";
+    target: CosmosQueryExpression;
+    list: CosmosQueryExpression[];
+    negate: boolean;
+  }
+  | {
+    kind: "between";
+    target: CosmosQueryExpression;
+    low: CosmosQueryExpression;
+    high: CosmosQueryExpression;
+  }
+  | {
+    kind: "conditional";
+    condition: CosmosQueryExpression;
+    whenTrue: CosmosQueryExpression;
+    whenFalse: CosmosQueryExpression;
+  }
+  | { kind: "call"; name: string; args: CosmosQueryExpression[] }
+  | { kind: "array"; items: CosmosQueryExpression[] }
+  | {
+    kind: "object";
+    properties: { name: string; value: CosmosQueryExpression }[];
+  };
+
+/**
+ * An item in the selection list of a query.
+ */
+export interface CosmosQuerySelection {
+  /**
+   * The expression that produces the value.
+   */
+  expression: CosmosQueryExpression;
+
+  /**
+   * The name given to the value using AS, or null if not specified.
+   */
+  alias: string | null;
+}
+
+/**
+ * A single ORDER BY item.
+ */
+export interface CosmosQueryOrderBy {
+  /**
+   * The expression to sort on.
+   */
+  expression: CosmosQueryExpression;
+
+  /**
+   * True if the sort order is descending.
+   */
+  descending: boolean;
+}
+
+/**
+ * A parsed Cosmos SQL query.
+ */
+export interface CosmosQuery {
+  /**
+   * True if the DISTINCT keyword was specified.
+   */
+  distinct: boolean;
+
+  /**
+   * The TOP expression, or null if not specified.
+   */
+  top: CosmosQueryExpression | null;
+
+  /**
+   * True if the VALUE keyword was specified.
+   */
+  selectValue: boolean;
+
+  /**
+   * True if the query selects * (the whole document).
+   */
+  selectAll: boolean;
+
+  /**
+   * The selected items.
+   */
+  selections: CosmosQuerySelection[];
+
+  /**
+   * The alias given to the documents in the FROM clause, or null if
+   * the query has no FROM clause.
+   */
+  fromAlias: string | null;
+
+  /**
+   * The WHERE expression, or null if not specified.
+   */
+  where: CosmosQueryExpression | null;
+
+  /**
+   * The GROUP BY expressions.
+   */
+  groupBy: CosmosQueryExpression[];
+
+  /**
+   * The ORDER BY items.
+   */
+  orderBy: CosmosQueryOrderBy[];
+
+  /**
+   * The OFFSET expression, or null if not specified.
+   */
+  offset: CosmosQueryExpression | null;
+
+  /**
+   * The LIMIT expression, or null if not specified.
+   */
+  limit: CosmosQueryExpression | null;
+}
+
+/**
+ * A token read from a query string.
+ */
+interface Token {
+  /**
+   * The type of token.
+   */
+  type: "identifier" | "number" | "string" | "parameter" | "symbol" | "end";
+
+  /**
+   * The text of the token.  For strings this is the unescaped value.
+   */
+  text: string;
+}
+
+/**
+ * The keywords that cannot be used as identifiers.
+ */
+const RESERVED_WORDS = [
+  "SELECT",
+  "DISTINCT",
+  "TOP",
+  "VALUE",
+  "FROM",
+  "WHERE",
+  "GROUP",
+  "ORDER",
+  "BY",
+  "ASC",
+  "DESC",
+  "OFFSET",
+  "LIMIT",
+  "AND",
+  "OR",
+  "NOT",
+  "IN",
+  "BETWEEN",
+  "AS",
+];
+
+/**
+ * The symbols that are recognised, longest first.
+ */
+const SYMBOLS = [
+  "!=",
+  "<>",
+  "<=",
+  ">=",
+  "||",
+  "=",
+  "<",
+  ">",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  ",",
+  ".",
+  "(",
+  ")",
+  "[",
+  "]",
+  "{",
+  "}",
+  ":",
+  "?",
+];
+
+/**
+ * Parses a Cosmos SQL query.  Only the subset of the grammar that
+ * is needed to exercise the library is supported.  An error is
+ * raised if the query cannot be parsed.
+ * @param query A Cosmos SQL query.
+ */
+export function parseCosmosQuery(query: string): CosmosQuery {
+  const tokens = tokenize(query);
+  let position = 0;
+
+  const peek = () => tokens[position];
+
+  const next = () => tokens[position++];
+
+  const isKeyword = (keyword: string) =>
+    peek().type === "identifier" && peek().text.toUpperCase() === keyword;
+
+  const isSymbol = (symbol: string) =>
+    peek().type === "symbol" && peek().text === symbol;
+
+  const acceptKeyword = (keyword: string) => {
+    if (isKeyword(keyword)) {
+      position++;
+      return true;
+    }
+
+    return false;
+  };
+
+  const acceptSymbol = (symbol: string) => {
+    if (isSymbol(symbol)) {
+      position++;
+      return true;
+    }
+
+    return false;
+  };
+
+  const expectKeyword = (keyword: string) => {
+    if (!acceptKeyword(keyword)) {
+      throw new Error(`Expected ${keyword} but found '${peek().text}'.`);
+    }
+  };
+
+  const expectSymbol = (symbol: string) => {
+    if (!acceptSymbol(symbol)) {
+      throw new Error(`Expected '${symbol}' but found '${peek().text}'.`);
+    }
+  };
+
+  const expectIdentifier = (allowReservedWords = false) => {
+    const token = next();
+
+    if (
+      token.type !== "identifier" ||
+      (!allowReservedWords && RESERVED_WORDS.includes(token.text.toUpperCase()))
+    ) {
+      throw new Error(`Expected an identifier but found '${token.text}'.`);
+    }
+
+    return token.text;
+  };
+
+  const parseExpression = (): CosmosQueryExpression => parseConditional();
+
+  const parseConditional = (): CosmosQueryExpression => {
+    const condition = parseOr();
+
+    if (!acceptSymbol("?")) {
+      return condition;
+    }
+
+    const whenTrue = parseConditional();
+    expectSymbol(":");
+    const whenFalse = parseConditional();
+
+    return { kind: "conditional", condition, whenTrue, whenFalse };
+  };
+
+  const parseOr = (): CosmosQueryExpression => {
+    let left = parseAnd();
+
+    while (acceptKeyword("OR")) {
+      left = { kind: "binary", operator: "OR", left, right: parseAnd() };
+    }
+
+    return left;
+  };
+
+  const parseAnd = (): CosmosQueryExpression => {
+    let left = parseNot();
+
+    while (acceptKeyword("AND")) {
+      left = { kind: "binary", operator: "AND", left, right: parseNot() };
+    }
+
+    return left;
+  };
+
+  const parseNot = (): CosmosQueryExpression => {
+    if (acceptKeyword("NOT")) {
+      return { kind: "unary", operator: "NOT", operand: parseNot() };
+    }
+
+    return parseComparison();
+  };
+
+  const parseComparison = (): CosmosQueryExpression => {
+    const left = parseAdditive();
+
+    for (const operator of ["=", "!=", "<>", "<=", ">=", "<", ">"]) {
+      if (acceptSymbol(operator)) {
+        return {
+          kind: "binary",
+          operator: operator === "<>" ? "!=" : operator,
+          left,
+          right: parseAdditive(),
+        };
+      }
+    }
+
+    const negate = acceptKeyword("NOT");
+
+    if (acceptKeyword("IN")) {
+      expectSymbol("(");
+      const list = [parseExpression()];
+
+      while (acceptSymbol(",")) {
+        list.push(parseExpression());
+      }
+
+      expectSymbol(")");
+      return { kind: "in", target: left, list, negate };
+    }
+
+    if (acceptKeyword("BETWEEN")) {
+      const low = parseAdditive();
+      expectKeyword("AND");
+      const high = parseAdditive();
+      const between: CosmosQueryExpression = {
+        kind: "between",
+        target: left,
+        low,
+        high,
+      };
+
+      return negate
+        ? { kind: "unary", operator: "NOT", operand: between }
+        : between;
+    }
+
+    if (negate) {
+      throw new Error(`Expected IN or BETWEEN but found '${peek().text}'.`);
+    }
+
+    return left;
+  };
+
+  const parseAdditive = (): CosmosQueryExpression => {
+    let left = parseMultiplicative();
+
+    while (isSymbol("+") || isSymbol("-") || isSymbol("||")) {
+      const operator = next().text;
+      left = { kind: "binary", operator, left, right: parseMultiplicative() };
+    }
+
+    return left;
+  };
+
+  const parseMultiplicative = (): CosmosQueryExpression => {
+    let left = parseUnary();
+
+    while (isSymbol("*") || isSymbol("/") || isSymbol("%")) {
+      const operator = next().text;
+      left = { kind: "binary", operator, left, right: parseUnary() };
+    }
+
+    return left;
+  };
+
+  const parseUnary = (): CosmosQueryExpression => {
+    if (acceptSymbol("-")) {
+      return { kind: "unary", operator: "-", operand: parseUnary() };
+    }
+
+    return parsePostfix(parsePrimary());
+  };
+
+  const parsePostfix = (
+    target: CosmosQueryExpression,
+  ): CosmosQueryExpression => {
+    while (true) {
+      if (acceptSymbol(".")) {
+        // Reserved words can be used as property names, e.g. d.limit.
+        target = { kind: "property", target, name: expectIdentifier(true) };
+      } else if (acceptSymbol("[")) {
+        const index = parseExpression();
+        expectSymbol("]");
+        target = { kind: "index", target, index };
+      } else {
+        return target;
+      }
+    }
+  };
+
+  const parsePrimary = (): CosmosQueryExpression => {
+    const token = next();
+
+    switch (token.type) {
+      case "number":
+        return { kind: "literal", value: parseFloat(token.text) };
+      case "string":
+        return { kind: "literal", value: token.text };
+      case "parameter":
+        return { kind: "parameter", name: token.text };
+      case "symbol":
+        return parseSymbolPrimary(token);
+      case "identifier":
+        return parseIdentifierPrimary(token);
+      default:
+        throw new Error("Unexpected end of query.");
+    }
+  };
+
+  const parseSymbolPrimary = (token: Token): CosmosQueryExpression => {
+    if (token.text === "(") {
+      const inner = parseExpression();
+      expectSymbol(")");
+      return inner;
+    }
+
+    if (token.text === "[") {
+      const items: CosmosQueryExpression[] = [];
+
+      if (!acceptSymbol("]")) {
+        do {
+          items.push(parseExpression());
+        } while (acceptSymbol(","));
+
+        expectSymbol("]");
+      }
+
+      return { kind: "array", items };
+    }
+
+    if (token.text === "{") {
+      const properties: { name: string; value: CosmosQueryExpression }[] = [];
+
+      if (!acceptSymbol("}")) {
+        do {
+          const nameToken = next();
+          expectSymbol(":");
+          properties.push({ name: nameToken.text, value: parseExpression() });
+        } while (acceptSymbol(","));
+
+        expectSymbol("}");
+      }
+
+      return { kind: "object", properties };
+    }
+
+    throw new Error(`Unexpected symbol '${token.text}'.`);
+  };
+
+  const parseIdentifierPrimary = (token: Token): CosmosQueryExpression => {
+    const upper = token.text.toUpperCase();
+
+    if (upper === "TRUE") {
+      return { kind: "literal", value: true };
+    } else if (upper === "FALSE") {
+      return { kind: "literal", value: false };
+    } else if (upper === "NULL") {
+      return { kind: "literal", value: null };
+    } else if (upper === "UNDEFINED") {
+      return { kind: "literal", value: undefined };
+    }
+
+    if (RESERVED_WORDS.includes(upper)) {
+      throw new Error(`Unexpected keyword '${token.text}'.`);
+    }
+
+    if (acceptSymbol("(")) {
+      const args: CosmosQueryExpression[] = [];
+
+      if (!acceptSymbol(")")) {
+        do {
+          args.push(parseExpression());
+        } while (acceptSymbol(","));
+
+        expectSymbol(")");
+      }
+
+      return { kind: "call", name: upper, args };
+    }
+
+    return { kind: "identifier", name: token.text };
+  };
+
+  expectKeyword("SELECT");
+
+  const distinct = acceptKeyword("DISTINCT");
+  const top = acceptKeyword("TOP") ? parsePrimary() : null;
+  const selectValue = acceptKeyword("VALUE");
+  const selectAll = !selectValue && acceptSymbol("*");
+  const selections: CosmosQuerySelection[] = [];
+
+  if (!selectAll) {
+    do {
+      const expression = parseExpression();
+      const alias = acceptKeyword("AS") ? expectIdentifier() : null;
+      selections.push({ expression, alias });
+    } while (!selectValue && acceptSymbol(","));
+  }
+
+  let fromAlias: string | null = null;
+
+  if (acceptKeyword("FROM")) {
+    fromAlias = expectIdentifier();
+
+    if (acceptKeyword("AS")) {
+      fromAlias = expectIdentifier();
+    } else if (
+      peek().type === "identifier" &&
+      !RESERVED_WORDS.includes(peek().text.toUpperCase())
+    ) {
+      fromAlias = expectIdentifier();
+    }
+  }
+
+  const where = acceptKeyword("WHERE") ? parseExpression() : null;
+  const groupBy: CosmosQueryExpression[] = [];
+
+  if (acceptKeyword("GROUP")) {
+    expectKeyword("BY");
+
+    do {
+      groupBy.push(parseExpression());
+    } while (acceptSymbol(","));
+  }
+
+  const orderBy: CosmosQueryOrderBy[] = [];
+
+  if (acceptKeyword("ORDER")) {
+    expectKeyword("BY");
+
+    do {
+      const expression = parseExpression();
+      const descending = acceptKeyword("DESC");
+
+      if (!descending) {
+        acceptKeyword("ASC");
+      }
+
+      orderBy.push({ expression, descending });
+    } while (acceptSymbol(","));
+  }
+
+  let offset: CosmosQueryExpression | null = null;
+  let limit: CosmosQueryExpression | null = null;
+
+  if (acceptKeyword("OFFSET")) {
+    offset = parsePrimary();
+    expectKeyword("LIMIT");
+    limit = parsePrimary();
+  }
+
+  if (peek().type !== "end") {
+    throw new Error(`Unexpected '${peek().text}' at end of query.`);
+  }
+
+  return {
+    distinct,
+    top,
+    selectValue,
+    selectAll,
+    selections,
+    fromAlias,
+    where,
+    groupBy,
+    orderBy,
+    offset,
+    limit,
+  };
+}
+
+/**
+ * Splits a query into tokens.
+ * @param query A Cosmos SQL query.
+ */
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const ch = query[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (/[A-Za-z_$]/.test(ch)) {
+      const start = i;
+
+      while (i < query.length && /[A-Za-z0-9_$]/.test(query[i])) {
+        i++;
+      }
+
+      tokens.push({ type: "identifier", text: query.slice(start, i) });
+    } else if (ch === "@") {
+      const start = i++;
+
+      while (i < query.length && /[A-Za-z0-9_]/.test(query[i])) {
+        i++;
+      }
+
+      tokens.push({ type: "parameter", text: query.slice(start, i) });
+    } else if (/[0-9]/.test(ch)) {
+      const start = i;
+
+      while (i < query.length && /[0-9.eE]/.test(query[i])) {
+        i++;
+      }
+
+      tokens.push({ type: "number", text: query.slice(start, i) });
+    } else if (ch === "'" || ch === '"') {
+      let text = "";
+      i++;
+
+      while (i < query.length && query[i] !== ch) {
+        if (query[i] === "\\" && i + 1 < query.length) {
+          i++;
+        }
+
+        text += query[i++];
+      }
+
+      if (i >= query.length) {
+        throw new Error("Unterminated string in query.");
+      }
+
+      i++;
+      tokens.push({ type: "string", text });
+    } else {
+      const symbol = SYMBOLS.find((s) => query.startsWith(s, i));
+
+      if (!symbol) {
+        throw new Error(`Unexpected character '${ch}' in query.`);
+      }
+
+      tokens.push({ type: "symbol", text: symbol });
+      i += symbol.length;
+    }
+  }
+
+  tokens.push({ type: "end", text: "" });
+
+  return tokens;
+}
@@ -0,0 +1,24 @@
+import { StandInRequest } from "./standInTypes.ts";
+import { StandInError } from "./standInError.ts";
+
+/**
+ * Returns the body of a request parsed as a JSON object.
+ * @param req An authorized request.
+ */
+export async function readJsonBody(req: StandInRequest) {
+  try {
+    const body = await req.raw.json();
+
+    if (body === null || typeof body !== "object" || Array.isArray(body)) {
+      throw new Error("Body must be an object.");
+    }
+
+    return body as Record<string, unknown>;
+  } catch {
+    throw new StandInError(
+      400,
+      "BadRequest",
+      "The request payload is invalid. Ensure to provide a valid request payload.",
+    );
+  }
+}
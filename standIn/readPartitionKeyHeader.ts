@@ -0,0 +1,49 @@
+import {
+  StandInCollection,
+  StandInPartitionKey,
+  StandInRequest,
+} from "./standInTypes.ts";
+import { StandInError } from "./standInError.ts";
+import { getPartitionKeyPaths } from "./getPartitionKeyPaths.ts";
+
+/**
+ * Returns the partition key value supplied in the partition key header,
+ * or null if the header was not supplied.
+ * @param req An authorized request.
+ * @param collection The collection.
+ */
+export function readPartitionKeyHeader(
+  req: StandInRequest,
+  collection: StandInCollection,
+): StandInPartitionKey | null {
+  const header = req.headers.get("x-ms-documentdb-partitionkey");
+
+  if (header === null) {
+    return null;
+  }
+
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(header);
+  } catch {
+    throw new StandInError(
+      400,
+      "BadRequest",
+      "The partition key supplied in x-ms-partitionkey header has invalid format.",
+    );
+  }
+
+  if (
+    !Array.isArray(parsed) ||
+    parsed.length !== getPartitionKeyPaths(collection).length
+  ) {
+    throw new StandInError(
+      400,
+      "BadRequest",
+      "The partition key supplied in x-ms-partitionkey header has incorrect number of components.",
+    );
+  }
+
+  return parsed;
+}
@@ -0,0 +1,53 @@
+import {
+  StandInCollection,
+  StandInRequest,
+  StandInState,
+} from "./standInTypes.ts";
+import { StandInError } from "./standInError.ts";
+
+/**
+ * Returns the id of the partition key range supplied in the partition
+ * key range header, or null if the header was not supplied.  The header
+ * can contain just the range id or be prefixed by the collection rid.
+ * A range that no longer exists, because it has been split, results
+ * in a 410 (Gone) response.
+ * The substatus of the 410 response is listed here:
+ * https://learn.microsoft.com/en-us/rest/api/cosmos-db/http-status-codes-for-cosmosdb.
+ * @param state The state of the stand-in.
+ * @param req An authorized request.
+ * @param collection The collection.
+ */
+export function readPartitionKeyRangeHeader(
+  state: StandInState,
+  req: StandInRequest,
+  collection: StandInCollection,
+) {
+  const header = req.headers.get("x-ms-documentdb-partitionkeyrangeid");
+
+  if (header === null) {
+    return null;
+  }
+
+  const parts = header.split(",");
+
+  if (parts.length === 2 && parts[0] !== collection.resource._rid) {
+    throw new StandInError(
+      400,
+      "BadRequest",
+      "The partition key range id does not belong to this collection.",
+    );
+  }
+
+  const pkRangeId = parts[parts.length - 1];
+
+  if (!state.partitionKeyRanges.some((range) => range.id === pkRangeId)) {
+    throw new StandInError(
+      410,
+      "Gone",
+      "The requested partition key range is gone.",
+      { "x-ms-substatus": "1002" },
+    );
+  }
+
+  return pkRangeId;
+}
@@ -0,0 +1,142 @@
+import { StandInRequest, StandInState } from "./standInTypes.ts";
+import { handleOfferFeed } from "./handleOfferFeed.ts";
+import { handleOffer } from "./handleOffer.ts";
+import { StandInError } from "./standInError.ts";
+import { handleDatabaseFeed } from "./handleDatabaseFeed.ts";
+import { handleDatabase } from "./handleDatabase.ts";
+import { routeUserRequest } from "./routeUserRequest.ts";
+import { handleCollectionFeed } from "./handleCollectionFeed.ts";
+import { handleCollection } from "./handleCollection.ts";
+import { handlePartitionKeyRanges } from "./handlePartitionKeyRanges.ts";
+import { handleDocumentFeed } from "./handleDocumentFeed.ts";
+import { handleDocument } from "./handleDocument.ts";
+import { handleServerScriptFeed } from "./handleServerScriptFeed.ts";
+import { handleStoredProcedureExecution } from "./handleStoredProcedureExecution.ts";
+import { handleServerScript } from "./handleServerScript.ts";
+
+/**
+ * Passes the request to the appropriate handler.
+ * @param state The state of the stand-in.
+ * @param req An authorized request.
+ */
+export function routeRequest(
+  state: StandInState,
+  req: StandInRequest,
+): Promise<Response> | Response {
+  const [dbs, databaseName, colls, collectionName, resourceType, resourceId] =
+    req.segments;
+
+  if (dbs === "offers" && req.segments.length === 1) {
+    return handleOfferFeed(state, req);
+  }
+
+  if (dbs === "offers" && req.segments.length === 2) {
+    return handleOffer(state, req, req.segments[1]);
+  }
+
+  if (dbs !== "dbs") {
+    throw new StandInError(404, "NotFound", "Resource not found.");
+  }
+
+  if (req.segments.length === 1) {
+    return handleDatabaseFeed(state, req);
+  }
+
+  const database = state.databases.get(databaseName);
+
+  if (req.segments.length === 2) {
+    return handleDatabase(state, req, databaseName, database);
+  }
+
+  if (database && colls === "users") {
+    return routeUserRequest(state, req, database);
+  }
+
+  if (!database || colls !== "colls") {
+    throw new StandInError(404, "NotFound", "Database not found.");
+  }
+
+  if (req.segments.length === 3) {
+    return handleCollectionFeed(state, req, database);
+  }
+
+  const collection = database.collections.get(collectionName);
+
+  if (req.segments.length === 4) {
+    return handleCollection(state, req, database, collectionName, collection);
+  }
+
+  if (!collection) {
+    throw new StandInError(404, "NotFound", "Collection not found.");
+  }
+
+  if (resourceType === "pkranges" && req.segments.length === 5) {
+    return handlePartitionKeyRanges(state, req, collection);
+  }
+
+  if (resourceType === "docs" && req.segments.length === 5) {
+    return handleDocumentFeed(state, req, collection);
+  }
+
+  if (resourceType === "docs" && req.segments.length === 6) {
+    return handleDocument(state, req, collection, resourceId);
+  }
+
+  if (resourceType === "sprocs" && req.segments.length === 5) {
+    return handleServerScriptFeed(
+      req,
+      collection,
+      collection.storedProcedures,
+      "sprocs",
+    );
+  }
+
+  if (resourceType === "sprocs" && req.segments.length === 6) {
+    return req.method === "POST"
+      ? handleStoredProcedureExecution(state, req, collection, resourceId)
+      : handleServerScript(
+        req,
+        collection.storedProcedures,
+        resourceId,
+        "Stored procedure",
+      );
+  }
+
+  if (resourceType === "triggers" && req.segments.length === 5) {
+    return handleServerScriptFeed(
+      req,
+      collection,
+      collection.triggers,
+      "triggers",
+    );
+  }
+
+  if (resourceType === "triggers" && req.segments.length === 6) {
+    return handleServerScript(
+      req,
+      collection.triggers,
+      resourceId,
+      "Trigger",
+    );
+  }
+
+  if (resourceType === "udfs" && req.segments.length === 5) {
+    return handleServerScriptFeed(
+      req,
+      collection,
+      collection.userDefinedFunctions,
+      "udfs",
+    );
+  }
+
+  if (resourceType === "udfs" && req.segments.length === 6) {
+    return handleServerScript(
+      req,
+      collection.userDefinedFunctions,
+      resourceId,
+      "User-defined function",
+    );
+  }
+
+  throw new StandInError(404, "NotFound", "Resource not found.");
+}
@@ -0,0 +1,49 @@
+import {
+  StandInDatabase,
+  StandInRequest,
+  StandInState,
+} from "./standInTypes.ts";
+import { handleUserFeed } from "./handleUserFeed.ts";
+import { handleUser } from "./handleUser.ts";
+import { StandInError } from "./standInError.ts";
+import { handlePermissionFeed } from "./handlePermissionFeed.ts";
+import { handlePermission } from "./handlePermission.ts";
+
+/**
+ * Passes a request for the users of a database, or their
+ * permissions, to the appropriate handler.
+ * @param state The state of the stand-in.
+ * @param req An authorized request.
+ * @param database The database that holds the users.
+ */
+export function routeUserRequest(
+  state: StandInState,
+  req: StandInRequest,
+  database: StandInDatabase,
+) {
+  const [, , , userName, permissions, permissionName] = req.segments;
+
+  if (req.segments.length === 3) {
+    return handleUserFeed(req, database);
+  }
+
+  const user = database.users.get(userName);
+
+  if (req.segments.length === 4) {
+    return handleUser(req, database, userName, user);
+  }
+
+  if (!user || permissions !== "permissions") {
+    throw new StandInError(404, "NotFound", "User not found.");
+  }
+
+  if (req.segments.length === 5) {
+    return handlePermissionFeed(state, req, database, user);
+  }
+
+  if (req.segments.length === 6) {
+    return handlePermission(state, req, database, user, permissionName);
+  }
+
+  throw new StandInError(404, "NotFound", "Resource not found.");
+}
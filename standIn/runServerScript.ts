@@ -0,0 +1,265 @@
+/**
+ * The operations on the documents of a logical partition that are
+ * available to a stored procedure or trigger.  Each operation raises a
+ * ServerScriptError if it fails.
+ */
+export interface ServerScriptCollection {
+  /**
+   * The self link of the collection.
+   */
+  selfLink: string;
+
+  /**
+   * Creates a document, or replaces it if upsert is true.
+   */
+  createDocument: (
+    doc: Record<string, unknown>,
+    upsert: boolean,
+  ) => Record<string, unknown>;
+
+  /**
+   * Reads a document.
+   */
+  readDocument: (id: string) => Record<string, unknown>;
+
+  /**
+   * Replaces an existing document.
+   */
+  replaceDocument: (
+    id: string,
+    doc: Record<string, unknown>,
+    ifMatch: string | undefined,
+  ) => Record<string, unknown>;
+
+  /**
+   * Deletes an existing document.
+   */
+  deleteDocument: (id: string, ifMatch: string | undefined) => void;
+
+  /**
+   * Queries the documents.
+   */
+  queryDocuments: (
+    query: string,
+    parameters: { name: string; value: unknown }[],
+  ) => unknown[];
+}
+
+/**
+ * The outcome of running a server-side script.
+ */
+interface ServerScriptResult {
+  /**
+   * The response body set by the script.
+   */
+  body: unknown;
+
+  /**
+   * The request body, which a pre-trigger can replace.
+   */
+  requestBody: unknown;
+
+  /**
+   * The lines written using console.log.
+   */
+  log: string;
+}
+
+/**
+ * Raised by a collection operation, and passed to the callback
+ * of the script as the error argument.
+ */
+export class ServerScriptError extends Error {
+  constructor(readonly number: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * A callback supplied by a script to a collection operation.
+ */
+type ServerScriptCallback = (
+  err: ServerScriptError | undefined,
+  resource?: unknown,
+  options?: Record<string, unknown>,
+) => void;
+
+/**
+ * Runs the javascript source of a stored procedure or trigger, providing
+ * a subset of the Cosmos server-side api through getContext().  The
+ * collection operations complete synchronously, invoking any callback
+ * before they return.  An error thrown by the script, or by an operation
+ * that was not given a callback, is raised to the caller so that the
+ * changes can be rolled back.
+ * @param source The javascript source of the script.
+ * @param args The arguments passed to the script function.
+ * @param collection The operations available to the script.
+ * @param requestBody The body of the request that fired a trigger.
+ * @param responseBody The body of the response, which is the document
+ * written by the request for a post-trigger.
+ */
+export function runServerScript(
+  source: string,
+  args: unknown[],
+  collection: ServerScriptCollection,
+  requestBody?: unknown,
+  responseBody?: unknown,
+): ServerScriptResult {
+  let body = responseBody;
+  let request = requestBody;
+  const logLines: string[] = [];
+
+  // Runs an operation, passing the outcome to the callback if supplied.
+  const invoke = (operation: () => unknown, callback: unknown) => {
+    let result: unknown;
+
+    try {
+      result = operation();
+    } catch (err) {
+      if (typeof callback === "function" && err instanceof ServerScriptError) {
+        (callback as ServerScriptCallback)(err);
+        return true;
+      }
+
+      throw err;
+    }
+
+    if (typeof callback === "function") {
+      (callback as ServerScriptCallback)(undefined, result, {});
+    }
+
+    return true;
+  };
+
+  // The options argument of each operation is optional, so the
+  // callback may be supplied in its place.
+  const split = (optionsOrCallback: unknown, callback: unknown) =>
+    typeof optionsOrCallback === "function"
+      ? { options: {}, callback: optionsOrCallback }
+      : {
+        options: (optionsOrCallback || {}) as Record<string, unknown>,
+        callback,
+      };
+
+  const getId = (documentLink: string) => {
+    const segments = documentLink.split("/").filter((s) => s.length > 0);
+    return segments[segments.length - 1];
+  };
+
+  const context = {
+    getCollection: () => ({
+      getSelfLink: () => collection.selfLink,
+      createDocument: (
+        _link: string,
+        doc: Record<string, unknown>,
+        optionsOrCallback?: unknown,
+        callback?: unknown,
+      ) => {
+        const op = split(optionsOrCallback, callback);
+        return invoke(
+          () => collection.createDocument(doc, false),
+          op.callback,
+        );
+      },
+      upsertDocument: (
+        _link: string,
+        doc: Record<string, unknown>,
+        optionsOrCallback?: unknown,
+        callback?: unknown,
+      ) => {
+        const op = split(optionsOrCallback, callback);
+        return invoke(() => collection.createDocument(doc, true), op.callback);
+      },
+      readDocument: (
+        link: string,
+        optionsOrCallback?: unknown,
+        callback?: unknown,
+      ) => {
+        const op = split(optionsOrCallback, callback);
+        return invoke(() => collection.readDocument(getId(link)), op.callback);
+      },
+      replaceDocument: (
+        link: string,
+        doc: Record<string, unknown>,
+        optionsOrCallback?: unknown,
+        callback?: unknown,
+      ) => {
+        const op = split(optionsOrCallback, callback);
+        return invoke(
+          () =>
+            collection.replaceDocument(
+              getId(link),
+              doc,
+              op.options.etag as string | undefined,
+            ),
+          op.callback,
+        );
+      },
+      deleteDocument: (
+        link: string,
+        optionsOrCallback?: unknown,
+        callback?: unknown,
+      ) => {
+        const op = split(optionsOrCallback, callback);
+        return invoke(
+          () =>
+            collection.deleteDocument(
+              getId(link),
+              op.options.etag as string | undefined,
+            ),
+          op.callback,
+        );
+      },
+      queryDocuments: (
+        _link: string,
+        query: string | {
+          query: string;
+          parameters?: { name: string; value: unknown }[];
+        },
+        optionsOrCallback?: unknown,
+        callback?: unknown,
+      ) => {
+        const op = split(optionsOrCallback, callback);
+        return invoke(
+          () =>
+            typeof query === "string"
+              ? collection.queryDocuments(query, [])
+              : collection.queryDocuments(query.query, query.parameters || []),
+          op.callback,
+        );
+      },
+    }),
+    getRequest: () => ({
+      getBody: () => request,
+      setBody: (value: unknown) => {
+        request = value;
+      },
+    }),
+    getResponse: () => ({
+      getBody: () => body,
+      setBody: (value: unknown) => {
+        body = value;
+      },
+    }),
+  };
+
+  const scriptConsole = {
+    log: (...values: unknown[]) => {
+      logLines.push(
+        values.map((v) => typeof v === "string" ? v : JSON.stringify(v))
+          .join(" "),
+      );
+    },
+  };
+
+  const fn = new Function(
+    "getContext",
+    "console",
+    "__args",
+    `"use strict"; return (${source}).apply(undefined, __args);`,
+  );
+
+  fn(() => context, scriptConsole, args);
+
+  return { body, requestBody: request, log: logLines.join("\n") };
+}
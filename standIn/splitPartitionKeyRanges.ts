@@ -0,0 +1,34 @@
+import { StandInState } from "./standInTypes.ts";
+import { isOfferBeyondCapacity } from "./isOfferBeyondCapacity.ts";
+
+/**
+ * Splits every partition key range in two.
+ * How Cosmos splits physical partitions is described here:
+ * https://learn.microsoft.com/en-us/azure/cosmos-db/partitioning-overview.
+ * @param state The state of the stand-in.
+ */
+export function splitPartitionKeyRanges(state: StandInState) {
+  state.partitionKeyRanges = state.partitionKeyRanges.flatMap((range) => {
+    const mid = Math.floor((range.min + range.max) / 2);
+    const parents = [...range.parents, range.id];
+
+    return [
+      {
+        id: (state.nextPartitionKeyRangeId++).toString(),
+        min: range.min,
+        max: mid,
+        parents,
+      },
+      {
+        id: (state.nextPartitionKeyRangeId++).toString(),
+        min: mid,
+        max: range.max,
+        parents,
+      },
+    ];
+  });
+
+  for (const offer of state.offers.values()) {
+    offer.isReplacePending = isOfferBeyondCapacity(state, offer.resource);
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Raised by the request handlers to produce an error response.
+ */
+export class StandInError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly headers: Record<string, string> = {},
+  ) {
+    super(message);
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * A document held by the stand-in.
+ */
+export type StandInDocument = Record<string, unknown>;
+
+/**
+ * A partition key value, in the form used by the partition key header.
+ * There is one component for each partition key path of the collection,
+ * and a component of {} represents a document without the property.
+ */
+export type StandInPartitionKey = unknown[];
+
+/**
+ * A collection held by the stand-in.
+ */
+export interface StandInCollection {
+  /**
+   * The resource returned when the collection is read.
+   */
+  resource: Record<string, unknown>;
+
+  /**
+   * The documents in the collection, keyed by partition key value and id.
+   */
+  documents: Map<string, StandInDocument>;
+
+  /**
+   * The logical sequence number of the last write.
+   */
+  lsn: number;
+
+  /**
+   * The stored procedures of the collection, keyed by id.
+   */
+  storedProcedures: Map<string, Record<string, unknown>>;
+
+  /**
+   * The triggers of the collection, keyed by id.
+   */
+  triggers: Map<string, Record<string, unknown>>;
+
+  /**
+   * The user-defined functions of the collection, keyed by id.
+   */
+  userDefinedFunctions: Map<string, Record<string, unknown>>;
+}
+
+/**
+ * A partition key range of the stand-in.  The bounds are the first
+ * 8 hex digits of an effective partition key, as a number.
+ */
+export interface StandInPartitionKeyRange {
+  /**
+   * The id of the range.
+   */
+  id: string;
+
+  /**
+   * The lowest effective partition key prefix held by the range.
+   */
+  min: number;
+
+  /**
+   * The effective partition key prefix above the highest held by the range.
+   */
+  max: number;
+
+  /**
+   * The ids of the ranges that this range was split from, oldest first.
+   */
+  parents: string[];
+}
+
+/**
+ * A database held by the stand-in.
+ */
+export interface StandInDatabase {
+  /**
+   * The resource returned when the database is read.
+   */
+  resource: Record<string, unknown>;
+
+  /**
+   * The collections in the database.
+   */
+  collections: Map<string, StandInCollection>;
+
+  /**
+   * The users of the database.
+   */
+  users: Map<string, StandInUser>;
+}
+
+/**
+ * A user of a database held by the stand-in.
+ */
+export interface StandInUser {
+  /**
+   * The resource returned when the user is read.
+   */
+  resource: Record<string, unknown>;
+
+  /**
+   * The permissions of the user, keyed by id.
+   */
+  permissions: Map<string, Record<string, unknown>>;
+}
+
+/**
+ * An offer held by the stand-in, which describes the throughput
+ * provisioned for a database or collection.
+ */
+export interface StandInOffer {
+  /**
+   * The resource returned when the offer is read.
+   */
+  resource: Record<string, unknown>;
+
+  /**
+   * True if the throughput exceeds the capacity of the partition key
+   * ranges, in which case the replacement completes once the ranges
+   * have been split.
+   */
+  isReplacePending: boolean;
+}
+
+/**
+ * A resource token issued by the stand-in.
+ */
+export interface StandInResourceToken {
+  /**
+   * The name of the database that holds the user.
+   */
+  databaseName: string;
+
+  /**
+   * The name of the user that holds the permission.
+   */
+  userName: string;
+
+  /**
+   * The id of the permission that the token grants.
+   */
+  permissionId: string;
+
+  /**
+   * The time (in milliseconds) at which the token expires.
+   */
+  expires: number;
+}
+
+/**
+ * The state of the stand-in server.
+ */
+export interface StandInState {
+  /**
+   * The databases held by the stand-in.
+   */
+  databases: Map<string, StandInDatabase>;
+
+  /**
+   * The offers of the databases and collections that have
+   * their own throughput, keyed by offer id.
+   */
+  offers: Map<string, StandInOffer>;
+
+  /**
+   * The number used to generate the id of the next offer.
+   */
+  nextOfferNumber: number;
+
+  /**
+   * The resource tokens that have been issued, keyed by token.
+   */
+  resourceTokens: Map<string, StandInResourceToken>;
+
+  /**
+   * Returns true if an aad bearer token is valid, or null
+   * if aad authorization is not accepted.
+   */
+  isAadTokenValid: ((token: string) => boolean) | null;
+
+  /**
+   * The partition key ranges that each collection is split into.
+   */
+  partitionKeyRanges: StandInPartitionKeyRange[];
+
+  /**
+   * The id to give to the next partition key range that is created.
+   */
+  nextPartitionKeyRangeId: number;
+
+  /**
+   * The default maximum number of records in a page of query results.
+   */
+  pageSize: number;
+
+  /**
+   * The number of request units that can be consumed per second,
+   * or null if requests are never throttled.
+   */
+  requestUnitsPerSecond: number | null;
+
+  /**
+   * The time (in milliseconds) that the current throughput window began.
+   */
+  throughputWindowStart: number;
+
+  /**
+   * The number of request units consumed in the current throughput window.
+   */
+  throughputWindowConsumed: number;
+}
+
+/**
+ * A request that has been authorized and routed.
+ */
+export interface StandInRequest {
+  /**
+   * The Http method.
+   */
+  method: string;
+
+  /**
+   * The decoded segments of the request path.
+   */
+  segments: string[];
+
+  /**
+   * The request headers.
+   */
+  headers: Headers;
+
+  /**
+   * The raw request.
+   */
+  raw: Request;
+}
+
+/**
+ * The content of an offer held by the stand-in.
+ */
+export interface StandInOfferContent {
+  /**
+   * The provisioned throughput in RU/s.  For autoscale, this is
+   * the throughput that Cosmos scales down to.
+   */
+  offerThroughput: number;
+
+  /**
+   * The autoscale settings, if the offer uses autoscale.
+   */
+  offerAutopilotSettings?: { maxThroughput: number };
+}
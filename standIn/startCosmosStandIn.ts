@@ -0,0 +1,139 @@
+import { decodeBase64, encodeBase64 } from "../deps.ts";
+import { splitPartitionKeyRanges } from "./splitPartitionKeyRanges.ts";
+import { StandInPartitionKeyRange, StandInState } from "./standInTypes.ts";
+import { EPK_PREFIX_LIMIT } from "./formatRangeBoundary.ts";
+import { handleRequest } from "./handleRequest.ts";
+
+/**
+ * The options for starting a Cosmos stand-in server.
+ */
+export interface CosmosStandInOptions {
+  /**
+   * The port to listen on.  If not specified, a free port is chosen.
+   */
+  port?: number;
+
+  /**
+   * A base64 encoded master key that requests must be signed with.
+   * If not specified, a random key is generated.
+   */
+  masterKey?: string;
+
+  /**
+   * The number of partition key ranges (physical partitions) that
+   * each collection is split into.  Defaults to 1.
+   */
+  partitionKeyRangeCount?: number;
+
+  /**
+   * The maximum number of records returned in a single page of
+   * query results, unless the request asks for fewer
+   * using x-ms-max-item-count.  Defaults to 100.
+   */
+  pageSize?: number;
+
+  /**
+   * The number of request units that can be consumed per second
+   * before requests are throttled with a 429 response.
+   * If not specified, requests are never throttled.
+   */
+  requestUnitsPerSecond?: number;
+
+  /**
+   * Returns true if the bearer token of a request that uses
+   * aad authorization is valid.  If not specified, requests that
+   * use aad authorization are rejected.
+   */
+  isAadTokenValid?: (token: string) => boolean;
+}
+
+/**
+ * A running Cosmos stand-in server.
+ */
+export interface CosmosStandIn {
+  /**
+   * The url of the stand-in, to be used in place of a Cosmos url.
+   */
+  url: string;
+
+  /**
+   * The base64 encoded master key that requests must be signed with.
+   */
+  masterKey: string;
+
+  /**
+   * Splits every partition key range in two, in the same way that
+   * Cosmos splits a physical partition that has grown too large.
+   * The new ranges are given new ids, and requests that target the
+   * previous ranges receive a 410 (Gone) response.
+   */
+  splitPartitionKeyRanges: () => void;
+
+  /**
+   * Stops the server.
+   */
+  close: () => Promise<void>;
+}
+
+/**
+ * Starts an in-process HTTP server that implements the subset of
+ * the Cosmos REST api used by this library.  The data is held in memory
+ * and discarded when the server is closed.  Requests must be signed with
+ * the master key of the stand-in, in the same way as a real Cosmos account.
+ * This allows the library (and applications built on it) to be
+ * tested without access to a live Cosmos account.
+ * @param options A property bag of options.
+ */
+export async function startCosmosStandIn(
+  options: CosmosStandInOptions = {},
+): Promise<CosmosStandIn> {
+  const masterKey = options.masterKey ||
+    encodeBase64(crypto.getRandomValues(new Uint8Array(64)));
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    decodeBase64(masterKey),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+
+  const partitionKeyRangeCount = options.partitionKeyRangeCount || 1;
+  const partitionKeyRanges: StandInPartitionKeyRange[] = [];
+
+  for (let i = 0; i < partitionKeyRangeCount; i++) {
+    partitionKeyRanges.push({
+      id: i.toString(),
+      min: Math.floor(i * EPK_PREFIX_LIMIT / partitionKeyRangeCount),
+      max: Math.floor((i + 1) * EPK_PREFIX_LIMIT / partitionKeyRangeCount),
+      parents: [],
+    });
+  }
+
+  const state: StandInState = {
+    databases: new Map(),
+    offers: new Map(),
+    nextOfferNumber: 1,
+    resourceTokens: new Map(),
+    isAadTokenValid: options.isAadTokenValid || null,
+    partitionKeyRanges,
+    nextPartitionKeyRangeId: partitionKeyRangeCount,
+    pageSize: options.pageSize || 100,
+    requestUnitsPerSecond: options.requestUnitsPerSecond || null,
+    throughputWindowStart: 0,
+    throughputWindowConsumed: 0,
+  };
+
+  const server = Deno.serve({
+    hostname: "127.0.0.1",
+    port: options.port || 0,
+    onListen: () => {},
+  }, (req) => handleRequest(state, key, req));
+
+  return {
+    url: `http://127.0.0.1:${server.addr.port}`,
+    masterKey,
+    splitPartitionKeyRanges: () => splitPartitionKeyRanges(state),
+    close: () => server.shutdown(),
+  };
+}
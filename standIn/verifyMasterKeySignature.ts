@@ -0,0 +1,110 @@
+import { encodeBase64 } from "../deps.ts";
+
+/**
+ * The number of milliseconds either side of the current time
+ * for which a signed request is considered valid.
+ */
+const SIGNATURE_VALIDITY_MILLISECONDS = 15 * 60 * 1000;
+
+/**
+ * The properties required to verify a master key signature.
+ */
+export interface VerifyMasterKeySignatureProps {
+  /**
+   * A CryptoKey based on the Cosmos master key.
+   */
+  key: CryptoKey;
+
+  /**
+   * The value of the Authorization header.
+   */
+  authorizationHeader: string | null;
+
+  /**
+   * The value of the x-ms-date header.
+   */
+  xMsDateHeader: string | null;
+
+  /**
+   * The Http method of the request.
+   */
+  method: string;
+
+  /**
+   * The type of resource addressed by the request.
+   */
+  resourceType: string;
+
+  /**
+   * The resource link addressed by the request.
+   */
+  resourceLink: string;
+}
+
+/**
+ * The outcome of verifying a master key signature.
+ */
+export type VerifyMasterKeySignatureResult =
+  | "valid"
+  | "invalidSignature"
+  | "expired";
+
+/**
+ * Verifies the signature contained in an Authorization header
+ * was produced using the master key for the given request.
+ * This is the reverse of the process described here:
+ * https://docs.microsoft.com/en-us/rest/api/cosmos-db/access-control-on-cosmosdb-resources.
+ * @param props The property bag describing the request to verify.
+ */
+export async function verifyMasterKeySignature(
+  props: VerifyMasterKeySignatureProps,
+): Promise<VerifyMasterKeySignatureResult> {
+  if (!props.authorizationHeader || !props.xMsDateHeader) {
+    return "invalidSignature";
+  }
+
+  const parts = decodeURIComponent(props.authorizationHeader).split("&");
+  const values: Record<string, string> = {};
+
+  for (const part of parts) {
+    const separatorIndex = part.indexOf("=");
+
+    if (separatorIndex > 0) {
+      values[part.slice(0, separatorIndex)] = part.slice(separatorIndex + 1);
+    }
+  }
+
+  if (values.type !== "master" || values.ver !== "1.0" || !values.sig) {
+    return "invalidSignature";
+  }
+
+  const text = props.method.toLowerCase() +
+    "\n" +
+    props.resourceType.toLowerCase() +
+    "\n" +
+    props.resourceLink +
+    "\n" +
+    props.xMsDateHeader.toLowerCase() +
+    "\n\n";
+
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    props.key,
+    new TextEncoder().encode(text),
+  );
+
+  if (encodeBase64(signature) !== values.sig) {
+    return "invalidSignature";
+  }
+
+  const date = Date.parse(props.xMsDateHeader);
+
+  if (
+    isNaN(date) ||
+    Math.abs(Date.now() - date) > SIGNATURE_VALIDITY_MILLISECONDS
+  ) {
+    return "expired";
+  }
+
+  return "valid";
+}
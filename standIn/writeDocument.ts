@@ -0,0 +1,32 @@
+import { StandInCollection, StandInDocument } from "./standInTypes.ts";
+import { createSystemProperties } from "./createSystemProperties.ts";
+
+/**
+ * Stores a document in a collection, assigning new system properties.
+ * @param collection The collection.
+ * @param documentKey The key of the document within the collection.
+ * @param doc The document to store.
+ */
+export function writeDocument(
+  collection: StandInCollection,
+  documentKey: string,
+  doc: StandInDocument,
+) {
+  collection.lsn++;
+
+  const stored = createSystemProperties(
+    doc,
+    `${collection.resource._self}docs/${doc.id}`,
+  );
+
+  // The sequence number is recorded for the change feed but is not
+  // enumerable, so it is not returned when the document is read.
+  Object.defineProperty(stored, "_lsn", {
+    value: collection.lsn,
+    enumerable: false,
+  });
+
+  collection.documents.set(documentKey, stored);
+
+  return stored;
+}
@@ -0,0 +1,97 @@
+import {
+  StandInCollection,
+  StandInDocument,
+  StandInPartitionKey,
+  StandInRequest,
+} from "./standInTypes.ts";
+import { getRequestedTriggers } from "./getRequestedTriggers.ts";
+import { createServerScriptCollection } from "./createServerScriptCollection.ts";
+import { runServerScript } from "./runServerScript.ts";
+import { StandInError } from "./standInError.ts";
+
+/**
+ * Writes to a document, running the pre-triggers and post-triggers
+ * named in the request headers.  Pre-triggers can replace the document
+ * before it is written, and post-triggers can write other documents in
+ * the same logical partition.  If a trigger fails then none of the
+ * changes are committed.
+ * The semantics of triggers are described here:
+ * https://learn.microsoft.com/en-us/azure/cosmos-db/nosql/stored-procedures-triggers-udfs.
+ * @param req An authorized request.
+ * @param collection The collection.
+ * @param partitionKeyValue The partition key value of the document.
+ * @param operation The type of write.
+ * @param doc The document supplied with the request, or null for a delete.
+ * @param write Writes the document to the given collection,
+ * returning the stored document, or null for a delete.
+ */
+export function writeWithTriggers(
+  req: StandInRequest,
+  collection: StandInCollection,
+  partitionKeyValue: StandInPartitionKey,
+  operation: "Create" | "Upsert" | "Replace" | "Delete",
+  doc: StandInDocument | null,
+  write: (
+    target: StandInCollection,
+    doc: StandInDocument | null,
+  ) => StandInDocument | null,
+) {
+  const preTriggers = getRequestedTriggers(req, collection, "Pre", operation);
+  const postTriggers = getRequestedTriggers(
+    req,
+    collection,
+    "Post",
+    operation,
+  );
+
+  if (preTriggers.length === 0 && postTriggers.length === 0) {
+    return write(collection, doc);
+  }
+
+  const staging: StandInCollection = {
+    ...collection,
+    documents: new Map(collection.documents),
+  };
+
+  const scriptCollection = createServerScriptCollection(
+    staging,
+    partitionKeyValue,
+    () => {},
+  );
+
+  let stored: StandInDocument | null;
+
+  try {
+    for (const trigger of preTriggers) {
+      doc = runServerScript(trigger.body as string, [], scriptCollection, doc)
+        .requestBody as StandInDocument | null;
+    }
+
+    stored = write(staging, doc);
+
+    for (const trigger of postTriggers) {
+      runServerScript(
+        trigger.body as string,
+        [],
+        scriptCollection,
+        doc,
+        stored,
+      );
+    }
+  } catch (err) {
+    if (err instanceof StandInError) {
+      throw err;
+    }
+
+    throw new StandInError(
+      400,
+      "BadRequest",
+      `Encountered exception while executing trigger. Exception = ${err}`,
+    );
+  }
+
+  collection.documents = staging.documents;
+  collection.lsn = staging.lsn;
+
+  return stored;
+}
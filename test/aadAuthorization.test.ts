@@ -0,0 +1,87 @@
+import { assertEquals, assertRejects } from "../deps.ts";
+import {
+  createAadAuthorization,
+  createDatabase,
+  listDatabases,
+} from "../src/index.ts";
+import { startCosmosStandIn } from "../standIn/mod.ts";
+
+Deno.test("Cache aad tokens and refresh them before they expire.", async () => {
+  const expiries = [Date.now() + 60 * 1000, Date.now() + 60 * 60 * 1000];
+  let acquisitions = 0;
+
+  const authorization = createAadAuthorization(() => {
+    acquisitions++;
+
+    return Promise.resolve({
+      token: `token${acquisitions}`,
+      expiresOnTimestamp: expiries[acquisitions - 1],
+    });
+  });
+
+  const request = {
+    method: "GET" as const,
+    resourceType: "dbs" as const,
+    resourceLink: "",
+    date: new Date(),
+  };
+
+  // The first token expires within the refresh margin,
+  // so it is used once and then replaced.
+  assertEquals(
+    await authorization.getAuthorizationHeader(request),
+    encodeURIComponent("type=aad&ver=1.0&sig=token1"),
+  );
+
+  for (let i = 0; i < 3; i++) {
+    assertEquals(
+      await authorization.getAuthorizationHeader(request),
+      encodeURIComponent("type=aad&ver=1.0&sig=token2"),
+    );
+  }
+
+  assertEquals(acquisitions, 2);
+});
+
+Deno.test("Acquire a new aad token once when a request is unauthorized.", async () => {
+  const validTokens = new Set(["token2"]);
+
+  const standIn = await startCosmosStandIn({
+    isAadTokenValid: (token) => validTokens.has(token),
+  });
+
+  try {
+    let acquisitions = 0;
+
+    const authorization = createAadAuthorization(() => {
+      acquisitions++;
+
+      return Promise.resolve({
+        token: `token${acquisitions}`,
+        expiresOnTimestamp: Date.now() + 60 * 60 * 1000,
+      });
+    });
+
+    await createDatabase(authorization, standIn.url, "aad");
+
+    assertEquals(acquisitions, 2);
+
+    const databases = await listDatabases(authorization, standIn.url);
+
+    assertEquals(databases, ["aad"]);
+    assertEquals(acquisitions, 2);
+
+    // The token is revoked, and the replacement is rejected too.
+    validTokens.clear();
+
+    await assertRejects(
+      () => listDatabases(authorization, standIn.url),
+      Error,
+      "Unable to list databases",
+    );
+
+    assertEquals(acquisitions, 3);
+  } finally {
+    await standIn.close();
+  }
+});
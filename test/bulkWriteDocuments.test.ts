@@ -0,0 +1,138 @@
+import { assert, assertEquals } from "../deps.ts";
+import {
+  bulkWriteDocuments,
+  convertCosmosKeyToCryptoKey,
+  CosmosConflictError,
+  CosmosTransitoryError,
+  createCollection,
+  createDatabase,
+  queryDocumentsContainersDirect,
+} from "../src/index.ts";
+import { startCosmosStandIn } from "../standIn/mod.ts";
+
+async function* generateDocuments(count: number) {
+  for (let i = 0; i < count; i++) {
+    yield { id: `doc${i}`, partitionKey: `p${i % 4}`, index: i };
+  }
+}
+
+Deno.test("Bulk write documents while being throttled.", async () => {
+  const standIn = await startCosmosStandIn({
+    partitionKeyRangeCount: 2,
+    requestUnitsPerSecond: 60,
+  });
+
+  try {
+    const cryptoKey = await convertCosmosKeyToCryptoKey(standIn.masterKey);
+
+    await createDatabase(cryptoKey, standIn.url, "bulk");
+    await createCollection(cryptoKey, standIn.url, "bulk", "items");
+
+    const createResult = await bulkWriteDocuments(
+      cryptoKey,
+      standIn.url,
+      "bulk",
+      "items",
+      "create",
+      generateDocuments(20),
+      { maxConcurrency: 8 },
+    );
+
+    assertEquals(createResult.succeededCount, 20);
+    assertEquals(createResult.failures, []);
+    assert(createResult.throttledCount > 0);
+    assertEquals(Math.round(createResult.requestCharge * 100), 20 * 571);
+    assert(createResult.elapsedMilliseconds > 0);
+
+    // Re-creating existing documents fails per document,
+    // without aborting the rest of the job.
+    const conflictResult = await bulkWriteDocuments(
+      cryptoKey,
+      standIn.url,
+      "bulk",
+      "items",
+      "create",
+      [
+        { id: "doc1", partitionKey: "p1" },
+        { id: "doc99", partitionKey: "p1" },
+      ],
+      {},
+    );
+
+    assertEquals(conflictResult.succeededCount, 1);
+    assertEquals(conflictResult.failures.length, 1);
+    assertEquals(conflictResult.failures[0].index, 0);
+    assertEquals(conflictResult.failures[0].statusCode, 409);
+    assert(conflictResult.failures[0].error instanceof CosmosConflictError);
+
+    const deleteResult = await bulkWriteDocuments(
+      cryptoKey,
+      standIn.url,
+      "bulk",
+      "items",
+      "delete",
+      generateDocuments(20),
+      {},
+    );
+
+    assertEquals(deleteResult.succeededCount, 20);
+
+    const countResult = await queryDocumentsContainersDirect(
+      cryptoKey,
+      standIn.url,
+      "bulk",
+      "items",
+      "SELECT VALUE COUNT(1) FROM Docs d",
+      [],
+      "sum",
+      {},
+    );
+
+    assertEquals(countResult.data, 1);
+  } finally {
+    await standIn.close();
+  }
+});
+
+Deno.test("Report the details of transient failures that exhaust their retries.", async () => {
+  const server = Deno.serve({
+    hostname: "127.0.0.1",
+    port: 0,
+    onListen: () => {},
+  }, async (request) => {
+    await request.body?.cancel();
+
+    return new Response(
+      JSON.stringify({ code: "ServiceUnavailable", message: "Busy." }),
+      {
+        status: 503,
+        headers: { "x-ms-substatus": "21008", "x-ms-activity-id": "a1" },
+      },
+    );
+  });
+
+  try {
+    const url = `http://127.0.0.1:${server.addr.port}`;
+    const cryptoKey = await convertCosmosKeyToCryptoKey(btoa("key"));
+
+    const result = await bulkWriteDocuments(
+      cryptoKey,
+      url,
+      "bulk",
+      "items",
+      "upsert",
+      [{ id: "doc0", partitionKey: "p0" }],
+      { retryPolicy: { retryIntervalsInMilliseconds: [1], maxAttempts: 2 } },
+    );
+
+    assertEquals(result.succeededCount, 0);
+    assertEquals(result.failures[0].statusCode, 503);
+
+    const error = result.failures[0].error;
+    assert(error instanceof CosmosTransitoryError);
+    assertEquals(error.substatus, 21008);
+    assertEquals(error.activityId, "a1");
+  } finally {
+    await server.shutdown();
+  }
+});
@@ -0,0 +1,74 @@
+import { assert, assertEquals } from "../deps.ts";
+import {
+  convertCosmosKeyToCryptoKey,
+  createCosmosClient,
+} from "../src/index.ts";
+import { startCosmosStandIn } from "../standIn/mod.ts";
+
+Deno.test("Use a client with database and container handles.", async () => {
+  const standIn = await startCosmosStandIn({ partitionKeyRangeCount: 2 });
+
+  try {
+    const cryptoKey = await convertCosmosKeyToCryptoKey(standIn.masterKey);
+    const client = createCosmosClient(cryptoKey, standIn.url);
+
+    await client.createDatabase("shop");
+    assertEquals(await client.listDatabases(), ["shop"]);
+
+    const database = client.database("shop");
+    await database.createCollection("orders");
+    assertEquals(await database.listCollections(), ["orders"]);
+
+    const orders = database.container("orders");
+    assertEquals(orders.getSessionToken(), undefined);
+
+    await orders.createDocument("contoso", { id: "order1", total: 5 });
+    await orders.createDocument("fabrikam", { id: "order2", total: 7 });
+    await orders.patchDocument("contoso", "order1", [
+      { op: "incr", path: "/total", value: 1 },
+    ]);
+
+    // The session token holds the latest progress of each range.
+    const sessionToken = orders.getSessionToken() as string;
+    const segments = sessionToken.split(",").sort();
+
+    assertEquals(segments.length, 2);
+    assert(segments.includes("0:-1#3") || segments.includes("1:-1#3"));
+
+    // Another handle to the same collection shares the session.
+    const sameOrders = client.database("shop").container("orders");
+    assertEquals(sameOrders.getSessionToken(), sessionToken);
+
+    const getDocResult = await sameOrders.getDocument("contoso", "order1");
+    assertEquals(getDocResult.doc?.total, 6);
+
+    const countResult = await orders.queryDocumentsContainersDirect(
+      "SELECT VALUE COUNT(1) FROM Docs d",
+      [],
+      "count",
+    );
+
+    assertEquals(countResult.data, 2);
+
+    // Bulk writes also advance the session.
+    const bulkResult = await orders.bulkWriteDocuments("upsert", [
+      { id: "order3", partitionKey: "contoso", total: 9 },
+      { id: "order1", partitionKey: "contoso", total: 8 },
+    ]);
+
+    assertEquals(bulkResult.succeededCount, 2);
+    assert(bulkResult.sessionToken);
+    assert(orders.getSessionToken()?.includes(bulkResult.sessionToken));
+
+    const bulkDocResult = await orders.getDocument("contoso", "order1");
+    assertEquals(bulkDocResult.doc?.total, 8);
+
+    const deleteResult = await orders.deleteDocument("fabrikam", "order2");
+    assertEquals(deleteResult.didDelete, true);
+
+    await orders.deleteCollection();
+    assertEquals(orders.getSessionToken(), undefined);
+  } finally {
+    await standIn.close();
+  }
+});
@@ -0,0 +1,89 @@
+import { assert, assertObjectMatch } from "../deps.ts";
+import {
+  convertCosmosKeyToCryptoKey,
+  CosmosAuthError,
+  CosmosConflictError,
+  CosmosError,
+  CosmosNotFoundError,
+  createCollection,
+  createDatabase,
+  createDocument,
+  getCollection,
+  listDatabases,
+} from "../src/index.ts";
+import { startCosmosStandIn } from "../standIn/mod.ts";
+
+Deno.test("Raise typed errors that describe rejected requests.", async () => {
+  const standIn = await startCosmosStandIn();
+  const otherStandIn = await startCosmosStandIn();
+
+  try {
+    const cryptoKey = await convertCosmosKeyToCryptoKey(standIn.masterKey);
+
+    await createDatabase(cryptoKey, standIn.url, "errors");
+    await createCollection(cryptoKey, standIn.url, "errors", "items");
+
+    await createDocument(
+      cryptoKey,
+      standIn.url,
+      "errors",
+      "items",
+      "p",
+      { id: "doc1" },
+      {},
+    );
+
+    const conflict = await createDocument(
+      cryptoKey,
+      standIn.url,
+      "errors",
+      "items",
+      "p",
+      { id: "doc1" },
+      {},
+    ).catch((err) => err);
+
+    assert(conflict instanceof CosmosConflictError);
+    assert(conflict instanceof CosmosError);
+    assertObjectMatch({ ...conflict }, {
+      status: 409,
+      code: "Conflict",
+      operation: "createDocument",
+      resourceLink: "dbs/errors/colls/items/docs",
+    });
+    assert(conflict.activityId);
+    assert(conflict.message.startsWith("Unable to create document"));
+
+    const notFound = await getCollection(
+      cryptoKey,
+      standIn.url,
+      "errors",
+      "missing",
+    ).catch((err) => err);
+
+    assert(notFound instanceof CosmosNotFoundError);
+    assertObjectMatch({ ...notFound }, {
+      status: 404,
+      code: "NotFound",
+      operation: "getCollection",
+      resourceLink: "dbs/errors/colls/missing",
+    });
+
+    const wrongKey = await convertCosmosKeyToCryptoKey(otherStandIn.masterKey);
+
+    const unauthorized = await listDatabases(wrongKey, standIn.url).catch((
+      err,
+    ) => err);
+
+    assert(unauthorized instanceof CosmosAuthError);
+    assertObjectMatch({ ...unauthorized }, {
+      status: 401,
+      code: "Unauthorized",
+      operation: "listDatabases",
+      resourceLink: "dbs",
+    });
+  } finally {
+    await standIn.close();
+    await otherStandIn.close();
+  }
+});
@@ -1,24 +1,31 @@
-import { assert, assertEquals } from "../deps.ts";
+import { assert, assertEquals, assertRejects } from "../deps.ts";
 import {
   convertCosmosKeyToCryptoKey,
   getDocument,
   listCollections,
   listDatabases,
   queryDocumentsContainersDirect,
+  queryDocumentsContainersDirectPages,
   queryDocumentsGateway,
+  queryDocumentsGatewayPages,
 } from "../src/index.ts";
+import { mapWithConcurrency } from "../src/mapWithConcurrency.ts";
+import { mergeOrderedResults } from "../src/mergeOrderedResults.ts";
+import { getTestCosmos } from "./getTestCosmos.ts";
+import { withTestCollection } from "./withTestCollection.ts";
 
-const testCosmosUrl = Deno.env.get("COSMOS_URL");
+const { url: testCosmosUrl, key: testCosmosKey } = await getTestCosmos();
 
-if (!testCosmosUrl) {
-  throw new Error("COSMOS_URL is not defined.");
-}
-
-const testCosmosKey = Deno.env.get("COSMOS_KEY");
-
-if (!testCosmosKey) {
-  throw new Error("COSMOS_KEY is not defined.");
-}
+/**
+ * The albums that are seeded into a new collection by the tests that
+ * depend on the exact documents of a collection.
+ */
+const albums = [
+  { id: "001", partitionKey: "rock", trackCount: 10 },
+  { id: "002", partitionKey: "jazz", trackCount: 12 },
+  { id: "003", partitionKey: "pop", trackCount: 20 },
+  { id: "004", partitionKey: "rock", trackCount: 8 },
+];
 
 Deno.test("List databases and collections.", async () => {
   const cryptoKey = await convertCosmosKeyToCryptoKey(testCosmosKey);
@@ -82,6 +89,390 @@ Deno.test("Query documents using containers directly.", async () => {
   assertEquals(queryResult.data, 42);
 });
 
+Deno.test("Query aggregates using containers directly.", async () => {
+  const cryptoKey = await convertCosmosKeyToCryptoKey(testCosmosKey);
+
+  await withTestCollection(
+    testCosmosUrl,
+    testCosmosKey,
+    albums,
+    async (collectionName) => {
+      const queryAggregate = async (
+        query: string,
+        transform: "avg" | "count" | "max" | "min",
+      ) =>
+        (await queryDocumentsContainersDirect(
+          cryptoKey,
+          testCosmosUrl,
+          "deno",
+          collectionName,
+          query,
+          [],
+          transform,
+          {},
+        )).data;
+
+      assertEquals(
+        await queryAggregate("SELECT VALUE COUNT(1) FROM Docs d", "count"),
+        4,
+      );
+
+      assertEquals(
+        await queryAggregate(
+          "SELECT VALUE MIN(d.trackCount) FROM Docs d",
+          "min",
+        ),
+        8,
+      );
+
+      assertEquals(
+        await queryAggregate(
+          "SELECT VALUE MAX(d.trackCount) FROM Docs d",
+          "max",
+        ),
+        20,
+      );
+
+      assertEquals(
+        await queryAggregate(
+          "SELECT VALUE AVG(d.trackCount) FROM Docs d",
+          "avg",
+        ),
+        12.5,
+      );
+
+      assertEquals(
+        await queryAggregate(
+          "SELECT VALUE AVG(d.trackCount) FROM Docs d WHERE d.id = 'none'",
+          "avg",
+        ),
+        undefined,
+      );
+    },
+  );
+});
+
+Deno.test("Average only the numeric values using containers directly.", async () => {
+  const cryptoKey = await convertCosmosKeyToCryptoKey(testCosmosKey);
+
+  const mixedAlbums = [
+    { id: "001", partitionKey: "rock", trackCount: 10 },
+    { id: "002", partitionKey: "jazz", trackCount: "twelve" },
+    { id: "003", partitionKey: "pop", trackCount: 20 },
+    { id: "004", partitionKey: "rock", trackCount: null },
+    { id: "005", partitionKey: "pop" },
+  ];
+
+  await withTestCollection(
+    testCosmosUrl,
+    testCosmosKey,
+    mixedAlbums,
+    async (collectionName) => {
+      const queryResult = await queryDocumentsContainersDirect(
+        cryptoKey,
+        testCosmosUrl,
+        "deno",
+        collectionName,
+        "SELECT VALUE AVG(d.trackCount) FROM Docs d",
+        [],
+        "avg",
+        {},
+      );
+
+      assertEquals(queryResult.data, 15);
+    },
+  );
+});
+
+Deno.test("Query grouped aggregates using containers directly.", async () => {
+  const cryptoKey = await convertCosmosKeyToCryptoKey(testCosmosKey);
+
+  await withTestCollection(
+    testCosmosUrl,
+    testCosmosKey,
+    albums,
+    async (collectionName) => {
+      // The albums with 10 or more tracks are spread across partitions,
+      // so the partial groups must be merged.
+      const queryResult = await queryDocumentsContainersDirect(
+        cryptoKey,
+        testCosmosUrl,
+        "deno",
+        collectionName,
+        "SELECT COUNT(1) AS albumCount, SUM(d.trackCount) AS trackCount, MIN(d.trackCount) AS minTrackCount, AVG(d.trackCount) AS avgTrackCount FROM Docs d GROUP BY d.trackCount >= 10",
+        [],
+        "groupBy",
+        {},
+      );
+
+      const groups = queryResult.data as Record<string, unknown>[];
+
+      assertEquals(
+        groups.sort((a, b) =>
+          (a.albumCount as number) - (b.albumCount as number)
+        ),
+        [
+          { albumCount: 1, trackCount: 8, minTrackCount: 8, avgTrackCount: 8 },
+          {
+            albumCount: 3,
+            trackCount: 42,
+            minTrackCount: 10,
+            avgTrackCount: 14,
+          },
+        ],
+      );
+    },
+  );
+});
+
+Deno.test("Query documents in order using containers directly.", async () => {
+  const cryptoKey = await convertCosmosKeyToCryptoKey(testCosmosKey);
+
+  await withTestCollection(
+    testCosmosUrl,
+    testCosmosKey,
+    albums,
+    async (collectionName) => {
+      const queryResult = await queryDocumentsContainersDirect(
+        cryptoKey,
+        testCosmosUrl,
+        "deno",
+        collectionName,
+        "SELECT d.id FROM Docs d ORDER BY d.partitionKey, d.trackCount DESC",
+        [],
+        "orderBy",
+        {},
+      );
+
+      assertEquals(queryResult.data, [
+        { id: "002" },
+        { id: "003" },
+        { id: "001" },
+        { id: "004" },
+      ]);
+    },
+  );
+});
+
+Deno.test("Merge ordered results of mixed types.", () => {
+  const toRecord = (item: unknown) => ({
+    orderByItems: [item === undefined ? {} : { item }],
+    payload: item === undefined ? "undefined" : item,
+  });
+
+  const merged = mergeOrderedResults(
+    [
+      ["b", 2, null].map(toRecord),
+      ["a", true, undefined].map(toRecord),
+      [10, false].map(toRecord),
+    ],
+    [{ descending: true }],
+  );
+
+  assertEquals(merged, ["b", "a", 10, 2, true, false, null, "undefined"]);
+});
+
+Deno.test("Query distinct and windowed results using containers directly.", async () => {
+  const cryptoKey = await convertCosmosKeyToCryptoKey(testCosmosKey);
+
+  await withTestCollection(
+    testCosmosUrl,
+    testCosmosKey,
+    albums,
+    async (collectionName) => {
+      const distinctResult = await queryDocumentsContainersDirect(
+        cryptoKey,
+        testCosmosUrl,
+        "deno",
+        collectionName,
+        "SELECT DISTINCT VALUE d.trackCount >= 10 FROM Docs d",
+        [],
+        "concatArrays",
+        {},
+      );
+
+      assertEquals((distinctResult.data as boolean[]).sort(), [false, true]);
+
+      const windowResult = await queryDocumentsContainersDirect(
+        cryptoKey,
+        testCosmosUrl,
+        "deno",
+        collectionName,
+        "SELECT VALUE d.id FROM Docs d ORDER BY d.trackCount OFFSET @offset LIMIT 2",
+        [{ name: "@offset", value: 1 }],
+        "orderBy",
+        {},
+      );
+
+      assertEquals(windowResult.data, ["001", "002"]);
+    },
+  );
+});
+
+Deno.test("Query containers directly without a FROM clause.", async () => {
+  const cryptoKey = await convertCosmosKeyToCryptoKey(testCosmosKey);
+
+  const queryResult = await queryDocumentsContainersDirect(
+    cryptoKey,
+    testCosmosUrl,
+    "deno",
+    "albums",
+    "SELECT VALUE 1",
+    [],
+    "concatArrays",
+    {},
+  );
+
+  // Each pk range evaluates the query once.
+  const values = queryResult.data as unknown[];
+  assert(values.length > 0);
+  assert(values.every((value) => value === 1));
+});
+
+Deno.test("Query containers directly on properties named like keywords.", async () => {
+  const cryptoKey = await convertCosmosKeyToCryptoKey(testCosmosKey);
+
+  await withTestCollection(
+    testCosmosUrl,
+    testCosmosKey,
+    albums,
+    async (collectionName) => {
+      const orderedResult = await queryDocumentsContainersDirect(
+        cryptoKey,
+        testCosmosUrl,
+        "deno",
+        collectionName,
+        "SELECT VALUE d.id FROM Docs d WHERE d.trackCount > 0 OR d.limit > 5 ORDER BY d.trackCount OFFSET 1 LIMIT 2",
+        [],
+        "orderBy",
+        {},
+      );
+
+      assertEquals(orderedResult.data, ["001", "002"]);
+
+      const countResult = await queryDocumentsContainersDirect(
+        cryptoKey,
+        testCosmosUrl,
+        "deno",
+        collectionName,
+        "SELECT VALUE COUNT(1) FROM Docs d WHERE d.offset > 5",
+        [],
+        "count",
+        {},
+      );
+
+      assertEquals(countResult.data, 0);
+    },
+  );
+});
+
+Deno.test("Stop querying containers directly once TOP is satisfied.", async () => {
+  const cryptoKey = await convertCosmosKeyToCryptoKey(testCosmosKey);
+
+  await withTestCollection(
+    testCosmosUrl,
+    testCosmosKey,
+    albums,
+    async (collectionName) => {
+      const originalFetch = globalThis.fetch;
+      let fetchCount = 0;
+
+      globalThis.fetch = (input, init) => {
+        fetchCount++;
+        return originalFetch(input, init);
+      };
+
+      try {
+        const queryResult = await queryDocumentsContainersDirect(
+          cryptoKey,
+          testCosmosUrl,
+          "deno",
+          collectionName,
+          "SELECT TOP 1 d.id FROM Docs d",
+          [],
+          "concatArrays",
+          { maxParallelism: 1 },
+        );
+
+        assertEquals((queryResult.data as unknown[]).length, 1);
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+
+      // One request for the pk ranges and one for the first container,
+      // since no further containers are queried once TOP is satisfied.
+      assertEquals(fetchCount, 2);
+    },
+  );
+});
+
+Deno.test("Limit the parallelism of querying containers directly.", async () => {
+  const cryptoKey = await convertCosmosKeyToCryptoKey(testCosmosKey);
+  const originalFetch = globalThis.fetch;
+  let inFlightCount = 0;
+  let peakInFlightCount = 0;
+
+  globalThis.fetch = async (input, init) => {
+    inFlightCount++;
+    peakInFlightCount = Math.max(peakInFlightCount, inFlightCount);
+
+    try {
+      return await originalFetch(input, init);
+    } finally {
+      inFlightCount--;
+    }
+  };
+
+  const query = (maxParallelism?: number) =>
+    queryDocumentsContainersDirect(
+      cryptoKey,
+      testCosmosUrl,
+      "deno",
+      "albums",
+      "SELECT VALUE d.id FROM Docs d",
+      [],
+      "concatArrays",
+      { maxParallelism },
+    );
+
+  try {
+    const parallelResult = await query();
+    peakInFlightCount = 0;
+    const serialResult = await query(1);
+
+    assertEquals(peakInFlightCount, 1);
+    assertEquals(serialResult.data, parallelResult.data);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test("Wait for in-flight invocations before rejecting a concurrent map.", async () => {
+  const started: number[] = [];
+  let isSlowInvocationSettled = false;
+
+  await assertRejects(
+    () =>
+      mapWithConcurrency([1, 2, 3, 4], 2, async (item) => {
+        started.push(item);
+
+        if (item === 1) {
+          throw new Error("Invocation failed.");
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        isSlowInvocationSettled = true;
+      }),
+    Error,
+    "Invocation failed.",
+  );
+
+  // The second item was already in-flight when the first failed,
+  // but no further items were started.
+  assertEquals(started, [1, 2]);
+  assert(isSlowInvocationSettled);
+});
+
 Deno.test("Get single document.", async () => {
   const cryptoKey = await convertCosmosKeyToCryptoKey(testCosmosKey);
 
@@ -99,3 +490,86 @@ Deno.test("Get single document.", async () => {
   assert(getDocResult.requestCharge > 0);
   assert(getDocResult.requestDurationMilliseconds > 0);
 });
+
+Deno.test("Stream query pages using gateway.", async () => {
+  const cryptoKey = await convertCosmosKeyToCryptoKey(testCosmosKey);
+
+  const movies = [
+    { id: "007", partitionKey: "_central", title: "No time to die" },
+    { id: "008", partitionKey: "_central", title: "Skyfall" },
+    { id: "009", partitionKey: "_central", title: "Spectre" },
+  ];
+
+  await withTestCollection(
+    testCosmosUrl,
+    testCosmosKey,
+    movies,
+    async (collectionName) => {
+      const pages = [];
+
+      for await (
+        const page of queryDocumentsGatewayPages(
+          cryptoKey,
+          testCosmosUrl,
+          "deno",
+          collectionName,
+          "_central",
+          "SELECT d.id FROM Docs d",
+          [],
+          { maxItemCount: 1 },
+        )
+      ) {
+        pages.push(page);
+      }
+
+      assert(pages.length > 1);
+      assertEquals(pages[0].records.length, 1);
+      assertEquals(
+        pages[pages.length - 1].cumulativeRequestCharge,
+        pages.reduce((agg, cur) => agg + cur.requestCharge, 0),
+      );
+    },
+  );
+});
+
+Deno.test("Stop streaming query pages from containers directly.", async () => {
+  const cryptoKey = await convertCosmosKeyToCryptoKey(testCosmosKey);
+
+  await withTestCollection(
+    testCosmosUrl,
+    testCosmosKey,
+    albums,
+    async (collectionName) => {
+      const originalFetch = globalThis.fetch;
+      let fetchCount = 0;
+
+      globalThis.fetch = (input, init) => {
+        fetchCount++;
+        return originalFetch(input, init);
+      };
+
+      try {
+        for await (
+          const page of queryDocumentsContainersDirectPages(
+            cryptoKey,
+            testCosmosUrl,
+            "deno",
+            collectionName,
+            "SELECT d.id FROM Docs d",
+            [],
+            { maxItemCount: 1 },
+          )
+        ) {
+          assertEquals(page.records.length, 1);
+          assert(page.pkRange.length > 0);
+          break;
+        }
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+
+      // One request for the pk ranges and one for the first page.
+      assertEquals(fetchCount, 2);
+    },
+  );
+});
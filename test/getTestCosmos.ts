@@ -0,0 +1,97 @@
+import {
+  convertCosmosKeyToCryptoKey,
+  createCollection,
+  createDatabase,
+  createDocument,
+} from "../src/index.ts";
+import { startCosmosStandIn } from "../standIn/mod.ts";
+
+/**
+ * The location and key of a Cosmos account used for testing.
+ */
+interface TestCosmos {
+  /**
+   * The url to the Cosmos account.
+   */
+  url: string;
+
+  /**
+   * The master key of the Cosmos account.
+   */
+  key: string;
+}
+
+/**
+ * Returns the Cosmos account that the tests should run against.
+ * If COSMOS_URL and COSMOS_KEY are defined then the live account is used,
+ * otherwise an in-process stand-in is started and seeded with the
+ * databases, collections and documents that the tests expect.
+ */
+export async function getTestCosmos(): Promise<TestCosmos> {
+  const url = Deno.env.get("COSMOS_URL");
+  const key = Deno.env.get("COSMOS_KEY");
+
+  if (url && key) {
+    return { url, key };
+  }
+
+  if (url || key) {
+    throw new Error(
+      "COSMOS_URL and COSMOS_KEY must both be defined to test against a live account.",
+    );
+  }
+
+  // Multiple pk ranges and a small page size ensure that the
+  // direct-mode and continuation code paths are exercised.
+  const standIn = await startCosmosStandIn({
+    partitionKeyRangeCount: 3,
+    pageSize: 2,
+  });
+
+  await seedStandIn(standIn.url, standIn.masterKey);
+
+  return { url: standIn.url, key: standIn.masterKey };
+}
+
+/**
+ * Creates the documents that the tests expect to find on the live
+ * test account.  Tests that depend on any other documents create
+ * them in a collection of their own using withTestCollection.
+ * @param url The url to the stand-in.
+ * @param key The master key of the stand-in.
+ */
+async function seedStandIn(url: string, key: string) {
+  const cryptoKey = await convertCosmosKeyToCryptoKey(key);
+
+  await createDatabase(cryptoKey, url, "deno");
+  await createCollection(cryptoKey, url, "deno", "albums");
+  await createCollection(cryptoKey, url, "deno", "movies");
+
+  const albums = [
+    { id: "001", partitionKey: "rock", trackCount: 10 },
+    { id: "002", partitionKey: "jazz", trackCount: 12 },
+    { id: "003", partitionKey: "pop", trackCount: 20 },
+  ];
+
+  for (const album of albums) {
+    await createDocument(
+      cryptoKey,
+      url,
+      "deno",
+      "albums",
+      album.partitionKey,
+      album,
+      {},
+    );
+  }
+
+  await createDocument(
+    cryptoKey,
+    url,
+    "deno",
+    "movies",
+    "_central",
+    { id: "007", title: "No time to die" },
+    {},
+  );
+}
@@ -0,0 +1,95 @@
+import { assert, assertEquals } from "../deps.ts";
+import {
+  addCosmosInstrumentation,
+  convertCosmosKeyToCryptoKey,
+  CosmosRequestEvent,
+  CosmosResponseEvent,
+  createCollection,
+  createDatabase,
+  createDocument,
+} from "../src/index.ts";
+import { startCosmosStandIn } from "../standIn/mod.ts";
+
+Deno.test("Notify instrumentation hooks of each request attempt.", async () => {
+  const standIn = await startCosmosStandIn({ requestUnitsPerSecond: 1 });
+
+  const requests: CosmosRequestEvent[] = [];
+  const responses: CosmosResponseEvent[] = [];
+
+  const removeInstrumentation = addCosmosInstrumentation({
+    onRequest: (event) => requests.push(event),
+    onResponse: (event) => {
+      responses.push(event);
+      throw new Error("Hooks that fail are ignored.");
+    },
+  });
+
+  try {
+    const cryptoKey = await convertCosmosKeyToCryptoKey(standIn.masterKey);
+
+    await createDatabase(cryptoKey, standIn.url, "instrumented");
+    await createCollection(cryptoKey, standIn.url, "instrumented", "items");
+
+    await createDocument(
+      cryptoKey,
+      standIn.url,
+      "instrumented",
+      "items",
+      "p",
+      { id: "doc0" },
+      {},
+    );
+
+    requests.length = 0;
+    responses.length = 0;
+
+    // The throughput has been consumed, so the document is
+    // throttled at first and then retried.
+    await createDocument(
+      cryptoKey,
+      standIn.url,
+      "instrumented",
+      "items",
+      "p",
+      { id: "doc1" },
+      {},
+    );
+
+    assertEquals(
+      responses.map((r) => [r.operation, r.attempt, r.status]),
+      [
+        ["createDocument", 1, 429],
+        ["createDocument", 2, 201],
+      ],
+    );
+
+    assertEquals(requests.length, 2);
+    assertEquals(requests[0].resourceLink, "dbs/instrumented/colls/items/docs");
+    assertEquals(requests[0].method, "POST");
+    assertEquals(requests[0].headers["authorization"], "[REDACTED]");
+
+    for (const response of responses) {
+      assert(response.activityId);
+      assert(response.latencyMilliseconds >= 0);
+    }
+
+    assert(responses[1].requestCharge > 0);
+
+    removeInstrumentation();
+
+    await createDocument(
+      cryptoKey,
+      standIn.url,
+      "instrumented",
+      "items",
+      "p",
+      { id: "doc2" },
+      {},
+    );
+
+    assertEquals(responses.length, 2);
+  } finally {
+    removeInstrumentation();
+    await standIn.close();
+  }
+});
@@ -1,28 +1,29 @@
-import { assertEquals } from "../deps.ts";
+import { assertEquals, assertRejects } from "../deps.ts";
 import {
   convertCosmosKeyToCryptoKey,
+  CosmosAuthError,
   createCollection,
   createDatabase,
   createDocument,
+  createPermission,
+  createResourceTokenAuthorization,
+  createUser,
   deleteCollection,
   deleteDatabase,
   deleteDocument,
+  executeTransactionalBatch,
+  getCollection,
   getDocument,
+  getOffer,
   listDatabases,
+  patchDocument,
+  readChangeFeed,
   replaceDocument,
+  replaceOffer,
 } from "../src/index.ts";
+import { getTestCosmos } from "./getTestCosmos.ts";
 
-const testCosmosUrl = Deno.env.get("COSMOS_URL");
-
-if (!testCosmosUrl) {
-  throw new Error("COSMOS_URL is not defined.");
-}
-
-const testCosmosKey = Deno.env.get("COSMOS_KEY");
-
-if (!testCosmosKey) {
-  throw new Error("COSMOS_KEY is not defined.");
-}
+const { url: testCosmosUrl, key: testCosmosKey } = await getTestCosmos();
 
 Deno.test("Create a database and a collection, manipulate some documents, and tear down again.", async () => {
   const tempDb = "lib-temp";
@@ -116,3 +117,388 @@ Deno.test("Create a database and a collection, manipulate some documents, and te
 
   assertEquals(deleteDbResult.didDelete, true);
 });
+
+Deno.test("Create a document, patch it unconditionally and conditionally, and tear down again.", async () => {
+  const tempDb = "lib-temp-patch";
+  const tempCol = "patching";
+
+  const cryptoKey = await convertCosmosKeyToCryptoKey(testCosmosKey);
+
+  await deleteDatabase(cryptoKey, testCosmosUrl, tempDb);
+  await createDatabase(cryptoKey, testCosmosUrl, tempDb);
+  await createCollection(cryptoKey, testCosmosUrl, tempDb, tempCol);
+
+  const newDocId = crypto.randomUUID();
+
+  const createDocResult = await createDocument(
+    cryptoKey,
+    testCosmosUrl,
+    tempDb,
+    tempCol,
+    "_central",
+    {
+      id: newDocId,
+      status: "active",
+      visits: 1,
+      tags: ["a"],
+      oldName: "bob",
+    },
+    {},
+  );
+
+  const patchDocResult = await patchDocument(
+    cryptoKey,
+    testCosmosUrl,
+    tempDb,
+    tempCol,
+    "_central",
+    newDocId,
+    [
+      { op: "incr", path: "/visits", value: 2 },
+      { op: "add", path: "/tags/-", value: "b" },
+      { op: "set", path: "/city", value: "Bournemouth" },
+      { op: "move", from: "/oldName", path: "/name" },
+    ],
+    {
+      returnDocument: true,
+      sessionToken: createDocResult.sessionToken,
+    },
+  );
+
+  assertEquals(patchDocResult.didPatch, true);
+  assertEquals(patchDocResult.doc?.visits, 3);
+  assertEquals(patchDocResult.doc?.tags, ["a", "b"]);
+  assertEquals(patchDocResult.doc?.city, "Bournemouth");
+  assertEquals(patchDocResult.doc?.name, "bob");
+  assertEquals(patchDocResult.doc?.oldName, undefined);
+
+  const failedPatchResult = await patchDocument(
+    cryptoKey,
+    testCosmosUrl,
+    tempDb,
+    tempCol,
+    "_central",
+    newDocId,
+    [{ op: "remove", path: "/city" }],
+    {
+      condition: "FROM c WHERE c.status = 'inactive'",
+      sessionToken: patchDocResult.sessionToken,
+    },
+  );
+
+  assertEquals(failedPatchResult.didPatch, false);
+  assertEquals(failedPatchResult.doc, null);
+
+  const minimalPatchResult = await patchDocument(
+    cryptoKey,
+    testCosmosUrl,
+    tempDb,
+    tempCol,
+    "_central",
+    newDocId,
+    [{ op: "replace", path: "/status", value: "inactive" }],
+    {
+      condition: "FROM c WHERE c.status = 'active'",
+      sessionToken: failedPatchResult.sessionToken,
+    },
+  );
+
+  assertEquals(minimalPatchResult.didPatch, true);
+  assertEquals(minimalPatchResult.doc, null);
+
+  const getDocResult = await getDocument(
+    cryptoKey,
+    testCosmosUrl,
+    tempDb,
+    tempCol,
+    "_central",
+    newDocId,
+    {
+      sessionToken: minimalPatchResult.sessionToken,
+    },
+  );
+
+  assertEquals(getDocResult.doc?.status, "inactive");
+  assertEquals(getDocResult.doc?.city, "Bournemouth");
+
+  await deleteDatabase(cryptoKey, testCosmosUrl, tempDb);
+});
+
+Deno.test("Execute transactional batches that commit and roll back.", async () => {
+  const tempDb = "lib-temp-batch";
+  const tempCol = "batching";
+
+  const cryptoKey = await convertCosmosKeyToCryptoKey(testCosmosKey);
+
+  await deleteDatabase(cryptoKey, testCosmosUrl, tempDb);
+  await createDatabase(cryptoKey, testCosmosUrl, tempDb);
+  await createCollection(cryptoKey, testCosmosUrl, tempDb, tempCol);
+
+  const rootId = crypto.randomUUID();
+  const childId = crypto.randomUUID();
+
+  const committedBatchResult = await executeTransactionalBatch(
+    cryptoKey,
+    testCosmosUrl,
+    tempDb,
+    tempCol,
+    "order1",
+    [
+      { op: "create", document: { id: rootId, total: 10 } },
+      { op: "upsert", document: { id: childId, price: 10 } },
+      { op: "read", id: rootId },
+    ],
+    {},
+  );
+
+  assertEquals(committedBatchResult.didCommit, true);
+  assertEquals(
+    committedBatchResult.operationResults.map((r) => r.statusCode),
+    [201, 201, 200],
+  );
+  assertEquals(committedBatchResult.operationResults[2].doc?.total, 10);
+
+  const failedBatchResult = await executeTransactionalBatch(
+    cryptoKey,
+    testCosmosUrl,
+    tempDb,
+    tempCol,
+    "order1",
+    [
+      { op: "replace", document: { id: rootId, total: 20 } },
+      { op: "delete", id: childId },
+      { op: "create", document: { id: rootId, total: 30 } },
+    ],
+    {
+      sessionToken: committedBatchResult.sessionToken,
+    },
+  );
+
+  assertEquals(failedBatchResult.didCommit, false);
+  assertEquals(
+    failedBatchResult.operationResults.map((r) => r.statusCode),
+    [424, 424, 409],
+  );
+
+  const getDocResult = await getDocument(
+    cryptoKey,
+    testCosmosUrl,
+    tempDb,
+    tempCol,
+    "order1",
+    childId,
+    {
+      sessionToken: failedBatchResult.sessionToken,
+    },
+  );
+
+  assertEquals(getDocResult.doc?.price, 10);
+
+  await deleteDatabase(cryptoKey, testCosmosUrl, tempDb);
+});
+
+Deno.test("Create a collection with a full definition.", async () => {
+  const tempDb = "lib-temp-definition";
+  const tempCol = "defined";
+
+  const cryptoKey = await convertCosmosKeyToCryptoKey(testCosmosKey);
+
+  await deleteDatabase(cryptoKey, testCosmosUrl, tempDb);
+  await createDatabase(cryptoKey, testCosmosUrl, tempDb);
+
+  const originalFetch = globalThis.fetch;
+  let throughputHeader: string | null = null;
+
+  globalThis.fetch = (input, init) => {
+    throughputHeader = new Headers(init?.headers).get("x-ms-offer-throughput");
+    return originalFetch(input, init);
+  };
+
+  try {
+    await createCollection(cryptoKey, testCosmosUrl, tempDb, tempCol, {
+      indexingPolicy: {
+        indexingMode: "consistent",
+        automatic: true,
+        includedPaths: [{ path: "/*" }],
+        excludedPaths: [{ path: '/"_etag"/?' }],
+        compositeIndexes: [[
+          { path: "/artist", order: "ascending" },
+          { path: "/year", order: "descending" },
+        ]],
+        spatialIndexes: [{ path: "/venue/*", types: ["Point"] }],
+      },
+      uniqueKeyPolicy: { uniqueKeys: [{ paths: ["/title"] }] },
+      defaultTtl: 3600,
+      throughput: 400,
+    });
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+
+  assertEquals(throughputHeader, "400");
+
+  const collection = await getCollection(
+    cryptoKey,
+    testCosmosUrl,
+    tempDb,
+    tempCol,
+  );
+
+  assertEquals(collection.partitionKey.paths, ["/partitionKey"]);
+  assertEquals(collection.defaultTtl, 3600);
+  assertEquals(collection.uniqueKeyPolicy?.uniqueKeys, [{ paths: ["/title"] }]);
+  assertEquals(collection.indexingPolicy.compositeIndexes?.[0].length, 2);
+  assertEquals(collection.indexingPolicy.spatialIndexes?.[0].path, "/venue/*");
+
+  await deleteDatabase(cryptoKey, testCosmosUrl, tempDb);
+});
+
+Deno.test("Read and replace the throughput of a database, and tear down again.", async () => {
+  const tempDb = "lib-temp-offer";
+
+  const cryptoKey = await convertCosmosKeyToCryptoKey(testCosmosKey);
+
+  await deleteDatabase(cryptoKey, testCosmosUrl, tempDb);
+  await createDatabase(cryptoKey, testCosmosUrl, tempDb, { throughput: 400 });
+
+  const offer = await getOffer(cryptoKey, testCosmosUrl, tempDb, null);
+
+  assertEquals(offer?.throughput, 400);
+  assertEquals(offer?.maxAutoscaleThroughput, null);
+  assertEquals(offer?.minimumThroughput, 400);
+
+  const replacedOffer = await replaceOffer(
+    cryptoKey,
+    testCosmosUrl,
+    tempDb,
+    null,
+    { throughput: 500 },
+  );
+
+  assertEquals(replacedOffer.throughput, 500);
+  assertEquals(replacedOffer.isReplacePending, false);
+
+  await deleteDatabase(cryptoKey, testCosmosUrl, tempDb);
+});
+
+Deno.test("Authorize requests with a resource token, and tear down again.", async () => {
+  const tempDb = "lib-temp-token";
+  const tempCol = "tokens";
+
+  const cryptoKey = await convertCosmosKeyToCryptoKey(testCosmosKey);
+
+  await deleteDatabase(cryptoKey, testCosmosUrl, tempDb);
+  await createDatabase(cryptoKey, testCosmosUrl, tempDb);
+  await createCollection(cryptoKey, testCosmosUrl, tempDb, tempCol);
+  await createUser(cryptoKey, testCosmosUrl, tempDb, "reader");
+
+  await createDocument(
+    cryptoKey,
+    testCosmosUrl,
+    tempDb,
+    tempCol,
+    "contoso",
+    { id: "order1" },
+    {},
+  );
+
+  const permission = await createPermission(
+    cryptoKey,
+    testCosmosUrl,
+    tempDb,
+    "reader",
+    "readContoso",
+    {
+      permissionMode: "Read",
+      collectionName: tempCol,
+      partition: "contoso",
+    },
+  );
+
+  const authorization = createResourceTokenAuthorization([permission]);
+
+  const getDocResult = await getDocument(
+    authorization,
+    testCosmosUrl,
+    tempDb,
+    tempCol,
+    "contoso",
+    "order1",
+    {},
+  );
+
+  assertEquals(getDocResult.doc?.id, "order1");
+
+  // A Read permission does not allow writes.
+  await assertRejects(
+    () =>
+      createDocument(
+        authorization,
+        testCosmosUrl,
+        tempDb,
+        tempCol,
+        "contoso",
+        { id: "order2" },
+        {},
+      ),
+    CosmosAuthError,
+  );
+
+  await deleteDatabase(cryptoKey, testCosmosUrl, tempDb);
+});
+
+Deno.test("Read the change feed of a collection, and tear down again.", async () => {
+  const tempDb = "lib-temp-feed";
+  const tempCol = "feeding";
+
+  const cryptoKey = await convertCosmosKeyToCryptoKey(testCosmosKey);
+
+  await deleteDatabase(cryptoKey, testCosmosUrl, tempDb);
+  await createDatabase(cryptoKey, testCosmosUrl, tempDb);
+  await createCollection(cryptoKey, testCosmosUrl, tempDb, tempCol);
+
+  const nowResult = await readChangeFeed(
+    cryptoKey,
+    testCosmosUrl,
+    tempDb,
+    tempCol,
+    { startFrom: "now" },
+  );
+
+  for (const id of ["item1", "item2"]) {
+    await createDocument(
+      cryptoKey,
+      testCosmosUrl,
+      tempDb,
+      tempCol,
+      id,
+      { id },
+      {},
+    );
+  }
+
+  const changedResult = await readChangeFeed(
+    cryptoKey,
+    testCosmosUrl,
+    tempDb,
+    tempCol,
+    { continuation: nowResult.continuation },
+  );
+
+  assertEquals(
+    changedResult.docs.map((d) => d.id).sort(),
+    ["item1", "item2"],
+  );
+
+  const unchangedResult = await readChangeFeed(
+    cryptoKey,
+    testCosmosUrl,
+    tempDb,
+    tempCol,
+    { continuation: changedResult.continuation },
+  );
+
+  assertEquals(unchangedResult.docs, []);
+
+  await deleteDatabase(cryptoKey, testCosmosUrl, tempDb);
+});
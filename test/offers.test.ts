@@ -0,0 +1,126 @@
+import { assertEquals, assertRejects } from "../deps.ts";
+import {
+  convertCosmosKeyToCryptoKey,
+  createCollection,
+  createDatabase,
+  deleteCollection,
+  getOffer,
+  replaceOffer,
+} from "../src/index.ts";
+import { startCosmosStandIn } from "../standIn/mod.ts";
+
+Deno.test("Read and replace the throughput of a database.", async () => {
+  const standIn = await startCosmosStandIn();
+
+  try {
+    const cryptoKey = await convertCosmosKeyToCryptoKey(standIn.masterKey);
+
+    await createDatabase(cryptoKey, standIn.url, "shared", {
+      throughput: 400,
+    });
+
+    const offer = await getOffer(cryptoKey, standIn.url, "shared", null);
+
+    assertEquals(offer?.throughput, 400);
+    assertEquals(offer?.maxAutoscaleThroughput, null);
+    assertEquals(offer?.minimumThroughput, 400);
+    assertEquals(offer?.isReplacePending, false);
+
+    const manualOffer = await replaceOffer(
+      cryptoKey,
+      standIn.url,
+      "shared",
+      null,
+      { throughput: 600 },
+    );
+
+    assertEquals(manualOffer.throughput, 600);
+
+    const autoscaleOffer = await replaceOffer(
+      cryptoKey,
+      standIn.url,
+      "shared",
+      null,
+      { maxAutoscaleThroughput: 5000 },
+    );
+
+    assertEquals(autoscaleOffer.throughput, null);
+    assertEquals(autoscaleOffer.maxAutoscaleThroughput, 5000);
+
+    const migratedOffer = await replaceOffer(
+      cryptoKey,
+      standIn.url,
+      "shared",
+      null,
+      { throughput: 400 },
+    );
+
+    assertEquals(migratedOffer.throughput, 400);
+    assertEquals(migratedOffer.maxAutoscaleThroughput, null);
+  } finally {
+    await standIn.close();
+  }
+});
+
+Deno.test("Read and replace the throughput of a collection.", async () => {
+  const standIn = await startCosmosStandIn({ partitionKeyRangeCount: 1 });
+
+  try {
+    const cryptoKey = await convertCosmosKeyToCryptoKey(standIn.masterKey);
+
+    await createDatabase(cryptoKey, standIn.url, "dedicated");
+    await createCollection(cryptoKey, standIn.url, "dedicated", "shared");
+    await createCollection(cryptoKey, standIn.url, "dedicated", "items", {
+      maxAutoscaleThroughput: 4000,
+    });
+
+    assertEquals(
+      await getOffer(cryptoKey, standIn.url, "dedicated", "shared"),
+      null,
+    );
+
+    await assertRejects(() =>
+      replaceOffer(cryptoKey, standIn.url, "dedicated", "shared", {
+        throughput: 400,
+      })
+    );
+
+    const offer = await getOffer(cryptoKey, standIn.url, "dedicated", "items");
+
+    assertEquals(offer?.maxAutoscaleThroughput, 4000);
+
+    // Scaling beyond the capacity of the single physical partition
+    // remains pending until the partition has been split.
+    const pendingOffer = await replaceOffer(
+      cryptoKey,
+      standIn.url,
+      "dedicated",
+      "items",
+      { maxAutoscaleThroughput: 20000 },
+    );
+
+    assertEquals(pendingOffer.isReplacePending, true);
+
+    standIn.splitPartitionKeyRanges();
+
+    const completedOffer = await getOffer(
+      cryptoKey,
+      standIn.url,
+      "dedicated",
+      "items",
+    );
+
+    assertEquals(completedOffer?.maxAutoscaleThroughput, 20000);
+    assertEquals(completedOffer?.isReplacePending, false);
+
+    await deleteCollection(cryptoKey, standIn.url, "dedicated", "items");
+    await createCollection(cryptoKey, standIn.url, "dedicated", "items");
+
+    assertEquals(
+      await getOffer(cryptoKey, standIn.url, "dedicated", "items"),
+      null,
+    );
+  } finally {
+    await standIn.close();
+  }
+});
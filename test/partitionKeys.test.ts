@@ -0,0 +1,156 @@
+import { assertEquals } from "../deps.ts";
+import {
+  bulkWriteDocuments,
+  convertCosmosKeyToCryptoKey,
+  createCollection,
+  createDatabase,
+  createDocument,
+  deleteDocument,
+  executeTransactionalBatch,
+  getDocument,
+  queryDocumentsContainersDirect,
+  queryDocumentsGateway,
+} from "../src/index.ts";
+import { getEffectivePartitionKey } from "../src/getEffectivePartitionKey.ts";
+import { startCosmosStandIn } from "../standIn/mod.ts";
+
+Deno.test("Hash hierarchical partition key values into effective partition keys.", () => {
+  assertEquals(
+    getEffectivePartitionKey(["redmond", 5]),
+    "22E342F38A486A088463DFF7838A5963" + "19C08621B135968252FB34B4CF66F811",
+  );
+});
+
+Deno.test("Use non-string partition key values on a custom path.", async () => {
+  const standIn = await startCosmosStandIn({ partitionKeyRangeCount: 3 });
+
+  try {
+    const cryptoKey = await convertCosmosKeyToCryptoKey(standIn.masterKey);
+    const options = { partitionKeyPaths: ["/category"] };
+
+    await createDatabase(cryptoKey, standIn.url, "keys");
+    await createCollection(cryptoKey, standIn.url, "keys", "items", options);
+
+    const partitions = ['say "hello"', 7, true, null, undefined];
+
+    for (const [index, partition] of partitions.entries()) {
+      await createDocument(
+        cryptoKey,
+        standIn.url,
+        "keys",
+        "items",
+        partition,
+        { id: `item${index}`, category: "replaced" },
+        options,
+      );
+    }
+
+    for (const [index, partition] of partitions.entries()) {
+      const getDocResult = await getDocument(
+        cryptoKey,
+        standIn.url,
+        "keys",
+        "items",
+        partition,
+        `item${index}`,
+        {},
+      );
+
+      assertEquals(getDocResult.doc?.category, partition);
+
+      const queryResult = await queryDocumentsGateway(
+        cryptoKey,
+        standIn.url,
+        "keys",
+        "items",
+        partition,
+        "SELECT VALUE d.id FROM Docs d",
+        [],
+        {},
+      );
+
+      assertEquals(queryResult.records, [`item${index}`]);
+    }
+
+    const bulkResult = await bulkWriteDocuments(
+      cryptoKey,
+      standIn.url,
+      "keys",
+      "items",
+      "delete",
+      [{ id: "item1", category: 7 }, { id: "item4" }],
+      options,
+    );
+
+    assertEquals(bulkResult.failures, []);
+
+    const deleteResult = await deleteDocument(
+      cryptoKey,
+      standIn.url,
+      "keys",
+      "items",
+      null,
+      "item3",
+      {},
+    );
+
+    assertEquals(deleteResult.didDelete, true);
+  } finally {
+    await standIn.close();
+  }
+});
+
+Deno.test("Use hierarchical partition keys.", async () => {
+  const standIn = await startCosmosStandIn({ partitionKeyRangeCount: 3 });
+
+  try {
+    const cryptoKey = await convertCosmosKeyToCryptoKey(standIn.masterKey);
+    const options = { partitionKeyPaths: ["/tenantId", "/user/id"] };
+
+    await createDatabase(cryptoKey, standIn.url, "keys");
+    await createCollection(cryptoKey, standIn.url, "keys", "events", options);
+
+    for (const tenantId of ["contoso", "fabrikam"]) {
+      await executeTransactionalBatch(
+        cryptoKey,
+        standIn.url,
+        "keys",
+        "events",
+        [tenantId, 1],
+        [
+          { op: "create", document: { id: "login" } },
+          { op: "create", document: { id: "logout" } },
+        ],
+        options,
+      );
+    }
+
+    const getDocResult = await getDocument(
+      cryptoKey,
+      standIn.url,
+      "keys",
+      "events",
+      ["contoso", 1],
+      "login",
+      {},
+    );
+
+    assertEquals(getDocResult.doc?.tenantId, "contoso");
+    assertEquals(getDocResult.doc?.user, { id: 1 });
+
+    const queryResult = await queryDocumentsContainersDirect(
+      cryptoKey,
+      standIn.url,
+      "keys",
+      "events",
+      "SELECT VALUE COUNT(1) FROM Docs d WHERE d.tenantId = 'fabrikam'",
+      [],
+      "count",
+      { partition: ["fabrikam", 1] },
+    );
+
+    assertEquals(queryResult.data, 2);
+  } finally {
+    await standIn.close();
+  }
+});
@@ -0,0 +1,227 @@
+import { assert, assertEquals } from "../deps.ts";
+import {
+  convertCosmosKeyToCryptoKey,
+  createCollection,
+  createDatabase,
+  createDocument,
+  queryDocumentsContainersDirect,
+  queryDocumentsContainersDirectPages,
+} from "../src/index.ts";
+import { getEffectivePartitionKey } from "../src/getEffectivePartitionKey.ts";
+import { startCosmosStandIn } from "../standIn/mod.ts";
+
+Deno.test("Hash partition key values into effective partition keys.", () => {
+  // Reference values produced by the official Cosmos SDKs.
+  assertEquals(
+    getEffectivePartitionKey("redmond"),
+    "22E342F38A486A088463DFF7838A5963",
+  );
+  assertEquals(
+    getEffectivePartitionKey(""),
+    "32E9366E637A71B4E710384B2F4970A0",
+  );
+  assertEquals(getEffectivePartitionKey(5), "19C08621B135968252FB34B4CF66F811");
+  assertEquals(
+    getEffectivePartitionKey(true),
+    "0E711127C5B5A8E4726AC6DD306A3E59",
+  );
+  assertEquals(
+    getEffectivePartitionKey(false),
+    "2FE1BE91E90A3439635E0E9E37361EF2",
+  );
+  assertEquals(
+    getEffectivePartitionKey(null),
+    "378867E4430E67857ACE5C908374FE16",
+  );
+});
+
+Deno.test("Refresh cached pk ranges after a split and target a single pk range.", async () => {
+  const standIn = await startCosmosStandIn({ partitionKeyRangeCount: 2 });
+  const originalFetch = globalThis.fetch;
+
+  try {
+    const cryptoKey = await convertCosmosKeyToCryptoKey(standIn.masterKey);
+
+    await createDatabase(cryptoKey, standIn.url, "ranges");
+    await createCollection(cryptoKey, standIn.url, "ranges", "items");
+
+    for (let i = 0; i < 8; i++) {
+      await createDocument(
+        cryptoKey,
+        standIn.url,
+        "ranges",
+        "items",
+        `p${i}`,
+        { id: `item${i}` },
+        {},
+      );
+    }
+
+    const queryIds = async (partition?: string) =>
+      (await queryDocumentsContainersDirect(
+        cryptoKey,
+        standIn.url,
+        "ranges",
+        "items",
+        partition === undefined
+          ? "SELECT VALUE d.id FROM Docs d ORDER BY d.id"
+          : "SELECT VALUE d.id FROM Docs d WHERE d.partitionKey = @partition ORDER BY d.id",
+        partition === undefined
+          ? []
+          : [{ name: "@partition", value: partition }],
+        "orderBy",
+        { partition },
+      )).data;
+
+    const allIds = [0, 1, 2, 3, 4, 5, 6, 7].map((i) => `item${i}`);
+
+    assertEquals(await queryIds(), allIds);
+
+    // The cached ranges are now stale, so the query is rejected
+    // with a 410 and must be repeated with the new ranges.
+    standIn.splitPartitionKeyRanges();
+
+    assertEquals(await queryIds(), allIds);
+
+    const requestedUrls: string[] = [];
+
+    globalThis.fetch = (input, init) => {
+      requestedUrls.push(`${init?.method || "GET"} ${input}`);
+      return originalFetch(input, init);
+    };
+
+    assertEquals(await queryIds("p3"), ["item3"]);
+
+    // The collection is read to determine the hashing version and
+    // then the query is only sent to the pk range that holds p3.
+    assertEquals(requestedUrls, [
+      `GET ${standIn.url}/dbs/ranges/colls/items`,
+      `POST ${standIn.url}/dbs/ranges/colls/items/docs`,
+    ]);
+  } finally {
+    globalThis.fetch = originalFetch;
+    await standIn.close();
+  }
+});
+
+Deno.test("Stream pages from the pk ranges that replaced a split pk range.", async () => {
+  const standIn = await startCosmosStandIn({ partitionKeyRangeCount: 2 });
+
+  try {
+    const cryptoKey = await convertCosmosKeyToCryptoKey(standIn.masterKey);
+
+    await createDatabase(cryptoKey, standIn.url, "ranges");
+    await createCollection(cryptoKey, standIn.url, "ranges", "items");
+
+    for (let i = 0; i < 8; i++) {
+      await createDocument(
+        cryptoKey,
+        standIn.url,
+        "ranges",
+        "items",
+        `p${i}`,
+        { id: `item${i}` },
+        {},
+      );
+    }
+
+    const streamIds = async (onFirstPage: () => void) => {
+      const ids: string[] = [];
+      const pkRanges = new Set<string>();
+
+      for await (
+        const page of queryDocumentsContainersDirectPages(
+          cryptoKey,
+          standIn.url,
+          "ranges",
+          "items",
+          "SELECT VALUE d.id FROM Docs d",
+          [],
+          {},
+        )
+      ) {
+        if (pkRanges.size === 0) {
+          onFirstPage();
+        }
+
+        ids.push(...page.records as string[]);
+        pkRanges.add(page.pkRange);
+      }
+
+      return { ids: ids.sort(), pkRangeCount: pkRanges.size };
+    };
+
+    const allIds = [0, 1, 2, 3, 4, 5, 6, 7].map((i) => `item${i}`);
+
+    assertEquals(await streamIds(() => {}), { ids: allIds, pkRangeCount: 2 });
+
+    // The cached ranges are stale before the first page is requested.
+    standIn.splitPartitionKeyRanges();
+
+    assertEquals(await streamIds(() => {}), { ids: allIds, pkRangeCount: 4 });
+
+    // The ranges that remain to be queried are split once the
+    // first range has returned its only page.
+    const splitResult = await streamIds(() =>
+      standIn.splitPartitionKeyRanges()
+    );
+
+    assertEquals(splitResult.ids, allIds);
+  } finally {
+    await standIn.close();
+  }
+});
+
+Deno.test("Resume a pk range that is split part way through its pages.", async () => {
+  const standIn = await startCosmosStandIn({ partitionKeyRangeCount: 1 });
+
+  try {
+    const cryptoKey = await convertCosmosKeyToCryptoKey(standIn.masterKey);
+
+    await createDatabase(cryptoKey, standIn.url, "ranges");
+    await createCollection(cryptoKey, standIn.url, "ranges", "items");
+
+    for (let i = 0; i < 8; i++) {
+      await createDocument(
+        cryptoKey,
+        standIn.url,
+        "ranges",
+        "items",
+        `p${i}`,
+        { id: `item${i}` },
+        {},
+      );
+    }
+
+    const ids: string[] = [];
+    const pkRanges: string[] = [];
+
+    for await (
+      const page of queryDocumentsContainersDirectPages(
+        cryptoKey,
+        standIn.url,
+        "ranges",
+        "items",
+        "SELECT VALUE d.id FROM Docs d",
+        [],
+        { maxItemCount: 3 },
+      )
+    ) {
+      // Split the only range once its first page has been retrieved.
+      if (pkRanges.length === 0) {
+        standIn.splitPartitionKeyRanges();
+      }
+
+      ids.push(...page.records as string[]);
+      pkRanges.push(page.pkRange);
+    }
+
+    // The ranges that replaced the split range resume from its
+    // continuation, so no document is skipped or repeated.
+    assertEquals(ids.sort(), [0, 1, 2, 3, 4, 5, 6, 7].map((i) => `item${i}`));
+    assert(pkRanges.length > 1);
+    assert(pkRanges.slice(1).every((pkRange) => pkRange !== pkRanges[0]));
+  } finally {
+    await standIn.close();
+  }
+});
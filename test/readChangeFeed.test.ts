@@ -0,0 +1,347 @@
+import { assertEquals, assertRejects } from "../deps.ts";
+import {
+  convertCosmosKeyToCryptoKey,
+  createCollection,
+  createDatabase,
+  createDocument,
+  readChangeFeed,
+  readChangeFeedPages,
+  replaceDocument,
+} from "../src/index.ts";
+import { startCosmosStandIn } from "../standIn/mod.ts";
+
+Deno.test("Read the change feed from the beginning, from now and from a continuation.", async () => {
+  const standIn = await startCosmosStandIn({
+    partitionKeyRangeCount: 3,
+    pageSize: 2,
+  });
+
+  try {
+    const cryptoKey = await convertCosmosKeyToCryptoKey(standIn.masterKey);
+
+    await createDatabase(cryptoKey, standIn.url, "feed");
+    await createCollection(cryptoKey, standIn.url, "feed", "items");
+
+    for (let i = 0; i < 6; i++) {
+      await createDocument(
+        cryptoKey,
+        standIn.url,
+        "feed",
+        "items",
+        `p${i}`,
+        { id: `item${i}`, version: 1 },
+        {},
+      );
+    }
+
+    const nowResult = await readChangeFeed(
+      cryptoKey,
+      standIn.url,
+      "feed",
+      "items",
+      { startFrom: "now" },
+    );
+
+    assertEquals(nowResult.docs, []);
+
+    const beginningResult = await readChangeFeed(
+      cryptoKey,
+      standIn.url,
+      "feed",
+      "items",
+      {},
+    );
+
+    assertEquals(
+      beginningResult.docs.map((d) => d.id).sort(),
+      ["item0", "item1", "item2", "item3", "item4", "item5"],
+    );
+
+    // Simulate persisting the continuation between runs.
+    const persistedContinuation = JSON.parse(
+      JSON.stringify(beginningResult.continuation),
+    );
+
+    await replaceDocument(
+      cryptoKey,
+      standIn.url,
+      "feed",
+      "items",
+      "p2",
+      { id: "item2", version: 2 },
+      {},
+    );
+
+    await createDocument(
+      cryptoKey,
+      standIn.url,
+      "feed",
+      "items",
+      "p6",
+      { id: "item6", version: 1 },
+      {},
+    );
+
+    const resumedResult = await readChangeFeed(
+      cryptoKey,
+      standIn.url,
+      "feed",
+      "items",
+      { continuation: persistedContinuation },
+    );
+
+    assertEquals(
+      resumedResult.docs.map((d) => `${d.id}/${d.version}`).sort(),
+      ["item2/2", "item6/1"],
+    );
+
+    const nowResumedResult = await readChangeFeed(
+      cryptoKey,
+      standIn.url,
+      "feed",
+      "items",
+      { continuation: nowResult.continuation },
+    );
+
+    assertEquals(
+      nowResumedResult.docs.map((d) => d.id).sort(),
+      ["item2", "item6"],
+    );
+
+    const caughtUpResult = await readChangeFeed(
+      cryptoKey,
+      standIn.url,
+      "feed",
+      "items",
+      { continuation: resumedResult.continuation },
+    );
+
+    assertEquals(caughtUpResult.docs, []);
+
+    const timeResult = await readChangeFeed(
+      cryptoKey,
+      standIn.url,
+      "feed",
+      "items",
+      { startFrom: new Date(Date.now() + 60000) },
+    );
+
+    assertEquals(timeResult.docs, []);
+  } finally {
+    await standIn.close();
+  }
+});
+
+Deno.test("Read the change feed after the pk ranges are split.", async () => {
+  const standIn = await startCosmosStandIn({ partitionKeyRangeCount: 2 });
+
+  try {
+    const cryptoKey = await convertCosmosKeyToCryptoKey(standIn.masterKey);
+
+    await createDatabase(cryptoKey, standIn.url, "feed");
+    await createCollection(cryptoKey, standIn.url, "feed", "items");
+
+    for (let i = 0; i < 6; i++) {
+      await createDocument(
+        cryptoKey,
+        standIn.url,
+        "feed",
+        "items",
+        `p${i}`,
+        { id: `item${i}` },
+        {},
+      );
+    }
+
+    const beforeSplitResult = await readChangeFeed(
+      cryptoKey,
+      standIn.url,
+      "feed",
+      "items",
+      {},
+    );
+
+    assertEquals(Object.keys(beforeSplitResult.continuation).length, 2);
+
+    // The cached pk ranges are now out of date.
+    standIn.splitPartitionKeyRanges();
+
+    const afterSplitResult = await readChangeFeed(
+      cryptoKey,
+      standIn.url,
+      "feed",
+      "items",
+      {},
+    );
+
+    assertEquals(
+      afterSplitResult.docs.map((d) => d.id).sort(),
+      ["item0", "item1", "item2", "item3", "item4", "item5"],
+    );
+
+    assertEquals(Object.keys(afterSplitResult.continuation).length, 4);
+
+    // The ranges that replaced the split ranges resume from the
+    // position of their parents.
+    const resumedResult = await readChangeFeed(
+      cryptoKey,
+      standIn.url,
+      "feed",
+      "items",
+      { continuation: beforeSplitResult.continuation },
+    );
+
+    assertEquals(resumedResult.docs, []);
+    assertEquals(
+      Object.keys(resumedResult.continuation),
+      Object.keys(afterSplitResult.continuation),
+    );
+
+    await assertRejects(
+      () =>
+        readChangeFeed(
+          cryptoKey,
+          standIn.url,
+          "feed",
+          "items",
+          { continuation: { "unknown,0": '"1"' } },
+        ),
+      Error,
+      "does not contain a position",
+    );
+  } finally {
+    await standIn.close();
+  }
+});
+
+Deno.test("Read the change feed page by page and resume from the continuation of a page.", async () => {
+  const standIn = await startCosmosStandIn({ partitionKeyRangeCount: 3 });
+
+  try {
+    const cryptoKey = await convertCosmosKeyToCryptoKey(standIn.masterKey);
+
+    await createDatabase(cryptoKey, standIn.url, "feed");
+    await createCollection(cryptoKey, standIn.url, "feed", "items");
+
+    for (let i = 0; i < 6; i++) {
+      await createDocument(
+        cryptoKey,
+        standIn.url,
+        "feed",
+        "items",
+        `p${i}`,
+        { id: `item${i}` },
+        {},
+      );
+    }
+
+    const ids: string[] = [];
+    let savedContinuation = {};
+
+    // Stop part way through the feed, as if the process had ended
+    // after persisting the continuation of the second document.
+    for await (
+      const page of readChangeFeedPages(
+        cryptoKey,
+        standIn.url,
+        "feed",
+        "items",
+        { startFrom: "beginning", maxItemCount: 1 },
+      )
+    ) {
+      ids.push(...page.docs.map((d) => d.id as string));
+      savedContinuation = page.continuation;
+
+      if (ids.length === 2) {
+        break;
+      }
+    }
+
+    const resumedResult = await readChangeFeed(
+      cryptoKey,
+      standIn.url,
+      "feed",
+      "items",
+      { startFrom: "beginning", continuation: savedContinuation },
+    );
+
+    ids.push(...resumedResult.docs.map((d) => d.id as string));
+
+    assertEquals(
+      ids.sort(),
+      ["item0", "item1", "item2", "item3", "item4", "item5"],
+    );
+  } finally {
+    await standIn.close();
+  }
+});
+
+Deno.test("Keep the position of a change feed read from now when a pk range is split.", async () => {
+  const standIn = await startCosmosStandIn({ partitionKeyRangeCount: 2 });
+
+  try {
+    const cryptoKey = await convertCosmosKeyToCryptoKey(standIn.masterKey);
+
+    await createDatabase(cryptoKey, standIn.url, "feed");
+    await createCollection(cryptoKey, standIn.url, "feed", "items");
+
+    const ids: string[] = [];
+    let continuation = {};
+    let isSplit = false;
+
+    for await (
+      const page of readChangeFeedPages(
+        cryptoKey,
+        standIn.url,
+        "feed",
+        "items",
+        { startFrom: "now" },
+      )
+    ) {
+      ids.push(...page.docs.map((d) => d.id as string));
+      continuation = page.continuation;
+
+      // Change the documents and split the ranges once the first
+      // range has been read, so the second range is gone.
+      if (!isSplit) {
+        for (let i = 0; i < 6; i++) {
+          await createDocument(
+            cryptoKey,
+            standIn.url,
+            "feed",
+            "items",
+            `p${i}`,
+            { id: `item${i}` },
+            {},
+          );
+        }
+
+        standIn.splitPartitionKeyRanges();
+        isSplit = true;
+      }
+    }
+
+    assertEquals(Object.keys(continuation).length, 3);
+
+    // The ranges that replaced the second range read its changes
+    // from the position recorded before the changes were made, and
+    // the changes to the first range are read by the next run, so
+    // none of the changes are skipped.
+    const laterResult = await readChangeFeed(
+      cryptoKey,
+      standIn.url,
+      "feed",
+      "items",
+      { continuation },
+    );
+
+    ids.push(...laterResult.docs.map((d) => d.id as string));
+
+    assertEquals(
+      ids.sort(),
+      ["item0", "item1", "item2", "item3", "item4", "item5"],
+    );
+  } finally {
+    await standIn.close();
+  }
+});
@@ -0,0 +1,162 @@
+import { assertEquals, assertRejects } from "../deps.ts";
+import {
+  convertCosmosKeyToCryptoKey,
+  CosmosThrottledError,
+  CosmosTransitoryError,
+  createCollection,
+  createCosmosClient,
+  createDatabase,
+  createDocument,
+  getDocument,
+} from "../src/index.ts";
+import { startCosmosStandIn } from "../standIn/mod.ts";
+
+Deno.test("Wait for the retry-after period requested when throttled.", async () => {
+  const standIn = await startCosmosStandIn({ requestUnitsPerSecond: 1 });
+
+  try {
+    const cryptoKey = await convertCosmosKeyToCryptoKey(standIn.masterKey);
+
+    await createDatabase(cryptoKey, standIn.url, "retry");
+    await createCollection(cryptoKey, standIn.url, "retry", "items");
+
+    // The intervals alone are far too short to outlast the throttling,
+    // so each write only succeeds by honouring the retry-after hint.
+    const retryPolicy = { retryIntervalsInMilliseconds: [1], maxAttempts: 3 };
+
+    for (let i = 0; i < 3; i++) {
+      await createDocument(
+        cryptoKey,
+        standIn.url,
+        "retry",
+        "items",
+        "p",
+        { id: `doc${i}` },
+        { retryPolicy },
+      );
+    }
+
+    await assertRejects(
+      () =>
+        createDocument(
+          cryptoKey,
+          standIn.url,
+          "retry",
+          "items",
+          "p",
+          { id: "doc3" },
+          { retryPolicy: { maxTotalWaitMilliseconds: 0 } },
+        ),
+      CosmosThrottledError,
+    );
+  } finally {
+    await standIn.close();
+  }
+});
+
+Deno.test("Only repeat non-idempotent requests after a timeout if permitted.", async () => {
+  let requestCount = 0;
+
+  const server = Deno.serve({
+    hostname: "127.0.0.1",
+    port: 0,
+    onListen: () => {},
+  }, async (request) => {
+    requestCount++;
+    await request.body?.cancel();
+    return new Response("Request timed out.", { status: 408 });
+  });
+
+  try {
+    const url = `http://127.0.0.1:${server.addr.port}`;
+    const cryptoKey = await convertCosmosKeyToCryptoKey(btoa("key"));
+    const retryPolicy = { retryIntervalsInMilliseconds: [1], maxAttempts: 3 };
+
+    await assertRejects(
+      () =>
+        createDocument(cryptoKey, url, "db", "items", "p", { id: "doc" }, {
+          retryPolicy,
+        }),
+      CosmosTransitoryError,
+    );
+
+    assertEquals(requestCount, 1);
+
+    requestCount = 0;
+
+    await assertRejects(
+      () =>
+        createDocument(cryptoKey, url, "db", "items", "p", { id: "doc" }, {
+          retryPolicy: { ...retryPolicy, retryNonIdempotentRequests: true },
+        }),
+      CosmosTransitoryError,
+    );
+
+    assertEquals(requestCount, 3);
+
+    requestCount = 0;
+
+    await assertRejects(
+      () =>
+        getDocument(cryptoKey, url, "db", "items", "p", "doc", {
+          retryPolicy,
+        }),
+      CosmosTransitoryError,
+    );
+
+    assertEquals(requestCount, 3);
+  } finally {
+    await server.shutdown();
+  }
+});
+
+Deno.test("Apply the retry policy of a client to every operation.", async () => {
+  let requestCount = 0;
+
+  const server = Deno.serve({
+    hostname: "127.0.0.1",
+    port: 0,
+    onListen: () => {},
+  }, async (request) => {
+    requestCount++;
+    await request.body?.cancel();
+    return new Response("Service unavailable.", { status: 503 });
+  });
+
+  try {
+    const url = `http://127.0.0.1:${server.addr.port}`;
+    const cryptoKey = await convertCosmosKeyToCryptoKey(btoa("key"));
+    const client = createCosmosClient(cryptoKey, url, {
+      retryPolicy: { retryIntervalsInMilliseconds: [1], maxAttempts: 2 },
+    });
+
+    const operations = [
+      () => client.listDatabases(),
+      () => client.database("db").listCollections(),
+      () => client.database("db").getOffer(),
+      () => client.database("db").listUsers(),
+      () => client.database("db").container("items").getCollection(),
+      () => client.database("db").container("items").deleteCollection(),
+    ];
+
+    for (const operation of operations) {
+      requestCount = 0;
+      await assertRejects(operation, CosmosTransitoryError);
+      assertEquals(requestCount, 2);
+    }
+
+    requestCount = 0;
+
+    await assertRejects(
+      () =>
+        client.listDatabases({
+          retryPolicy: { retryIntervalsInMilliseconds: [1], maxAttempts: 3 },
+        }),
+      CosmosTransitoryError,
+    );
+
+    assertEquals(requestCount, 3);
+  } finally {
+    await server.shutdown();
+  }
+});
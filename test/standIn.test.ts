@@ -0,0 +1,157 @@
+import { assertEquals, assertRejects } from "../deps.ts";
+import {
+  convertCosmosKeyToCryptoKey,
+  createCollection,
+  createDatabase,
+  createDocument,
+  generateCosmosReqHeaders,
+  listDatabases,
+  queryDocumentsGateway,
+} from "../src/index.ts";
+import { startCosmosStandIn } from "../standIn/mod.ts";
+import { executeCosmosQuery } from "../standIn/executeCosmosQuery.ts";
+
+Deno.test("Stand-in rejects requests signed with the wrong key.", async () => {
+  const standIn = await startCosmosStandIn();
+  const otherStandIn = await startCosmosStandIn();
+
+  try {
+    const wrongKey = await convertCosmosKeyToCryptoKey(otherStandIn.masterKey);
+
+    await assertRejects(
+      () => listDatabases(wrongKey, standIn.url),
+      Error,
+      "The input authorization token can't serve the request",
+    );
+  } finally {
+    await standIn.close();
+    await otherStandIn.close();
+  }
+});
+
+Deno.test("Stand-in rejects requests with an expired signature.", async () => {
+  const standIn = await startCosmosStandIn();
+
+  try {
+    const cryptoKey = await convertCosmosKeyToCryptoKey(standIn.masterKey);
+
+    const reqHeaders = await generateCosmosReqHeaders({
+      key: cryptoKey,
+      method: "GET",
+      resourceType: "dbs",
+      date: new Date(Date.now() - 60 * 60 * 1000),
+    });
+
+    const response = await fetch(`${standIn.url}/dbs`, {
+      headers: {
+        Authorization: reqHeaders.authorizationHeader,
+        "x-ms-date": reqHeaders.xMsDateHeader,
+        "x-ms-version": reqHeaders.xMsVersion,
+      },
+    });
+
+    assertEquals(response.status, 403);
+    assertEquals(
+      (await response.json()).message.includes(
+        "authorization token is not valid at the current time",
+      ),
+      true,
+    );
+  } finally {
+    await standIn.close();
+  }
+});
+
+Deno.test("Stand-in pages query results using continuation tokens.", async () => {
+  const standIn = await startCosmosStandIn({ pageSize: 2 });
+
+  try {
+    const cryptoKey = await convertCosmosKeyToCryptoKey(standIn.masterKey);
+
+    await createDatabase(cryptoKey, standIn.url, "paging");
+    await createCollection(cryptoKey, standIn.url, "paging", "items");
+
+    for (let i = 0; i < 5; i++) {
+      await createDocument(
+        cryptoKey,
+        standIn.url,
+        "paging",
+        "items",
+        "_central",
+        { id: `item${i}`, index: i },
+        {},
+      );
+    }
+
+    const queryResult = await queryDocumentsGateway(
+      cryptoKey,
+      standIn.url,
+      "paging",
+      "items",
+      "_central",
+      "SELECT VALUE d.index FROM Docs d ORDER BY d.index DESC",
+      [],
+      {},
+    );
+
+    assertEquals(queryResult.records, [4, 3, 2, 1, 0]);
+  } finally {
+    await standIn.close();
+  }
+});
+
+Deno.test("Stand-in evaluates filters, projections and aggregates.", () => {
+  const docs = [
+    { id: "a", city: "Bournemouth", size: 3, tags: ["x"] },
+    { id: "b", city: "Poole", size: 5 },
+    { id: "c", city: "Bournemouth", size: 7, tags: ["y"] },
+  ];
+
+  assertEquals(
+    executeCosmosQuery(
+      "SELECT d.id, d.size * 2 AS doubled FROM Docs d WHERE d.city = @city",
+      [{ name: "@city", value: "Bournemouth" }],
+      docs,
+    ),
+    [{ id: "a", doubled: 6 }, { id: "c", doubled: 14 }],
+  );
+
+  assertEquals(
+    executeCosmosQuery(
+      "SELECT VALUE d.id FROM d WHERE ARRAY_CONTAINS(d.tags, 'y') OR d.size < 4",
+      [],
+      docs,
+    ),
+    ["a", "c"],
+  );
+
+  assertEquals(
+    executeCosmosQuery(
+      "SELECT d.city, COUNT(1) AS total, MAX(d.size) AS largest FROM Docs d GROUP BY d.city",
+      [],
+      docs,
+    ),
+    [
+      { city: "Bournemouth", total: 2, largest: 7 },
+      { city: "Poole", total: 1, largest: 5 },
+    ],
+  );
+
+  assertEquals(
+    executeCosmosQuery(
+      "SELECT VALUE AVG(d.size) FROM d WHERE d.size > 9",
+      [],
+      docs,
+    ),
+    [],
+  );
+
+  assertEquals(
+    executeCosmosQuery(
+      "SELECT DISTINCT VALUE d.city FROM d ORDER BY d.city OFFSET 1 LIMIT 5",
+      [],
+      docs,
+    ),
+    ["Poole"],
+  );
+});
@@ -0,0 +1,123 @@
+import { assertEquals, assertRejects } from "../deps.ts";
+import {
+  convertCosmosKeyToCryptoKey,
+  createCollection,
+  createDatabase,
+  createStoredProcedure,
+  deleteStoredProcedure,
+  executeStoredProcedure,
+  getDocument,
+  listStoredProcedures,
+  replaceStoredProcedure,
+} from "../src/index.ts";
+import { startCosmosStandIn } from "../standIn/mod.ts";
+
+const addOrderSource = `function addOrder(orderId, lines) {
+  var collection = getContext().getCollection();
+  var total = 0;
+
+  lines.forEach(function (line) {
+    total += line.price;
+    collection.createDocument(collection.getSelfLink(), {
+      id: orderId + "-" + line.sku,
+      partitionKey: "orders",
+      price: line.price,
+    });
+  });
+
+  console.log("Added " + lines.length + " lines");
+  getContext().getResponse().setBody({ orderId: orderId, total: total });
+}`;
+
+Deno.test("Manage and execute stored procedures.", async () => {
+  const standIn = await startCosmosStandIn({ partitionKeyRangeCount: 2 });
+
+  try {
+    const cryptoKey = await convertCosmosKeyToCryptoKey(standIn.masterKey);
+
+    await createDatabase(cryptoKey, standIn.url, "scripts");
+    await createCollection(cryptoKey, standIn.url, "scripts", "orders");
+
+    const created = await createStoredProcedure(
+      cryptoKey,
+      standIn.url,
+      "scripts",
+      "orders",
+      "addOrder",
+      "function addOrder() {}",
+    );
+
+    assertEquals(created.id, "addOrder");
+
+    await replaceStoredProcedure(
+      cryptoKey,
+      standIn.url,
+      "scripts",
+      "orders",
+      "addOrder",
+      addOrderSource,
+    );
+
+    const storedProcedures = await listStoredProcedures(
+      cryptoKey,
+      standIn.url,
+      "scripts",
+      "orders",
+    );
+
+    assertEquals(storedProcedures.map((s) => s.body), [addOrderSource]);
+
+    const executeResult = await executeStoredProcedure(
+      cryptoKey,
+      standIn.url,
+      "scripts",
+      "orders",
+      "addOrder",
+      "orders",
+      ["order1", [{ sku: "a", price: 3 }, { sku: "b", price: 4 }]],
+      { enableScriptLogging: true },
+    );
+
+    assertEquals(executeResult.body, { orderId: "order1", total: 7 });
+    assertEquals(executeResult.scriptLog, "Added 2 lines");
+    assertEquals(typeof executeResult.sessionToken, "string");
+
+    // A failure part way through rolls back all of the changes.
+    await assertRejects(() =>
+      executeStoredProcedure(
+        cryptoKey,
+        standIn.url,
+        "scripts",
+        "orders",
+        "addOrder",
+        "orders",
+        ["order2", [{ sku: "a", price: 1 }, { sku: "a", price: 1 }]],
+        {},
+      )
+    );
+
+    const getDocResult = await getDocument(
+      cryptoKey,
+      standIn.url,
+      "scripts",
+      "orders",
+      "orders",
+      "order2-a",
+      {},
+    );
+
+    assertEquals(getDocResult.doc, null);
+
+    const deleteResult = await deleteStoredProcedure(
+      cryptoKey,
+      standIn.url,
+      "scripts",
+      "orders",
+      "addOrder",
+    );
+
+    assertEquals(deleteResult.didDelete, true);
+  } finally {
+    await standIn.close();
+  }
+});
@@ -0,0 +1,339 @@
+import { assert, assertEquals } from "../deps.ts";
+import {
+  bulkWriteDocuments,
+  convertCosmosKeyToCryptoKey,
+  CosmosSpan,
+  CosmosSpanAttributeValue,
+  CosmosSpanStatus,
+  CosmosTraceApi,
+  CosmosTracer,
+  createCollection,
+  createDatabase,
+  createDocument,
+  getCollection,
+  getOffer,
+  queryDocumentsContainersDirect,
+  queryDocumentsContainersDirectPages,
+  queryDocumentsGateway,
+  queryDocumentsGatewayPages,
+  readChangeFeed,
+  readChangeFeedPages,
+  setCosmosTracer,
+} from "../src/index.ts";
+import { startCosmosStandIn } from "../standIn/mod.ts";
+
+/**
+ * A span that is held in memory so that it can be inspected.
+ */
+interface InMemorySpan extends CosmosSpan {
+  name: string;
+  attributes: Record<string, CosmosSpanAttributeValue>;
+  parent?: InMemorySpan;
+  status?: CosmosSpanStatus;
+  exceptions: Error[];
+  isEnded: boolean;
+}
+
+/**
+ * A context that holds the active span, if any.
+ */
+interface InMemoryContext {
+  span?: InMemorySpan;
+}
+
+let activeContext: InMemoryContext = {};
+
+const inMemoryTraceApi: CosmosTraceApi = {
+  context: { active: () => activeContext },
+  trace: {
+    setSpan: (context, span) => ({
+      ...context as InMemoryContext,
+      span: span as InMemorySpan,
+    }),
+  },
+};
+
+function createInMemoryTracer(spans: InMemorySpan[]): CosmosTracer {
+  return {
+    startSpan: (name, options, context) => {
+      const span: InMemorySpan = {
+        name,
+        attributes: { ...options.attributes },
+        parent: (context as InMemoryContext | undefined)?.span,
+        exceptions: [],
+        isEnded: false,
+        setAttribute: (key, value) => span.attributes[key] = value,
+        setStatus: (status) => span.status = status,
+        recordException: (exception) => span.exceptions.push(exception),
+        end: () => span.isEnded = true,
+      };
+
+      spans.push(span);
+
+      return span;
+    },
+  };
+}
+
+Deno.test("Trace operations and each attempt as a child span.", async () => {
+  const standIn = await startCosmosStandIn({ requestUnitsPerSecond: 1 });
+  const spans: InMemorySpan[] = [];
+
+  setCosmosTracer(createInMemoryTracer(spans), inMemoryTraceApi);
+
+  try {
+    const cryptoKey = await convertCosmosKeyToCryptoKey(standIn.masterKey);
+
+    await createDatabase(cryptoKey, standIn.url, "traced");
+    await createCollection(cryptoKey, standIn.url, "traced", "items");
+
+    await createDocument(
+      cryptoKey,
+      standIn.url,
+      "traced",
+      "items",
+      "p",
+      { id: "doc0" },
+      {},
+    );
+
+    spans.length = 0;
+
+    // The throughput has been consumed, so the document is
+    // throttled at first and then retried.
+    await createDocument(
+      cryptoKey,
+      standIn.url,
+      "traced",
+      "items",
+      "p",
+      { id: "doc1" },
+      {},
+    );
+
+    const [operation, ...attempts] = spans;
+
+    assertEquals(operation.name, "createDocument items");
+    assertEquals(operation.attributes["db.system"], "cosmosdb");
+    assertEquals(operation.attributes["db.operation.name"], "createDocument");
+    assertEquals(operation.attributes["db.namespace"], "traced");
+    assertEquals(operation.attributes["db.collection.name"], "items");
+    assertEquals(operation.attributes["db.response.status_code"], "201");
+    assertEquals(operation.status, undefined);
+    assert(operation.isEnded);
+
+    assertEquals(
+      attempts.map((a) => [
+        a.name,
+        a.attributes["http.response.status_code"],
+        a.attributes["http.request.resend_count"],
+      ]),
+      [["POST", 429, undefined], ["POST", 201, 1]],
+    );
+
+    for (const attempt of attempts) {
+      assertEquals(attempt.parent, operation);
+      assert(attempt.isEnded);
+    }
+
+    assertEquals(
+      operation.attributes["db.cosmosdb.request_charge"],
+      attempts.reduce(
+        (sum, a) =>
+          sum + (a.attributes["db.cosmosdb.request_charge"] as number),
+        0,
+      ),
+    );
+
+    spans.length = 0;
+
+    await getCollection(cryptoKey, standIn.url, "traced", "missing").catch(
+      () => {},
+    );
+
+    assertEquals(spans[0].name, "getCollection missing");
+    assertEquals(spans[0].status?.code, 2);
+    assertEquals(spans[0].exceptions.length, 1);
+    assert(spans[0].isEnded);
+  } finally {
+    setCosmosTracer(null);
+    await standIn.close();
+  }
+});
+
+Deno.test("Trace operations that send several requests as a single span.", async () => {
+  const standIn = await startCosmosStandIn({
+    partitionKeyRangeCount: 3,
+    pageSize: 1,
+  });
+
+  const spans: InMemorySpan[] = [];
+
+  setCosmosTracer(createInMemoryTracer(spans), inMemoryTraceApi);
+
+  try {
+    const cryptoKey = await convertCosmosKeyToCryptoKey(standIn.masterKey);
+
+    await createDatabase(cryptoKey, standIn.url, "traced");
+    await createCollection(cryptoKey, standIn.url, "traced", "items");
+
+    const operations: [string, () => Promise<unknown>][] = [
+      ["bulkWriteDocuments", () =>
+        bulkWriteDocuments(
+          cryptoKey,
+          standIn.url,
+          "traced",
+          "items",
+          "create",
+          [0, 1, 2, 3].map((i) => ({ id: `doc${i}`, partitionKey: `p${i}` })),
+          {},
+        )],
+      ["queryDocumentsContainersDirect", () =>
+        queryDocumentsContainersDirect(
+          cryptoKey,
+          standIn.url,
+          "traced",
+          "items",
+          "SELECT * FROM d",
+          [],
+          "concatArrays",
+          {},
+        )],
+      ["queryDocumentsContainersDirectPages", async () => {
+        for await (
+          const _page of queryDocumentsContainersDirectPages(
+            cryptoKey,
+            standIn.url,
+            "traced",
+            "items",
+            "SELECT * FROM d",
+            [],
+            {},
+          )
+        ) {
+          // Stopping early still ends the span of the query.
+          break;
+        }
+      }],
+      ["queryDocumentsGateway", () =>
+        queryDocumentsGateway(
+          cryptoKey,
+          standIn.url,
+          "traced",
+          "items",
+          "p0",
+          "SELECT * FROM d",
+          [],
+          {},
+        )],
+      ["queryDocumentsGatewayPages", async () => {
+        for await (
+          const _page of queryDocumentsGatewayPages(
+            cryptoKey,
+            standIn.url,
+            "traced",
+            "items",
+            "p0",
+            "SELECT * FROM d",
+            [],
+            {},
+          )
+        ) {
+          // Reads every page.
+        }
+      }],
+      [
+        "readChangeFeed",
+        () => readChangeFeed(cryptoKey, standIn.url, "traced", "items", {}),
+      ],
+      ["readChangeFeedPages", async () => {
+        for await (
+          const _page of readChangeFeedPages(
+            cryptoKey,
+            standIn.url,
+            "traced",
+            "items",
+            {},
+          )
+        ) {
+          // Reads every page.
+        }
+      }],
+      ["getOffer", () => getOffer(cryptoKey, standIn.url, "traced", "items")],
+    ];
+
+    for (const [name, operation] of operations) {
+      spans.length = 0;
+
+      await operation();
+
+      const [root, ...children] = spans;
+
+      assertEquals(root.name, `${name} items`);
+      assertEquals(root.parent, undefined);
+      assertEquals(root.attributes["db.operation.name"], name);
+      assertEquals(root.attributes["db.namespace"], "traced");
+      assertEquals(root.attributes["db.collection.name"], "items");
+      assert(root.isEnded);
+      assert(children.length > 0);
+
+      for (const child of children) {
+        assertEquals(child.parent, root);
+        assert(child.isEnded);
+      }
+    }
+  } finally {
+    setCosmosTracer(null);
+    await standIn.close();
+  }
+});
+
+Deno.test("Trace operations as children of the active span of the caller.", async () => {
+  const standIn = await startCosmosStandIn();
+  const spans: InMemorySpan[] = [];
+  const tracer = createInMemoryTracer(spans);
+
+  setCosmosTracer(tracer, inMemoryTraceApi);
+
+  try {
+    const cryptoKey = await convertCosmosKeyToCryptoKey(standIn.masterKey);
+
+    await createDatabase(cryptoKey, standIn.url, "traced");
+    await createCollection(cryptoKey, standIn.url, "traced", "items");
+
+    spans.length = 0;
+
+    const caller = tracer.startSpan("handleRequest", {
+      kind: 2,
+      attributes: {},
+    }) as InMemorySpan;
+
+    activeContext = { span: caller };
+
+    const created = createDocument(
+      cryptoKey,
+      standIn.url,
+      "traced",
+      "items",
+      "p",
+      { id: "doc0" },
+      {},
+    );
+
+    // The context is captured when the operation starts, so the
+    // caller can move on to another context while it is in flight.
+    activeContext = {};
+
+    await created;
+
+    const [, operation, attempt] = spans;
+
+    assertEquals(operation.name, "createDocument items");
+    assertEquals(operation.parent, caller);
+    assertEquals(attempt.parent, operation);
+  } finally {
+    activeContext = {};
+    setCosmosTracer(null);
+    await standIn.close();
+  }
+});
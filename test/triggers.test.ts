@@ -0,0 +1,227 @@
+import { assertEquals, assertRejects } from "../deps.ts";
+import {
+  convertCosmosKeyToCryptoKey,
+  createCollection,
+  createDatabase,
+  createDocument,
+  createTrigger,
+  createUserDefinedFunction,
+  deleteDocument,
+  deleteTrigger,
+  deleteUserDefinedFunction,
+  getDocument,
+  listTriggers,
+  listUserDefinedFunctions,
+  replaceDocument,
+  replaceTrigger,
+  replaceUserDefinedFunction,
+} from "../src/index.ts";
+import { startCosmosStandIn } from "../standIn/mod.ts";
+
+const stampSource = `function stamp() {
+  var request = getContext().getRequest();
+  var doc = request.getBody();
+  doc.stamped = true;
+  request.setBody(doc);
+}`;
+
+const auditSource = `function audit() {
+  var collection = getContext().getCollection();
+  var doc = getContext().getResponse().getBody();
+  collection.upsertDocument(collection.getSelfLink(), {
+    id: "audit-" + doc.id,
+    partitionKey: doc.partitionKey,
+  });
+}`;
+
+const rejectSource = `function reject() {
+  throw new Error("Rejected");
+}`;
+
+Deno.test("Manage triggers and user-defined functions.", async () => {
+  const standIn = await startCosmosStandIn();
+
+  try {
+    const cryptoKey = await convertCosmosKeyToCryptoKey(standIn.masterKey);
+
+    await createDatabase(cryptoKey, standIn.url, "scripts");
+    await createCollection(cryptoKey, standIn.url, "scripts", "items");
+
+    const trigger = await createTrigger(
+      cryptoKey,
+      standIn.url,
+      "scripts",
+      "items",
+      "stamp",
+      {
+        body: "function stamp() {}",
+        triggerType: "Pre",
+        triggerOperation: "All",
+      },
+    );
+
+    assertEquals(trigger.id, "stamp");
+
+    await replaceTrigger(cryptoKey, standIn.url, "scripts", "items", "stamp", {
+      body: stampSource,
+      triggerType: "Pre",
+      triggerOperation: "Create",
+    });
+
+    const triggers = await listTriggers(
+      cryptoKey,
+      standIn.url,
+      "scripts",
+      "items",
+    );
+
+    assertEquals(
+      triggers.map((t) => [t.body, t.triggerType, t.triggerOperation]),
+      [[stampSource, "Pre", "Create"]],
+    );
+
+    const deleteTriggerResult = await deleteTrigger(
+      cryptoKey,
+      standIn.url,
+      "scripts",
+      "items",
+      "stamp",
+    );
+
+    assertEquals(deleteTriggerResult.didDelete, true);
+
+    const udf = await createUserDefinedFunction(
+      cryptoKey,
+      standIn.url,
+      "scripts",
+      "items",
+      "double",
+      "function double(x) { return x; }",
+    );
+
+    assertEquals(udf.id, "double");
+
+    await replaceUserDefinedFunction(
+      cryptoKey,
+      standIn.url,
+      "scripts",
+      "items",
+      "double",
+      "function double(x) { return x * 2; }",
+    );
+
+    const udfs = await listUserDefinedFunctions(
+      cryptoKey,
+      standIn.url,
+      "scripts",
+      "items",
+    );
+
+    assertEquals(udfs.map((u) => u.body), [
+      "function double(x) { return x * 2; }",
+    ]);
+
+    const deleteUdfResult = await deleteUserDefinedFunction(
+      cryptoKey,
+      standIn.url,
+      "scripts",
+      "items",
+      "double",
+    );
+
+    assertEquals(deleteUdfResult.didDelete, true);
+  } finally {
+    await standIn.close();
+  }
+});
+
+Deno.test("Run pre-triggers and post-triggers when writing documents.", async () => {
+  const standIn = await startCosmosStandIn({ partitionKeyRangeCount: 2 });
+
+  try {
+    const cryptoKey = await convertCosmosKeyToCryptoKey(standIn.masterKey);
+
+    await createDatabase(cryptoKey, standIn.url, "scripts");
+    await createCollection(cryptoKey, standIn.url, "scripts", "items");
+
+    await createTrigger(cryptoKey, standIn.url, "scripts", "items", "stamp", {
+      body: stampSource,
+      triggerType: "Pre",
+      triggerOperation: "Create",
+    });
+
+    await createTrigger(cryptoKey, standIn.url, "scripts", "items", "audit", {
+      body: auditSource,
+      triggerType: "Post",
+      triggerOperation: "All",
+    });
+
+    await createTrigger(cryptoKey, standIn.url, "scripts", "items", "reject", {
+      body: rejectSource,
+      triggerType: "Pre",
+      triggerOperation: "All",
+    });
+
+    await createDocument(
+      cryptoKey,
+      standIn.url,
+      "scripts",
+      "items",
+      "shelf",
+      { id: "book" },
+      { preTriggers: ["stamp"], postTriggers: ["audit"] },
+    );
+
+    const auditResult = await getDocument(
+      cryptoKey,
+      standIn.url,
+      "scripts",
+      "items",
+      "shelf",
+      "audit-book",
+      {},
+    );
+
+    assertEquals(auditResult.doc?.id, "audit-book");
+
+    // The stamp trigger only applies to creates.
+    await assertRejects(() =>
+      replaceDocument(
+        cryptoKey,
+        standIn.url,
+        "scripts",
+        "items",
+        "shelf",
+        { id: "book" },
+        { preTriggers: ["stamp"] },
+      )
+    );
+
+    // A failing trigger prevents the delete.
+    await assertRejects(() =>
+      deleteDocument(
+        cryptoKey,
+        standIn.url,
+        "scripts",
+        "items",
+        "shelf",
+        "book",
+        { preTriggers: ["reject"] },
+      )
+    );
+
+    const getDocResult = await getDocument(
+      cryptoKey,
+      standIn.url,
+      "scripts",
+      "items",
+      "shelf",
+      "book",
+      {},
+    );
+
+    assertEquals(getDocResult.doc?.stamped, true);
+  } finally {
+    await standIn.close();
+  }
+});
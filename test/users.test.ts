@@ -0,0 +1,248 @@
+import { assert, assertEquals, assertRejects } from "../deps.ts";
+import {
+  convertCosmosKeyToCryptoKey,
+  createCollection,
+  createDatabase,
+  createDocument,
+  createPermission,
+  createResourceTokenAuthorization,
+  createUser,
+  deleteDocument,
+  deleteUser,
+  getDocument,
+  getPermission,
+  listUsers,
+  queryDocumentsGateway,
+} from "../src/index.ts";
+import { startCosmosStandIn } from "../standIn/mod.ts";
+
+Deno.test("Manage users and permissions.", async () => {
+  const standIn = await startCosmosStandIn();
+
+  try {
+    const cryptoKey = await convertCosmosKeyToCryptoKey(standIn.masterKey);
+
+    await createDatabase(cryptoKey, standIn.url, "shop");
+    await createCollection(cryptoKey, standIn.url, "shop", "orders");
+
+    const user = await createUser(cryptoKey, standIn.url, "shop", "partner");
+    assertEquals(user.id, "partner");
+
+    const users = await listUsers(cryptoKey, standIn.url, "shop");
+    assertEquals(users.map((u) => u.id), ["partner"]);
+
+    const created = await createPermission(
+      cryptoKey,
+      standIn.url,
+      "shop",
+      "partner",
+      "readOrders",
+      {
+        permissionMode: "Read",
+        collectionName: "orders",
+        partition: "contoso",
+      },
+      { expirySeconds: 600 },
+    );
+
+    assertEquals(created.resource, "dbs/shop/colls/orders");
+    assertEquals(created.resourcePartitionKey, ["contoso"]);
+    assert(created._token.startsWith("type=resource"));
+
+    const read = await getPermission(
+      cryptoKey,
+      standIn.url,
+      "shop",
+      "partner",
+      "readOrders",
+    );
+
+    assertEquals(read.permissionMode, "Read");
+    assert(read._token.startsWith("type=resource"));
+
+    await createPermission(
+      cryptoKey,
+      standIn.url,
+      "shop",
+      "partner",
+      "writeOrder",
+      {
+        permissionMode: "All",
+        collectionName: "orders",
+        documentId: "order1",
+      },
+    );
+
+    const document = await getPermission(
+      cryptoKey,
+      standIn.url,
+      "shop",
+      "partner",
+      "writeOrder",
+    );
+
+    assertEquals(document.resource, "dbs/shop/colls/orders/docs/order1");
+    assertEquals(document.resourcePartitionKey, undefined);
+
+    const deleteResult = await deleteUser(
+      cryptoKey,
+      standIn.url,
+      "shop",
+      "partner",
+    );
+
+    assertEquals(deleteResult.didDelete, true);
+
+    await assertRejects(() =>
+      getPermission(cryptoKey, standIn.url, "shop", "partner", "readOrders")
+    );
+  } finally {
+    await standIn.close();
+  }
+});
+
+Deno.test("Authorize requests with resource tokens.", async () => {
+  const standIn = await startCosmosStandIn({ partitionKeyRangeCount: 2 });
+
+  try {
+    const cryptoKey = await convertCosmosKeyToCryptoKey(standIn.masterKey);
+
+    await createDatabase(cryptoKey, standIn.url, "shop");
+    await createCollection(cryptoKey, standIn.url, "shop", "orders");
+    await createUser(cryptoKey, standIn.url, "shop", "partner");
+
+    const partitionPermission = await createPermission(
+      cryptoKey,
+      standIn.url,
+      "shop",
+      "partner",
+      "contosoOrders",
+      {
+        permissionMode: "All",
+        collectionName: "orders",
+        partition: "contoso",
+      },
+    );
+
+    const documentPermission = await createPermission(
+      cryptoKey,
+      standIn.url,
+      "shop",
+      "partner",
+      "sharedOrder",
+      {
+        permissionMode: "Read",
+        collectionName: "orders",
+        documentId: "shared",
+      },
+    );
+
+    await createDocument(
+      cryptoKey,
+      standIn.url,
+      "shop",
+      "orders",
+      "fabrikam",
+      { id: "shared" },
+      {},
+    );
+
+    const authorization = createResourceTokenAuthorization([
+      partitionPermission,
+      documentPermission,
+    ]);
+
+    assertEquals(
+      await authorization.getAuthorizationHeader({
+        method: "GET",
+        resourceType: "docs",
+        resourceLink: "dbs/shop/colls/orders/docs/shared",
+        date: new Date(),
+      }),
+      encodeURIComponent(documentPermission._token),
+    );
+
+    await createDocument(
+      authorization,
+      standIn.url,
+      "shop",
+      "orders",
+      "contoso",
+      { id: "order1" },
+      {},
+    );
+
+    const queryResult = await queryDocumentsGateway(
+      authorization,
+      standIn.url,
+      "shop",
+      "orders",
+      "contoso",
+      "SELECT VALUE d.id FROM Docs d",
+      [],
+      {},
+    );
+
+    assertEquals(queryResult.records, ["order1"]);
+
+    // The document permission is the most specific, and allows reads.
+    const getDocResult = await getDocument(
+      authorization,
+      standIn.url,
+      "shop",
+      "orders",
+      "fabrikam",
+      "shared",
+      {},
+    );
+
+    assertEquals(getDocResult.doc?.id, "shared");
+
+    await assertRejects(() =>
+      deleteDocument(
+        authorization,
+        standIn.url,
+        "shop",
+        "orders",
+        "fabrikam",
+        "shared",
+        {},
+      )
+    );
+
+    await assertRejects(() =>
+      createDocument(
+        authorization,
+        standIn.url,
+        "shop",
+        "orders",
+        "fabrikam",
+        { id: "order2" },
+        {},
+      )
+    );
+
+    // None of the tokens apply to the database.
+    await assertRejects(
+      () => listUsers(authorization, standIn.url, "shop"),
+      Error,
+      "None of the resource tokens grant access",
+    );
+
+    await deleteUser(cryptoKey, standIn.url, "shop", "partner");
+
+    await assertRejects(() =>
+      getDocument(
+        authorization,
+        standIn.url,
+        "shop",
+        "orders",
+        "contoso",
+        "order1",
+        {},
+      )
+    );
+  } finally {
+    await standIn.close();
+  }
+});
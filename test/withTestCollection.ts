@@ -0,0 +1,48 @@
+import {
+  convertCosmosKeyToCryptoKey,
+  createCollection,
+  createDocument,
+  deleteCollection,
+} from "../src/index.ts";
+
+/**
+ * Creates a collection with a unique name in the deno database,
+ * seeds it with the given documents and runs a test against it.
+ * The collection is deleted once the test completes, so tests that
+ * depend on specific documents can run against the live account
+ * without relying on (or disturbing) its fixtures.
+ * @param url The url to the Cosmos account.
+ * @param key The master key of the Cosmos account.
+ * @param documents The documents to create, each of which is stored
+ * in the logical partition named by its partitionKey property.
+ * @param test The test to run, which is passed the collection name.
+ */
+export async function withTestCollection(
+  url: string,
+  key: string,
+  documents: ({ id: string; partitionKey: string } & Record<string, unknown>)[],
+  test: (collectionName: string) => Promise<void>,
+): Promise<void> {
+  const cryptoKey = await convertCosmosKeyToCryptoKey(key);
+  const collectionName = `test-${crypto.randomUUID()}`;
+
+  await createCollection(cryptoKey, url, "deno", collectionName);
+
+  try {
+    for (const document of documents) {
+      await createDocument(
+        cryptoKey,
+        url,
+        "deno",
+        collectionName,
+        document.partitionKey,
+        document,
+        {},
+      );
+    }
+
+    await test(collectionName);
+  } finally {
+    await deleteCollection(cryptoKey, url, "deno", collectionName);
+  }
+}